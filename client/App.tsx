@@ -8,6 +8,10 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Valuations from "./pages/Valuations";
+import ValuationDetail from "./pages/ValuationDetail";
+import CompareValuations from "./pages/CompareValuations";
+import SharedReport from "./pages/SharedReport";
 import { ModernWizardApp } from "@/components/modern-wizard/ModernWizardApp";
 
 const queryClient = new QueryClient();
@@ -21,6 +25,10 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/wizard" element={<ModernWizardApp />} />
+          <Route path="/valuations" element={<Valuations />} />
+          <Route path="/valuations/compare" element={<CompareValuations />} />
+          <Route path="/valuations/:id" element={<ValuationDetail />} />
+          <Route path="/r/:shareId" element={<SharedReport />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
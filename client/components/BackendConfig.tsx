@@ -1,75 +1,97 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Settings, Check, AlertTriangle, Globe, Monitor } from "lucide-react";
+import {
+  Settings,
+  Check,
+  Cloud,
+  Globe,
+  Loader2,
+  Monitor,
+  Server,
+  XCircle,
+} from "lucide-react";
+import {
+  backendSettings,
+  listBackends,
+  saveBackendSettings,
+  selectBackend,
+  selectedBackendId,
+  type BackendCapabilities,
+  type BackendSettings,
+  type ValuationBackend,
+} from "@/lib/backends";
+import { FxRatesConfig } from "./FxRatesConfig";
 
 interface BackendConfigProps {
-  onBackendChange?: (url: string) => void;
+  currentBackendMode?: string;
+  onBackendChange?: (id: string) => void;
 }
 
-export function BackendConfig({ onBackendChange }: BackendConfigProps) {
+// Look of the registered backends; others get the server styling
+const backendStyles = {
+  server: {
+    icon: Server,
+    color: "text-indigo-600 bg-indigo-50 border-indigo-200",
+  },
+  fastapi: { icon: Monitor, color: "text-blue-600 bg-blue-50 border-blue-200" },
+  aws: { icon: Cloud, color: "text-orange-600 bg-orange-50 border-orange-200" },
+  demo: { icon: Globe, color: "text-green-600 bg-green-50 border-green-200" },
+};
+
+const capabilityLabels: Record<keyof BackendCapabilities, string> = {
+  streaming: "Streaming",
+  jobs: "Background jobs",
+  documents: "Documents",
+};
+
+type HealthStatus = "checking" | "healthy" | "unreachable";
+
+export function BackendConfig({
+  currentBackendMode,
+  onBackendChange,
+}: BackendConfigProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [customUrl, setCustomUrl] = useState("");
-  const [selectedMode, setSelectedMode] = useState<"local" | "custom" | "demo">(
-    "local",
+  const [selectedId, setSelectedId] = useState(selectedBackendId);
+  // Unsaved setting edits per backend
+  const [drafts, setDrafts] = useState<Record<string, BackendSettings>>(() =>
+    Object.fromEntries(
+      listBackends().map(({ id }) => [id, backendSettings(id)]),
+    ),
   );
+  const [health, setHealth] = useState<Record<string, HealthStatus>>({});
 
-  const backendOptions = [
-    {
-      mode: "local" as const,
-      name: "Local Development",
-      url: "http://127.0.0.1:8000",
-      description: "Connect to local FastAPI server",
-      icon: Monitor,
-      color: "text-blue-600 bg-blue-50 border-blue-200",
-    },
-    {
-      mode: "demo" as const,
-      name: "Demo Mode",
-      url: "demo",
-      description: "Use mock data for demonstration",
-      icon: Globe,
-      color: "text-green-600 bg-green-50 border-green-200",
-    },
-  ];
-
-  useEffect(() => {
-    const savedMode = localStorage.getItem("backendMode");
-    const savedUrl = localStorage.getItem("customBackendUrl");
-
-    // Auto-detect environment and suggest appropriate mode
-    const isDevelopment =
-      window.location.hostname === "localhost" ||
-      window.location.hostname === "127.0.0.1";
-
-    if (savedMode) {
-      setSelectedMode(savedMode as any);
-    } else {
-      // Default to demo mode for cloud deployments
-      setSelectedMode(isDevelopment ? "local" : "demo");
-    }
+  const updateDraft = (id: string, key: string, value: string) => {
+    setDrafts((current) => ({
+      ...current,
+      [id]: { ...current[id], [key]: value },
+    }));
+    setHealth((current) => ({ ...current, [id]: undefined }));
+  };
 
-    if (savedUrl) {
-      setCustomUrl(savedUrl);
-    }
-  }, []);
-
-  const handleModeChange = (
-    mode: "local" | "custom" | "demo",
-    url?: string,
-  ) => {
-    setSelectedMode(mode);
-    const finalUrl =
-      url ||
-      (mode === "custom"
-        ? customUrl
-        : backendOptions.find((o) => o.mode === mode)?.url || "");
-
-    localStorage.setItem("backendMode", mode);
-    if (mode === "custom") {
-      localStorage.setItem("customBackendUrl", customUrl);
+  const handleSelect = (backend: ValuationBackend) => {
+    if (backend.settings.length > 0) {
+      saveBackendSettings(backend.id, drafts[backend.id]);
     }
+    selectBackend(backend.id);
+    setSelectedId(backend.id);
+    onBackendChange?.(backend.id);
+  };
 
-    onBackendChange?.(finalUrl);
+  const handleTestConnection = async (backend: ValuationBackend) => {
+    setHealth((current) => ({ ...current, [backend.id]: "checking" }));
+    let healthy = false;
+    try {
+      healthy = await backend.health({
+        ...backend.defaults,
+        ...drafts[backend.id],
+      });
+    } catch (error) {
+      console.error(`${backend.name} health check failed:`, error);
+    }
+    setHealth((current) => ({
+      ...current,
+      [backend.id]: healthy ? "healthy" : "unreachable",
+    }));
   };
 
   return (
@@ -97,83 +119,125 @@ export function BackendConfig({ onBackendChange }: BackendConfigProps) {
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.9, opacity: 0 }}
               onClick={(e) => e.stopPropagation()}
-              className="bg-white rounded-2xl p-6 max-w-md w-full shadow-2xl"
+              className="bg-white rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto shadow-2xl"
             >
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">
                 Backend Configuration
               </h3>
+              {currentBackendMode && (
+                <p className="text-sm text-gray-500 mb-4">
+                  Currently using: {currentBackendMode}
+                </p>
+              )}
 
               <div className="space-y-3 mb-6">
-                {backendOptions.map((option) => (
-                  <button
-                    key={option.mode}
-                    onClick={() => handleModeChange(option.mode)}
-                    className={`w-full p-4 rounded-xl border-2 transition-all text-left ${
-                      selectedMode === option.mode
-                        ? option.color
-                        : "bg-gray-50 border-gray-200 hover:border-gray-300"
-                    }`}
-                  >
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        <option.icon className="w-5 h-5" />
-                        <div>
-                          <div className="font-medium">{option.name}</div>
-                          <div className="text-sm text-gray-600">
-                            {option.description}
-                          </div>
-                          <div className="text-xs text-gray-500 font-mono">
-                            {option.url}
+                {listBackends().map((backend) => {
+                  const { icon: Icon, color } =
+                    backendStyles[backend.id] ?? backendStyles.server;
+                  const selected = selectedId === backend.id;
+                  const status = health[backend.id];
+                  return (
+                    <div
+                      key={backend.id}
+                      className={`p-4 rounded-xl border-2 transition-all ${
+                        selected ? color : "bg-gray-50 border-gray-200"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          <Icon className="w-5 h-5" />
+                          <div>
+                            <div className="font-medium">{backend.name}</div>
+                            <div className="text-sm text-gray-600">
+                              {backend.description}
+                            </div>
                           </div>
                         </div>
+                        {selected && (
+                          <Check className="w-5 h-5 text-green-600" />
+                        )}
                       </div>
-                      {selectedMode === option.mode && (
-                        <Check className="w-5 h-5 text-green-600" />
-                      )}
-                    </div>
-                  </button>
-                ))}
-
-                {/* Custom URL Option */}
-                <div
-                  className={`p-4 rounded-xl border-2 ${
-                    selectedMode === "custom"
-                      ? "text-purple-600 bg-purple-50 border-purple-200"
-                      : "bg-gray-50 border-gray-200"
-                  }`}
-                >
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center space-x-3">
-                      <Globe className="w-5 h-5" />
-                      <div>
-                        <div className="font-medium">Custom Backend</div>
-                        <div className="text-sm text-gray-600">
-                          Connect to your own backend URL
-                        </div>
+
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {Object.entries(capabilityLabels)
+                          .filter(([capability]) =>
+                            Boolean(backend.capabilities[capability]),
+                          )
+                          .map(([capability, label]) => (
+                            <span
+                              key={capability}
+                              className="text-xs px-2 py-0.5 rounded-full bg-white/70 border border-gray-200 text-gray-600"
+                            >
+                              {label}
+                            </span>
+                          ))}
+                      </div>
+
+                      {backend.settings.map((setting) => (
+                        <label key={setting.key} className="block mt-3">
+                          <span className="text-xs text-gray-500">
+                            {setting.label}
+                          </span>
+                          <input
+                            type="url"
+                            value={drafts[backend.id]?.[setting.key] ?? ""}
+                            onChange={(e) =>
+                              updateDraft(
+                                backend.id,
+                                setting.key,
+                                e.target.value,
+                              )
+                            }
+                            placeholder={setting.placeholder}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+                          />
+                        </label>
+                      ))}
+
+                      <div className="flex items-center space-x-2 mt-3">
+                        <button
+                          onClick={() => handleSelect(backend)}
+                          disabled={backend.settings.some(
+                            ({ key }) => !drafts[backend.id]?.[key],
+                          )}
+                          className="py-1.5 px-3 bg-gray-900 text-white rounded-lg text-sm font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+                        >
+                          {selected && backend.settings.length > 0
+                            ? "Save"
+                            : selected
+                              ? "In use"
+                              : "Use"}
+                        </button>
+                        <button
+                          onClick={() => handleTestConnection(backend)}
+                          disabled={status === "checking"}
+                          className="py-1.5 px-3 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-100"
+                        >
+                          Test connection
+                        </button>
+                        {status === "checking" && (
+                          <Loader2 className="w-4 h-4 text-gray-500 animate-spin" />
+                        )}
+                        {status === "healthy" && (
+                          <span className="flex items-center text-xs text-green-700">
+                            <Check className="w-4 h-4 mr-1" />
+                            Reachable
+                          </span>
+                        )}
+                        {status === "unreachable" && (
+                          <span className="flex items-center text-xs text-red-600">
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Unreachable
+                          </span>
+                        )}
                       </div>
                     </div>
-                    {selectedMode === "custom" && (
-                      <Check className="w-5 h-5 text-green-600" />
-                    )}
-                  </div>
+                  );
+                })}
+              </div>
 
-                  <div className="space-y-2">
-                    <input
-                      type="url"
-                      value={customUrl}
-                      onChange={(e) => setCustomUrl(e.target.value)}
-                      placeholder="https://your-backend.com"
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
-                    />
-                    <button
-                      onClick={() => handleModeChange("custom")}
-                      disabled={!customUrl}
-                      className="w-full py-2 px-4 bg-purple-600 text-white rounded-lg text-sm font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
-                    >
-                      Use Custom URL
-                    </button>
-                  </div>
-                </div>
+              <div className="mb-6">
+                <FxRatesConfig />
               </div>
 
               {/* Environment-specific help */}
@@ -196,7 +260,10 @@ export function BackendConfig({ onBackendChange }: BackendConfigProps) {
                     <Monitor className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
                     <div className="text-sm text-green-800">
                       <strong>Local Development:</strong> You can connect
-                      directly to your FastAPI server running on localhost:8000.
+                      directly to your FastAPI server running on localhost:8000,
+                      or start the server with MOCK_FASTAPI=true and set the
+                      FastAPI base URL to /mock-fastapi to use the built-in
+                      stand-in.
                     </div>
                   </div>
                 </div>
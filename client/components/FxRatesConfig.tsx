@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Coins, RotateCcw } from "lucide-react";
+import {
+  BASE_CURRENCY,
+  DEFAULT_FX_RATES,
+  SUPPORTED_CURRENCIES,
+  type FxRates,
+} from "@shared/currency";
+import { loadFxRates, resetFxRates, saveFxRates } from "@/lib/fxRates";
+
+// Editable FX table used to convert reported financials to the base currency
+export function FxRatesConfig() {
+  const [rates, setRates] = useState<FxRates>(loadFxRates);
+  const [saved, setSaved] = useState(false);
+
+  const handleRateChange = (code: string, value: string) => {
+    setSaved(false);
+    setRates((prev) => ({ ...prev, [code]: Number(value) }));
+  };
+
+  const isValid = Object.values(rates).every(
+    (rate) => Number.isFinite(rate) && rate > 0,
+  );
+
+  const handleSave = () => {
+    saveFxRates(rates);
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    resetFxRates();
+    setRates({ ...DEFAULT_FX_RATES });
+    setSaved(false);
+  };
+
+  return (
+    <div className="p-4 rounded-xl border-2 bg-gray-50 border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-3">
+          <Coins className="w-5 h-5 text-amber-600" />
+          <div>
+            <div className="font-medium text-gray-900">Exchange Rates</div>
+            <div className="text-sm text-gray-600">
+              {BASE_CURRENCY} per unit of each reporting currency
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={handleReset}
+          className="text-gray-500 hover:text-gray-700"
+          title="Reset to defaults"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {SUPPORTED_CURRENCIES.filter(
+          (currency) => currency.code !== BASE_CURRENCY,
+        ).map((currency) => (
+          <label
+            key={currency.code}
+            className="flex items-center justify-between space-x-2 text-sm"
+            title={currency.name}
+          >
+            <span className="font-mono text-gray-700">{currency.code}</span>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={
+                Number.isNaN(rates[currency.code]) ? "" : rates[currency.code]
+              }
+              onChange={(e) => handleRateChange(currency.code, e.target.value)}
+              className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm font-mono"
+            />
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={!isValid}
+        className="w-full py-2 px-4 bg-amber-600 text-white rounded-lg text-sm font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        {saved ? "Rates Saved" : "Save Rates"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,692 @@
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { PieChart, Plus, Save, Trash2 } from "lucide-react";
+import {
+  MAX_CONVERTIBLE_DISCOUNT,
+  type CapTable,
+  type Convertible,
+  type PreferredHolder,
+  type Shareholder,
+  type WizardData,
+} from "@shared/api";
+import { modelRound, plannedRound } from "@shared/capTable";
+import { DEFAULT_ROUND_TERMS } from "@shared/exitWaterfall";
+import type { FxRates } from "@shared/currency";
+import { currencySymbol, formatAmount, type MoneyRange } from "@shared/money";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+interface CapTablePanelProps {
+  wizardData: WizardData;
+  // Final valuation range of the report; its midpoint is the pre-money
+  finalRange: MoneyRange;
+  capTable: CapTable;
+  onChange: (capTable: CapTable) => void;
+  fxRates: FxRates;
+  // Stores the cap table with the saved run; omitted when there is none
+  onSave?: () => void;
+}
+
+const waterfallConfig = {
+  value: { label: "Founder ownership", color: "#60a5fa" },
+} satisfies ChartConfig;
+
+const parseInput = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Founders, option pool, prior investors and convertibles before the planned
+// raise, and how the priced round at the computed valuation dilutes them
+export function CapTablePanel({
+  wizardData,
+  finalRange,
+  capTable,
+  onChange,
+  fxRates,
+  onSave,
+}: CapTablePanelProps) {
+  const { currency } = capTable;
+  const round = useMemo(
+    () => plannedRound(wizardData, finalRange, currency, fxRates),
+    [wizardData, finalRange, currency, fxRates],
+  );
+  const model = useMemo(() => {
+    if (!round) return null;
+    try {
+      return modelRound(capTable, round);
+    } catch (error) {
+      return null;
+    }
+  }, [capTable, round]);
+
+  // Bars float on an invisible base so each step shows the ownership lost
+  const waterfall = useMemo(() => {
+    if (!model) return [];
+    const steps = model.dilution.map(({ label, founderOwnership }) => ({
+      label,
+      ownership: founderOwnership * 100,
+    }));
+    return [
+      {
+        label: steps[0].label,
+        base: 0,
+        value: steps[0].ownership,
+        total: true,
+      },
+      ...steps.slice(1).map((step, index) => ({
+        label: step.label,
+        base: step.ownership,
+        value: steps[index].ownership - step.ownership,
+        total: false,
+      })),
+      {
+        label: "After round",
+        base: 0,
+        value: steps[steps.length - 1].ownership,
+        total: true,
+      },
+    ];
+  }, [model]);
+
+  const format = (amount: number) => formatAmount(amount, currency);
+
+  const setHolders = (
+    field: "founders" | "investors",
+    holders: Shareholder[],
+  ) => onChange({ ...capTable, [field]: holders });
+
+  const updateHolder = (
+    field: "founders" | "investors",
+    index: number,
+    change: Partial<Shareholder>,
+  ) =>
+    setHolders(
+      field,
+      (capTable[field] ?? []).map((holder, i) =>
+        i === index ? { ...holder, ...change } : holder,
+      ),
+    );
+
+  const updateConvertible = (index: number, change: Partial<Convertible>) =>
+    onChange({
+      ...capTable,
+      convertibles: (capTable.convertibles ?? []).map((convertible, i) =>
+        i === index ? { ...convertible, ...change } : convertible,
+      ),
+    });
+
+  // Preference terms of an earlier round, or of the planned one
+  const updateTerms = (
+    index: number | "round",
+    change: Partial<PreferredHolder>,
+  ) =>
+    index === "round"
+      ? onChange({
+          ...capTable,
+          roundTerms: {
+            ...(capTable.roundTerms ?? DEFAULT_ROUND_TERMS),
+            ...change,
+          },
+        })
+      : onChange({
+          ...capTable,
+          investors: capTable.investors.map((investor, i) =>
+            i === index ? { ...investor, ...change } : investor,
+          ),
+        });
+
+  const shares = (value: string) => Math.max(0, Math.round(Number(value) || 0));
+
+  const optional = (value: string) => {
+    const amount = parseInput(value);
+    return amount === undefined || Number.isNaN(amount) || amount <= 0
+      ? undefined
+      : amount;
+  };
+
+  const inputClass =
+    "w-full px-2 py-1 bg-slate-800/50 border border-slate-700 rounded text-sm text-white focus:outline-none focus:border-blue-500 font-mono";
+
+  const holderRows = (field: "founders" | "investors", label: string) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-white font-mono">{label}</h4>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() =>
+            setHolders(field, [
+              ...(capTable[field] ?? []),
+              {
+                name: `${field === "founders" ? "Founder" : "Investor"} ${(capTable[field]?.length ?? 0) + 1}`,
+                shares: 0,
+              },
+            ])
+          }
+          className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add
+        </Button>
+      </div>
+      {(capTable[field] ?? []).map((holder, index) => (
+        <div key={index} className="flex items-center gap-2 mb-2">
+          <input
+            value={holder.name}
+            onChange={(e) =>
+              updateHolder(field, index, { name: e.target.value })
+            }
+            aria-label={`${label} name`}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            min={0}
+            value={holder.shares}
+            onChange={(e) =>
+              updateHolder(field, index, { shares: shares(e.target.value) })
+            }
+            aria-label={`${holder.name} shares`}
+            className={inputClass}
+          />
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() =>
+              setHolders(
+                field,
+                (capTable[field] ?? []).filter((_, i) => i !== index),
+              )
+            }
+            disabled={field === "founders" && capTable.founders.length <= 1}
+            className="text-slate-400 hover:text-red-400 hover:bg-slate-800 shrink-0"
+            title="Remove holder"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white font-mono">
+          <div className="flex items-center">
+            <PieChart className="w-5 h-5 mr-2 text-pink-400" />
+            Cap Table & Dilution
+          </div>
+          {onSave && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={onSave}
+              className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          )}
+        </CardTitle>
+        <p className="text-xs text-slate-400 font-mono">
+          A priced round at the midpoint of your valuation for the amount you
+          plan to raise. The pre-money includes the option pool top-up and the
+          converted SAFEs and notes.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          {holderRows("founders", "Founders")}
+          {holderRows("investors", "Prior priced rounds")}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-white font-mono mb-2">
+            Liquidation preferences
+          </h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="text-xs text-slate-500">
+                  <th className="text-left font-normal pb-2 pr-2">Class</th>
+                  <th className="text-left font-normal pb-2 pr-2">
+                    Invested ({currencySymbol(currency)})
+                  </th>
+                  <th className="text-left font-normal pb-2 pr-2">Multiple</th>
+                  <th className="text-left font-normal pb-2 pr-2">
+                    Participating
+                  </th>
+                  <th className="text-left font-normal pb-2 pr-2">
+                    Cap (x invested)
+                  </th>
+                  <th className="text-left font-normal pb-2 pr-2">Seniority</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[
+                  ...(capTable.investors ?? []).map(
+                    (investor, index) =>
+                      [index, investor.name, investor] as const,
+                  ),
+                  [
+                    "round",
+                    "Planned round",
+                    capTable.roundTerms ?? DEFAULT_ROUND_TERMS,
+                  ] as const,
+                ].map(([index, name, terms]) => (
+                  <tr key={index} className="border-t border-slate-800">
+                    <td className="py-2 pr-2 text-slate-300">{name}</td>
+                    <td className="py-2 pr-2">
+                      {index === "round" ? (
+                        <span className="text-slate-500">Raise</span>
+                      ) : (
+                        <input
+                          type="number"
+                          min={0}
+                          value={(terms as PreferredHolder).invested ?? 0}
+                          onChange={(e) =>
+                            updateTerms(index, {
+                              invested: optional(e.target.value) ?? 0,
+                            })
+                          }
+                          aria-label={`${name} invested`}
+                          className={inputClass}
+                        />
+                      )}
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={terms.preferenceMultiple ?? 1}
+                        onChange={(e) =>
+                          updateTerms(index, {
+                            preferenceMultiple: optional(e.target.value) ?? 0,
+                          })
+                        }
+                        aria-label={`${name} preference multiple`}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={terms.participating ?? false}
+                        onChange={(e) =>
+                          updateTerms(index, {
+                            participating: e.target.checked,
+                          })
+                        }
+                        aria-label={`${name} participating`}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        value={terms.participationCap ?? ""}
+                        placeholder="—"
+                        disabled={!terms.participating}
+                        onChange={(e) =>
+                          updateTerms(index, {
+                            participationCap: optional(e.target.value),
+                          })
+                        }
+                        aria-label={`${name} participation cap`}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        step={1}
+                        value={terms.seniority ?? 0}
+                        onChange={(e) =>
+                          updateTerms(index, {
+                            seniority: Math.round(Number(e.target.value) || 0),
+                          })
+                        }
+                        aria-label={`${name} seniority`}
+                        className={inputClass}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500 font-mono mt-2">
+            Higher seniority is paid first. Converted SAFEs and notes take the
+            planned round's terms.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="text-xs text-slate-400 font-mono space-y-1">
+            <span>Option pool (shares)</span>
+            <input
+              type="number"
+              min={0}
+              value={capTable.optionPool ?? 0}
+              onChange={(e) =>
+                onChange({ ...capTable, optionPool: shares(e.target.value) })
+              }
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs text-slate-400 font-mono space-y-1">
+            <span>Target pool after the round %</span>
+            <input
+              type="number"
+              min={0}
+              max={50}
+              value={capTable.targetOptionPool ?? ""}
+              onChange={(e) =>
+                onChange({
+                  ...capTable,
+                  targetOptionPool: Math.min(50, optional(e.target.value) ?? 0),
+                })
+              }
+              className={inputClass}
+            />
+          </label>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-white font-mono">
+              SAFEs and convertible notes ({currencySymbol(currency)})
+            </h4>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() =>
+                onChange({
+                  ...capTable,
+                  convertibles: [
+                    ...(capTable.convertibles ?? []),
+                    {
+                      name: `SAFE ${(capTable.convertibles?.length ?? 0) + 1}`,
+                      kind: "safe",
+                      principal: 100_000,
+                    },
+                  ],
+                })
+              }
+              className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+          {(capTable.convertibles?.length ?? 0) > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm font-mono">
+                <thead>
+                  <tr className="text-xs text-slate-500">
+                    <th className="text-left font-normal pb-2 pr-2">Name</th>
+                    <th className="text-left font-normal pb-2 pr-2">Type</th>
+                    <th className="text-left font-normal pb-2 pr-2">
+                      Principal
+                    </th>
+                    <th className="text-left font-normal pb-2 pr-2">Cap</th>
+                    <th className="text-left font-normal pb-2 pr-2">
+                      Discount %
+                    </th>
+                    <th className="text-left font-normal pb-2 pr-2">
+                      Interest %
+                    </th>
+                    <th className="text-left font-normal pb-2 pr-2">Months</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {capTable.convertibles.map((convertible, index) => (
+                    <tr key={index} className="border-t border-slate-800">
+                      <td className="py-2 pr-2">
+                        <input
+                          value={convertible.name}
+                          onChange={(e) =>
+                            updateConvertible(index, { name: e.target.value })
+                          }
+                          aria-label="Convertible name"
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          value={convertible.kind}
+                          onChange={(e) =>
+                            updateConvertible(index, {
+                              kind: e.target.value as Convertible["kind"],
+                            })
+                          }
+                          aria-label={`${convertible.name} type`}
+                          className={inputClass}
+                        >
+                          <option value="safe">SAFE</option>
+                          <option value="note">Note</option>
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          min={0}
+                          value={convertible.principal}
+                          onChange={(e) =>
+                            updateConvertible(index, {
+                              principal: optional(e.target.value) ?? 0,
+                            })
+                          }
+                          aria-label={`${convertible.name} principal`}
+                          className={inputClass}
+                        />
+                      </td>
+                      {(
+                        [
+                          "valuationCap",
+                          "discount",
+                          "interestRate",
+                          "monthsOutstanding",
+                        ] as const
+                      ).map((field) => (
+                        <td key={field} className="py-2 pr-2">
+                          <input
+                            type="number"
+                            min={0}
+                            max={
+                              field === "discount"
+                                ? MAX_CONVERTIBLE_DISCOUNT
+                                : undefined
+                            }
+                            value={convertible[field] ?? ""}
+                            placeholder="—"
+                            disabled={
+                              convertible.kind === "safe" &&
+                              (field === "interestRate" ||
+                                field === "monthsOutstanding")
+                            }
+                            onChange={(e) =>
+                              updateConvertible(index, {
+                                [field]: optional(e.target.value),
+                              })
+                            }
+                            aria-label={`${convertible.name} ${field}`}
+                            className={inputClass}
+                          />
+                        </td>
+                      ))}
+                      <td className="py-2 text-right">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() =>
+                            onChange({
+                              ...capTable,
+                              convertibles: capTable.convertibles.filter(
+                                (_, i) => i !== index,
+                              ),
+                            })
+                          }
+                          className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                          title="Remove convertible"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {!round && (
+          <div className="text-sm text-amber-400 font-mono">
+            Enter the amount you are planning to raise in the financial step to
+            model the round.
+          </div>
+        )}
+        {round && !model && (
+          <div className="text-sm text-amber-400 font-mono">
+            The cap table needs at least one share outstanding.
+          </div>
+        )}
+
+        {model && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {(
+                [
+                  ["Pre-money", format(model.preMoney)],
+                  ["Raise", format(model.raise)],
+                  ["Post-money", format(model.postMoney)],
+                  [
+                    "Price per share",
+                    `${currencySymbol(currency)}${model.pricePerShare.toFixed(4)}`,
+                  ],
+                  [
+                    "Founder dilution",
+                    percent(
+                      model.dilution[0].founderOwnership -
+                        model.dilution[model.dilution.length - 1]
+                          .founderOwnership,
+                    ),
+                  ],
+                ] as Array<[string, string]>
+              ).map(([label, value]) => (
+                <div
+                  key={label}
+                  className="p-4 bg-slate-800/50 rounded-lg font-mono"
+                >
+                  <div className="text-xs text-slate-400">{label}</div>
+                  <div className="text-lg text-white">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-white font-mono mb-4">
+                Founder ownership waterfall
+              </h4>
+              <ChartContainer
+                config={waterfallConfig}
+                className="aspect-auto h-56 w-full"
+              >
+                <BarChart data={waterfall} margin={{ left: 24, right: 24 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" />
+                  <YAxis
+                    domain={[0, 100]}
+                    tickFormatter={(value: number) => `${value}%`}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, name, item) =>
+                          name === "value" ? (
+                            <span className="font-mono">
+                              {item.payload.total ? "" : "−"}
+                              {Number(value).toFixed(1)}%
+                            </span>
+                          ) : null
+                        }
+                      />
+                    }
+                  />
+                  <Bar dataKey="base" stackId="waterfall" fill="transparent" />
+                  <Bar dataKey="value" stackId="waterfall">
+                    {waterfall.map((entry) => (
+                      <Cell
+                        key={entry.label}
+                        fill={entry.total ? "var(--color-value)" : "#f87171"}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="text-xs text-slate-500">
+                  <th className="text-left font-normal pb-2">Holder</th>
+                  <th className="text-right font-normal pb-2">Before</th>
+                  <th className="text-right font-normal pb-2">Shares after</th>
+                  <th className="text-right font-normal pb-2">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {model.holders.map((holder) => (
+                  <tr
+                    key={`${holder.kind}-${holder.name}`}
+                    className="border-t border-slate-800"
+                  >
+                    <td className="py-2 text-slate-300">{holder.name}</td>
+                    <td className="py-2 text-right text-slate-400">
+                      {holder.sharesBefore
+                        ? percent(holder.ownershipBefore)
+                        : "—"}
+                    </td>
+                    <td className="py-2 text-right text-slate-400">
+                      {holder.sharesAfter.toLocaleString()}
+                    </td>
+                    <td className="py-2 text-right text-white">
+                      {percent(holder.ownershipAfter)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {model.conversions.length > 0 && (
+              <div className="text-xs text-slate-500 font-mono space-y-1">
+                {model.conversions.map((conversion) => (
+                  <div key={conversion.name}>
+                    {conversion.name}: {format(conversion.amount)} converts at{" "}
+                    {currencySymbol(currency)}
+                    {conversion.price.toFixed(4)} per share (
+                    {conversion.basis === "round"
+                      ? "round price"
+                      : conversion.basis}
+                    )
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Trophy,
@@ -8,7 +9,6 @@ import {
   DollarSign,
   FileText,
   Download,
-  Share2,
   RefreshCw,
   ArrowRight,
   Clock,
@@ -28,39 +28,205 @@ import {
   Award,
   TrendingDown,
   Building,
-  Globe
+  Globe,
+  XCircle,
+  Database,
+  RotateCcw
 } from "lucide-react";
-import {
-  fastapiService,
-  ValuationReport,
-  WizardData,
-  streamValuationReport,
-} from "@/lib/fastapi";
+import { ValuationReport, WizardData } from "@/lib/fastapi";
+import { activeBackend, streamReport } from "@/lib/backends";
 import { generateValuationPDF } from "@/lib/pdfGenerator";
+import { loadFxRates } from "@/lib/fxRates";
+import {
+  loadTeamMethodWeights,
+  saveTeamMethodWeights,
+} from "@/lib/teamSettings";
+import { createSavedValuation, saveValuation } from "@/lib/valuationHistory";
+import {
+  cancelValuationJob,
+  createValuationJob,
+  followValuationJob,
+} from "@/lib/valuationJobs";
+import {
+  lookupCachedReport,
+  storeCachedReport,
+  valuationCacheKey,
+  type CacheHit,
+} from "@/lib/reportCache";
+import type {
+  SavedValuation,
+  CapTable,
+  MethodWeights,
+  Scenario,
+  ValuationDistribution,
+  ValuationStreamEvent,
+} from "@shared/api";
+import { applyMethodWeights, seedMethodWeights } from "@shared/blend";
+import { convertRange, reportingCurrency } from "@shared/currency";
+import { footballField } from "@shared/footballField";
+import { getMetricPack } from "@shared/metricPacks";
+import {
+  applyStreamChunk,
+  completeReport,
+  emptyStreamedReport,
+  missingSections,
+  toStreamChunks,
+  type StreamedReport,
+  type StreamSection,
+} from "@shared/reportStream";
+import { defaultCapTable } from "@shared/capTable";
+import { defaultScenarios } from "@shared/scenarios";
+import { collectsUnitEconomics } from "@shared/unitEconomics";
+import {
+  formatMoney,
+  formatMoneyRange,
+  toUnits,
+  type MoneyRange,
+} from "@shared/money";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { CapTablePanel } from "./CapTablePanel";
+import { ExitWaterfallPanel } from "./ExitWaterfallPanel";
+import { FootballFieldChart } from "./FootballFieldChart";
+import { IndustryMetricsPanel } from "./IndustryMetricsPanel";
+import { MethodWeightsPanel } from "./MethodWeightsPanel";
+import { MonteCarloPanel } from "./MonteCarloPanel";
+import { ScenarioPanel } from "./ScenarioPanel";
+import { SensitivityPanel } from "./SensitivityPanel";
+import { ShareDialog } from "./ShareDialog";
+import { TimeSeriesPanel } from "./TimeSeriesPanel";
+import { UnitEconomicsPanel } from "./UnitEconomicsPanel";
 
 interface ConfirmationStepProps {
   wizardData: WizardData;
   onStartOver: () => void;
   userID: string;
+  // Label of the backend that produced the report, kept in the history
+  backendMode?: string;
+  // Reopened from the history: shown as-is without calling a backend
+  savedValuation?: SavedValuation;
+  // Shared link: no what-if tools and no actions beyond the PDF
+  readOnly?: boolean;
+  // Background run on the built-in server to resume instead of starting over
+  jobId?: string;
+  // Called with the id of the background run, and without one once it ends
+  onJobChange?: (jobId?: string) => void;
+}
+
+// Confidence score based on data completeness
+function calculateDataConfidence(wizardData: WizardData): number {
+  let score = 30; // Base score
+
+  // Step 1 data
+  if (wizardData.step1) {
+    score += 20; // Basic info provided
+  }
+
+  // Step 2 data
+  if (wizardData.step2 && !wizardData.step2.skipFinancials) {
+    if (wizardData.step2.revenue !== undefined) score += 15;
+    if (wizardData.step2.monthlyBurnRate !== undefined) score += 10;
+    if (wizardData.step2.fundingRaised !== undefined) score += 5;
+  }
+  // Monthly history backs the snapshot totals
+  if (wizardData.timeSeries) score += 5;
+
+  // Step 3 data
+  if (wizardData.step3 && !wizardData.step3.skipTraction) {
+    if (wizardData.step3.customerCount !== undefined) score += 10;
+    if (wizardData.step3.growthRate !== undefined) score += 10;
+    if (wizardData.step3.uniqueValue) score += 5;
+    if (wizardData.step3.unitEconomics || wizardData.step3.industryMetrics) {
+      score += 5;
+    }
+  }
+
+  // Step 4 data
+  if (wizardData.step4 && !wizardData.step4.skipExtras) {
+    if (wizardData.step4.linkedinUrl) score += 2;
+    if (wizardData.step4.websiteUrl) score += 3;
+    if (wizardData.step4.uploadedFiles?.length) score += 5;
+  }
+
+  return Math.min(score, 100);
+}
+
+// Report sections in stream order, as listed on the progress card
+const STREAM_SECTIONS: Array<[StreamSection, string]> = [
+  ["businessSummary", "Business summary"],
+  ["recommendedMethods", "Recommended methods"],
+  ["calculations", "Valuation calculations"],
+  ["competitorAnalysis", "Competitor analysis"],
+  ["strategicContext", "Strategic context"],
+  ["finalValuation", "Final valuation"],
+];
+
+function describeStreamEvent(chunk: ValuationStreamEvent): string {
+  switch (chunk.section) {
+    case "businessSummary":
+      return "Business model analyzed";
+    case "recommendedMethods":
+      return "Valuation methods selected";
+    case "calculation":
+      return `Calculated ${chunk.data?.method ?? "method"} (${chunk.index + 1} of ${chunk.total})`;
+    case "competitorAnalysis":
+      return "Market comparables analyzed";
+    case "strategicContext":
+      return "Strategic insights generated";
+    case "finalValuation":
+      return "Final valuation ready";
+    case "complete":
+      return "Finalizing valuation report...";
+  }
 }
 
 export function ConfirmationStep({
   wizardData,
   onStartOver,
   userID,
+  backendMode = "Unknown",
+  savedValuation,
+  readOnly = false,
+  jobId,
+  onJobChange,
 }: ConfirmationStepProps) {
+  const navigate = useNavigate();
   const [confidence, setConfidence] = useState(0);
-  const [isGenerating, setIsGenerating] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(!savedValuation);
   const [valuationReport, setValuationReport] =
-    useState<ValuationReport | null>(null);
+    useState<ValuationReport | null>(savedValuation?.report ?? null);
   const [error, setError] = useState<string>("");
-  const [currentStage, setCurrentStage] = useState(1);
+  // Sections received from the stream; the report is shown as it fills in
+  const [streamed, setStreamed] = useState<StreamedReport>(emptyStreamedReport);
   const [statusMessage, setStatusMessage] = useState<string>(
     "Initializing analysis...",
   );
+  // Bumped by "Try Again" to restart the stream
+  const [attempt, setAttempt] = useState(0);
+  const streamController = useRef<AbortController | null>(null);
+  // Only the first run resumes the given job; "Try Again" starts a new one
+  const resumeJobId = useRef(jobId);
+  const activeJobId = useRef<string | undefined>(undefined);
+  // Set by "Regenerate" so the next run skips the report cache
+  const bypassCache = useRef(false);
+  const [cacheHit, setCacheHit] = useState<CacheHit | null>(null);
+  const [fxRates] = useState(loadFxRates);
+  const [scenarios, setScenarios] = useState<Scenario[]>(
+    () => wizardData.scenarios ?? defaultScenarios(wizardData),
+  );
+  const [capTable, setCapTable] = useState<CapTable>(
+    () => wizardData.capTable ?? defaultCapTable(wizardData, fxRates),
+  );
+  // Null until edited: the weights follow the team defaults and the report
+  const [methodWeights, setMethodWeights] = useState<MethodWeights | null>(
+    wizardData.methodWeights ?? null,
+  );
+  const [teamWeights, setTeamWeights] = useState<MethodWeights>({});
+  // History entry for this run, so edited scenarios can be stored with it
+  const [savedEntry, setSavedEntry] = useState<SavedValuation | null>(
+    savedValuation ?? null,
+  );
   const [expandedSections, setExpandedSections] = useState<{[key: string]: boolean}>({
     summary: true,
     methods: true,
@@ -69,36 +235,9 @@ export function ConfirmationStep({
     strategic: false
   });
 
-  // Calculate confidence score based on data completeness
   useEffect(() => {
-    let score = 30; // Base score
-
-    // Step 1 data
-    if (wizardData.step1) {
-      score += 20; // Basic info provided
-    }
-
-    // Step 2 data
-    if (wizardData.step2 && !wizardData.step2.skipFinancials) {
-      if (wizardData.step2.revenue !== undefined) score += 15;
-      if (wizardData.step2.monthlyBurnRate !== undefined) score += 10;
-      if (wizardData.step2.fundingRaised !== undefined) score += 5;
-    }
-
-    // Step 3 data
-    if (wizardData.step3 && !wizardData.step3.skipTraction) {
-      if (wizardData.step3.customerCount !== undefined) score += 10;
-      if (wizardData.step3.growthRate !== undefined) score += 10;
-      if (wizardData.step3.uniqueValue) score += 5;
-    }
-
-    // Step 4 data
-    if (wizardData.step4 && !wizardData.step4.skipExtras) {
-      if (wizardData.step4.linkedinUrl) score += 2;
-      if (wizardData.step4.websiteUrl) score += 3;
-    }
-
-    const finalScore = Math.min(score, 100);
+    const finalScore =
+      savedValuation?.confidence ?? calculateDataConfidence(wizardData);
 
     // Animate confidence meter
     const timer = setTimeout(() => {
@@ -106,44 +245,100 @@ export function ConfirmationStep({
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [wizardData]);
+  }, [wizardData, savedValuation]);
+
+  useEffect(() => {
+    loadTeamMethodWeights().then(setTeamWeights);
+  }, []);
 
-  // Generate valuation using new API endpoint
+  // Stream the valuation report, rendering each section as it arrives
   useEffect(() => {
+    if (savedValuation) return;
+
+    const controller = new AbortController();
+    streamController.current = controller;
+    let unmounted = false;
+
+    const endJob = () => {
+      if (!activeJobId.current) return;
+      activeJobId.current = undefined;
+      onJobChange?.(undefined);
+    };
+
     const generateValuation = async () => {
+      let state = emptyStreamedReport();
       setIsGenerating(true);
       setError("");
       setValuationReport(null);
-      setCurrentStage(1);
+      setStreamed(state);
+      setCacheHit(null);
       setStatusMessage("Initializing valuation analysis...");
 
+      const onChunk = (chunk: ValuationStreamEvent) => {
+        state = applyStreamChunk(state, chunk);
+        setStreamed(state);
+        // Partial until the stream completes; sections render as they land
+        setValuationReport(state.report as ValuationReport);
+        setStatusMessage(describeStreamEvent(chunk));
+      };
+
       try {
-        // Simulate progress stages for better UX
-        const stages = [
-          "Analyzing business model and metrics...",
-          "Identifying optimal valuation methods...", 
-          "Performing detailed calculations...",
-          "Analyzing market comparables...",
-          "Generating strategic insights...",
-          "Finalizing valuation report..."
-        ];
-
-        for (let i = 0; i < stages.length - 1; i++) {
-          setCurrentStage(i + 1);
-          setStatusMessage(stages[i]);
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
+        // Identical inputs on the same backend reuse the stored report;
+        // resumed jobs already have their inputs fixed
+        const cacheKey = resumeJobId.current
+          ? undefined
+          : await valuationCacheKey(wizardData);
+        const cached =
+          cacheKey && !bypassCache.current
+            ? await lookupCachedReport(cacheKey)
+            : undefined;
+        bypassCache.current = false;
 
-        setCurrentStage(6);
-        setStatusMessage(stages[5]);
+        // Backends with job support run the valuation as a job that
+        // outlives this page; others stream it directly
+        if (cached) {
+          toStreamChunks(cached.report).forEach(onChunk);
+          setCacheHit(cached);
+        } else if (
+          resumeJobId.current ||
+          activeBackend().backend.capabilities.jobs
+        ) {
+          const id =
+            resumeJobId.current ?? (await createValuationJob(wizardData)).id;
+          resumeJobId.current = undefined;
+          activeJobId.current = id;
+          onJobChange?.(id);
+          await followValuationJob(id, onChunk, controller.signal);
+        } else {
+          await streamReport(wizardData, onChunk, controller.signal);
+        }
 
-        // Call the new API
-        const report = await fastapiService.generateValuationReportNew(wizardData);
-        
+        const report = completeReport(state);
+        if (Object.keys(state.failed).length > 0) {
+          console.warn("Report sections dropped:", state.failed);
+        }
         setValuationReport(report);
         setIsGenerating(false);
         setStatusMessage("Analysis complete!");
+        endJob();
+        if (cacheKey && !cached) {
+          storeCachedReport(cacheKey, report);
+        }
+
+        const entry = createSavedValuation({
+          wizardData,
+          report,
+          confidence: calculateDataConfidence(wizardData),
+          backendMode: cached ? `${backendMode} (cached)` : backendMode,
+        });
+        setSavedEntry(entry);
+        saveValuation(entry).catch((error) =>
+          console.error("Failed to save valuation:", error),
+        );
       } catch (error: any) {
+        // Leaving the page keeps the job so it can be resumed
+        if (unmounted) return;
+        endJob();
         console.error("Valuation generation error:", error);
         setError(error.message || "Analysis failed. Please try again.");
         setIsGenerating(false);
@@ -151,51 +346,135 @@ export function ConfirmationStep({
     };
 
     generateValuation();
-  }, [wizardData]);
-
-  const getValuationRange = () => {
-    // First try to get from finalValuation
-    if (valuationReport?.finalValuation?.finalRange &&
-        typeof valuationReport.finalValuation.finalRange === 'object' &&
-        valuationReport.finalValuation.finalRange.lower !== undefined &&
-        valuationReport.finalValuation.finalRange.upper !== undefined &&
-        !isNaN(valuationReport.finalValuation.finalRange.lower) &&
-        !isNaN(valuationReport.finalValuation.finalRange.upper)) {
-
-      const { lower, upper } = valuationReport.finalValuation.finalRange;
-      return { lower: lower * 1000000, upper: upper * 1000000 }; // Convert from millions to actual values
+    return () => {
+      unmounted = true;
+      controller.abort();
+    };
+  }, [wizardData, savedValuation, attempt]);
+
+  // Stops the run for good, unlike leaving the page
+  const handleCancel = () => {
+    const id = activeJobId.current;
+    streamController.current?.abort();
+    if (id) {
+      cancelValuationJob(id).catch((error) =>
+        console.error("Failed to cancel valuation job:", error),
+      );
     }
+  };
 
-    // Fallback: get range from calculations
-    if (valuationReport?.calculations?.length > 0) {
-      const ranges = valuationReport.calculations.map(calc => calc.valuationRange);
-      const validRanges = ranges.filter(r => r && r.lower !== undefined && r.upper !== undefined && !isNaN(r.lower) && !isNaN(r.upper));
+  // Runs the backend again even when the inputs match a cached report
+  const handleRegenerate = () => {
+    bypassCache.current = true;
+    setAttempt((count) => count + 1);
+  };
 
-      if (validRanges.length > 0) {
-        const lower = Math.min(...validRanges.map(r => r.lower));
-        const upper = Math.max(...validRanges.map(r => r.upper));
+  // Finished and usable by the what-if tools, the PDF and sharing
+  const reportComplete = Boolean(valuationReport) && !isGenerating && !error;
 
-        // Check if the values seem to be in thousands (typical for this API response)
-        if (lower < 10000 && upper < 10000) {
-          return { lower: lower * 1000, upper: upper * 1000 }; // Convert from thousands to actual values
-        } else {
-          return { lower, upper }; // Use as-is if already in reasonable range
-        }
-      }
-    }
+  const effectiveWeights =
+    methodWeights ??
+    (valuationReport ? seedMethodWeights(valuationReport, teamWeights) : {});
+  // Weights edited for this run or saved as team defaults; a shared report
+  // keeps the range it was shared with
+  const weightsSet =
+    !readOnly &&
+    (methodWeights !== null || Object.keys(teamWeights).length > 0);
+
+  // The report at its final range: the weighted blend once weights are set,
+  // otherwise the backend's range (see applyMethodWeights)
+  const weightedReport = valuationReport
+    ? applyMethodWeights(
+        valuationReport,
+        weightsSet ? effectiveWeights : undefined,
+        fxRates,
+      )
+    : null;
+
+  // Reports are schema-validated, so every range states its own scale and currency
+  const getValuationRange = (): MoneyRange | null =>
+    weightedReport?.finalValuation?.finalRange ?? null;
+
+  // Ranges are shown in the reporting currency, with the report's own
+  // (base currency) figures alongside when the two differ
+  const currency = reportingCurrency(wizardData);
+
+  const formatReportingRange = (range: MoneyRange) =>
+    formatMoneyRange(convertRange(range, currency, fxRates));
+
+  const formatBaseRange = (range: MoneyRange) =>
+    range.currency === currency ? null : formatMoneyRange(range);
+
+  const handleSaveScenarios = () => {
+    if (!savedEntry) return;
+    const entry: SavedValuation = {
+      ...savedEntry,
+      wizardData: {
+        ...savedEntry.wizardData,
+        scenarios: scenarios.map((scenario) => ({
+          ...scenario,
+          name: scenario.name.trim() || "Untitled scenario",
+        })),
+      },
+      updatedAt: new Date().toISOString(),
+    };
+    setSavedEntry(entry);
+    saveValuation(entry).catch((error) =>
+      console.error("Failed to save scenarios:", error),
+    );
+  };
 
-    return null;
+  const handleSaveMethodWeights = () => {
+    if (!savedEntry) return;
+    const entry: SavedValuation = {
+      ...savedEntry,
+      wizardData: { ...savedEntry.wizardData, methodWeights: effectiveWeights },
+      updatedAt: new Date().toISOString(),
+    };
+    setSavedEntry(entry);
+    saveValuation(entry).catch((error) =>
+      console.error("Failed to save method weights:", error),
+    );
   };
 
-  const formatCurrency = (amount: number): string => {
-    if (amount >= 1e9) {
-      return `$${(amount / 1e9).toFixed(2)}B`;
-    } else if (amount >= 1e6) {
-      return `$${(amount / 1e6).toFixed(2)}M`;
-    } else if (amount >= 1e3) {
-      return `$${(amount / 1e3).toFixed(0)}K`;
-    }
-    return `$${amount.toLocaleString()}`;
+  const handleSaveTeamWeights = () => {
+    saveTeamMethodWeights({ ...teamWeights, ...effectiveWeights })
+      .then(setTeamWeights)
+      .catch((error) =>
+        console.error("Failed to save team method weights:", error),
+      );
+  };
+
+  const handleSaveCapTable = () => {
+    if (!savedEntry) return;
+    const entry: SavedValuation = {
+      ...savedEntry,
+      wizardData: { ...savedEntry.wizardData, capTable },
+      updatedAt: new Date().toISOString(),
+    };
+    setSavedEntry(entry);
+    saveValuation(entry).catch((error) =>
+      console.error("Failed to save cap table:", error),
+    );
+  };
+
+  // The simulation is kept on the report so the PDF and history include it
+  const handleMonteCarloResult = (distribution: ValuationDistribution) => {
+    const report: ValuationReport = {
+      ...valuationReport,
+      finalValuation: { ...valuationReport.finalValuation, distribution },
+    };
+    setValuationReport(report);
+    if (!savedEntry) return;
+    const entry = {
+      ...savedEntry,
+      report,
+      updatedAt: new Date().toISOString(),
+    };
+    setSavedEntry(entry);
+    saveValuation(entry).catch((error) =>
+      console.error("Failed to save simulation:", error),
+    );
   };
 
   const getConfidenceColor = (score: number) => {
@@ -249,11 +528,11 @@ export function ConfirmationStep({
       });
     }
 
-    if (wizardData.step2?.revenue && wizardData.step2.revenue > 0) {
+    if (toUnits(wizardData.step2?.revenue) > 0) {
       stats.push({
         icon: DollarSign,
         label: "Revenue",
-        value: formatCurrency(wizardData.step2.revenue),
+        value: formatMoney(wizardData.step2.revenue),
         color: "text-green-400",
       });
     }
@@ -271,14 +550,10 @@ export function ConfirmationStep({
     return stats;
   };
 
-  const getAnalysisStages = () => [
-    "Analyzing business model...",
-    "Identifying valuation methods...",
-    "Performing detailed calculations...",
-    "Analyzing competitors...",
-    "Generating strategic insights...",
-    "Finalizing valuation report...",
-  ];
+  const sectionReceived = (section: StreamSection) =>
+    section === "calculations"
+      ? !missingSections(streamed).includes("calculations")
+      : streamed.report[section] !== undefined;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
@@ -299,15 +574,21 @@ export function ConfirmationStep({
           </motion.div>
 
           <h1 className="text-4xl md:text-5xl font-bold text-white mb-4 font-mono">
-            Valuation Complete!
+            {isGenerating
+              ? "Valuation In Progress"
+              : error
+                ? "Valuation Incomplete"
+                : "Valuation Complete!"}
           </h1>
           <p className="text-xl text-slate-400 font-mono">
-            Your comprehensive AI-powered startup analysis is ready
+            {isGenerating
+              ? "Each section appears as soon as the analysis produces it"
+              : "Your comprehensive AI-powered startup analysis is ready"}
           </p>
         </motion.div>
 
         {/* Main Content */}
-        {error ? (
+        {error && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -322,11 +603,18 @@ export function ConfirmationStep({
                   Analysis Error
                 </h3>
                 <p className="text-red-300 max-w-md mx-auto font-mono mb-6">{error}</p>
+                {Object.entries(streamed.failed).map(([section, reason]) => (
+                  <p key={section} className="text-xs text-red-300/80 max-w-xl mx-auto font-mono mb-2">
+                    {section}: {reason}
+                  </p>
+                ))}
+                {valuationReport && (
+                  <p className="text-sm text-slate-400 max-w-md mx-auto font-mono mb-6">
+                    The sections received before the analysis stopped are shown below.
+                  </p>
+                )}
                 <Button
-                  onClick={() => {
-                    setError("");
-                    setIsGenerating(true);
-                  }}
+                  onClick={() => setAttempt((count) => count + 1)}
                   className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-mono"
                 >
                   <RefreshCw className="w-4 h-4 mr-2" />
@@ -335,7 +623,9 @@ export function ConfirmationStep({
               </CardContent>
             </Card>
           </motion.div>
-        ) : isGenerating ? (
+        )}
+
+        {isGenerating && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -347,24 +637,53 @@ export function ConfirmationStep({
                   <Brain className="w-8 h-8 text-white animate-pulse" />
                 </div>
                 <h3 className="text-xl font-semibold text-white font-mono mb-4">
-                  {statusMessage || getAnalysisStages()[currentStage - 1]}
+                  {statusMessage}
                 </h3>
                 <div className="flex items-center justify-center space-x-2 text-slate-400 mb-4">
                   <Clock className="w-4 h-4" />
-                  <span className="text-sm font-mono">Stage {currentStage} of 6</span>
+                  <span className="text-sm font-mono">
+                    {Math.round(streamed.progress * 100)}% complete
+                  </span>
                 </div>
-                <div className="w-full max-w-xs mx-auto bg-slate-800 rounded-full h-3">
+                <div className="w-full max-w-xs mx-auto bg-slate-800 rounded-full h-3 mb-6">
                   <motion.div
                     className="bg-gradient-to-r from-blue-500 to-purple-600 h-3 rounded-full"
                     initial={{ width: 0 }}
-                    animate={{ width: `${(currentStage / 6) * 100}%` }}
+                    animate={{ width: `${streamed.progress * 100}%` }}
                     transition={{ duration: 0.5 }}
                   />
                 </div>
+                <ul className="max-w-xs mx-auto space-y-1 text-left mb-6">
+                  {STREAM_SECTIONS.map(([section, label]) => (
+                    <li key={section} className="flex items-center text-sm font-mono">
+                      {sectionReceived(section) ? (
+                        <CheckCircle className="w-4 h-4 mr-2 text-green-400" />
+                      ) : (
+                        <Clock className="w-4 h-4 mr-2 text-slate-500" />
+                      )}
+                      <span className={sectionReceived(section) ? "text-slate-300" : "text-slate-500"}>
+                        {label}
+                        {section === "calculations" && streamed.expectedCalculations
+                          ? ` (${streamed.report.calculations?.length ?? 0} of ${streamed.expectedCalculations})`
+                          : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <Button
+                  onClick={handleCancel}
+                  variant="outline"
+                  className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white font-mono"
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
               </CardContent>
             </Card>
           </motion.div>
-        ) : valuationReport ? (
+        )}
+
+        {valuationReport && (
           <>
             {/* Valuation Summary */}
             <motion.div
@@ -381,11 +700,23 @@ export function ConfirmationStep({
                   {getValuationRange() ? (
                     <div className="space-y-4">
                       <div className="text-4xl md:text-6xl font-bold bg-gradient-to-r from-blue-400 via-purple-400 to-cyan-400 bg-clip-text text-transparent font-mono">
-                        {formatCurrency(getValuationRange()!.lower)} - {formatCurrency(getValuationRange()!.upper)}
+                        {formatReportingRange(getValuationRange()!)}
                       </div>
+                      {formatBaseRange(getValuationRange()!) && (
+                        <p className="text-sm text-slate-400 font-mono">
+                          ≈ {formatBaseRange(getValuationRange()!)}
+                        </p>
+                      )}
                       <p className="text-lg text-slate-300 font-mono">
                         Based on {valuationReport.calculations?.length || 0} valuation methodologies
                       </p>
+                      {cacheHit && (
+                        <Badge className="bg-emerald-900/30 border border-emerald-500/30 text-emerald-400 font-mono">
+                          <Database className="w-3 h-3 mr-2" />
+                          Cached result from {new Date(cacheHit.cachedAt).toLocaleString()}
+                          {cacheHit.source === "server" ? " (shared by the server)" : ""}
+                        </Badge>
+                      )}
                       
                       {/* Confidence Meter */}
                       <div className="max-w-md mx-auto mt-6">
@@ -412,7 +743,7 @@ export function ConfirmationStep({
                     </div>
                   ) : (
                     <div className="text-3xl font-bold text-slate-400 font-mono">
-                      Analysis Complete
+                      {isGenerating ? "Awaiting calculations..." : "Analysis Complete"}
                     </div>
                   )}
                 </CardContent>
@@ -442,146 +773,178 @@ export function ConfirmationStep({
             </motion.div>
 
             {/* Business Summary Section */}
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.6 }}
-              className="mb-8"
-            >
-              <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
-                <CardHeader 
-                  className="cursor-pointer"
-                  onClick={() => toggleSection('summary')}
-                >
-                  <CardTitle className="flex items-center justify-between text-white font-mono">
-                    <div className="flex items-center">
-                      <Eye className="w-5 h-5 mr-2 text-blue-400" />
-                      Business Analysis Summary
-                    </div>
-                    {expandedSections.summary ? (
-                      <ChevronUp className="w-5 h-5 text-slate-400" />
-                    ) : (
-                      <ChevronDown className="w-5 h-5 text-slate-400" />
-                    )}
-                  </CardTitle>
-                </CardHeader>
-                <AnimatePresence>
-                  {expandedSections.summary && (
-                    <motion.div
-                      initial={{ height: 0, opacity: 0 }}
-                      animate={{ height: "auto", opacity: 1 }}
-                      exit={{ height: 0, opacity: 0 }}
-                      transition={{ duration: 0.3 }}
-                    >
-                      <CardContent className="space-y-6">
-                        <div>
-                          <h4 className="font-medium text-white mb-3 font-mono">Executive Summary</h4>
-                          <p className="text-slate-300 leading-relaxed font-mono">
-                            {valuationReport.businessSummary.summary}
-                          </p>
-                        </div>
-                        
-                        <div className="grid md:grid-cols-2 gap-6">
+            {valuationReport.businessSummary && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.6 }}
+                className="mb-8"
+              >
+                <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+                  <CardHeader 
+                    className="cursor-pointer"
+                    onClick={() => toggleSection('summary')}
+                  >
+                    <CardTitle className="flex items-center justify-between text-white font-mono">
+                      <div className="flex items-center">
+                        <Eye className="w-5 h-5 mr-2 text-blue-400" />
+                        Business Analysis Summary
+                      </div>
+                      {expandedSections.summary ? (
+                        <ChevronUp className="w-5 h-5 text-slate-400" />
+                      ) : (
+                        <ChevronDown className="w-5 h-5 text-slate-400" />
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <AnimatePresence>
+                    {expandedSections.summary && (
+                      <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: "auto", opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <CardContent className="space-y-6">
                           <div>
-                            <h4 className="font-medium text-white mb-3 font-mono flex items-center">
-                              <Shield className="w-4 h-4 mr-2 text-green-400" />
-                              Key Strengths
-                            </h4>
-                            <ul className="space-y-2">
-                              {valuationReport.businessSummary.keyStrengths?.map((strength, index) => (
-                                <li key={index} className="flex items-start">
-                                  <CheckCircle className="w-4 h-4 mr-2 text-green-400 mt-0.5 flex-shrink-0" />
-                                  <span className="text-slate-300 text-sm font-mono">{strength}</span>
-                                </li>
-                              ))}
-                            </ul>
+                            <h4 className="font-medium text-white mb-3 font-mono">Executive Summary</h4>
+                            <p className="text-slate-300 leading-relaxed font-mono">
+                              {valuationReport.businessSummary.summary}
+                            </p>
                           </div>
+                        
+                          <div className="grid md:grid-cols-2 gap-6">
+                            <div>
+                              <h4 className="font-medium text-white mb-3 font-mono flex items-center">
+                                <Shield className="w-4 h-4 mr-2 text-green-400" />
+                                Key Strengths
+                              </h4>
+                              <ul className="space-y-2">
+                                {valuationReport.businessSummary.keyStrengths?.map((strength, index) => (
+                                  <li key={index} className="flex items-start">
+                                    <CheckCircle className="w-4 h-4 mr-2 text-green-400 mt-0.5 flex-shrink-0" />
+                                    <span className="text-slate-300 text-sm font-mono">{strength}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
                           
-                          <div>
-                            <h4 className="font-medium text-white mb-3 font-mono flex items-center">
-                              <AlertTriangle className="w-4 h-4 mr-2 text-orange-400" />
-                              Risks & Considerations
-                            </h4>
-                            <ul className="space-y-2">
-                              {valuationReport.businessSummary.weaknessesOrRisks?.map((risk, index) => (
-                                <li key={index} className="flex items-start">
-                                  <AlertCircle className="w-4 h-4 mr-2 text-orange-400 mt-0.5 flex-shrink-0" />
-                                  <span className="text-slate-300 text-sm font-mono">{risk}</span>
-                                </li>
-                              ))}
-                            </ul>
+                            <div>
+                              <h4 className="font-medium text-white mb-3 font-mono flex items-center">
+                                <AlertTriangle className="w-4 h-4 mr-2 text-orange-400" />
+                                Risks & Considerations
+                              </h4>
+                              <ul className="space-y-2">
+                                {valuationReport.businessSummary.weaknessesOrRisks?.map((risk, index) => (
+                                  <li key={index} className="flex items-start">
+                                    <AlertCircle className="w-4 h-4 mr-2 text-orange-400 mt-0.5 flex-shrink-0" />
+                                    <span className="text-slate-300 text-sm font-mono">{risk}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
                           </div>
-                        </div>
 
-                        <div>
-                          <Badge className="bg-blue-900/30 border border-blue-500/30 text-blue-400 font-mono">
-                            Stage Assessment: {valuationReport.businessSummary.stageAssessment}
-                          </Badge>
-                        </div>
-                      </CardContent>
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-              </Card>
-            </motion.div>
+                          <div>
+                            <Badge className="bg-blue-900/30 border border-blue-500/30 text-blue-400 font-mono">
+                              Stage Assessment: {valuationReport.businessSummary.stageAssessment}
+                            </Badge>
+                          </div>
+                        </CardContent>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </Card>
+              </motion.div>
+            )}
 
             {/* Recommended Methods Section */}
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 0.8 }}
-              className="mb-8"
-            >
-              <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
-                <CardHeader 
-                  className="cursor-pointer"
-                  onClick={() => toggleSection('methods')}
-                >
-                  <CardTitle className="flex items-center justify-between text-white font-mono">
-                    <div className="flex items-center">
-                      <Award className="w-5 h-5 mr-2 text-purple-400" />
-                      Recommended Valuation Methods
-                    </div>
-                    {expandedSections.methods ? (
-                      <ChevronUp className="w-5 h-5 text-slate-400" />
-                    ) : (
-                      <ChevronDown className="w-5 h-5 text-slate-400" />
-                    )}
-                  </CardTitle>
-                </CardHeader>
-                <AnimatePresence>
-                  {expandedSections.methods && (
-                    <motion.div
-                      initial={{ height: 0, opacity: 0 }}
-                      animate={{ height: "auto", opacity: 1 }}
-                      exit={{ height: 0, opacity: 0 }}
-                      transition={{ duration: 0.3 }}
-                    >
-                      <CardContent>
-                        <div className="grid gap-4">
-                          {valuationReport.recommendedMethods.recommendedMethods.map((method, index) => (
-                            <div key={index} className="border border-slate-700 bg-slate-800/30 rounded-xl p-4">
-                              <div className="flex items-center justify-between mb-2">
-                                <h4 className="font-medium text-white font-mono">{method.method}</h4>
-                                <div className="flex items-center space-x-2">
-                                  <span className={`font-bold font-mono ${getMethodConfidenceColor(method.confidence)}`}>
-                                    {Math.round(method.confidence * 100)}%
-                                  </span>
-                                  <Badge className={`px-2 py-1 text-xs ${getMethodConfidenceColor(method.confidence)} bg-slate-800 border border-current`}>
-                                    Confidence
-                                  </Badge>
+            {valuationReport.recommendedMethods && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.8 }}
+                className="mb-8"
+              >
+                <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+                  <CardHeader 
+                    className="cursor-pointer"
+                    onClick={() => toggleSection('methods')}
+                  >
+                    <CardTitle className="flex items-center justify-between text-white font-mono">
+                      <div className="flex items-center">
+                        <Award className="w-5 h-5 mr-2 text-purple-400" />
+                        Recommended Valuation Methods
+                      </div>
+                      {expandedSections.methods ? (
+                        <ChevronUp className="w-5 h-5 text-slate-400" />
+                      ) : (
+                        <ChevronDown className="w-5 h-5 text-slate-400" />
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <AnimatePresence>
+                    {expandedSections.methods && (
+                      <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: "auto", opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <CardContent>
+                          <div className="grid gap-4">
+                            {valuationReport.recommendedMethods.recommendedMethods.map((method, index) => (
+                              <div key={index} className="border border-slate-700 bg-slate-800/30 rounded-xl p-4">
+                                <div className="flex items-center justify-between mb-2">
+                                  <h4 className="font-medium text-white font-mono">{method.method}</h4>
+                                  <div className="flex items-center space-x-2">
+                                    <span className={`font-bold font-mono ${getMethodConfidenceColor(method.confidence)}`}>
+                                      {Math.round(method.confidence * 100)}%
+                                    </span>
+                                    <Badge className={`px-2 py-1 text-xs ${getMethodConfidenceColor(method.confidence)} bg-slate-800 border border-current`}>
+                                      Confidence
+                                    </Badge>
+                                  </div>
                                 </div>
+                                <p className="text-slate-300 text-sm font-mono">{method.reason}</p>
                               </div>
-                              <p className="text-slate-300 text-sm font-mono">{method.reason}</p>
-                            </div>
-                          ))}
-                        </div>
-                      </CardContent>
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-              </Card>
-            </motion.div>
+                            ))}
+                          </div>
+                        </CardContent>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </Card>
+              </motion.div>
+            )}
+
+            {/* Football Field Section */}
+            {valuationReport.calculations?.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.9 }}
+                className="mb-8"
+              >
+                <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+                  <CardHeader>
+                    <CardTitle className="flex items-center text-white font-mono">
+                      <Target className="w-5 h-5 mr-2 text-yellow-400" />
+                      Valuation Football Field
+                    </CardTitle>
+                    <p className="text-xs text-slate-400 font-mono">
+                      Each bar spans a method's valuation range; the shaded
+                      band is the final range.
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <FootballFieldChart
+                      field={footballField(weightedReport, currency, fxRates)}
+                    />
+                  </CardContent>
+                </Card>
+              </motion.div>
+            )}
 
             {/* Detailed Calculations Section */}
             <motion.div
@@ -616,14 +979,19 @@ export function ConfirmationStep({
                       transition={{ duration: 0.3 }}
                     >
                       <CardContent className="space-y-6">
-                        {valuationReport.calculations.map((calc, index) => (
+                        {valuationReport.calculations?.map((calc, index) => (
                           <div key={index} className="border border-slate-700 bg-slate-800/30 rounded-xl p-6">
                             <div className="flex items-center justify-between mb-4">
                               <h4 className="font-medium text-white font-mono text-lg">{calc.method}</h4>
                               <div className="text-right">
                                 <div className="text-2xl font-bold text-blue-400 font-mono">
-                                  ${calc.valuationRange.lower}M - ${calc.valuationRange.upper}M
+                                  {formatReportingRange(calc.valuationRange)}
                                 </div>
+                                {formatBaseRange(calc.valuationRange) && (
+                                  <div className="text-xs text-slate-500 font-mono">
+                                    ≈ {formatBaseRange(calc.valuationRange)}
+                                  </div>
+                                )}
                                 <div className="text-xs text-slate-400 font-mono">Valuation Range</div>
                               </div>
                             </div>
@@ -702,6 +1070,160 @@ export function ConfirmationStep({
               </Card>
             </motion.div>
 
+            {/* Monthly Performance Section */}
+            {wizardData.timeSeries && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 1.05 }}
+                className="mb-8"
+              >
+                <TimeSeriesPanel series={wizardData.timeSeries} />
+              </motion.div>
+            )}
+
+            {/* Unit Economics Section */}
+            {wizardData.step3?.unitEconomics &&
+              collectsUnitEconomics(wizardData.step1?.industry) && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 1.08 }}
+                  className="mb-8"
+                >
+                  <UnitEconomicsPanel
+                    wizardData={wizardData}
+                    currency={currency}
+                    fxRates={fxRates}
+                  />
+                </motion.div>
+              )}
+
+            {/* Industry Metrics Section */}
+            {wizardData.step3?.industryMetrics &&
+              getMetricPack(wizardData.step1?.industry) && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 1.09 }}
+                  className="mb-8"
+                >
+                  <IndustryMetricsPanel
+                    wizardData={wizardData}
+                    currency={currency}
+                    fxRates={fxRates}
+                  />
+                </motion.div>
+              )}
+
+            {!readOnly && reportComplete && (
+              <>
+                {/* Method Weighting Section */}
+                {valuationReport.calculations?.length > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 1.1 }}
+                    className="mb-8"
+                  >
+                    <MethodWeightsPanel
+                      report={valuationReport}
+                      weights={effectiveWeights}
+                      onChange={setMethodWeights}
+                      currency={currency}
+                      fxRates={fxRates}
+                      onReset={() => setMethodWeights(null)}
+                      onSaveTeamDefault={handleSaveTeamWeights}
+                      onSave={savedEntry ? handleSaveMethodWeights : undefined}
+                    />
+                  </motion.div>
+                )}
+
+                {/* Sensitivity Analysis Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 1.1 }}
+                  className="mb-8"
+                >
+                  <SensitivityPanel
+                    wizardData={wizardData}
+                    currency={currency}
+                    fxRates={fxRates}
+                  />
+                </motion.div>
+
+                {/* Scenario Analysis Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 1.15 }}
+                  className="mb-8"
+                >
+                  <ScenarioPanel
+                    wizardData={wizardData}
+                    scenarios={scenarios}
+                    onChange={setScenarios}
+                    currency={currency}
+                    fxRates={fxRates}
+                    onSave={savedEntry ? handleSaveScenarios : undefined}
+                  />
+                </motion.div>
+
+                {/* Monte Carlo Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 1.18 }}
+                  className="mb-8"
+                >
+                  <MonteCarloPanel
+                    wizardData={wizardData}
+                    currency={currency}
+                    fxRates={fxRates}
+                    distribution={valuationReport.finalValuation?.distribution}
+                    onResult={handleMonteCarloResult}
+                  />
+                </motion.div>
+
+                {/* Cap Table Section */}
+                {weightedReport?.finalValuation?.finalRange && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 1.19 }}
+                    className="mb-8"
+                  >
+                    <CapTablePanel
+                      wizardData={wizardData}
+                      finalRange={weightedReport.finalValuation.finalRange}
+                      capTable={capTable}
+                      onChange={setCapTable}
+                      fxRates={fxRates}
+                      onSave={savedEntry ? handleSaveCapTable : undefined}
+                    />
+                  </motion.div>
+                )}
+
+                {/* Exit Waterfall Section */}
+                {weightedReport?.finalValuation?.finalRange && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 1.195 }}
+                    className="mb-8"
+                  >
+                    <ExitWaterfallPanel
+                      wizardData={wizardData}
+                      finalRange={weightedReport.finalValuation.finalRange}
+                      capTable={capTable}
+                      fxRates={fxRates}
+                    />
+                  </motion.div>
+                )}
+              </>
+            )}
+
             {/* Competitor Analysis Section */}
             {valuationReport.competitorAnalysis && (
               <motion.div
@@ -904,57 +1426,76 @@ export function ConfirmationStep({
             )}
 
             {/* Action Buttons */}
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: 1.6 }}
-              className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-4 mb-8"
-            >
-              <Button
-                onClick={() => {
-                  if (!valuationReport) return;
-                  generateValuationPDF(wizardData, valuationReport, confidence);
-                }}
-                disabled={!valuationReport}
-                className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white shadow-lg hover:shadow-xl py-3 px-6 text-lg font-mono"
-              >
-                <Download className="w-5 h-5 mr-2" />
-                Download Comprehensive Report
-              </Button>
-
-              <Button
-                onClick={() => {
-                  const valRange = getValuationRange();
-                  const shareText = valRange
-                    ? `${wizardData.step1?.businessName} valuation: ${formatCurrency(valRange.lower)} - ${formatCurrency(valRange.upper)}`
-                    : `${wizardData.step1?.businessName} valuation analysis complete`;
-
-                  if (navigator.share) {
-                    navigator.share({
-                      title: `${wizardData.step1?.businessName} Valuation`,
-                      text: shareText,
-                      url: window.location.href,
-                    });
-                  } else {
-                    navigator.clipboard.writeText(shareText);
-                  }
-                }}
-                variant="outline"
-                className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white py-3 px-6 font-mono"
-              >
-                <Share2 className="w-5 h-5 mr-2" />
-                Share Results
-              </Button>
-
-              <Button
-                onClick={onStartOver}
-                variant="outline"
-                className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white py-3 px-6 font-mono"
+            {reportComplete && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 1.6 }}
+                className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-4 mb-8"
               >
-                <RefreshCw className="w-5 h-5 mr-2" />
-                New Analysis
-              </Button>
-            </motion.div>
+                <Button
+                  onClick={() => {
+                    if (!valuationReport) return;
+                    generateValuationPDF(
+                      {
+                        ...wizardData,
+                        scenarios,
+                        capTable,
+                        methodWeights: weightsSet
+                          ? effectiveWeights
+                          : undefined,
+                      },
+                      valuationReport,
+                      confidence,
+                    );
+                  }}
+                  disabled={!valuationReport}
+                  className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white shadow-lg hover:shadow-xl py-3 px-6 text-lg font-mono"
+                >
+                  <Download className="w-5 h-5 mr-2" />
+                  Download Comprehensive Report
+                </Button>
+
+                {!readOnly && (
+                  <>
+                    <ShareDialog
+                      wizardData={wizardData}
+                      report={weightedReport}
+                      confidence={confidence}
+                    />
+
+                    {!savedValuation && (
+                      <Button
+                        onClick={handleRegenerate}
+                        variant="outline"
+                        className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white py-3 px-6 font-mono"
+                      >
+                        <RotateCcw className="w-5 h-5 mr-2" />
+                        Regenerate
+                      </Button>
+                    )}
+
+                    <Button
+                      onClick={onStartOver}
+                      variant="outline"
+                      className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white py-3 px-6 font-mono"
+                    >
+                      <RefreshCw className="w-5 h-5 mr-2" />
+                      New Analysis
+                    </Button>
+
+                    <Button
+                      onClick={() => navigate("/valuations")}
+                      variant="outline"
+                      className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white py-3 px-6 font-mono"
+                    >
+                      <Clock className="w-5 h-5 mr-2" />
+                      Valuation History
+                    </Button>
+                  </>
+                )}
+              </motion.div>
+            )}
 
             {/* Recommendations Section */}
             {valuationReport.finalValuation?.recommendations && (
@@ -991,7 +1532,7 @@ export function ConfirmationStep({
               </motion.div>
             )}
           </>
-        ) : null}
+        )}
       </div>
     </div>
   );
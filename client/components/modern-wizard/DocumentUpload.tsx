@@ -0,0 +1,185 @@
+import { useRef, useState, type DragEvent } from "react";
+import { FileText, Loader2, Trash2, Upload } from "lucide-react";
+import type { UploadedFile } from "@shared/api";
+import { countWords, MAX_DOCUMENTS } from "@shared/documents";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  ACCEPTED_DOCUMENTS,
+  deleteDocument,
+  uploadDocument,
+  validateDocument,
+} from "@/lib/documents";
+import { cn } from "@/lib/utils";
+
+interface DocumentUploadProps {
+  files: UploadedFile[];
+  onChange: (files: UploadedFile[]) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Pitch decks and financials for the AI extras step. Each file is sent to
+// /api/documents and kept as its extracted text.
+export function DocumentUpload({ files, onChange }: DocumentUploadProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [uploading, setUploading] = useState<string[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Uploads finish one by one; build on the latest list, not the render's
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  const handleFiles = async (selected: File[]) => {
+    const problems: string[] = [];
+    let room = MAX_DOCUMENTS - filesRef.current.length;
+    const valid = selected.filter((file) => {
+      const problem =
+        validateDocument(file) ??
+        (room <= 0
+          ? `You can attach at most ${MAX_DOCUMENTS} documents.`
+          : null);
+      if (problem) {
+        problems.push(`${file.name}: ${problem}`);
+        return false;
+      }
+      room -= 1;
+      return true;
+    });
+    setErrors(problems);
+    setUploading(valid.map((file) => file.name));
+
+    for (const file of valid) {
+      try {
+        filesRef.current = [...filesRef.current, await uploadDocument(file)];
+        onChange(filesRef.current);
+      } catch (error: any) {
+        console.error("Document upload failed:", error);
+        const message =
+          error.response?.data?.error ||
+          "Upload failed. Documents need the built-in server.";
+        setErrors((prev) => [...prev, `${file.name}: ${message}`]);
+      } finally {
+        setUploading((prev) => prev.filter((name) => name !== file.name));
+      }
+    }
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleRemove = async (file: UploadedFile) => {
+    onChange(files.filter((current) => current !== file));
+    if (!file.documentId) return;
+    try {
+      await deleteDocument(file.documentId);
+    } catch (error) {
+      // The wizard no longer references it; a stale server copy is harmless
+      console.error("Failed to delete document:", error);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardContent className="p-6">
+        <div className="flex items-center space-x-3 mb-2">
+          <FileText className="w-5 h-5 text-purple-400" />
+          <label className="text-lg font-medium text-white font-mono">
+            Pitch Deck & Financials
+          </label>
+        </div>
+        <p className="text-xs text-slate-400 font-mono mb-6">
+          Up to {MAX_DOCUMENTS} PDF, DOCX, XLSX or CSV files of 10MB each. The
+          extracted text is sent with your valuation request.
+        </p>
+
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragOver(true);
+          }}
+          onDragLeave={(e) => {
+            e.preventDefault();
+            setIsDragOver(false);
+          }}
+          onDrop={handleDrop}
+          onClick={() => inputRef.current?.click()}
+          className={cn(
+            "flex flex-col items-center justify-center p-8 rounded-xl border-2 border-dashed cursor-pointer transition-all",
+            isDragOver
+              ? "border-blue-500 bg-blue-500/10"
+              : "border-slate-700 hover:border-slate-500",
+          )}
+        >
+          <Upload className="w-8 h-8 text-slate-400 mb-3" />
+          <p className="text-sm text-slate-300 font-mono">
+            Drop files here or click to browse
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_DOCUMENTS}
+            onChange={(e) => handleFiles(Array.from(e.target.files ?? []))}
+            className="hidden"
+          />
+        </div>
+
+        {errors.map((error) => (
+          <p key={error} className="text-red-400 text-sm mt-2 font-mono">
+            {error}
+          </p>
+        ))}
+
+        {(files.length > 0 || uploading.length > 0) && (
+          <div className="mt-4 space-y-2">
+            {files.map((file) => (
+              <div
+                key={file.documentId ?? file.name}
+                className="flex items-center justify-between p-3 rounded-lg border border-slate-700 bg-slate-800/30"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm text-white font-mono truncate">
+                    {file.name}
+                  </div>
+                  <div className="text-xs text-slate-400 font-mono">
+                    {formatSize(file.size)}
+                    {file.text !== undefined &&
+                      ` · ${countWords(file.text).toLocaleString()} words extracted`}
+                    {file.truncated && " (truncated)"}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => handleRemove(file)}
+                  className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                  title="Remove document"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            {uploading.map((name) => (
+              <div
+                key={name}
+                className="flex items-center space-x-2 p-3 rounded-lg border border-slate-800 text-sm text-slate-400 font-mono"
+              >
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span className="truncate">Extracting {name}...</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
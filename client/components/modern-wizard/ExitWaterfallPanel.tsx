@@ -0,0 +1,226 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Download, Waves } from "lucide-react";
+import type { CapTable, WizardData } from "@shared/api";
+import { modelRound, plannedRound } from "@shared/capTable";
+import type { FxRates } from "@shared/currency";
+import {
+  exitValues,
+  exitWaterfallCsv,
+  runExitWaterfall,
+} from "@shared/exitWaterfall";
+import { formatAmount, type MoneyRange } from "@shared/money";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+
+interface ExitWaterfallPanelProps {
+  wizardData: WizardData;
+  finalRange: MoneyRange;
+  capTable: CapTable;
+  fxRates: FxRates;
+}
+
+type View = "classes" | "holders";
+
+const COLORS = [
+  "#60a5fa",
+  "#4ade80",
+  "#f472b6",
+  "#facc15",
+  "#a78bfa",
+  "#fb923c",
+  "#2dd4bf",
+  "#f87171",
+];
+
+// What each share class and holder takes home at exits around the valuation
+// range, after liquidation preferences
+export function ExitWaterfallPanel({
+  wizardData,
+  finalRange,
+  capTable,
+  fxRates,
+}: ExitWaterfallPanelProps) {
+  const [view, setView] = useState<View>("holders");
+  const { currency } = capTable;
+
+  const outcomes = useMemo(() => {
+    try {
+      const planned = plannedRound(wizardData, finalRange, currency, fxRates);
+      return runExitWaterfall(
+        capTable,
+        exitValues(finalRange, currency, fxRates),
+        planned ? modelRound(capTable, planned) : undefined,
+      );
+    } catch (error) {
+      return null;
+    }
+  }, [wizardData, finalRange, capTable, currency, fxRates]);
+
+  if (!outcomes?.length) return null;
+
+  const format = (amount: number) => formatAmount(amount, currency);
+  const names = outcomes[0][view].map(({ name }) => name);
+  // Series keys stay CSS-safe for the chart's colour variables
+  const config: ChartConfig = Object.fromEntries(
+    names.map((name, index) => [
+      `s${index}`,
+      { label: name, color: COLORS[index % COLORS.length] },
+    ]),
+  );
+  const chartData = outcomes.map((outcome) => ({
+    exit: format(outcome.exitValue),
+    ...Object.fromEntries(
+      outcome[view].map(({ payout }, index) => [`s${index}`, payout]),
+    ),
+  }));
+
+  const downloadCsv = () => {
+    const blob = new Blob([exitWaterfallCsv(outcomes)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${wizardData.step1?.businessName || "startup"}-exit-waterfall.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white font-mono">
+          <div className="flex items-center">
+            <Waves className="w-5 h-5 mr-2 text-teal-400" />
+            Exit Waterfall
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={downloadCsv}
+            className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+        </CardTitle>
+        <p className="text-xs text-slate-400 font-mono">
+          Proceeds at exits from half the low end of your valuation to five
+          times the high end. Preferences are paid first; non-participating
+          classes convert to common when that pays more.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-2">
+          {(
+            [
+              ["holders", "By holder"],
+              ["classes", "By share class"],
+            ] as Array<[View, string]>
+          ).map(([value, label]) => (
+            <Button
+              key={value}
+              size="sm"
+              variant="ghost"
+              onClick={() => setView(value)}
+              className={cn(
+                "font-mono",
+                view === value
+                  ? "bg-slate-800 text-white"
+                  : "text-slate-400 hover:text-white hover:bg-slate-800",
+              )}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        <ChartContainer config={config} className="aspect-auto h-64 w-full">
+          <BarChart data={chartData} margin={{ left: 24, right: 24 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="exit" />
+            <YAxis tickFormatter={(value: number) => format(value)} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value, name) => (
+                    <span className="font-mono">
+                      {config[name as string]?.label}: {format(Number(value))}
+                    </span>
+                  )}
+                />
+              }
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            {names.map((name, index) => (
+              <Bar
+                key={name}
+                dataKey={`s${index}`}
+                stackId="payout"
+                fill={`var(--color-s${index})`}
+              />
+            ))}
+          </BarChart>
+        </ChartContainer>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="text-xs text-slate-500">
+                <th className="text-left font-normal pb-2 pr-2">Exit value</th>
+                {names.map((name) => (
+                  <th key={name} className="text-right font-normal pb-2 pr-2">
+                    {name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {outcomes.map((outcome) => (
+                <tr
+                  key={outcome.exitValue}
+                  className="border-t border-slate-800"
+                >
+                  <td className="py-2 pr-2 text-white whitespace-nowrap">
+                    {format(outcome.exitValue)}
+                  </td>
+                  {view === "holders"
+                    ? outcome.holders.map((holder) => (
+                        <td
+                          key={holder.name}
+                          className="py-2 pr-2 text-right text-slate-300 whitespace-nowrap"
+                        >
+                          {format(holder.payout)}
+                        </td>
+                      ))
+                    : outcome.classes.map((shareClass) => (
+                        <td
+                          key={shareClass.name}
+                          className="py-2 pr-2 text-right text-slate-300 whitespace-nowrap"
+                        >
+                          {format(shareClass.payout)}
+                          <div className="text-xs text-slate-500">
+                            {shareClass.perShare.toFixed(4)}/share
+                            {shareClass.converted && " · converted"}
+                          </div>
+                        </td>
+                      ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { AlertTriangle, FileSpreadsheet, Loader2 } from "lucide-react";
+import { documentKind } from "@shared/documents";
+import {
+  importFinancials,
+  type FinancialImport,
+  type ImportedField,
+} from "@shared/financialImport";
+import { UNIT_SCALES, formatAmount, type UnitScale } from "@shared/money";
+import { parseCsv, parseXlsx, type Sheet } from "@shared/spreadsheet";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+export type MoneyField = Exclude<ImportedField, "growthRate">;
+
+export interface ImportedAnswers {
+  // Whole units of the reporting currency
+  amounts: Partial<Record<MoneyField, number>>;
+  // Month-over-month percentage
+  growthRate?: number;
+}
+
+interface FinancialImportDialogProps {
+  currency: string;
+  onApply: (answers: ImportedAnswers) => void;
+}
+
+const FIELD_LABELS: Record<ImportedField, string> = {
+  revenue: "Annual revenue",
+  monthlyBurnRate: "Monthly burn rate",
+  netProfitLoss: "Net profit/loss",
+  fundingRaised: "Funding raised",
+  growthRate: "Growth rate (monthly)",
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as ImportedField[];
+
+const SCALE_OPTIONS: Array<[UnitScale, string]> = [
+  ["units", "Units"],
+  ["thousands", "Thousands"],
+  ["millions", "Millions"],
+];
+
+async function readSheets(file: File): Promise<Sheet[]> {
+  const kind = documentKind(file.name, file.type);
+  if (kind === "csv") {
+    return [{ name: file.name, rows: parseCsv(await file.text()) }];
+  }
+  if (kind === "xlsx") {
+    return parseXlsx(new Uint8Array(await file.arrayBuffer()));
+  }
+  throw new Error("Please choose a CSV or XLSX file.");
+}
+
+// Reads a monthly P&L or a cap table and shows where each derived answer
+// came from before it is copied into the wizard
+export function FinancialImportDialog({
+  currency,
+  onApply,
+}: FinancialImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [result, setResult] = useState<FinancialImport | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [scale, setScale] = useState<UnitScale>("units");
+  const [selected, setSelected] = useState<ImportedField[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    setError("");
+    setResult(null);
+    try {
+      const imported = importFinancials(await readSheets(file));
+      setResult(imported);
+      setFileName(file.name);
+      setSelected(FIELDS.filter((field) => imported.values[field]));
+    } catch (error: any) {
+      setError(error.message || "Could not read the spreadsheet");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggle = (field: ImportedField) =>
+    setSelected((prev) =>
+      prev.includes(field)
+        ? prev.filter((current) => current !== field)
+        : [...prev, field],
+    );
+
+  const displayValue = (field: ImportedField, value: number) =>
+    field === "growthRate"
+      ? `${value}%`
+      : formatAmount(value * UNIT_SCALES[scale], currency);
+
+  const handleApply = () => {
+    if (!result) return;
+    const answers: ImportedAnswers = { amounts: {} };
+    for (const field of selected) {
+      const imported = result.values[field];
+      if (!imported) continue;
+      if (field === "growthRate") {
+        answers.growthRate = imported.value;
+      } else {
+        answers.amounts[field] = imported.value * UNIT_SCALES[scale];
+      }
+    }
+    onApply(answers);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+        >
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-mono">
+            Import from a spreadsheet
+          </DialogTitle>
+          <DialogDescription className="font-mono text-slate-400">
+            A CSV or XLSX profit-and-loss statement with one column per month,
+            or a cap table with an invested amount column.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 font-mono text-sm">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="text-slate-300 file:mr-3 file:px-3 file:py-1 file:rounded file:border-0 file:bg-slate-800 file:text-slate-200"
+            />
+            {isReading && (
+              <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+            )}
+          </div>
+
+          <div className="flex items-center justify-between text-slate-300">
+            <span>Amounts in the sheet are in</span>
+            <select
+              value={scale}
+              onChange={(e) => setScale(e.target.value as UnitScale)}
+              className="px-3 py-1 bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              {SCALE_OPTIONS.map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <p className="text-red-400">{error}</p>}
+
+          {result && (
+            <div className="space-y-3">
+              <div className="text-xs text-slate-400">
+                {fileName}
+                {result.months.length > 0 &&
+                  ` · ${result.months[0]} to ${result.months[result.months.length - 1]}`}
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th className="text-left font-normal pb-2 w-6" />
+                    <th className="text-left font-normal pb-2">Field</th>
+                    <th className="text-right font-normal pb-2">Value</th>
+                    <th className="text-left font-normal pb-2 pl-4">
+                      Source cells
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {FIELDS.map((field) => {
+                    const imported = result.values[field];
+                    if (!imported) return null;
+                    return (
+                      <tr key={field} className="border-t border-slate-800">
+                        <td className="py-2">
+                          <input
+                            type="checkbox"
+                            checked={selected.includes(field)}
+                            onChange={() => toggle(field)}
+                            aria-label={`Import ${FIELD_LABELS[field]}`}
+                            className="accent-blue-500"
+                          />
+                        </td>
+                        <td className="py-2 text-slate-300">
+                          {FIELD_LABELS[field]}
+                          <div className="text-slate-500">{imported.basis}</div>
+                        </td>
+                        <td className="py-2 text-right text-white whitespace-nowrap">
+                          {displayValue(field, imported.value)}
+                        </td>
+                        <td className="py-2 pl-4 text-blue-300">
+                          {imported.cells.join(", ")}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {result.warnings.map((warning) => (
+                <p
+                  key={warning}
+                  className="flex items-start text-xs text-amber-400"
+                >
+                  <AlertTriangle className="w-3 h-3 mr-2 mt-0.5 shrink-0" />
+                  {warning}
+                </p>
+              ))}
+
+              <Button
+                type="button"
+                onClick={handleApply}
+                disabled={selected.length === 0}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                Fill in {selected.length} field
+                {selected.length === 1 ? "" : "s"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
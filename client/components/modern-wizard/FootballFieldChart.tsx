@@ -0,0 +1,101 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceArea,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { FootballField } from "@shared/footballField";
+import { formatAmount } from "@shared/money";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+interface FootballFieldChartProps {
+  field: FootballField;
+}
+
+const footballFieldConfig = {
+  span: { label: "Range", color: "#60a5fa" },
+  blended: { label: "Blended", color: "#818cf8" },
+  final: { label: "Final range", color: "#facc15" },
+} satisfies ChartConfig;
+
+// One floating bar per method from the low to the high end of its range,
+// with the final range shaded behind them
+export function FootballFieldChart({ field }: FootballFieldChartProps) {
+  const { currency, bars, finalRange } = field;
+  const data = bars.map((bar) => ({
+    label: bar.label,
+    kind: bar.kind,
+    base: bar.lower,
+    span: bar.upper - bar.lower,
+  }));
+  const format = (value: number) => formatAmount(value, currency);
+
+  return (
+    <ChartContainer
+      config={footballFieldConfig}
+      className="aspect-auto w-full"
+      style={{ height: Math.max(160, data.length * 44 + 60) }}
+    >
+      <BarChart data={data} layout="vertical" margin={{ left: 24, right: 24 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis
+          type="number"
+          domain={[field.min, field.max]}
+          tickFormatter={format}
+        />
+        <YAxis type="category" dataKey="label" width={140} />
+        {finalRange && (
+          <ReferenceArea
+            x1={finalRange.lower}
+            x2={finalRange.upper}
+            fill="var(--color-final)"
+            fillOpacity={0.12}
+            stroke="var(--color-final)"
+            strokeDasharray="4 4"
+            label={{
+              value: "Final range",
+              position: "insideTop",
+              fill: "#facc15",
+              fontSize: 11,
+            }}
+          />
+        )}
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name, item) =>
+                name === "span" ? (
+                  <span className="font-mono">
+                    {format(item.payload.base)} -{" "}
+                    {format(item.payload.base + Number(value))}
+                  </span>
+                ) : null
+              }
+            />
+          }
+        />
+        <Bar dataKey="base" stackId="range" fill="transparent" />
+        <Bar dataKey="span" stackId="range">
+          {data.map((entry) => (
+            <Cell
+              key={entry.label}
+              fill={
+                entry.kind === "blended"
+                  ? "var(--color-blended)"
+                  : "var(--color-span)"
+              }
+            />
+          ))}
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,102 @@
+import { useMemo } from "react";
+import { Gauge } from "lucide-react";
+import type { WizardData } from "@shared/api";
+import { BASE_CURRENCY, convertAmount, type FxRates } from "@shared/currency";
+import { deriveIndustryMetrics, type DerivedMetric } from "@shared/metricPacks";
+import { formatAmount } from "@shared/money";
+import { normalizeInputs } from "@shared/valuation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface IndustryMetricsPanelProps {
+  wizardData: WizardData;
+  currency: string;
+  fxRates: FxRates;
+}
+
+// Metrics derived from the answers to the industry's metric pack, and how
+// they shift the weight of each valuation method
+export function IndustryMetricsPanel({
+  wizardData,
+  currency,
+  fxRates,
+}: IndustryMetricsPanelProps) {
+  const inputs = useMemo(
+    () => normalizeInputs(wizardData, fxRates),
+    [wizardData, fxRates],
+  );
+  const derived = useMemo(() => deriveIndustryMetrics(inputs), [inputs]);
+  if (!derived) return null;
+
+  const { pack, metrics } = derived;
+  const weights = Object.entries(
+    pack.methodWeights?.(inputs.industryMetrics, inputs) ?? {},
+  ).filter(([, weight]) => weight !== 1);
+
+  // Engine figures are in base currency units
+  const formatMetric = ({ value, format }: DerivedMetric) => {
+    switch (format) {
+      case "money":
+        return formatAmount(
+          convertAmount(value, BASE_CURRENCY, currency, fxRates),
+          currency,
+        );
+      case "percent":
+        return `${(value * 100).toFixed(1)}%`;
+      case "ratio":
+        return `${value.toFixed(1)}x`;
+      default:
+        return value.toLocaleString();
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center text-white font-mono">
+          <Gauge className="w-5 h-5 mr-2 text-orange-400" />
+          {pack.label} Metrics
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {metrics.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {metrics.map((metric) => (
+              <div
+                key={metric.label}
+                className="p-4 bg-slate-800/50 rounded-lg font-mono"
+              >
+                <div className="text-xs text-slate-400">{metric.label}</div>
+                <div className="text-lg text-white">{formatMetric(metric)}</div>
+                {metric.detail && (
+                  <div className="text-xs text-slate-500">{metric.detail}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {weights.length > 0 && (
+          <div className="text-sm font-mono">
+            <div className="text-xs text-slate-500 mb-2">
+              Method confidence adjusted for {pack.label}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {weights.map(([method, weight]) => (
+                <span
+                  key={method}
+                  className={`px-2 py-1 rounded text-xs ${
+                    weight > 1
+                      ? "bg-green-500/10 text-green-400"
+                      : "bg-amber-500/10 text-amber-400"
+                  }`}
+                >
+                  {method} ×{weight.toFixed(2)}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useMemo } from "react";
+import { RotateCcw, Save, Scale, Users } from "lucide-react";
+import type { MethodWeights, ValuationReport } from "@shared/api";
+import { blendValuation } from "@shared/blend";
+import { convertAmount, convertRange, type FxRates } from "@shared/currency";
+import { footballField } from "@shared/footballField";
+import { formatAmount, formatMoneyRange } from "@shared/money";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { FootballFieldChart } from "./FootballFieldChart";
+
+interface MethodWeightsPanelProps {
+  report: ValuationReport;
+  weights: MethodWeights;
+  onChange: (weights: MethodWeights) => void;
+  currency: string;
+  fxRates: FxRates;
+  // Back to the team defaults or reported confidence
+  onReset: () => void;
+  onSaveTeamDefault: () => void;
+  // Stores the weights with the saved run; omitted when there is none
+  onSave?: () => void;
+}
+
+const BLENDED = "Blended";
+
+// Weight per valuation method and the blended range they produce, with the
+// blend added to the football-field chart
+export function MethodWeightsPanel({
+  report,
+  weights,
+  onChange,
+  currency,
+  fxRates,
+  onReset,
+  onSaveTeamDefault,
+  onSave,
+}: MethodWeightsPanelProps) {
+  const blend = useMemo(() => {
+    try {
+      return blendValuation(report, weights, fxRates);
+    } catch (error) {
+      return null;
+    }
+  }, [report, weights, fxRates]);
+
+  // Blend figures are in the report currency
+  const toReporting = (amount: number) =>
+    convertAmount(amount, blend.range.currency, currency, fxRates);
+  const format = (amount: number) =>
+    formatAmount(toReporting(amount), currency);
+
+  const field = useMemo(
+    () =>
+      blend ? footballField(report, currency, fxRates, blend.range) : null,
+    [report, blend, currency, fxRates],
+  );
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white font-mono">
+          <div className="flex items-center">
+            <Scale className="w-5 h-5 mr-2 text-indigo-400" />
+            Method Weighting
+          </div>
+          <div className="flex items-center space-x-2">
+            {onSave && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={onSave}
+                className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={onSaveTeamDefault}
+              className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+            >
+              <Users className="w-4 h-4 mr-2" />
+              Team default
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={onReset}
+              className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+          </div>
+        </CardTitle>
+        <p className="text-xs text-slate-400 font-mono">
+          Weights start from your team's defaults or the confidence reported for
+          each method; the blend uses each weight's share of the total.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          {(report.calculations ?? []).map(({ method }) => {
+            const share = blend?.contributions.find(
+              (entry) => entry.method === method,
+            )?.weight;
+            return (
+              <div key={method}>
+                <div className="flex justify-between text-sm font-mono mb-2">
+                  <span className="text-slate-300">{method}</span>
+                  <span className="text-slate-500">
+                    {weights[method] ?? 0}
+                    {share !== undefined &&
+                      ` · ${(share * 100).toFixed(0)}% of blend`}
+                  </span>
+                </div>
+                <Slider
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={[weights[method] ?? 0]}
+                  onValueChange={([value]) =>
+                    onChange({ ...weights, [method]: value })
+                  }
+                  aria-label={`${method} weight`}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {!blend ? (
+          <div className="text-sm text-amber-400 font-mono">
+            Give at least one method a weight above 0.
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-4 rounded-xl border border-indigo-500/30 bg-indigo-500/5">
+              <div className="text-sm text-slate-300 font-mono">
+                Weighted blended valuation
+              </div>
+              <div className="text-2xl font-bold text-indigo-300 font-mono">
+                {formatMoneyRange(convertRange(blend.range, currency, fxRates))}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-white font-mono mb-4">
+                Blend against the method ranges
+              </h4>
+              <FootballFieldChart field={field} />
+            </div>
+
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="text-xs text-slate-500">
+                  <th className="text-left font-normal pb-2">Method</th>
+                  <th className="text-right font-normal pb-2">Weight</th>
+                  <th className="text-right font-normal pb-2">Range</th>
+                  <th className="text-right font-normal pb-2">
+                    Adds to midpoint
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {blend.contributions.map((entry) => (
+                  <tr key={entry.method} className="border-t border-slate-800">
+                    <td className="py-2 text-slate-300">{entry.method}</td>
+                    <td className="py-2 text-right text-slate-400">
+                      {(entry.weight * 100).toFixed(1)}%
+                    </td>
+                    <td className="py-2 text-right text-slate-400">
+                      {format(entry.lower)} - {format(entry.upper)}
+                    </td>
+                    <td className="py-2 text-right text-white">
+                      {format(entry.contribution)} (
+                      {blend.midpoint
+                        ? ((entry.contribution / blend.midpoint) * 100).toFixed(
+                            0,
+                          )
+                        : 0}
+                      %)
+                    </td>
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-600 font-bold">
+                  <td className="py-2 text-white">{BLENDED} midpoint</td>
+                  <td className="py-2 text-right text-slate-300">100%</td>
+                  <td />
+                  <td className="py-2 text-right text-indigo-300">
+                    {format(blend.midpoint)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
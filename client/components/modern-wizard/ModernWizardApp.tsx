@@ -1,22 +1,23 @@
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Step1QuickStart } from "./Step1QuickStart";
 import { Step2FinancialSnapshot } from "./Step2FinancialSnapshot";
 import { Step3ProductTraction } from "./Step3ProductTraction";
 import { Step4AIExtras } from "./Step4AIExtras";
 import { ConfirmationStep } from "./ConfirmationStep";
 import { BackendConfig } from "../BackendConfig";
-import { CheckCircle, Circle, Home, Terminal, ArrowLeft, Sparkles } from "lucide-react";
+import { CheckCircle, Circle, Home, History, Terminal, ArrowLeft, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { fastapiService } from "@/lib/fastapi";
-
-interface WizardData {
-  step1?: any;
-  step2?: any;
-  step3?: any;
-  step4?: any;
-}
+import { type WizardData } from "@/lib/fastapi";
+import { activeBackend, getBackend } from "@/lib/backends";
+import {
+  activeJobId,
+  fetchValuationJob,
+  rememberJob,
+} from "@/lib/valuationJobs";
+import { wizardDataSchema } from "@shared/api";
+import { reportingCurrency } from "@shared/currency";
 
 const steps = [
   { 
@@ -47,55 +48,56 @@ const steps = [
 
 export function ModernWizardApp() {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [currentStep, setCurrentStep] = useState(1);
   const [wizardData, setWizardData] = useState<WizardData>({});
   const [userID] = useState(
     `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
   );
   const [isComplete, setIsComplete] = useState(false);
-  const [currentBackendMode, setCurrentBackendMode] = useState<string>("demo");
+  const [currentBackendMode, setCurrentBackendMode] = useState<string>(
+    () => activeBackend().backend.name,
+  );
+  // Background valuation run shown on the results screen
+  const [jobId, setJobId] = useState<string>();
 
   // Load saved data from localStorage on mount
   useEffect(() => {
     try {
       const savedData = localStorage.getItem("wizardData");
       const savedStep = localStorage.getItem("currentStep");
-      const savedBackendMode = localStorage.getItem("backendMode");
-      const savedBackendUrl = localStorage.getItem("customBackendUrl");
 
       if (savedData) {
-        setWizardData(JSON.parse(savedData));
+        const parsed = JSON.parse(savedData);
+        // Financials saved before the Money model are plain numbers; migrate them
+        const step2 = wizardDataSchema.shape.step2.safeParse(parsed.step2);
+        setWizardData({ ...parsed, step2: step2.success ? step2.data : undefined });
       }
 
       if (savedStep) {
         setCurrentStep(parseInt(savedStep, 10));
       }
-
-      // Initialize backend URL based on saved preferences or environment
-      if (savedBackendMode === "custom" && savedBackendUrl) {
-        fastapiService.setBackendUrl(savedBackendUrl);
-        setCurrentBackendMode("Custom Backend");
-      } else if (savedBackendMode === "demo") {
-        fastapiService.setBackendUrl("demo");
-        setCurrentBackendMode("Demo Mode");
-      } else if (savedBackendMode === "local") {
-        fastapiService.setBackendUrl("http://127.0.0.1:8000");
-        setCurrentBackendMode("Local Backend");
-      } else {
-        // Auto-detect based on environment
-        const isDevelopment =
-          window.location.hostname === "localhost" ||
-          window.location.hostname === "127.0.0.1";
-        const defaultUrl = isDevelopment ? "http://127.0.0.1:8000" : "demo";
-        fastapiService.setBackendUrl(defaultUrl);
-        setCurrentBackendMode(isDevelopment ? "Local Backend" : "Demo Mode");
-
-        // Save the default choice
-        localStorage.setItem("backendMode", isDevelopment ? "local" : "demo");
-      }
     } catch (error) {
       console.error("Error loading saved data:", error);
     }
+
+    // Resume a run from a shared ?job= link or from before a reload
+    const resumeId = searchParams.get("job") ?? activeJobId();
+    if (resumeId) {
+      fetchValuationJob(resumeId)
+        .then((job) => {
+          if (!job || job.status === "cancelled") {
+            handleJobChange(undefined);
+            return;
+          }
+          setWizardData(job.wizardData);
+          setJobId(job.id);
+          setIsComplete(true);
+        })
+        .catch((error) =>
+          console.error("Error resuming valuation job:", error),
+        );
+    }
   }, []);
 
   // Save data to localStorage whenever it changes
@@ -149,26 +151,26 @@ export function ModernWizardApp() {
     return ((currentStep - 1) / (steps.length - 1)) * 100;
   };
 
+  // The run's id is kept for reloads and in the URL for other devices
+  const handleJobChange = (id?: string) => {
+    setJobId(id);
+    rememberJob(id);
+    setSearchParams(id ? { job: id } : {}, { replace: true });
+  };
+
   // Clear saved data when starting fresh
   const clearSavedData = () => {
     localStorage.removeItem("wizardData");
     localStorage.removeItem("currentStep");
+    handleJobChange(undefined);
     setWizardData({});
     setCurrentStep(1);
     setIsComplete(false);
   };
 
-  // Handle backend URL changes
-  const handleBackendChange = (url: string) => {
-    fastapiService.setBackendUrl(url);
-    setCurrentBackendMode(
-      url === "demo"
-        ? "Demo Mode"
-        : url === "http://127.0.0.1:8000"
-          ? "Local Backend"
-          : "Custom Backend",
-    );
-    console.log("Backend URL changed to:", url);
+  // Handle valuation backend changes
+  const handleBackendChange = (id: string) => {
+    setCurrentBackendMode(getBackend(id)?.name ?? id);
   };
 
   if (isComplete) {
@@ -177,6 +179,9 @@ export function ModernWizardApp() {
         wizardData={wizardData}
         onStartOver={clearSavedData}
         userID={userID}
+        backendMode={currentBackendMode}
+        jobId={jobId}
+        onJobChange={handleJobChange}
       />
     );
   }
@@ -198,6 +203,15 @@ export function ModernWizardApp() {
                 <Home className="w-4 h-4 mr-2" />
                 Home
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/valuations')}
+                className="text-slate-400 hover:text-white hover:bg-slate-800/50 rounded-lg"
+              >
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Button>
               
               <div className="flex items-center space-x-3">
                 <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-cyan-500 rounded-lg flex items-center justify-center">
@@ -338,6 +352,18 @@ export function ModernWizardApp() {
                   onBack={handleBack}
                   initialData={wizardData.step2}
                   onSave={(data) => updateWizardData("step2", data)}
+                  currency={reportingCurrency(wizardData)}
+                  onImportTraction={(traction) =>
+                    updateWizardData("step3", {
+                      ...wizardData.step3,
+                      ...traction,
+                      skipTraction: false,
+                    })
+                  }
+                  timeSeries={wizardData.timeSeries}
+                  onTimeSeriesChange={(series) =>
+                    updateWizardData("timeSeries", series)
+                  }
                 />
               )}
               {currentStep === 3 && (
@@ -345,6 +371,8 @@ export function ModernWizardApp() {
                   onNext={handleStep3Next}
                   onBack={handleBack}
                   initialData={wizardData.step3}
+                  industry={wizardData.step1?.industry}
+                  currency={reportingCurrency(wizardData)}
                   onSave={(data) => updateWizardData("step3", data)}
                 />
               )}
@@ -0,0 +1,362 @@
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Dices, Loader2, Play } from "lucide-react";
+import type { ValuationDistribution, WizardData } from "@shared/api";
+import { convertAmount, type FxRates } from "@shared/currency";
+import {
+  DEFAULT_ITERATIONS,
+  MONTE_CARLO_PARAMETERS,
+  PARAMETER_LABELS,
+  defaultDistributions,
+  type Distribution,
+  type MonteCarloDistributions,
+  type MonteCarloParameter,
+} from "@shared/monteCarlo";
+import { UNIT_SCALES, formatAmount } from "@shared/money";
+import { normalizeInputs } from "@shared/valuation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Switch } from "@/components/ui/switch";
+import { simulateValuation } from "@/lib/monteCarlo";
+
+interface MonteCarloPanelProps {
+  wizardData: WizardData;
+  currency: string;
+  fxRates: FxRates;
+  // Result stored on the report, if the simulation was already run
+  distribution?: ValuationDistribution;
+  onResult: (distribution: ValuationDistribution) => void;
+}
+
+const ITERATION_OPTIONS = [1000, 5000, 10000, 20000];
+
+const histogramConfig = {
+  count: { label: "Runs", color: "#60a5fa" },
+} satisfies ChartConfig;
+
+// Parameters of each distribution kind, in the order they are edited
+const KIND_FIELDS: Record<Distribution["kind"], string[]> = {
+  normal: ["mean", "sd"],
+  triangular: ["min", "mode", "max"],
+  uniform: ["min", "max"],
+  fixed: ["value"],
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  mean: "Mean",
+  sd: "Std dev",
+  min: "Min",
+  mode: "Most likely",
+  max: "Max",
+  value: "Value",
+};
+
+// Rates are edited as percentages; the multiple is edited as-is
+const isPercent = (parameter: MonteCarloParameter) =>
+  parameter !== "multipleFactor";
+
+const centreOf = (distribution: Distribution) => {
+  switch (distribution.kind) {
+    case "fixed":
+      return distribution.value;
+    case "normal":
+      return distribution.mean;
+    case "triangular":
+      return distribution.mode;
+    case "uniform":
+      return (distribution.min + distribution.max) / 2;
+  }
+};
+
+// Switching kind keeps the distribution centred where it was
+function withKind(
+  distribution: Distribution,
+  kind: Distribution["kind"],
+): Distribution {
+  const centre = centreOf(distribution);
+  const spread = Math.abs(centre) * 0.25 || 0.05;
+  switch (kind) {
+    case "fixed":
+      return { kind, value: centre };
+    case "normal":
+      return { kind, mean: centre, sd: spread / 2 };
+    case "triangular":
+      return { kind, min: centre - spread, mode: centre, max: centre + spread };
+    case "uniform":
+      return { kind, min: centre - spread, max: centre + spread };
+  }
+}
+
+// Optional simulation of the in-house engine over uncertain assumptions,
+// shown as a histogram of the blended valuation
+export function MonteCarloPanel({
+  wizardData,
+  currency,
+  fxRates,
+  distribution,
+  onResult,
+}: MonteCarloPanelProps) {
+  const inputs = useMemo(
+    () => normalizeInputs(wizardData, fxRates),
+    [wizardData, fxRates],
+  );
+  const [enabled, setEnabled] = useState(!!distribution);
+  const [distributions, setDistributions] = useState<MonteCarloDistributions>(
+    () => defaultDistributions(inputs),
+  );
+  const [iterations, setIterations] = useState(DEFAULT_ITERATIONS);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState("");
+
+  const format = (amount: number) =>
+    formatAmount(
+      convertAmount(
+        amount * UNIT_SCALES[distribution.scale],
+        distribution.currency,
+        currency,
+        fxRates,
+      ),
+      currency,
+    );
+
+  const setField = (
+    parameter: MonteCarloParameter,
+    field: string,
+    value: string,
+  ) => {
+    const number = Number(value);
+    if (value.trim() === "" || Number.isNaN(number)) return;
+    setDistributions((prev) => ({
+      ...prev,
+      [parameter]: {
+        ...prev[parameter],
+        [field]: isPercent(parameter) ? number / 100 : number,
+      },
+    }));
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError("");
+    try {
+      onResult(
+        await simulateValuation({
+          inputs,
+          distributions,
+          options: { iterations },
+        }),
+      );
+    } catch (error: any) {
+      setError(error.message || "Simulation failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const chartData = distribution?.histogram.map((bin) => ({
+    label: format((bin.lower + bin.upper) / 2),
+    count: bin.count,
+  }));
+
+  // Categorical axis: mark the bin each percentile falls in
+  const binLabel = (value: number) => {
+    const index = distribution.histogram.findIndex(
+      (bin) => value >= bin.lower && value <= bin.upper,
+    );
+    return chartData[Math.max(index, 0)]?.label;
+  };
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white font-mono">
+          <div className="flex items-center">
+            <Dices className="w-5 h-5 mr-2 text-blue-400" />
+            Monte Carlo Simulation
+          </div>
+          <label className="flex items-center space-x-2 text-xs text-slate-400 font-normal">
+            <span>Enable</span>
+            <Switch checked={enabled} onCheckedChange={setEnabled} />
+          </label>
+        </CardTitle>
+        <p className="text-xs text-slate-400 font-mono">
+          Samples growth, margin, exit multiple and discount rate from the
+          distributions below and re-runs the in-house engine for each draw.
+        </p>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-6">
+          <div className="grid md:grid-cols-2 gap-4">
+            {MONTE_CARLO_PARAMETERS.map((parameter) => {
+              const current = distributions[parameter];
+              return (
+                <div
+                  key={parameter}
+                  className="p-4 rounded-xl border border-slate-700 bg-slate-800/30 space-y-3"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-white font-mono">
+                      {PARAMETER_LABELS[parameter]}
+                    </span>
+                    <select
+                      value={current.kind}
+                      onChange={(e) =>
+                        setDistributions((prev) => ({
+                          ...prev,
+                          [parameter]: withKind(
+                            prev[parameter],
+                            e.target.value as Distribution["kind"],
+                          ),
+                        }))
+                      }
+                      aria-label={`${PARAMETER_LABELS[parameter]} distribution`}
+                      className="px-2 py-1 bg-slate-800/50 border border-slate-700 rounded text-xs text-white focus:outline-none focus:border-blue-500 font-mono"
+                    >
+                      <option value="normal">Normal</option>
+                      <option value="triangular">Triangular</option>
+                      <option value="uniform">Uniform</option>
+                      <option value="fixed">Fixed</option>
+                    </select>
+                  </div>
+                  <div className="flex gap-2">
+                    {KIND_FIELDS[current.kind].map((field) => {
+                      const value = (
+                        current as unknown as Record<string, number>
+                      )[field];
+                      return (
+                        <label
+                          key={field}
+                          className="flex-1 text-xs text-slate-400 font-mono"
+                        >
+                          {FIELD_LABELS[field]}
+                          {isPercent(parameter) ? " %" : " ×"}
+                          <input
+                            key={`${current.kind}-${field}`}
+                            type="number"
+                            step="any"
+                            defaultValue={
+                              isPercent(parameter)
+                                ? Math.round(value * 1000) / 10
+                                : Math.round(value * 100) / 100
+                            }
+                            onChange={(e) =>
+                              setField(parameter, field, e.target.value)
+                            }
+                            className="mt-1 w-full px-2 py-1 bg-slate-800/50 border border-slate-700 rounded text-sm text-white focus:outline-none focus:border-blue-500"
+                          />
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={iterations}
+              onChange={(e) => setIterations(Number(e.target.value))}
+              aria-label="Iterations"
+              className="px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500 font-mono"
+            >
+              {ITERATION_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option.toLocaleString()} runs
+                </option>
+              ))}
+            </select>
+            <Button
+              onClick={handleRun}
+              disabled={isRunning}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-mono"
+            >
+              {isRunning ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="w-4 h-4 mr-2" />
+              )}
+              {isRunning ? "Simulating..." : "Run simulation"}
+            </Button>
+            {error && (
+              <span className="text-sm text-red-400 font-mono">{error}</span>
+            )}
+          </div>
+
+          {distribution && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-3">
+                {(
+                  [
+                    ["P10", distribution.p10],
+                    ["P50", distribution.p50],
+                    ["P90", distribution.p90],
+                  ] as const
+                ).map(([label, value]) => (
+                  <div
+                    key={label}
+                    className="p-3 rounded-lg border border-slate-700 bg-slate-800/30 text-center"
+                  >
+                    <div className="text-xs text-slate-400 font-mono">
+                      {label}
+                    </div>
+                    <div className="text-lg font-bold text-blue-400 font-mono">
+                      {format(value)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <ChartContainer
+                config={histogramConfig}
+                className="aspect-auto h-64 w-full"
+              >
+                <BarChart data={chartData} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="label"
+                    interval="preserveStartEnd"
+                    minTickGap={24}
+                  />
+                  <YAxis allowDecimals={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" />
+                  {(["p10", "p50", "p90"] as const).map((key) => (
+                    <ReferenceLine
+                      key={key}
+                      x={binLabel(distribution[key])}
+                      stroke={key === "p50" ? "#facc15" : "#94a3b8"}
+                      strokeDasharray="4 4"
+                      label={{
+                        value: key.toUpperCase(),
+                        position: "top",
+                        fill: "#cbd5e1",
+                        fontSize: 10,
+                      }}
+                    />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+              <p className="text-xs text-slate-500 font-mono">
+                {distribution.iterations.toLocaleString()} runs · mean{" "}
+                {format(distribution.mean)}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
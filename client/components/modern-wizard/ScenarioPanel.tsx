@@ -0,0 +1,312 @@
+import { useMemo } from "react";
+import { Layers, Plus, Save, Trash2 } from "lucide-react";
+import type { Scenario, WizardData } from "@shared/api";
+import { convertRange, type FxRates } from "@shared/currency";
+import {
+  currencySymbol,
+  formatMoneyRange,
+  money,
+  toUnits,
+  type MoneyRange,
+} from "@shared/money";
+import { runScenarios } from "@shared/scenarios";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+interface ScenarioPanelProps {
+  wizardData: WizardData;
+  scenarios: Scenario[];
+  onChange: (scenarios: Scenario[]) => void;
+  currency: string;
+  fxRates: FxRates;
+  // Stores the scenarios with the saved run; omitted when there is none
+  onSave?: () => void;
+}
+
+type MoneyField = "revenue" | "monthlyBurnRate";
+type NumberField = "growthRate" | "customerCount";
+
+const MONEY_FIELDS: Array<[MoneyField, string]> = [
+  ["revenue", "Revenue"],
+  ["monthlyBurnRate", "Monthly burn"],
+];
+
+const NUMBER_FIELDS: Array<[NumberField, string]> = [
+  ["growthRate", "Growth rate %"],
+  ["customerCount", "Customers"],
+];
+
+const parseInput = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+// Named what-if cases over the wizard answers; blank fields keep the answer
+// given in the wizard
+export function ScenarioPanel({
+  wizardData,
+  scenarios,
+  onChange,
+  currency,
+  fxRates,
+  onSave,
+}: ScenarioPanelProps) {
+  const analysis = useMemo(() => {
+    try {
+      return runScenarios(wizardData, scenarios, fxRates);
+    } catch (error) {
+      return null;
+    }
+  }, [wizardData, scenarios, fxRates]);
+
+  const update = (id: string, change: (scenario: Scenario) => Scenario) =>
+    onChange(
+      scenarios.map((scenario) =>
+        scenario.id === id ? change(scenario) : scenario,
+      ),
+    );
+
+  const setMoney = (id: string, field: MoneyField, value: string) =>
+    update(id, (scenario) => {
+      const amount = parseInput(value);
+      return {
+        ...scenario,
+        overrides: {
+          ...scenario.overrides,
+          step2: {
+            ...scenario.overrides.step2,
+            [field]:
+              amount === undefined || Number.isNaN(amount)
+                ? undefined
+                : money(amount, "units", currency),
+          },
+        },
+      };
+    });
+
+  const setNumber = (id: string, field: NumberField, value: string) =>
+    update(id, (scenario) => {
+      const amount = parseInput(value);
+      return {
+        ...scenario,
+        overrides: {
+          ...scenario.overrides,
+          step3: {
+            ...scenario.overrides.step3,
+            [field]: Number.isNaN(amount) ? undefined : amount,
+          },
+        },
+      };
+    });
+
+  const addScenario = () =>
+    onChange([
+      ...scenarios,
+      {
+        id: crypto.randomUUID(),
+        name: `Scenario ${scenarios.length + 1}`,
+        probability: 0,
+        overrides: {},
+      },
+    ]);
+
+  const removeScenario = (id: string) =>
+    onChange(scenarios.filter((scenario) => scenario.id !== id));
+
+  const formatRange = (range: MoneyRange) =>
+    formatMoneyRange(convertRange(range, currency, fxRates));
+
+  const totalProbability = scenarios.reduce(
+    (sum, scenario) => sum + scenario.probability,
+    0,
+  );
+
+  const inputClass =
+    "w-full px-2 py-1 bg-slate-800/50 border border-slate-700 rounded text-sm text-white focus:outline-none focus:border-blue-500 font-mono";
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white font-mono">
+          <div className="flex items-center">
+            <Layers className="w-5 h-5 mr-2 text-purple-400" />
+            Scenario Analysis
+          </div>
+          <div className="flex items-center space-x-2">
+            {onSave && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={onSave}
+                className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={addScenario}
+              className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add scenario
+            </Button>
+          </div>
+        </CardTitle>
+        <p className="text-xs text-slate-400 font-mono">
+          Each scenario is run with the in-house engine. Leave a field blank to
+          keep your wizard answer.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="text-xs text-slate-500">
+                <th className="text-left font-normal pb-2 pr-2">Scenario</th>
+                <th className="text-left font-normal pb-2 pr-2 w-20">
+                  Probability %
+                </th>
+                {MONEY_FIELDS.map(([field, label]) => (
+                  <th key={field} className="text-left font-normal pb-2 pr-2">
+                    {label} ({currencySymbol(currency)})
+                  </th>
+                ))}
+                {NUMBER_FIELDS.map(([field, label]) => (
+                  <th key={field} className="text-left font-normal pb-2 pr-2">
+                    {label}
+                  </th>
+                ))}
+                <th className="text-right font-normal pb-2 pr-2">Valuation</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {scenarios.map((scenario) => {
+                const result = analysis?.results.find(
+                  (entry) => entry.scenario.id === scenario.id,
+                );
+                return (
+                  <tr key={scenario.id} className="border-t border-slate-800">
+                    <td className="py-2 pr-2">
+                      <input
+                        value={scenario.name}
+                        onChange={(e) =>
+                          update(scenario.id, (current) => ({
+                            ...current,
+                            name: e.target.value,
+                          }))
+                        }
+                        aria-label="Scenario name"
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={scenario.probability}
+                        onChange={(e) =>
+                          update(scenario.id, (current) => ({
+                            ...current,
+                            probability: Math.min(
+                              100,
+                              Math.max(0, Number(e.target.value) || 0),
+                            ),
+                          }))
+                        }
+                        aria-label={`${scenario.name} probability`}
+                        className={inputClass}
+                      />
+                    </td>
+                    {MONEY_FIELDS.map(([field, label]) => {
+                      const value = scenario.overrides.step2?.[field];
+                      const answer = wizardData.step2?.[field];
+                      return (
+                        <td key={field} className="py-2 pr-2">
+                          <input
+                            type="number"
+                            value={value ? toUnits(value) : ""}
+                            placeholder={answer ? String(toUnits(answer)) : "—"}
+                            onChange={(e) =>
+                              setMoney(scenario.id, field, e.target.value)
+                            }
+                            aria-label={`${scenario.name} ${label}`}
+                            className={inputClass}
+                          />
+                        </td>
+                      );
+                    })}
+                    {NUMBER_FIELDS.map(([field, label]) => {
+                      const value = scenario.overrides.step3?.[field];
+                      const answer = wizardData.step3?.[field];
+                      return (
+                        <td key={field} className="py-2 pr-2">
+                          <input
+                            type="number"
+                            value={value ?? ""}
+                            placeholder={
+                              answer !== undefined ? String(answer) : "—"
+                            }
+                            onChange={(e) =>
+                              setNumber(scenario.id, field, e.target.value)
+                            }
+                            aria-label={`${scenario.name} ${label}`}
+                            className={inputClass}
+                          />
+                        </td>
+                      );
+                    })}
+                    <td className="py-2 pr-2 text-right text-white whitespace-nowrap">
+                      {result
+                        ? formatRange(result.report.finalValuation.finalRange)
+                        : "—"}
+                    </td>
+                    <td className="py-2 text-right">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => removeScenario(scenario.id)}
+                        disabled={scenarios.length <= 1}
+                        className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                        title="Remove scenario"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-4 rounded-xl border border-purple-500/30 bg-purple-500/5">
+          <div>
+            <div className="text-sm text-slate-300 font-mono">
+              Probability-weighted valuation
+            </div>
+            <div
+              className={cn(
+                "text-xs font-mono",
+                totalProbability === 100 ? "text-slate-500" : "text-amber-400",
+              )}
+            >
+              Probabilities total {totalProbability}%
+              {totalProbability !== 100 &&
+                totalProbability > 0 &&
+                " · weighted by their share"}
+            </div>
+          </div>
+          <div className="text-2xl font-bold text-purple-300 font-mono">
+            {analysis
+              ? formatRange(analysis.weightedRange)
+              : "Set at least one probability"}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
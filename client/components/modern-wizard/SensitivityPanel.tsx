@@ -0,0 +1,358 @@
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { RotateCcw, SlidersHorizontal } from "lucide-react";
+import type { WizardData } from "@shared/api";
+import { BASE_CURRENCY, convertAmount, type FxRates } from "@shared/currency";
+import { formatAmount } from "@shared/money";
+import {
+  DRIVER_LABELS,
+  SENSITIVITY_DRIVERS,
+  evaluateSensitivity,
+  sensitivityTable,
+  tornado,
+  type DriverShocks,
+  type SensitivityDriver,
+} from "@shared/sensitivity";
+import { normalizeInputs } from "@shared/valuation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Slider } from "@/components/ui/slider";
+import { cn } from "@/lib/utils";
+
+interface SensitivityPanelProps {
+  wizardData: WizardData;
+  currency: string;
+  fxRates: FxRates;
+}
+
+const SLIDER_LIMIT = 50;
+const TORNADO_SWING = 0.2;
+
+const tornadoConfig = {
+  down: { label: `-${TORNADO_SWING * 100}%`, color: "#f87171" },
+  up: { label: `+${TORNADO_SWING * 100}%`, color: "#4ade80" },
+} satisfies ChartConfig;
+
+const formatShock = (shock: number) =>
+  shock === 0 ? "0%" : `${shock > 0 ? "+" : ""}${Math.round(shock * 100)}%`;
+
+const formatDelta = (value: number, base: number) =>
+  base > 0 ? formatShock((value - base) / base) : "—";
+
+// What-if view over the in-house engine: drivers are shocked relative to the
+// wizard answers and every method is re-run in the browser
+export function SensitivityPanel({
+  wizardData,
+  currency,
+  fxRates,
+}: SensitivityPanelProps) {
+  const [shocks, setShocks] = useState<DriverShocks>({});
+  const [rowDriver, setRowDriver] = useState<SensitivityDriver>("revenue");
+  const [columnDriver, setColumnDriver] =
+    useState<SensitivityDriver>("multipleFactor");
+
+  const inputs = useMemo(
+    () => normalizeInputs(wizardData, fxRates),
+    [wizardData, fxRates],
+  );
+  const base = useMemo(() => evaluateSensitivity(inputs), [inputs]);
+  const adjusted = useMemo(
+    () => evaluateSensitivity(inputs, shocks),
+    [inputs, shocks],
+  );
+  const tornadoRows = useMemo(() => tornado(inputs, TORNADO_SWING), [inputs]);
+  const table = useMemo(
+    () => sensitivityTable(inputs, rowDriver, columnDriver),
+    [inputs, rowDriver, columnDriver],
+  );
+
+  // Engine figures are in base currency units
+  const format = (amount: number) =>
+    formatAmount(
+      convertAmount(amount, BASE_CURRENCY, currency, fxRates),
+      currency,
+    );
+
+  const tornadoData = tornadoRows.map((row) => ({
+    label: row.label,
+    down: convertAmount(
+      row.low - base.midpoint,
+      BASE_CURRENCY,
+      currency,
+      fxRates,
+    ),
+    up: convertAmount(
+      row.high - base.midpoint,
+      BASE_CURRENCY,
+      currency,
+      fxRates,
+    ),
+  }));
+
+  const hasShocks = Object.values(shocks).some(Boolean);
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white font-mono">
+          <div className="flex items-center">
+            <SlidersHorizontal className="w-5 h-5 mr-2 text-cyan-400" />
+            Sensitivity Analysis
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setShocks({})}
+            disabled={!hasShocks}
+            className="text-slate-400 hover:text-white hover:bg-slate-800 font-mono"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+        </CardTitle>
+        <p className="text-xs text-slate-400 font-mono">
+          Recomputed with the in-house engine from your answers; figures may
+          differ from an AI-generated report.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {/* Driver sliders */}
+        <div className="grid md:grid-cols-2 gap-x-8 gap-y-5">
+          {SENSITIVITY_DRIVERS.map((driver) => {
+            const shock = shocks[driver] ?? 0;
+            return (
+              <div key={driver}>
+                <div className="flex justify-between text-sm font-mono mb-2">
+                  <span className="text-slate-300">
+                    {DRIVER_LABELS[driver]}
+                  </span>
+                  <span
+                    className={cn(
+                      shock > 0 && "text-green-400",
+                      shock < 0 && "text-red-400",
+                      shock === 0 && "text-slate-500",
+                    )}
+                  >
+                    {formatShock(shock)}
+                  </span>
+                </div>
+                <Slider
+                  min={-SLIDER_LIMIT}
+                  max={SLIDER_LIMIT}
+                  step={5}
+                  value={[Math.round(shock * 100)]}
+                  onValueChange={([value]) =>
+                    setShocks((prev) => ({ ...prev, [driver]: value / 100 }))
+                  }
+                  aria-label={`${DRIVER_LABELS[driver]} change`}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Live method ranges */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="text-xs text-slate-500">
+                <th className="text-left font-normal pb-2">Method</th>
+                <th className="text-right font-normal pb-2">Baseline</th>
+                <th className="text-right font-normal pb-2">Adjusted</th>
+                <th className="text-right font-normal pb-2">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {adjusted.methods.map((result) => {
+                const original = base.methods.find(
+                  (entry) => entry.method === result.method,
+                );
+                const originalMid = original
+                  ? (original.lower + original.upper) / 2
+                  : 0;
+                return (
+                  <tr key={result.method} className="border-t border-slate-800">
+                    <td className="py-2 text-slate-300">{result.method}</td>
+                    <td className="py-2 text-right text-slate-400">
+                      {original
+                        ? `${format(original.lower)} - ${format(original.upper)}`
+                        : "—"}
+                    </td>
+                    <td className="py-2 text-right text-white">
+                      {format(result.lower)} - {format(result.upper)}
+                    </td>
+                    <td className="py-2 text-right text-slate-400">
+                      {formatDelta(
+                        (result.lower + result.upper) / 2,
+                        originalMid,
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              <tr className="border-t border-slate-600 font-bold">
+                <td className="py-2 text-white">Blended</td>
+                <td className="py-2 text-right text-slate-300">
+                  {format(base.lower)} - {format(base.upper)}
+                </td>
+                <td className="py-2 text-right text-blue-400">
+                  {format(adjusted.lower)} - {format(adjusted.upper)}
+                </td>
+                <td className="py-2 text-right text-slate-300">
+                  {formatDelta(adjusted.midpoint, base.midpoint)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {/* Tornado chart */}
+        <div>
+          <h4 className="text-sm font-medium text-white font-mono mb-1">
+            What moves the valuation
+          </h4>
+          <p className="text-xs text-slate-500 font-mono mb-4">
+            Change in the blended midpoint ({format(base.midpoint)}) when each
+            driver moves ±{TORNADO_SWING * 100}% on its own
+          </p>
+          <ChartContainer
+            config={tornadoConfig}
+            className="aspect-auto h-72 w-full"
+          >
+            <BarChart
+              data={tornadoData}
+              layout="vertical"
+              stackOffset="sign"
+              margin={{ left: 24, right: 24 }}
+            >
+              <CartesianGrid horizontal={false} />
+              <XAxis
+                type="number"
+                tickFormatter={(value: number) => formatAmount(value, currency)}
+              />
+              <YAxis type="category" dataKey="label" width={130} />
+              <ReferenceLine x={0} stroke="#64748b" />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    formatter={(value, name) => (
+                      <span className="font-mono">
+                        {
+                          tornadoConfig[name as keyof typeof tornadoConfig]
+                            ?.label
+                        }
+                        : {formatAmount(Number(value), currency)}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              <Bar dataKey="down" stackId="swing" fill="var(--color-down)" />
+              <Bar dataKey="up" stackId="swing" fill="var(--color-up)" />
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        {/* Two-variable data table */}
+        <div>
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm font-mono">
+            <h4 className="font-medium text-white">Two-way table:</h4>
+            <select
+              value={rowDriver}
+              onChange={(e) =>
+                setRowDriver(e.target.value as SensitivityDriver)
+              }
+              aria-label="Row driver"
+              className="px-3 py-1 bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              {SENSITIVITY_DRIVERS.filter(
+                (driver) => driver !== columnDriver,
+              ).map((driver) => (
+                <option key={driver} value={driver}>
+                  {DRIVER_LABELS[driver]}
+                </option>
+              ))}
+            </select>
+            <span className="text-slate-500">×</span>
+            <select
+              value={columnDriver}
+              onChange={(e) =>
+                setColumnDriver(e.target.value as SensitivityDriver)
+              }
+              aria-label="Column driver"
+              className="px-3 py-1 bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              {SENSITIVITY_DRIVERS.filter((driver) => driver !== rowDriver).map(
+                (driver) => (
+                  <option key={driver} value={driver}>
+                    {DRIVER_LABELS[driver]}
+                  </option>
+                ),
+              )}
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr>
+                  <th className="text-left text-xs text-slate-500 font-normal pb-2">
+                    {DRIVER_LABELS[rowDriver]} ↓ / {DRIVER_LABELS[columnDriver]}{" "}
+                    →
+                  </th>
+                  {table.columnShocks.map((shock) => (
+                    <th
+                      key={shock}
+                      className="text-right text-xs text-slate-400 font-normal pb-2"
+                    >
+                      {formatShock(shock)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rowShocks.map((rowShock, rowIndex) => (
+                  <tr key={rowShock} className="border-t border-slate-800">
+                    <td className="py-2 text-xs text-slate-400">
+                      {formatShock(rowShock)}
+                    </td>
+                    {table.midpoints[rowIndex].map((midpoint, columnIndex) => (
+                      <td
+                        key={columnIndex}
+                        className={cn(
+                          "py-2 text-right",
+                          rowShock === 0 &&
+                            table.columnShocks[columnIndex] === 0
+                            ? "text-blue-400 font-bold"
+                            : midpoint > base.midpoint
+                              ? "text-green-400"
+                              : midpoint < base.midpoint
+                                ? "text-red-400"
+                                : "text-slate-300",
+                        )}
+                      >
+                        {format(midpoint)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+import { useState } from "react";
+import { Check, Copy, Link2, Loader2, Share2, XCircle } from "lucide-react";
+import type { ValuationReport, WizardData } from "@shared/api";
+import { shareStatus, type DisclosableStep } from "@shared/share";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import {
+  createShare,
+  listOwnedShares,
+  revokeShare,
+  shareUrl,
+  type OwnedShare,
+} from "@/lib/shares";
+
+interface ShareDialogProps {
+  wizardData: WizardData;
+  report: ValuationReport | null;
+  confidence: number;
+}
+
+const STEP_OPTIONS: Array<[DisclosableStep, string]> = [
+  ["step1", "Company basics"],
+  ["step2", "Financials"],
+  ["step3", "Traction"],
+  ["step4", "Links & files"],
+];
+
+const EXPIRY_OPTIONS: Array<[string, number | null]> = [
+  ["Never", null],
+  ["1 day", 1],
+  ["7 days", 7],
+  ["30 days", 30],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Creates read-only /r/:shareId links and lists the ones made in this browser
+export function ShareDialog({
+  wizardData,
+  report,
+  confidence,
+}: ShareDialogProps) {
+  const [disclosedSteps, setDisclosedSteps] = useState<DisclosableStep[]>([
+    "step1",
+  ]);
+  const [redactFinancials, setRedactFinancials] = useState(true);
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [ownedShares, setOwnedShares] = useState(listOwnedShares);
+  const [created, setCreated] = useState<OwnedShare | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState("");
+
+  const toggleStep = (step: DisclosableStep) =>
+    setDisclosedSteps((prev) =>
+      prev.includes(step)
+        ? prev.filter((selected) => selected !== step)
+        : [...prev, step],
+    );
+
+  const handleCreate = async () => {
+    if (!report) return;
+    setIsCreating(true);
+    setError("");
+    try {
+      const share = await createShare({
+        report,
+        wizardData,
+        confidence,
+        disclosedSteps,
+        redactFinancials,
+        expiresAt: expiryDays
+          ? new Date(Date.now() + expiryDays * DAY_MS).toISOString()
+          : undefined,
+      });
+      setCreated(share);
+      setCopied(false);
+      setOwnedShares(listOwnedShares());
+    } catch (error: any) {
+      console.error("Failed to create share link:", error);
+      setError("Could not create a link. Sharing needs the built-in server.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (id: string) => {
+    await navigator.clipboard.writeText(shareUrl(id));
+    setCopied(true);
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      setOwnedShares(await revokeShare(id));
+      if (created?.id === id) setCreated(null);
+    } catch (error: any) {
+      console.error("Failed to revoke share link:", error);
+      setError("Could not revoke the link. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={!report}
+          className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white py-3 px-6 font-mono"
+        >
+          <Share2 className="w-5 h-5 mr-2" />
+          Share Results
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-900 border-slate-700 text-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-mono">
+            Share a read-only report
+          </DialogTitle>
+          <DialogDescription className="font-mono text-slate-400">
+            Anyone with the link can view the report and the inputs you choose
+            below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 font-mono text-sm">
+          <div>
+            <div className="text-slate-300 mb-2">Inputs to include</div>
+            <div className="grid grid-cols-2 gap-2">
+              {STEP_OPTIONS.map(([step, label]) => (
+                <label
+                  key={step}
+                  className="flex items-center space-x-2 text-slate-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={disclosedSteps.includes(step)}
+                    onChange={() => toggleStep(step)}
+                    className="accent-blue-500"
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between text-slate-300">
+            <span>
+              Redact financial amounts
+              <span className="block text-xs text-slate-500">
+                Amounts in the report text and the revenue-based methods are
+                removed too; the final range stays
+              </span>
+            </span>
+            <Switch
+              checked={redactFinancials}
+              onCheckedChange={setRedactFinancials}
+            />
+          </label>
+
+          <div className="flex items-center justify-between text-slate-300">
+            <span>Link expires</span>
+            <select
+              value={expiryDays ?? ""}
+              onChange={(e) =>
+                setExpiryDays(e.target.value ? Number(e.target.value) : null)
+              }
+              className="px-3 py-1 bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500"
+            >
+              {EXPIRY_OPTIONS.map(([label, days]) => (
+                <option key={label} value={days ?? ""}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <Button
+            onClick={handleCreate}
+            disabled={isCreating || !report}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {isCreating ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="w-4 h-4 mr-2" />
+            )}
+            Create link
+          </Button>
+
+          {error && <p className="text-red-400">{error}</p>}
+
+          {created && (
+            <div className="flex items-center space-x-2 p-3 rounded-lg border border-blue-500/30 bg-blue-500/10">
+              <input
+                readOnly
+                value={shareUrl(created.id)}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 bg-transparent text-blue-300 focus:outline-none"
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => handleCopy(created.id)}
+                className="text-slate-300 hover:bg-slate-800"
+                title="Copy link"
+              >
+                {copied ? (
+                  <Check className="w-4 h-4 text-green-400" />
+                ) : (
+                  <Copy className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+          )}
+
+          {ownedShares.length > 0 && (
+            <div>
+              <div className="text-slate-300 mb-2">Your links</div>
+              <div className="space-y-2">
+                {ownedShares.map((share) => {
+                  const status = shareStatus(share);
+                  return (
+                    <div
+                      key={share.id}
+                      className="flex items-center justify-between p-2 rounded border border-slate-800 text-xs"
+                    >
+                      <div className="min-w-0">
+                        <div className="text-slate-300 truncate">
+                          {share.businessName} ·{" "}
+                          {new Date(share.createdAt).toLocaleDateString()}
+                        </div>
+                        <div className="text-slate-500">
+                          {status === "active"
+                            ? share.expiresAt
+                              ? `Expires ${new Date(share.expiresAt).toLocaleDateString()}`
+                              : "No expiry"
+                            : status === "revoked"
+                              ? "Revoked"
+                              : "Expired"}
+                        </div>
+                      </div>
+                      {status === "active" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRevoke(share.id)}
+                          className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                        >
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,6 +15,7 @@ import {
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { currencyForCountry, SUPPORTED_CURRENCIES } from "@shared/currency";
 
 const formSchema = z.object({
   businessName: z.string().min(1, "Business name is required"),
@@ -22,6 +23,7 @@ const formSchema = z.object({
   industry: z.string().min(1, "Please select your industry"),
   stage: z.string().min(1, "Please select your business stage"),
   isLaunched: z.boolean(),
+  currency: z.string().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -153,6 +155,8 @@ export function Step1QuickStart({ onNext, initialData, onSave }: Step1Props) {
       industry: initialData?.industry || "",
       stage: initialData?.stage || "",
       isLaunched: initialData?.isLaunched || false,
+      currency:
+        initialData?.currency || currencyForCountry(initialData?.country),
     },
     mode: "onChange",
   });
@@ -168,7 +172,7 @@ export function Step1QuickStart({ onNext, initialData, onSave }: Step1Props) {
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [watchedValues.businessName, watchedValues.country, watchedValues.industry, watchedValues.stage, watchedValues.isLaunched, onSave]);
+  }, [watchedValues.businessName, watchedValues.country, watchedValues.industry, watchedValues.stage, watchedValues.isLaunched, watchedValues.currency, onSave]);
 
   const selectedCountry = countries.find(
     (c) => c.name === watchedValues.country,
@@ -188,6 +192,7 @@ export function Step1QuickStart({ onNext, initialData, onSave }: Step1Props) {
 
   const handleCountrySelect = (country: (typeof countries)[0]) => {
     setValue("country", country.name, { shouldValidate: true });
+    setValue("currency", currencyForCountry(country.name));
     setShowCountryDropdown(false);
     setCountrySearch("");
   };
@@ -315,6 +320,27 @@ export function Step1QuickStart({ onNext, initialData, onSave }: Step1Props) {
                     {errors.country.message}
                   </p>
                 )}
+
+                {/* Reporting currency, defaulted from the country */}
+                <div className="mt-4 flex items-center justify-between space-x-3">
+                  <label
+                    htmlFor="reporting-currency"
+                    className="text-xs text-slate-400 font-mono"
+                  >
+                    Financials reported in
+                  </label>
+                  <select
+                    id="reporting-currency"
+                    {...register("currency")}
+                    className="px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-sm text-white focus:outline-none focus:border-blue-500 font-mono"
+                  >
+                    {SUPPORTED_CURRENCIES.map((currency) => (
+                      <option key={currency.code} value={currency.code}>
+                        {currency.code} · {currency.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </CardContent>
             </Card>
           </div>
@@ -13,10 +13,25 @@ import {
   ChevronDown,
   HelpCircle,
   Eye,
-  EyeOff
+  EyeOff,
+  CalendarRange
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import {
+  FinancialImportDialog,
+  type ImportedAnswers,
+} from "./FinancialImportDialog";
+import { TimeSeriesEditor } from "./TimeSeriesEditor";
+import type { WizardData } from "@/lib/fastapi";
+import type { TimeSeries } from "@shared/api";
+import { deriveMetrics } from "@shared/timeSeries";
+import {
+  currencySymbol,
+  DEFAULT_CURRENCY,
+  money,
+  toUnits,
+} from "@shared/money";
 
 const formSchema = z.object({
   revenue: z.coerce.number().min(0, "Revenue must be 0 or greater").optional(),
@@ -38,11 +53,44 @@ const formSchema = z.object({
 
 type FormData = z.infer<typeof formSchema>;
 
+type Step2Data = NonNullable<WizardData["step2"]>;
+
+// The form edits whole units of the reporting currency; wizard data stores
+// explicit Money values
+const toStep2Data = (
+  values: Partial<FormData>,
+  currency: string,
+): Step2Data => {
+  const toMoney = (value: number | undefined) =>
+    value === undefined || Number.isNaN(value)
+      ? undefined
+      : money(value, "units", currency);
+
+  return {
+    revenue: toMoney(values.revenue),
+    monthlyBurnRate: toMoney(values.monthlyBurnRate),
+    netProfitLoss: toMoney(values.netProfitLoss),
+    fundingRaised: toMoney(values.fundingRaised),
+    planningToRaise: toMoney(values.planningToRaise),
+    skipFinancials: values.skipFinancials,
+  };
+};
+
 interface Step2Props {
-  onNext: (data: FormData) => void;
+  onNext: (data: Step2Data) => void;
   onBack: () => void;
-  initialData?: Partial<FormData>;
-  onSave?: (data: Partial<FormData>) => void;
+  initialData?: Partial<Step2Data>;
+  onSave?: (data: Step2Data) => void;
+  // Reporting currency chosen in the first step
+  currency?: string;
+  // Growth derived by the spreadsheet importer belongs to the traction step
+  onImportTraction?: (traction: {
+    growthRate: number;
+    growthPeriod: string;
+  }) => void;
+  // Detailed monthly figures; when set they drive the snapshot answers
+  timeSeries?: TimeSeries;
+  onTimeSeriesChange?: (series: TimeSeries | undefined) => void;
 }
 
 const tooltips = {
@@ -53,9 +101,19 @@ const tooltips = {
   planningToRaise: "How much funding you're looking to raise in your next round. This helps tailor the valuation for your fundraising goals.",
 };
 
-export function Step2FinancialSnapshot({ onNext, onBack, initialData, onSave }: Step2Props) {
+export function Step2FinancialSnapshot({
+  onNext,
+  onBack,
+  initialData,
+  onSave,
+  currency = DEFAULT_CURRENCY,
+  onImportTraction,
+  timeSeries,
+  onTimeSeriesChange,
+}: Step2Props) {
   const [showTooltip, setShowTooltip] = useState<string | null>(null);
   const [showValues, setShowValues] = useState(false);
+  const [detailed, setDetailed] = useState(Boolean(timeSeries));
 
   const {
     register,
@@ -66,11 +124,11 @@ export function Step2FinancialSnapshot({ onNext, onBack, initialData, onSave }:
   } = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      revenue: initialData?.revenue || undefined,
-      monthlyBurnRate: initialData?.monthlyBurnRate || undefined,
-      netProfitLoss: initialData?.netProfitLoss || undefined,
-      fundingRaised: initialData?.fundingRaised || undefined,
-      planningToRaise: initialData?.planningToRaise || undefined,
+      revenue: toUnits(initialData?.revenue) || undefined,
+      monthlyBurnRate: toUnits(initialData?.monthlyBurnRate) || undefined,
+      netProfitLoss: toUnits(initialData?.netProfitLoss) || undefined,
+      fundingRaised: toUnits(initialData?.fundingRaised) || undefined,
+      planningToRaise: toUnits(initialData?.planningToRaise) || undefined,
       skipFinancials: initialData?.skipFinancials || false,
     },
     mode: "onChange",
@@ -82,22 +140,58 @@ export function Step2FinancialSnapshot({ onNext, onBack, initialData, onSave }:
   useEffect(() => {
     const timer = setTimeout(() => {
       if (onSave) {
-        onSave(watchedValues);
+        onSave(toStep2Data(watchedValues, currency));
       }
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [watchedValues.revenue, watchedValues.monthlyBurnRate, watchedValues.netProfitLoss, watchedValues.fundingRaised, watchedValues.planningToRaise, watchedValues.skipFinancials, onSave]);
+  }, [watchedValues.revenue, watchedValues.monthlyBurnRate, watchedValues.netProfitLoss, watchedValues.fundingRaised, watchedValues.planningToRaise, watchedValues.skipFinancials, currency, onSave]);
+
+  const handleImport = ({ amounts, growthRate }: ImportedAnswers) => {
+    Object.entries(amounts).forEach(([field, amount]) =>
+      setValue(field as keyof FormData, Math.round(amount), {
+        shouldValidate: true,
+        shouldDirty: true,
+      }),
+    );
+    setValue("skipFinancials", false);
+    if (growthRate !== undefined) {
+      onImportTraction?.({ growthRate, growthPeriod: "monthly" });
+    }
+  };
+
+  const handleTimeSeries = (series: TimeSeries | undefined) => {
+    onTimeSeriesChange?.(series);
+    if (!series) return;
+    const metrics = deriveMetrics(series);
+    const derived: Partial<Record<keyof FormData, number>> = {
+      revenue: metrics.ttmRevenue,
+      monthlyBurnRate: metrics.monthlyCosts,
+      netProfitLoss: metrics.ttmNetIncome,
+    };
+    Object.entries(derived).forEach(([field, amount]) =>
+      setValue(field as keyof FormData, Math.round(amount), {
+        shouldValidate: true,
+        shouldDirty: true,
+      }),
+    );
+    setValue("skipFinancials", false);
+  };
+
+  const toggleDetailed = () => {
+    if (detailed) onTimeSeriesChange?.(undefined);
+    setDetailed(!detailed);
+  };
 
   const onSubmit = (data: FormData) => {
-    onNext(data);
+    onNext(toStep2Data(data, currency));
   };
 
   const formatCurrency = (value: number | undefined) => {
     if (!value) return "";
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value);
@@ -169,16 +263,59 @@ export function Step2FinancialSnapshot({ onNext, onBack, initialData, onSave }:
                     </div>
                   </div>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <FinancialImportDialog
+                    currency={currency}
+                    onApply={handleImport}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowValues(!showValues)}
+                    className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
+                  >
+                    {showValues ? "Hide" : "Show"} Values
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Detailed monthly figures */}
+          <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+            <CardContent className="p-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <div className="w-10 h-10 bg-slate-800 rounded-lg flex items-center justify-center">
+                    <CalendarRange className={`w-5 h-5 ${detailed ? "text-blue-400" : "text-slate-400"}`} />
+                  </div>
+                  <div>
+                    <div className="font-medium text-white font-mono">Monthly figures</div>
+                    <div className="text-xs text-slate-400 font-mono">
+                      {detailed
+                        ? "Revenue, burn, growth and customers are derived from 12-36 months"
+                        : "Enter month-by-month history instead of totals"}
+                    </div>
+                  </div>
+                </div>
                 <Button
                   type="button"
                   variant="outline"
                   size="sm"
-                  onClick={() => setShowValues(!showValues)}
+                  onClick={toggleDetailed}
                   className="border-slate-700 text-slate-300 hover:bg-slate-800 font-mono"
                 >
-                  {showValues ? "Hide" : "Show"} Values
+                  {detailed ? "Use totals" : "Detailed mode"}
                 </Button>
               </div>
+              {detailed && (
+                <TimeSeriesEditor
+                  value={timeSeries}
+                  currency={currency}
+                  onChange={handleTimeSeries}
+                />
+              )}
             </CardContent>
           </Card>
 
@@ -208,7 +345,9 @@ export function Step2FinancialSnapshot({ onNext, onBack, initialData, onSave }:
                   </div>
 
                   <div className="relative">
-                    <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 w-4 h-4" />
+                    <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 text-xs font-mono">
+                      {currencySymbol(currency)}
+                    </span>
                     <input
                       {...register(field.key as keyof FormData)}
                       type="number"
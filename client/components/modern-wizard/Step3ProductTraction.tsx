@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { createPortal } from "react-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import { useForm } from "react-hook-form";
@@ -13,10 +13,28 @@ import {
   CheckCircle,
   HelpCircle,
   Calendar,
-  Trophy
+  Trophy,
+  Repeat,
+  Gauge
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import type { WizardData } from "@/lib/fastapi";
+import {
+  currencySymbol,
+  DEFAULT_CURRENCY,
+  money,
+  toUnits,
+} from "@shared/money";
+import {
+  getMetricPack,
+  metricPackSchema,
+  type MetricPack,
+} from "@shared/metricPacks";
+import { collectsUnitEconomics } from "@shared/unitEconomics";
+
+// Blank inputs stay undefined rather than coercing to 0
+const optionalField = z.number().min(0, "Must be 0 or greater").optional();
 
 const formSchema = z.object({
   customerCount: z.coerce
@@ -30,18 +48,110 @@ const formSchema = z.object({
   growthPeriod: z.string().optional(),
   uniqueValue: z.string().optional(),
   competitors: z.string().optional(),
+  unitEconomics: z
+    .object({
+      arr: optionalField,
+      grossMargin: optionalField.refine(
+        (value) => value === undefined || value <= 100,
+        "Gross margin is a percentage",
+      ),
+      logoChurn: optionalField,
+      revenueChurn: optionalField,
+      nrr: optionalField,
+      cac: optionalField,
+      paybackMonths: optionalField,
+    })
+    .optional(),
+  // Validated against the industry's metric pack, see formSchemaFor
+  industryMetrics: z.record(z.string(), z.any()).optional(),
   skipTraction: z.boolean().default(false),
 });
 
+const formSchemaFor = (pack?: MetricPack) =>
+  pack
+    ? formSchema.extend({
+        industryMetrics: metricPackSchema(pack, true).optional(),
+      })
+    : formSchema;
+
 type FormData = z.infer<typeof formSchema>;
 
+type Step3Data = NonNullable<WizardData["step3"]>;
+
+type UnitEconomicsField = keyof NonNullable<FormData["unitEconomics"]>;
+
+// ARR, CAC and the money answers of the metric pack are edited in whole
+// units of the reporting currency and stored as Money like the financial step
+const toStep3Data = (
+  values: Partial<FormData>,
+  currency: string,
+  industry?: string,
+): Step3Data => {
+  const { unitEconomics, industryMetrics, ...traction } = values;
+  const toMoney = (value?: number) =>
+    value === undefined || Number.isNaN(value)
+      ? undefined
+      : money(value, "units", currency);
+  const pack = getMetricPack(industry);
+  const answers = pack?.fields
+    .filter((field) => industryMetrics?.[field.key] !== undefined)
+    .map((field) => {
+      const value = industryMetrics[field.key];
+      return [field.key, field.kind === "money" ? toMoney(value) : value];
+    });
+
+  return {
+    ...traction,
+    ...(unitEconomics &&
+      collectsUnitEconomics(industry) && {
+        unitEconomics: {
+          ...unitEconomics,
+          arr: toMoney(unitEconomics.arr),
+          cac: toMoney(unitEconomics.cac),
+        },
+      }),
+    ...(answers?.length && { industryMetrics: Object.fromEntries(answers) }),
+  };
+};
+
+// Pack answers as form values: Money back to plain amounts
+const toFormMetrics = (answers: Step3Data["industryMetrics"]) =>
+  answers &&
+  Object.fromEntries(
+    Object.entries(answers).map(([key, value]) => [
+      key,
+      typeof value === "object" ? toUnits(value) : value,
+    ]),
+  );
+
 interface Step3Props {
-  onNext: (data: FormData) => void;
+  onNext: (data: Step3Data) => void;
   onBack: () => void;
-  initialData?: Partial<FormData>;
-  onSave?: (data: Partial<FormData>) => void;
+  initialData?: Partial<Step3Data>;
+  onSave?: (data: Step3Data) => void;
+  // Industry from the first step; SaaS-like companies get the unit economics
+  industry?: string;
+  // Reporting currency chosen in the first step
+  currency?: string;
 }
 
+const unitEconomicsFields: Array<{
+  key: UnitEconomicsField;
+  label: string;
+  suffix: string;
+  placeholder: string;
+  description: string;
+  money?: boolean;
+}> = [
+  { key: "arr", label: "ARR", suffix: "", placeholder: "e.g., 1200000", description: "Annual recurring revenue today", money: true },
+  { key: "grossMargin", label: "Gross Margin", suffix: "%", placeholder: "e.g., 78", description: "Revenue less cost of revenue" },
+  { key: "logoChurn", label: "Logo Churn", suffix: "%/mo", placeholder: "e.g., 2", description: "Share of customers lost each month" },
+  { key: "revenueChurn", label: "Revenue Churn", suffix: "%/mo", placeholder: "e.g., 1.5", description: "Gross recurring revenue lost each month" },
+  { key: "nrr", label: "Net Revenue Retention", suffix: "%", placeholder: "e.g., 110", description: "Revenue kept from last year's customers, with expansion" },
+  { key: "cac", label: "CAC", suffix: "", placeholder: "e.g., 3000", description: "Sales and marketing cost per new customer", money: true },
+  { key: "paybackMonths", label: "CAC Payback", suffix: "months", placeholder: "e.g., 14", description: "Months of gross profit to recover CAC; derived when blank" },
+];
+
 const growthPeriods = [
   {
     value: "monthly",
@@ -102,7 +212,17 @@ const competitiveAdvantages = [
   }
 ];
 
-export function Step3ProductTraction({ onNext, onBack, initialData, onSave }: Step3Props) {
+export function Step3ProductTraction({
+  onNext,
+  onBack,
+  initialData,
+  onSave,
+  industry,
+  currency = DEFAULT_CURRENCY,
+}: Step3Props) {
+  const showUnitEconomics = collectsUnitEconomics(industry);
+  const metricPack = getMetricPack(industry);
+  const schema = useMemo(() => formSchemaFor(metricPack), [metricPack]);
   const [showGrowthPeriodDropdown, setShowGrowthPeriodDropdown] = useState(false);
   const [selectedAdvantages, setSelectedAdvantages] = useState<string[]>([]);
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0, width: 0 });
@@ -161,13 +281,19 @@ export function Step3ProductTraction({ onNext, onBack, initialData, onSave }: St
     watch,
     formState: { errors, isValid },
   } = useForm<FormData>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       customerCount: initialData?.customerCount || undefined,
       growthRate: initialData?.growthRate || undefined,
       growthPeriod: initialData?.growthPeriod || "",
       uniqueValue: initialData?.uniqueValue || "",
       competitors: initialData?.competitors || "",
+      unitEconomics: initialData?.unitEconomics && {
+        ...initialData.unitEconomics,
+        arr: toUnits(initialData.unitEconomics.arr) || undefined,
+        cac: toUnits(initialData.unitEconomics.cac) || undefined,
+      },
+      industryMetrics: toFormMetrics(initialData?.industryMetrics),
       skipTraction: initialData?.skipTraction || false,
     },
     mode: "onChange",
@@ -179,22 +305,25 @@ export function Step3ProductTraction({ onNext, onBack, initialData, onSave }: St
   useEffect(() => {
     const timer = setTimeout(() => {
       if (onSave) {
-        onSave(watchedValues);
+        onSave(toStep3Data(watchedValues, currency, industry));
       }
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [watchedValues.customerCount, watchedValues.growthRate, watchedValues.growthPeriod, watchedValues.uniqueValue, watchedValues.competitors, watchedValues.skipTraction, onSave]);
+  }, [watchedValues.customerCount, watchedValues.growthRate, watchedValues.growthPeriod, watchedValues.uniqueValue, watchedValues.competitors, JSON.stringify(watchedValues.unitEconomics), JSON.stringify(watchedValues.industryMetrics), watchedValues.skipTraction, currency, industry, onSave]);
 
   const selectedGrowthPeriod = growthPeriods.find(
     (period) => period.value === watchedValues.growthPeriod,
   );
 
   const onSubmit = (data: FormData) => {
-    onNext({
-      ...data,
-      uniqueValue: selectedAdvantages.join(", ") || data.uniqueValue
-    });
+    onNext(
+      toStep3Data(
+        { ...data, uniqueValue: selectedAdvantages.join(", ") || data.uniqueValue },
+        currency,
+        industry,
+      ),
+    );
   };
 
   const handleGrowthPeriodSelect = (period: typeof growthPeriods[0]) => {
@@ -353,6 +482,132 @@ export function Step3ProductTraction({ onNext, onBack, initialData, onSave }: St
             </CardContent>
           </Card>
 
+          {/* Unit Economics */}
+          {showUnitEconomics && (
+            <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-3 mb-1">
+                  <Repeat className="w-5 h-5 text-cyan-400" />
+                  <label className="text-sm font-medium text-white font-mono">
+                    Unit Economics
+                  </label>
+                </div>
+                <p className="text-xs text-slate-400 font-mono mb-4">
+                  Recurring-revenue metrics used to compute LTV/CAC and the Rule of 40 and to adjust your revenue multiple. Leave blank what you don't track.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {unitEconomicsFields.map((field) => (
+                    <div key={field.key}>
+                      <label className="block text-xs text-slate-300 font-mono mb-1">
+                        {field.label}
+                      </label>
+                      <div className="relative">
+                        {field.money && (
+                          <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 text-xs font-mono">
+                            {currencySymbol(currency)}
+                          </span>
+                        )}
+                        <input
+                          {...register(`unitEconomics.${field.key}`, {
+                            setValueAs: (value) =>
+                              value === "" || value === null ? undefined : Number(value),
+                          })}
+                          type="number"
+                          step="any"
+                          placeholder={field.placeholder}
+                          className={`w-full ${field.money ? "pl-10" : "pl-4"} pr-16 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all font-mono`}
+                        />
+                        <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 text-xs font-mono">
+                          {field.suffix}
+                        </span>
+                      </div>
+                      <div className="mt-1 text-xs text-slate-500 font-mono">
+                        {field.description}
+                      </div>
+                      {errors.unitEconomics?.[field.key] && (
+                        <p className="text-red-400 text-xs mt-1 font-mono">
+                          {errors.unitEconomics[field.key]?.message}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Industry Metrics */}
+          {metricPack && (
+            <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-3 mb-1">
+                  <Gauge className="w-5 h-5 text-orange-400" />
+                  <label className="text-sm font-medium text-white font-mono">
+                    {metricPack.label} Metrics
+                  </label>
+                </div>
+                <p className="text-xs text-slate-400 font-mono mb-4">
+                  Sector-specific answers that refine which valuation methods we rely on. All optional.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {metricPack.fields.map((field) => (
+                    <div key={field.key}>
+                      <label className="block text-xs text-slate-300 font-mono mb-1">
+                        {field.label}
+                      </label>
+                      {field.kind === "choice" ? (
+                        <select
+                          {...register(`industryMetrics.${field.key}`, {
+                            setValueAs: (value) => value || undefined,
+                          })}
+                          className="w-full px-4 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500 font-mono"
+                        >
+                          <option value="">Select…</option>
+                          {field.options.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <div className="relative">
+                          {field.kind === "money" && (
+                            <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 text-xs font-mono">
+                              {currencySymbol(currency)}
+                            </span>
+                          )}
+                          <input
+                            {...register(`industryMetrics.${field.key}`, {
+                              setValueAs: (value) =>
+                                value === "" || value === null ? undefined : Number(value),
+                            })}
+                            type="number"
+                            step="any"
+                            placeholder={field.placeholder}
+                            className={`w-full ${field.kind === "money" ? "pl-10" : "pl-4"} pr-12 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all font-mono`}
+                          />
+                          {field.unit && (
+                            <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 text-xs font-mono">
+                              {field.unit}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      <div className="mt-1 text-xs text-slate-500 font-mono">
+                        {field.description}
+                      </div>
+                      {errors.industryMetrics?.[field.key] && (
+                        <p className="text-red-400 text-xs mt-1 font-mono">
+                          {String(errors.industryMetrics[field.key]?.message)}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Competitive Advantages */}
           <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
             <CardContent className="p-6">
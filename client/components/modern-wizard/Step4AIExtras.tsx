@@ -13,8 +13,10 @@ import {
   ChevronDown,
   Sparkles
 } from "lucide-react";
+import { uploadedFileSchema } from "@shared/api";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { DocumentUpload } from "./DocumentUpload";
 
 const formSchema = z.object({
   linkedinUrl: z
@@ -32,6 +34,7 @@ const formSchema = z.object({
     .url("Please enter a valid website URL")
     .optional()
     .or(z.literal("")),
+  uploadedFiles: z.array(uploadedFileSchema).default([]),
   skipExtras: z.boolean().default(false),
 });
 
@@ -86,6 +89,7 @@ export function Step4AIExtras({ onNext, onBack, initialData, onSave }: Step4Prop
       linkedinUrl: initialData?.linkedinUrl || "",
       crunchbaseUrl: initialData?.crunchbaseUrl || "",
       websiteUrl: initialData?.websiteUrl || "",
+      uploadedFiles: initialData?.uploadedFiles || [],
       skipExtras: initialData?.skipExtras || false,
     },
     mode: "onChange",
@@ -102,7 +106,7 @@ export function Step4AIExtras({ onNext, onBack, initialData, onSave }: Step4Prop
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [watchedValues.linkedinUrl, watchedValues.crunchbaseUrl, watchedValues.websiteUrl, watchedValues.skipExtras, onSave]);
+  }, [watchedValues.linkedinUrl, watchedValues.crunchbaseUrl, watchedValues.websiteUrl, watchedValues.uploadedFiles, watchedValues.skipExtras, onSave]);
 
   const onSubmit = async (data: FormData) => {
     setIsAnalyzing(true);
@@ -133,7 +137,7 @@ export function Step4AIExtras({ onNext, onBack, initialData, onSave }: Step4Prop
                 <div>
                   <h3 className="text-lg font-bold text-white font-mono">Company Information</h3>
                   <p className="text-sm text-slate-300 font-mono">
-                    Add your company links for enhanced analysis and more accurate valuations
+                    Add your company links and documents for enhanced analysis and more accurate valuations
                   </p>
                 </div>
               </div>
@@ -184,6 +188,14 @@ export function Step4AIExtras({ onNext, onBack, initialData, onSave }: Step4Prop
             </CardContent>
           </Card>
 
+          {/* Documents Section */}
+          <DocumentUpload
+            files={watchedValues.uploadedFiles || []}
+            onChange={(files) =>
+              setValue("uploadedFiles", files, { shouldDirty: true })
+            }
+          />
+
           {/* Skip Option */}
           <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
             <CardContent className="p-6">
@@ -195,7 +207,7 @@ export function Step4AIExtras({ onNext, onBack, initialData, onSave }: Step4Prop
                 />
                 <div>
                   <label className="text-sm font-medium text-white font-mono">
-                    Skip company links for now
+                    Skip company links and documents for now
                   </label>
                   <p className="text-xs text-slate-400 font-mono mt-1">
                     Generate valuation without additional company information.
@@ -0,0 +1,297 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, ClipboardPaste } from "lucide-react";
+import { timeSeriesSchema, type TimeSeries } from "@shared/api";
+import { formatAmount } from "@shared/money";
+import {
+  deriveMetrics,
+  monthLabel,
+  parsePastedMonths,
+} from "@shared/timeSeries";
+import { Button } from "@/components/ui/button";
+
+interface TimeSeriesEditorProps {
+  value?: TimeSeries;
+  currency: string;
+  // Called with the series whenever every month is filled in, and with
+  // undefined while it is incomplete
+  onChange: (series: TimeSeries | undefined) => void;
+}
+
+type Column = "revenue" | "costs" | "headcount" | "customers";
+
+type Row = Record<Column, string>;
+
+interface EditorState {
+  startMonth: string;
+  rows: Row[];
+  cashBalance: string;
+}
+
+const COLUMNS: Array<[Column, string]> = [
+  ["revenue", "Revenue"],
+  ["costs", "Costs"],
+  ["headcount", "Headcount"],
+  ["customers", "Customers"],
+];
+
+const MONTH_COUNTS = [12, 24, 36];
+
+const EMPTY_ROW: Row = { revenue: "", costs: "", headcount: "", customers: "" };
+
+const text = (value?: number) => (value === undefined ? "" : String(value));
+
+// The twelve months up to and including last month
+function defaultStartMonth() {
+  const now = new Date();
+  const start = new Date(now.getFullYear(), now.getMonth() - 12, 1);
+  return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function resize(rows: Row[], count: number): Row[] {
+  return Array.from({ length: count }, (_, i) => rows[i] ?? EMPTY_ROW);
+}
+
+function initialState(value?: TimeSeries): EditorState {
+  if (!value) {
+    return {
+      startMonth: defaultStartMonth(),
+      rows: resize([], 12),
+      cashBalance: "",
+    };
+  }
+  return {
+    startMonth: value.startMonth,
+    rows: value.months.map((month) => ({
+      revenue: text(month.revenue),
+      costs: text(month.costs),
+      headcount: text(month.headcount),
+      customers: text(month.customers),
+    })),
+    cashBalance: text(value.cashBalance),
+  };
+}
+
+function toSeries(state: EditorState, currency: string) {
+  const number = (value: string) =>
+    value.trim() === "" ? undefined : Number(value);
+  return timeSeriesSchema.safeParse({
+    startMonth: state.startMonth,
+    currency,
+    months: state.rows.map((row) => ({
+      revenue: number(row.revenue),
+      costs: number(row.costs),
+      headcount: number(row.headcount),
+      customers: number(row.customers),
+    })),
+    cashBalance: number(state.cashBalance),
+  });
+}
+
+const percent = (value?: number) =>
+  value === undefined ? "n/a" : `${(value * 100).toFixed(1)}%`;
+
+// Detailed mode of the financial step: 12-36 months of figures typed in or
+// pasted from a spreadsheet, with the metrics derived from them
+export function TimeSeriesEditor({
+  value,
+  currency,
+  onChange,
+}: TimeSeriesEditorProps) {
+  const [state, setState] = useState<EditorState>(() => initialState(value));
+  const [pasted, setPasted] = useState("");
+  const [pasteError, setPasteError] = useState("");
+
+  const parsed = useMemo(() => toSeries(state, currency), [state, currency]);
+  const metrics = parsed.success
+    ? deriveMetrics(parsed.data as TimeSeries)
+    : undefined;
+
+  const update = (next: EditorState) => {
+    setState(next);
+    const series = toSeries(next, currency);
+    onChange(series.success ? (series.data as TimeSeries) : undefined);
+  };
+
+  const setCell = (index: number, column: Column, cell: string) =>
+    update({
+      ...state,
+      rows: state.rows.map((row, i) =>
+        i === index ? { ...row, [column]: cell } : row,
+      ),
+    });
+
+  const handlePaste = () => {
+    setPasteError("");
+    try {
+      const { startMonth, months } = parsePastedMonths(pasted);
+      if (months.length < 12) {
+        throw new Error(
+          `Found ${months.length} months; at least 12 are needed`,
+        );
+      }
+      update({
+        ...state,
+        startMonth: startMonth ?? state.startMonth,
+        rows: months.slice(-36).map((month) => ({
+          revenue: text(month.revenue),
+          costs: text(month.costs),
+          headcount: text(month.headcount),
+          customers: text(month.customers),
+        })),
+      });
+      setPasted("");
+    } catch (error: any) {
+      setPasteError(error.message || "Could not read the pasted figures");
+    }
+  };
+
+  const tiles = metrics && [
+    ["Annual growth", percent(metrics.cagr)],
+    ["MoM growth", percent(metrics.momGrowth)],
+    [
+      "Runway",
+      metrics.runwayMonths === undefined
+        ? "n/a"
+        : `${metrics.runwayMonths} months`,
+    ],
+    [
+      "Burn multiple",
+      metrics.burnMultiple === undefined ? "n/a" : `${metrics.burnMultiple}x`,
+    ],
+    ["TTM revenue", formatAmount(metrics.ttmRevenue, currency)],
+    [
+      "Seasonality",
+      metrics.seasonality
+        ? `±${((metrics.seasonality.amplitude / 2) * 100).toFixed(0)}%`
+        : "n/a",
+    ],
+  ];
+
+  const inputClass =
+    "w-full px-2 py-1 bg-slate-800/50 border border-slate-700 rounded text-white text-right focus:outline-none focus:border-blue-500";
+
+  return (
+    <div className="space-y-5 font-mono text-sm">
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="space-y-1 text-xs text-slate-400">
+          <div>First month</div>
+          <input
+            type="month"
+            value={state.startMonth}
+            onChange={(e) =>
+              e.target.value && update({ ...state, startMonth: e.target.value })
+            }
+            className="px-3 py-1 bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-slate-400">
+          <div>Months</div>
+          <select
+            value={state.rows.length}
+            onChange={(e) =>
+              update({
+                ...state,
+                rows: resize(state.rows, Number(e.target.value)),
+              })
+            }
+            className="px-3 py-1 bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500"
+          >
+            {MONTH_COUNTS.includes(state.rows.length) ? null : (
+              <option value={state.rows.length}>{state.rows.length}</option>
+            )}
+            {MONTH_COUNTS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-slate-400">
+          <div>Cash in the bank at the end ({currency})</div>
+          <input
+            type="number"
+            min={0}
+            value={state.cashBalance}
+            onChange={(e) => update({ ...state, cashBalance: e.target.value })}
+            className="px-3 py-1 bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500"
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <textarea
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          rows={3}
+          placeholder="Paste rows from a spreadsheet: month, revenue, costs, headcount, customers"
+          className="w-full px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-white placeholder-slate-500 text-xs focus:outline-none focus:border-blue-500"
+        />
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-red-400">{pasteError}</p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handlePaste}
+            disabled={!pasted.trim()}
+            className="border-slate-700 text-slate-300 hover:bg-slate-800"
+          >
+            <ClipboardPaste className="w-4 h-4 mr-2" />
+            Fill from pasted rows
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-slate-900">
+            <tr className="text-slate-500">
+              <th className="text-left font-normal pb-2">Month</th>
+              {COLUMNS.map(([column, label]) => (
+                <th key={column} className="text-right font-normal pb-2 px-1">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {state.rows.map((row, index) => (
+              <tr key={index} className="border-t border-slate-800">
+                <td className="py-1 text-slate-300 whitespace-nowrap">
+                  {monthLabel(state.startMonth, index)}
+                </td>
+                {COLUMNS.map(([column, label]) => (
+                  <td key={column} className="py-1 px-1">
+                    <input
+                      type="number"
+                      value={row[column]}
+                      onChange={(e) => setCell(index, column, e.target.value)}
+                      aria-label={`${label} ${monthLabel(state.startMonth, index)}`}
+                      className={inputClass}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {tiles ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {tiles.map(([label, shown]) => (
+            <div key={label} className="p-3 bg-slate-800/50 rounded-lg">
+              <div className="text-xs text-slate-400">{label}</div>
+              <div className="text-white">{shown}</div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="flex items-start text-xs text-amber-400">
+          <AlertTriangle className="w-3 h-3 mr-2 mt-0.5 shrink-0" />
+          Enter revenue and costs for every month to use the detailed figures.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useMemo } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { CalendarRange } from "lucide-react";
+import type { TimeSeries } from "@shared/api";
+import { formatAmount } from "@shared/money";
+import { deriveMetrics, monthLabel } from "@shared/timeSeries";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+interface TimeSeriesPanelProps {
+  series: TimeSeries;
+}
+
+const historyConfig = {
+  revenue: { label: "Revenue", color: "#4ade80" },
+  costs: { label: "Costs", color: "#f87171" },
+} satisfies ChartConfig;
+
+const seasonalityConfig = {
+  index: { label: "vs. trend", color: "#60a5fa" },
+} satisfies ChartConfig;
+
+const CALENDAR_MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const percent = (value?: number) =>
+  value === undefined ? "n/a" : `${(value * 100).toFixed(1)}%`;
+
+// Metrics derived from the detailed monthly figures of the financial step
+export function TimeSeriesPanel({ series }: TimeSeriesPanelProps) {
+  const metrics = useMemo(() => deriveMetrics(series), [series]);
+  const format = (value: number) => formatAmount(value, series.currency);
+
+  const history = series.months.map((month, index) => ({
+    month: monthLabel(series.startMonth, index),
+    revenue: month.revenue,
+    costs: month.costs,
+  }));
+  const seasonality = metrics.seasonality?.index.map((index, month) => ({
+    month: CALENDAR_MONTHS[month],
+    index: Math.round((index - 1) * 1000) / 10,
+  }));
+
+  const tiles: Array<[string, string, string?]> = [
+    ["Annual growth", percent(metrics.cagr), "CAGR"],
+    ["MoM growth", percent(metrics.momGrowth), "Last 12 months"],
+    [
+      "Runway",
+      metrics.runwayMonths === undefined
+        ? metrics.monthlyNetBurn > 0
+          ? "n/a"
+          : "Not burning"
+        : `${metrics.runwayMonths} months`,
+      `Net burn ${format(metrics.monthlyNetBurn)}/mo`,
+    ],
+    [
+      "Burn multiple",
+      metrics.burnMultiple === undefined ? "n/a" : `${metrics.burnMultiple}x`,
+      "Net burn / net new ARR",
+    ],
+    [
+      "TTM revenue",
+      format(metrics.ttmRevenue),
+      `Costs ${format(metrics.ttmCosts)}`,
+    ],
+    [
+      "Revenue per employee",
+      metrics.revenuePerEmployee === undefined
+        ? "n/a"
+        : format(metrics.revenuePerEmployee),
+      metrics.headcount === undefined
+        ? undefined
+        : `${metrics.headcount} people`,
+    ],
+    [
+      "Customers",
+      metrics.customers === undefined
+        ? "n/a"
+        : metrics.customers.toLocaleString(),
+      metrics.customerMomGrowth === undefined
+        ? undefined
+        : `${percent(metrics.customerMomGrowth)} MoM`,
+    ],
+    [
+      "Seasonality",
+      metrics.seasonality
+        ? `±${((metrics.seasonality.amplitude / 2) * 100).toFixed(0)}%`
+        : "n/a",
+      "Swing around trend",
+    ],
+  ];
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center text-white font-mono">
+          <CalendarRange className="w-5 h-5 mr-2 text-green-400" />
+          Monthly Performance
+        </CardTitle>
+        <p className="text-xs text-slate-400 font-mono">
+          {metrics.monthCount} months from {monthLabel(series.startMonth)} to{" "}
+          {monthLabel(series.startMonth, metrics.monthCount - 1)}; the valuation
+          uses these figures in place of the snapshot totals.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {tiles.map(([label, value, detail]) => (
+            <div
+              key={label}
+              className="p-4 bg-slate-800/50 rounded-lg font-mono"
+            >
+              <div className="text-xs text-slate-400">{label}</div>
+              <div className="text-lg text-white">{value}</div>
+              {detail && <div className="text-xs text-slate-500">{detail}</div>}
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-white font-mono mb-4">
+            Revenue and costs
+          </h4>
+          <ChartContainer
+            config={historyConfig}
+            className="aspect-auto h-64 w-full"
+          >
+            <LineChart data={history} margin={{ left: 24, right: 24 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" minTickGap={24} />
+              <YAxis tickFormatter={(value: number) => format(value)} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    formatter={(value, name) => (
+                      <span className="font-mono">
+                        {
+                          historyConfig[name as keyof typeof historyConfig]
+                            ?.label
+                        }
+                        : {format(Number(value))}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              <Line
+                dataKey="revenue"
+                stroke="var(--color-revenue)"
+                dot={false}
+              />
+              <Line dataKey="costs" stroke="var(--color-costs)" dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+
+        {seasonality && (
+          <div>
+            <h4 className="text-sm font-medium text-white font-mono mb-1">
+              Seasonality
+            </h4>
+            <p className="text-xs text-slate-500 font-mono mb-4">
+              Revenue above or below the growth trend by calendar month
+            </p>
+            <ChartContainer
+              config={seasonalityConfig}
+              className="aspect-auto h-48 w-full"
+            >
+              <BarChart data={seasonality} margin={{ left: 24, right: 24 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" />
+                <YAxis tickFormatter={(value: number) => `${value}%`} />
+                <ReferenceLine y={0} stroke="#64748b" />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value) => (
+                        <span className="font-mono">
+                          {Number(value) > 0 ? "+" : ""}
+                          {value}% vs. trend
+                        </span>
+                      )}
+                    />
+                  }
+                />
+                <Bar dataKey="index" fill="var(--color-index)" />
+              </BarChart>
+            </ChartContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
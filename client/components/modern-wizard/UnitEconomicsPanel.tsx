@@ -0,0 +1,142 @@
+import { useMemo } from "react";
+import { Repeat } from "lucide-react";
+import type { WizardData } from "@shared/api";
+import { BASE_CURRENCY, convertAmount, type FxRates } from "@shared/currency";
+import { formatAmount } from "@shared/money";
+import { deriveUnitEconomics } from "@shared/unitEconomics";
+import { normalizeInputs } from "@shared/valuation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+interface UnitEconomicsPanelProps {
+  wizardData: WizardData;
+  currency: string;
+  fxRates: FxRates;
+}
+
+const percent = (value?: number) =>
+  value === undefined ? "n/a" : `${(value * 100).toFixed(1)}%`;
+
+// LTV/CAC, payback and the Rule of 40 for SaaS-like companies, with the
+// revenue multiple adjustment they produce in the in-house engine
+export function UnitEconomicsPanel({
+  wizardData,
+  currency,
+  fxRates,
+}: UnitEconomicsPanelProps) {
+  const metrics = useMemo(
+    () => deriveUnitEconomics(normalizeInputs(wizardData, fxRates)),
+    [wizardData, fxRates],
+  );
+  if (!metrics) return null;
+
+  // Engine figures are in base currency units
+  const format = (amount?: number) =>
+    amount === undefined
+      ? "n/a"
+      : formatAmount(
+          convertAmount(amount, BASE_CURRENCY, currency, fxRates),
+          currency,
+        );
+
+  const tiles: Array<[string, string, boolean?]> = [
+    [
+      "LTV/CAC",
+      metrics.ltvToCac === undefined ? "n/a" : `${metrics.ltvToCac}x`,
+      metrics.ltvToCac === undefined ? undefined : metrics.ltvToCac >= 3,
+    ],
+    [
+      "Rule of 40",
+      metrics.ruleOf40 === undefined ? "n/a" : `${metrics.ruleOf40}`,
+      metrics.ruleOf40 === undefined ? undefined : metrics.ruleOf40 >= 40,
+    ],
+    [
+      "CAC payback",
+      metrics.paybackMonths === undefined
+        ? "n/a"
+        : `${metrics.paybackMonths} months`,
+      metrics.paybackMonths === undefined
+        ? undefined
+        : metrics.paybackMonths <= 18,
+    ],
+    ["LTV", format(metrics.ltv)],
+    ["CAC", format(metrics.cac)],
+    ["ARR", format(metrics.arr)],
+    ["ARPA (monthly)", format(metrics.arpa)],
+    ["Gross margin", percent(metrics.grossMargin)],
+    ["Net revenue retention", percent(metrics.nrr)],
+    [
+      "Churn (monthly)",
+      `${percent(metrics.logoChurn)} logos · ${percent(metrics.revenueChurn)} revenue`,
+    ],
+  ];
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center text-white font-mono">
+          <Repeat className="w-5 h-5 mr-2 text-cyan-400" />
+          Unit Economics
+        </CardTitle>
+        <p className="text-xs text-slate-400 font-mono">
+          LTV is monthly gross profit per customer over their expected lifetime
+          (capped at five years); the Rule of 40 adds annual growth and profit
+          margin.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {tiles.map(([label, value, healthy]) => (
+            <div
+              key={label}
+              className="p-4 bg-slate-800/50 rounded-lg font-mono"
+            >
+              <div className="text-xs text-slate-400">{label}</div>
+              <div
+                className={cn(
+                  "text-lg",
+                  healthy === undefined
+                    ? "text-white"
+                    : healthy
+                      ? "text-green-400"
+                      : "text-amber-400",
+                )}
+              >
+                {value}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {metrics.adjustments.length > 0 && (
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="text-xs text-slate-500">
+                <th className="text-left font-normal pb-2">
+                  Revenue multiple adjustment
+                </th>
+                <th className="text-right font-normal pb-2">Factor</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.adjustments.map(({ label, factor }) => (
+                <tr key={label} className="border-t border-slate-800">
+                  <td className="py-2 text-slate-300">{label}</td>
+                  <td className="py-2 text-right text-slate-300">
+                    {factor.toFixed(2)}x
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-600 font-bold">
+                <td className="py-2 text-white">Combined (0.6x-1.6x)</td>
+                <td className="py-2 text-right text-blue-400">
+                  {metrics.multipleAdjustment.toFixed(2)}x
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
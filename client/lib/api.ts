@@ -1,6 +1,6 @@
 import axios from 'axios';
 
-const API_BASE_URL = 'https://p481izod3m.execute-api.us-west-1.amazonaws.com/dev';
+export const API_BASE_URL = 'https://p481izod3m.execute-api.us-west-1.amazonaws.com/dev';
 
 const api = axios.create({
   baseURL: API_BASE_URL,
@@ -99,10 +99,11 @@ export interface CalculateResponse {
 }
 
 export const apiService = {
-  async testConnection(): Promise<boolean> {
+  // Each call takes the API Gateway stage to use, the default one if omitted
+  async testConnection(baseUrl: string = API_BASE_URL): Promise<boolean> {
     try {
       // Try a simple request to test connectivity
-      const response = await fetch(`${API_BASE_URL}/save-input`, {
+      const response = await fetch(`${baseUrl}/save-input`, {
         method: 'OPTIONS',
         headers: {
           'Origin': window.location.origin,
@@ -116,14 +117,14 @@ export const apiService = {
     }
   },
 
-  async saveInput(data: SaveInputRequest): Promise<void> {
+  async saveInput(data: SaveInputRequest, baseUrl: string = API_BASE_URL): Promise<void> {
     try {
-      await api.post('/save-input', data);
+      await api.post('/save-input', data, { baseURL: baseUrl });
     } catch (error: any) {
       // If Axios fails due to CORS, try native fetch
       if (error.code === 'ERR_NETWORK' || error.message?.includes('Network Error')) {
         console.log('Axios failed, trying native fetch...');
-        const response = await fetch(`${API_BASE_URL}/save-input`, {
+        const response = await fetch(`${baseUrl}/save-input`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -141,13 +142,14 @@ export const apiService = {
     }
   },
 
-  async uploadDocument(userID: string, file: File): Promise<UploadResponse> {
+  async uploadDocument(userID: string, file: File, baseUrl: string = API_BASE_URL): Promise<UploadResponse> {
     const formData = new FormData();
     formData.append('userID', userID);
     formData.append('file', file);
 
     try {
       const response = await api.post<UploadResponse>('/upload-document', formData, {
+        baseURL: baseUrl,
         headers: {
           'Content-Type': 'multipart/form-data',
         },
@@ -157,7 +159,7 @@ export const apiService = {
       // If Axios fails due to CORS, try native fetch
       if (error.code === 'ERR_NETWORK' || error.message?.includes('Network Error')) {
         console.log('Axios upload failed, trying native fetch...');
-        const response = await fetch(`${API_BASE_URL}/upload-document`, {
+        const response = await fetch(`${baseUrl}/upload-document`, {
           method: 'POST',
           body: formData,
         });
@@ -174,14 +176,14 @@ export const apiService = {
     }
   },
 
-  async getRecommendations(data: RecommendRequest): Promise<RecommendResponse> {
+  async getRecommendations(data: RecommendRequest, baseUrl: string = API_BASE_URL): Promise<RecommendResponse> {
     try {
-      const response = await api.post<RecommendResponse>('/recommend', data);
+      const response = await api.post<RecommendResponse>('/recommend', data, { baseURL: baseUrl });
       return response.data;
     } catch (error: any) {
       if (error.code === 'ERR_NETWORK' || error.message?.includes('Network Error')) {
         console.log('Axios recommend failed, trying native fetch...');
-        const response = await fetch(`${API_BASE_URL}/recommend`, {
+        const response = await fetch(`${baseUrl}/recommend`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -201,14 +203,14 @@ export const apiService = {
     }
   },
 
-  async calculateValuation(data: CalculateRequest): Promise<CalculateResponse> {
+  async calculateValuation(data: CalculateRequest, baseUrl: string = API_BASE_URL): Promise<CalculateResponse> {
     try {
-      const response = await api.post<CalculateResponse>('/calculate', data);
+      const response = await api.post<CalculateResponse>('/calculate', data, { baseURL: baseUrl });
       return response.data;
     } catch (error: any) {
       if (error.code === 'ERR_NETWORK' || error.message?.includes('Network Error')) {
         console.log('Axios calculate failed, trying native fetch...');
-        const response = await fetch(`${API_BASE_URL}/calculate`, {
+        const response = await fetch(`${baseUrl}/calculate`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { WizardData } from "@shared/api";
+import { valuationReportSchema } from "@shared/api";
+import { money } from "@shared/money";
+import { legacyReport, legacyStartupInput } from "./awsLegacy";
+
+const recommendation = {
+  recommendedMethods: ["DCF", "Market Comparables"],
+  summary: "Seed-stage SaaS company",
+  overallStage: "Seed",
+};
+
+describe("legacyStartupInput", () => {
+  it("flattens the wizard steps into whole-unit figures", () => {
+    const input = legacyStartupInput({
+      step1: {
+        businessName: "Acme",
+        country: "US",
+        industry: "SaaS",
+        stage: "seed",
+        isLaunched: true,
+      },
+      step2: { revenue: money(1.5, "millions") },
+      step3: { customerCount: 40 },
+    } as WizardData);
+
+    expect(input).toMatchObject({
+      businessName: "Acme",
+      industry: "SaaS",
+      revenue: 1_500_000,
+      burnRate: 0,
+      customers: 40,
+    });
+  });
+});
+
+describe("legacyReport", () => {
+  it("spreads the point estimates into a valid report", () => {
+    const report = legacyReport(recommendation, [
+      { method: "DCF", valuation: 1_000_000, details: {} },
+      { method: "Market Comparables", valuation: 2_000_000, details: null },
+    ]);
+
+    expect(valuationReportSchema.safeParse(report).success).toBe(true);
+    expect(report.calculations[0].valuationRange).toMatchObject({
+      lower: 850_000,
+      upper: 1_150_000,
+      scale: "units",
+    });
+    expect(report.finalValuation.finalRange).toMatchObject({
+      lower: 850_000,
+      upper: 2_300_000,
+    });
+    expect(report.recommendedMethods.recommendedMethods[0].confidence).toBe(
+      0.5,
+    );
+  });
+
+  it("fails when no method could be calculated", () => {
+    expect(() => legacyReport(recommendation, [])).toThrow(
+      "The legacy backend returned no valuations",
+    );
+  });
+});
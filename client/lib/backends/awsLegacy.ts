@@ -0,0 +1,151 @@
+import type {
+  ValuationCalculation,
+  ValuationReport,
+  WizardData,
+} from "@shared/api";
+import { moneyRange, toUnits } from "@shared/money";
+import {
+  API_BASE_URL,
+  apiService,
+  type CalculateResponse,
+  type RecommendResponse,
+  type StartupInput,
+} from "../api";
+import { replayReport, throwIfCancelled, type ValuationBackend } from "./types";
+
+// The AWS flow values each method at a single point; the report shows it
+// as a range this far either side
+const POINT_ESTIMATE_SPREAD = 0.15;
+
+export function legacyStartupInput(wizardData: WizardData): StartupInput {
+  const { step1, step2, step3 } = wizardData;
+  return {
+    businessName: step1?.businessName,
+    industry: step1?.industry,
+    stage: step1?.stage,
+    country: step1?.country,
+    revenue: toUnits(step2?.revenue),
+    burnRate: toUnits(step2?.monthlyBurnRate),
+    fundingRaised: toUnits(step2?.fundingRaised),
+    customers: step3?.customerCount,
+    growthRate: step3?.growthRate,
+    uniqueValue: step3?.uniqueValue,
+    competitors: step3?.competitors,
+  };
+}
+
+/**
+ * Report from the AWS recommend and calculate responses. Valuations come
+ * back in whole US dollars; methods that failed to calculate are left out.
+ */
+export function legacyReport(
+  recommendation: RecommendResponse,
+  results: CalculateResponse[],
+): ValuationReport {
+  if (results.length === 0) {
+    throw new Error("The legacy backend returned no valuations");
+  }
+  const rangeFor = (valuation: number) =>
+    moneyRange(
+      valuation * (1 - POINT_ESTIMATE_SPREAD),
+      valuation * (1 + POINT_ESTIMATE_SPREAD),
+    );
+
+  const calculations: ValuationCalculation[] = results.map((result) => ({
+    method: result.method,
+    valuationRange: rangeFor(result.valuation),
+    explanation: `${result.method} point estimate, shown ±${POINT_ESTIMATE_SPREAD * 100}%`,
+    calculation: result.details ?? {},
+    narrative: `${result.method} values the company at about $${Math.round(result.valuation).toLocaleString()}.`,
+  }));
+  const valuations = results.map((result) => result.valuation);
+  const average =
+    valuations.reduce((total, valuation) => total + valuation, 0) /
+    valuations.length;
+
+  return {
+    businessSummary: {
+      summary: recommendation.summary,
+      stageAssessment: recommendation.overallStage,
+    },
+    recommendedMethods: {
+      recommendedMethods: recommendation.recommendedMethods.map((method) => ({
+        method,
+        // The legacy flow does not rank its recommendations
+        confidence: 1 / recommendation.recommendedMethods.length,
+        reason: "Recommended by the legacy AI service",
+      })),
+    },
+    calculations,
+    finalValuation: {
+      finalRange: moneyRange(
+        Math.min(...valuations) * (1 - POINT_ESTIMATE_SPREAD),
+        Math.max(...valuations) * (1 + POINT_ESTIMATE_SPREAD),
+      ),
+      justification: `Spans the ${results.length} method estimates, averaging $${Math.round(average).toLocaleString()}.`,
+    },
+  } as ValuationReport;
+}
+
+// The original API Gateway flow: save the inputs, upload them as a document
+// for the AI recommendation, then calculate each recommended method
+export const awsLegacyBackend: ValuationBackend = {
+  id: "aws",
+  name: "AWS (legacy)",
+  description: "Original API Gateway and Lambda valuation flow",
+  capabilities: { streaming: false, jobs: false, documents: false },
+  settings: [
+    {
+      key: "url",
+      label: "API Gateway URL",
+      placeholder: "https://xxxx.execute-api.region.amazonaws.com/dev",
+    },
+  ],
+  defaults: { url: API_BASE_URL },
+  payload: (wizardData) => legacyStartupInput(wizardData),
+  async generate(wizardData, settings, signal) {
+    const baseUrl = settings.url;
+    const userID = `user_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    const currentInput = legacyStartupInput(wizardData);
+
+    await apiService.saveInput({ userID, currentInput }, baseUrl);
+    throwIfCancelled(signal);
+    const document = new File(
+      [JSON.stringify(currentInput, null, 2)],
+      "startup-input.json",
+      { type: "application/json" },
+    );
+    const { bucket, key } = await apiService.uploadDocument(
+      userID,
+      document,
+      baseUrl,
+    );
+    throwIfCancelled(signal);
+    const recommendation = await apiService.getRecommendations(
+      { userID, bucket, key },
+      baseUrl,
+    );
+
+    const results: CalculateResponse[] = [];
+    for (const method of recommendation.recommendedMethods) {
+      throwIfCancelled(signal);
+      try {
+        results.push(
+          await apiService.calculateValuation(
+            { userID, valuationID: `val_${Date.now()}`, method },
+            baseUrl,
+          ),
+        );
+      } catch (error) {
+        console.error(`Legacy ${method} calculation failed:`, error);
+      }
+    }
+    throwIfCancelled(signal);
+    return legacyReport(recommendation, results);
+  },
+  async stream(wizardData, settings, onChunk, signal) {
+    const report = await this.generate(wizardData, settings, signal);
+    await replayReport(report, onChunk, signal);
+  },
+  health: (settings) => apiService.testConnection(settings.url),
+};
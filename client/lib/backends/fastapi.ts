@@ -0,0 +1,26 @@
+import { FASTAPI_BASE_URL, fastapiPayload, fastapiService } from "../fastapi";
+import type { ValuationBackend } from "./types";
+
+// An AI valuation service speaking the FastAPI /valuation-report contract,
+// locally on port 8000 by default
+export const fastapiBackend: ValuationBackend = {
+  id: "fastapi",
+  name: "FastAPI",
+  description: "AI valuation service with the FastAPI contract",
+  capabilities: { streaming: true, jobs: false, documents: true },
+  settings: [
+    { key: "url", label: "Base URL", placeholder: "https://your-backend.com" },
+  ],
+  defaults: { url: FASTAPI_BASE_URL },
+  payload: (wizardData) => fastapiPayload(wizardData),
+  generate: (wizardData, settings, signal) =>
+    fastapiService.generateValuationReportNew(settings.url, wizardData, signal),
+  stream: (wizardData, settings, onChunk, signal) =>
+    fastapiService.streamValuationReport(
+      settings.url,
+      wizardData,
+      onChunk,
+      signal,
+    ),
+  health: (settings) => fastapiService.testConnection(settings.url),
+};
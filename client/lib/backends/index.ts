@@ -0,0 +1,141 @@
+import type {
+  ValuationReport,
+  ValuationStreamEvent,
+  WizardData,
+} from "@shared/api";
+import { canonicalJson } from "@shared/reportCache";
+import { toBaseCurrencyData } from "../fastapi";
+import { awsLegacyBackend } from "./awsLegacy";
+import { fastapiBackend } from "./fastapi";
+import { mockBackend } from "./mock";
+import { serverBackend } from "./server";
+import type { BackendSettings, ValuationBackend } from "./types";
+
+export type {
+  BackendCapabilities,
+  BackendSetting,
+  BackendSettings,
+  ValuationBackend,
+} from "./types";
+
+// The selected backend id, and each backend's settings by id
+const BACKEND_MODE_KEY = "backendMode";
+const BACKEND_SETTINGS_KEY = "backendSettings";
+
+const DEFAULT_BACKEND_ID = "server";
+
+const backends = new Map<string, ValuationBackend>();
+
+export function registerBackend(backend: ValuationBackend) {
+  backends.set(backend.id, backend);
+}
+
+export function listBackends(): ValuationBackend[] {
+  return [...backends.values()];
+}
+
+export function getBackend(id: string): ValuationBackend | undefined {
+  return backends.get(id);
+}
+
+function storedSettings(): Record<string, BackendSettings> {
+  try {
+    return JSON.parse(localStorage.getItem(BACKEND_SETTINGS_KEY) ?? "{}");
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Settings for a backend: its defaults with the saved values on top
+ */
+export function backendSettings(id: string): BackendSettings {
+  const saved = storedSettings()[id] ?? {};
+  const configured = Object.fromEntries(
+    Object.entries(saved).filter(([, value]) => value.trim() !== ""),
+  );
+  return { ...getBackend(id)?.defaults, ...configured };
+}
+
+export function saveBackendSettings(id: string, settings: BackendSettings) {
+  localStorage.setItem(
+    BACKEND_SETTINGS_KEY,
+    JSON.stringify({ ...storedSettings(), [id]: settings }),
+  );
+}
+
+// Before the registry, "local" and "custom" selected a FastAPI backend on
+// port 8000 or at customBackendUrl
+function migrateLegacyMode(mode: string | null): string | null {
+  if (mode !== "local" && mode !== "custom") return mode;
+  const url =
+    mode === "custom"
+      ? localStorage.getItem("customBackendUrl")
+      : "http://127.0.0.1:8000";
+  if (url) {
+    saveBackendSettings(fastapiBackend.id, { url });
+  }
+  localStorage.setItem(BACKEND_MODE_KEY, fastapiBackend.id);
+  return fastapiBackend.id;
+}
+
+export function selectedBackendId(): string {
+  const id = migrateLegacyMode(localStorage.getItem(BACKEND_MODE_KEY));
+  return id && backends.has(id) ? id : DEFAULT_BACKEND_ID;
+}
+
+export function selectBackend(id: string) {
+  if (!backends.has(id)) {
+    throw new Error(`Unknown valuation backend: ${id}`);
+  }
+  localStorage.setItem(BACKEND_MODE_KEY, id);
+}
+
+export function activeBackend(): {
+  backend: ValuationBackend;
+  settings: BackendSettings;
+} {
+  const id = selectedBackendId();
+  return { backend: getBackend(id), settings: backendSettings(id) };
+}
+
+// The wrappers below take inputs in the reporting currency and value the
+// company in the base currency with the configured FX rates
+
+export function generateReport(
+  reportingData: WizardData,
+  signal?: AbortSignal,
+): Promise<ValuationReport> {
+  const { backend, settings } = activeBackend();
+  return backend.generate(toBaseCurrencyData(reportingData), settings, signal);
+}
+
+export function streamReport(
+  reportingData: WizardData,
+  onChunk: (chunk: ValuationStreamEvent) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const { backend, settings } = activeBackend();
+  return backend.stream(
+    toBaseCurrencyData(reportingData),
+    settings,
+    onChunk,
+    signal,
+  );
+}
+
+/**
+ * What the active backend is asked for these inputs: its identity, settings
+ * included, and the request body. Keys the report cache.
+ */
+export function reportRequest(reportingData: WizardData) {
+  const { backend, settings } = activeBackend();
+  return {
+    backend: canonicalJson({ id: backend.id, ...settings }),
+    payload: backend.payload(toBaseCurrencyData(reportingData), settings),
+  };
+}
+
+[serverBackend, fastapiBackend, awsLegacyBackend, mockBackend].forEach(
+  registerBackend,
+);
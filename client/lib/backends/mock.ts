@@ -0,0 +1,29 @@
+import { runValuation } from "@shared/valuation";
+import { replayReport, throwIfCancelled, type ValuationBackend } from "./types";
+
+// Sections are paced like a remote stream so the results screen behaves the
+// same as with a real backend
+const MOCK_SECTION_DELAY_MS = 250;
+
+// Runs the in-house engine in the browser; no server needed
+export const mockBackend: ValuationBackend = {
+  id: "demo",
+  name: "Demo Mode",
+  description: "Mock backend running the valuation engine in the browser",
+  capabilities: { streaming: true, jobs: false, documents: true },
+  settings: [],
+  defaults: {},
+  payload: (wizardData) => wizardData,
+  async generate(wizardData, _settings, signal) {
+    throwIfCancelled(signal);
+    return runValuation(wizardData);
+  },
+  stream: (wizardData, _settings, onChunk, signal) =>
+    replayReport(
+      runValuation(wizardData),
+      onChunk,
+      signal,
+      MOCK_SECTION_DELAY_MS,
+    ),
+  health: async () => true,
+};
@@ -0,0 +1,24 @@
+import { wizardDataSchema } from "@shared/api";
+import { serverService } from "../fastapi";
+import type { ValuationBackend } from "./types";
+
+// The in-house engine hosted by this app's Express server
+export const serverBackend: ValuationBackend = {
+  id: "server",
+  name: "Built-in Server",
+  description: "In-house valuation engine hosted by this app",
+  capabilities: { streaming: true, jobs: true, documents: true },
+  settings: [],
+  defaults: {},
+  // As the server reads it, so cache keys match the ones it stores its
+  // reports under
+  payload(wizardData) {
+    const parsed = wizardDataSchema.safeParse(wizardData);
+    return parsed.success ? parsed.data : wizardData;
+  },
+  generate: (wizardData, _settings, signal) =>
+    serverService.generateValuationReport(wizardData, signal),
+  stream: (wizardData, _settings, onChunk, signal) =>
+    serverService.streamValuationReport(wizardData, onChunk, signal),
+  health: () => serverService.testConnection(),
+};
@@ -0,0 +1,79 @@
+import type {
+  ValuationReport,
+  ValuationStreamEvent,
+  WizardData,
+} from "@shared/api";
+import { toStreamChunks } from "@shared/reportStream";
+
+export interface BackendCapabilities {
+  // Sections arrive as they are produced rather than all at the end
+  streaming: boolean;
+  // Runs as a background job on the built-in server (see ../valuationJobs)
+  jobs: boolean;
+  // Reads the text extracted from uploaded pitch decks and financials
+  documents: boolean;
+}
+
+// A value the user configures in BackendConfig, such as the base URL
+export interface BackendSetting {
+  key: string;
+  label: string;
+  placeholder?: string;
+}
+
+export type BackendSettings = Record<string, string>;
+
+/**
+ * A service that turns wizard inputs into a valuation report. Inputs are
+ * already in the base currency; `settings` holds the values described by
+ * `settings` in the backend definition, layered over `defaults`.
+ */
+export interface ValuationBackend {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: BackendCapabilities;
+  settings: BackendSetting[];
+  defaults: BackendSettings;
+  // Body sent to the service for these inputs; keys the report cache
+  payload(wizardData: WizardData, settings: BackendSettings): unknown;
+  generate(
+    wizardData: WizardData,
+    settings: BackendSettings,
+    signal?: AbortSignal,
+  ): Promise<ValuationReport>;
+  // Aborting `signal` rejects with an "Analysis cancelled" error
+  stream(
+    wizardData: WizardData,
+    settings: BackendSettings,
+    onChunk: (chunk: ValuationStreamEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<void>;
+  health(settings: BackendSettings): Promise<boolean>;
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new Error("Analysis cancelled");
+  }
+}
+
+/**
+ * Stream for backends that only answer with a whole report: the sections
+ * are passed on in order, `paceMs` apart
+ */
+export async function replayReport(
+  report: ValuationReport,
+  onChunk: (chunk: ValuationStreamEvent) => void,
+  signal?: AbortSignal,
+  paceMs = 0,
+) {
+  for (const chunk of toStreamChunks(report)) {
+    throwIfCancelled(signal);
+    if (paceMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, paceMs));
+      throwIfCancelled(signal);
+    }
+    onChunk(chunk);
+  }
+}
@@ -0,0 +1,57 @@
+import axios from "axios";
+import {
+  formatSchemaIssues,
+  storedDocumentSchema,
+  type UploadedFile,
+} from "@shared/api";
+import { MAX_DOCUMENT_BYTES, documentKind } from "@shared/documents";
+import { SERVER_BACKEND_URL } from "./fastapi";
+
+// Text extraction always runs on the built-in server, whichever backend
+// produces the report; the text then travels with the wizard answers
+const documentsApi = axios.create({
+  baseURL: `${SERVER_BACKEND_URL}/documents`,
+});
+
+export const ACCEPTED_DOCUMENTS = ".pdf,.docx,.xlsx,.csv";
+
+/**
+ * Reason the file cannot be uploaded, or null when it can
+ */
+export function validateDocument(file: File): string | null {
+  if (!documentKind(file.name, file.type)) {
+    return "Please upload a PDF, DOCX, XLSX or CSV file.";
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return "File size must be less than 10MB.";
+  }
+  return null;
+}
+
+export async function uploadDocument(file: File): Promise<UploadedFile> {
+  const response = await documentsApi.post<unknown>("", file, {
+    headers: {
+      "Content-Type": file.type || "application/octet-stream",
+      "X-File-Name": encodeURIComponent(file.name),
+    },
+  });
+  const parsed = storedDocumentSchema.safeParse(response.data);
+  if (!parsed.success) {
+    throw new Error(
+      `Unexpected document response: ${formatSchemaIssues(parsed.error).join("; ")}`,
+    );
+  }
+  const { id, ...document } = parsed.data;
+  return { ...document, documentId: id };
+}
+
+export async function deleteDocument(documentId: string): Promise<void> {
+  try {
+    await documentsApi.delete(`/${encodeURIComponent(documentId)}`);
+  } catch (error) {
+    // Already gone on the server (e.g. a restarted instance)
+    if (!(axios.isAxiosError(error) && error.response?.status === 404)) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { WizardData } from "@shared/api";
+import {
+  applyStreamChunk,
+  completeReport,
+  emptyStreamedReport,
+} from "@shared/reportStream";
+import { runValuation } from "@shared/valuation";
+import {
+  createMockFastapi,
+  type MockFastapiConfig,
+} from "../../server/mockFastapi";
+import { fastapiService } from "./fastapi";
+
+const wizardData: WizardData = {
+  step1: {
+    businessName: "Acme",
+    country: "United States",
+    industry: "saas",
+    stage: "mvp",
+    isLaunched: true,
+  },
+};
+
+// The transforms run against the FastAPI stand-in over real HTTP
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use("/mock-fastapi", createMockFastapi());
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}/mock-fastapi`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+async function configure(config: Partial<MockFastapiConfig>) {
+  const response = await fetch(`${baseUrl}/config`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fixture: "report", error: "none", ...config }),
+  });
+  expect(response.ok).toBe(true);
+}
+
+const generate = () =>
+  fastapiService.generateValuationReportNew(baseUrl, wizardData);
+
+describe("fastapiService against the mock FastAPI backend", () => {
+  it("reads reports in the current contract", async () => {
+    await configure({ fixture: "report" });
+    const report = await generate();
+
+    expect(report.businessSummary.summary).toBe("Acme is a MVP SaaS company.");
+    expect(report.finalValuation.finalRange).toMatchObject({
+      lower: 18,
+      upper: 32,
+      scale: "millions",
+      currency: "USD",
+    });
+  });
+
+  it("normalises the string finalRange and JSON strategicContext variants", async () => {
+    await configure({ fixture: "string-final-range" });
+    expect((await generate()).finalValuation.finalRange).toMatchObject({
+      lower: 18_000_000,
+      upper: 32_000_000,
+      scale: "units",
+    });
+
+    await configure({ fixture: "json-strategic-context" });
+    expect((await generate()).strategicContext).toBe(
+      "Consolidation makes acquirers likely buyers.\n\n" +
+        "Regulation raises the barrier to new entrants.",
+    );
+  });
+
+  it("falls back to the in-house engine for legacy additionalProp1 responses", async () => {
+    await configure({ fixture: "legacy" });
+    expect(await generate()).toEqual(runValuation(wizardData));
+  });
+
+  it("surfaces the error modes", async () => {
+    await configure({ error: "server-error" });
+    await expect(generate()).rejects.toThrow("Valuation API server error");
+
+    await configure({ error: "validation" });
+    await expect(generate()).rejects.toThrow(
+      "revenue12m: value is not a valid integer",
+    );
+
+    await configure({ error: "malformed" });
+    await expect(generate()).rejects.toThrow("malformed report");
+  });
+
+  it("streams the report sections with the same normalisation", async () => {
+    await configure({ fixture: "string-final-range" });
+    const chunks = [];
+    await fastapiService.streamValuationReport(baseUrl, wizardData, (chunk) =>
+      chunks.push(chunk),
+    );
+    const report = completeReport(
+      chunks.reduce(applyStreamChunk, emptyStreamedReport()),
+    );
+
+    expect(report.calculations).toHaveLength(2);
+    expect(report.finalValuation.finalRange).toMatchObject({
+      lower: 18_000_000,
+      upper: 32_000_000,
+      scale: "units",
+    });
+  });
+
+  it("surfaces stream errors and dropped connections", async () => {
+    const stream = () =>
+      fastapiService.streamValuationReport(baseUrl, wizardData, () => {});
+
+    await configure({ error: "server-error" });
+    await expect(stream()).rejects.toThrow("Valuation API server error");
+
+    await configure({ error: "disconnect" });
+    await expect(stream()).rejects.toThrow();
+  });
+
+  it("answers the health check on /docs", async () => {
+    expect(await fastapiService.testConnection(baseUrl)).toBe(true);
+  });
+});
@@ -1,4 +1,28 @@
 import axios from "axios";
+import { z } from "zod";
+import {
+  formatSchemaIssues,
+  valuationReportSchema,
+  type ValuationReport,
+  type ValuationStreamChunk,
+  type ValuationStreamEvent,
+  type WizardData,
+} from "@shared/api";
+import {
+  amountIn,
+  moneyRange,
+  rangeToUnits,
+  type MoneyRange,
+} from "@shared/money";
+import { toBaseCurrency } from "@shared/currency";
+import { attachedDocuments } from "@shared/documents";
+import { deriveMetrics, withTimeSeries } from "@shared/timeSeries";
+import { deriveIndustryMetrics } from "@shared/metricPacks";
+import { deriveUnitEconomics } from "@shared/unitEconomics";
+import { normalizeInputs, runValuation } from "@shared/valuation";
+import { loadFxRates } from "./fxRates";
+
+export type { ValuationReport, WizardData };
 
 // FastAPI backend URL configuration
 const getBackendURL = () => {
@@ -6,126 +30,10 @@ const getBackendURL = () => {
   return "http://127.0.0.1:8000";
 };
 
-const FASTAPI_BASE_URL = getBackendURL();
+export const FASTAPI_BASE_URL = getBackendURL();
 
-const api = axios.create({
-  baseURL: FASTAPI_BASE_URL,
-  timeout: 0, // No timeout
-  headers: {
-    "Content-Type": "application/json",
-  },
-});
-
-// Add request interceptor for debugging
-api.interceptors.request.use(
-  (config) => {
-    console.log("FastAPI Request:", {
-      url: config.url,
-      method: config.method,
-      data: config.data,
-    });
-    return config;
-  },
-  (error) => {
-    console.error("Request interceptor error:", error);
-    return Promise.reject(error);
-  },
-);
-
-// Add response interceptor for debugging
-api.interceptors.response.use(
-  (response) => {
-    console.log("FastAPI Response:", {
-      status: response.status,
-      data: response.data,
-      url: response.config.url,
-    });
-    return response;
-  },
-  (error) => {
-    console.error("FastAPI Error:", {
-      message: error.message,
-      status: error.response?.status,
-      data: error.response?.data,
-      url: error.config?.url,
-    });
-    return Promise.reject(error);
-  },
-);
-
-export interface WizardData {
-  step1?: {
-    businessName: string;
-    country: string;
-    industry: string;
-    stage: string;
-    isLaunched: boolean;
-  };
-  step2?: {
-    revenue?: number;
-    monthlyBurnRate?: number;
-    netProfitLoss?: number;
-    fundingRaised?: number;
-    planningToRaise?: number;
-    skipFinancials?: boolean;
-  };
-  step3?: {
-    customerCount?: number;
-    growthRate?: number;
-    growthPeriod?: string;
-    uniqueValue?: string;
-    competitors?: string;
-    skipTraction?: boolean;
-  };
-  step4?: {
-    linkedinUrl?: string;
-    crunchbaseUrl?: string;
-    websiteUrl?: string;
-    uploadedFiles?: any[];
-    skipExtras?: boolean;
-  };
-}
-
-export interface ValuationReport {
-  businessSummary: {
-    summary: string;
-    stageAssessment: string;
-    keyStrengths?: string[];
-    weaknessesOrRisks?: string[];
-  };
-  recommendedMethods: {
-    recommendedMethods: Array<{
-      method: string;
-      confidence: number;
-      reason: string;
-    }>;
-  };
-  calculations: Array<{
-    method: string;
-    valuationRange: {
-      lower: number;
-      upper: number;
-    };
-    explanation: string;
-    calculation: string;
-    narrative: string;
-  }>;
-  competitorAnalysis?: {
-    competitors?: string[];
-    competitorBenchmarks?: any[];
-    commentary?: string;
-  };
-  strategicContext?: string;
-  finalValuation: {
-    finalRange: {
-      lower: number;
-      upper: number;
-    };
-    methodComparisons?: string;
-    justification?: string;
-    recommendations?: string[];
-  };
-}
+// Valuation endpoints served by our own Express app (and the Netlify function)
+export const SERVER_BACKEND_URL = "/api";
 
 // Transform wizard data to the new API format
 function transformWizardDataToNewAPI(wizardData: WizardData): any {
@@ -157,13 +65,14 @@ function transformWizardDataToNewAPI(wizardData: WizardData): any {
     productLaunched: wizardData.step1?.isLaunched || false,
   };
 
-  // Financial data (convert to thousands for API)
+  // Financial data (the API expects thousands)
   if (wizardData.step2 && !wizardData.step2.skipFinancials) {
-    payload.revenue12m = Math.round((wizardData.step2.revenue || 0) / 1000); // Convert to thousands
-    payload.burnRate = Math.round((wizardData.step2.monthlyBurnRate || 0) / 1000); // Convert to thousands
-    payload.netProfit = Math.round((wizardData.step2.netProfitLoss || 0) / 1000); // Convert to thousands
-    payload.fundingRaised = Math.round((wizardData.step2.fundingRaised || 0) / 1000); // Convert to thousands
-    payload.amountToRaise = Math.round((wizardData.step2.planningToRaise || 0) / 1000); // Convert to thousands
+    const { step2 } = wizardData;
+    payload.revenue12m = Math.round(amountIn(step2.revenue, "thousands"));
+    payload.burnRate = Math.round(amountIn(step2.monthlyBurnRate, "thousands"));
+    payload.netProfit = Math.round(amountIn(step2.netProfitLoss, "thousands"));
+    payload.fundingRaised = Math.round(amountIn(step2.fundingRaised, "thousands"));
+    payload.amountToRaise = Math.round(amountIn(step2.planningToRaise, "thousands"));
   } else {
     payload.revenue12m = 0;
     payload.burnRate = 0;
@@ -172,358 +81,301 @@ function transformWizardDataToNewAPI(wizardData: WizardData): any {
     payload.amountToRaise = 0;
   }
 
-  return payload;
-}
+  // Text extracted from uploaded pitch decks and financials
+  payload.documents = attachedDocuments(wizardData).map((file) => ({
+    name: file.name,
+    text: file.text,
+  }));
+
+  // SaaS metrics; amounts in thousands like above
+  const inputs = normalizeInputs(wizardData);
+  const unitEconomics = deriveUnitEconomics(inputs);
+  if (unitEconomics) {
+    const thousands = (amount?: number) =>
+      amount === undefined ? null : Math.round(amount / 1000);
+    payload.unitEconomics = {
+      arr: thousands(unitEconomics.arr),
+      grossMargin: unitEconomics.grossMargin ?? null,
+      logoChurn: unitEconomics.logoChurn ?? null,
+      revenueChurn: unitEconomics.revenueChurn ?? null,
+      nrr: unitEconomics.nrr ?? null,
+      cac: thousands(unitEconomics.cac),
+      paybackMonths: unitEconomics.paybackMonths ?? null,
+      ltv: thousands(unitEconomics.ltv),
+      ltvToCac: unitEconomics.ltvToCac ?? null,
+      ruleOf40: unitEconomics.ruleOf40 ?? null,
+    };
+  }
 
-// Legacy transform function (kept for compatibility)
-function transformWizardDataToBackend(wizardData: WizardData): any {
-  const payload: any = {
-    // Basic company information
-    companyName: wizardData.step1?.businessName || "Unknown Company",
-    country: wizardData.step1?.country || "Unknown",
-    industry: wizardData.step1?.industry || "other",
-    stage: wizardData.step1?.stage || "idea",
-    isLaunched: wizardData.step1?.isLaunched || false,
-  };
+  // Answers to the industry metric pack with the metrics derived from them
+  const industryMetrics = deriveIndustryMetrics(inputs);
+  if (industryMetrics) {
+    payload.industryMetrics = industryMetrics.metrics.map(
+      ({ label, value, format }) => ({
+        label,
+        value: format === "money" ? Math.round(value / 1000) : value,
+        format,
+      }),
+    );
+  }
 
-  // Financial data
-  if (wizardData.step2 && !wizardData.step2.skipFinancials) {
-    payload.revenue = wizardData.step2.revenue || 0;
-    payload.monthlyBurnRate = wizardData.step2.monthlyBurnRate || 0;
-    payload.netProfitLoss = wizardData.step2.netProfitLoss || 0;
-    payload.fundingRaised = wizardData.step2.fundingRaised || 0;
-    payload.planningToRaise = wizardData.step2.planningToRaise || 0;
+  // Derived from the detailed monthly figures; amounts in thousands like above
+  if (wizardData.timeSeries) {
+    const metrics = deriveMetrics(wizardData.timeSeries);
+    payload.timeSeries = {
+      months: metrics.monthCount,
+      momGrowth: metrics.momGrowth ?? null,
+      cagr: metrics.cagr ?? null,
+      runwayMonths: metrics.runwayMonths ?? null,
+      burnMultiple: metrics.burnMultiple ?? null,
+      seasonalityAmplitude: metrics.seasonality?.amplitude ?? null,
+      headcount: metrics.headcount ?? null,
+      revenuePerEmployee:
+        metrics.revenuePerEmployee === undefined
+          ? null
+          : Math.round(metrics.revenuePerEmployee / 1000),
+    };
   }
 
-  // Traction data
-  if (wizardData.step3 && !wizardData.step3.skipTraction) {
-    payload.customerCount = wizardData.step3.customerCount || 0;
-    payload.growthRate = wizardData.step3.growthRate || 0;
-    payload.growthPeriod = wizardData.step3.growthPeriod || "monthly";
-    payload.uniqueValue = wizardData.step3.uniqueValue || "";
-    payload.competitors = wizardData.step3.competitors || "";
+  return payload;
+}
+
+// Strategic context sometimes arrives as a JSON document serialised into a string
+const paragraphListSchema = z.array(z.object({ paragraph: z.string() }));
+const strategicContextDocumentSchema = z.union([
+  // { strategicContext: [{ paragraph }, ...] }
+  z
+    .object({ strategicContext: paragraphListSchema })
+    .transform((doc) => doc.strategicContext.map((item) => item.paragraph)),
+  // { strategicContext: { paragraph1, paragraph2, ... } }
+  z
+    .object({ strategicContext: z.record(z.string()) })
+    .transform((doc) =>
+      Object.keys(doc.strategicContext)
+        .filter((key) => key.startsWith("paragraph"))
+        .sort()
+        .map((key) => doc.strategicContext[key]),
+    ),
+  // Legacy { strategicValuationContext: [{ paragraph }, ...] }
+  z
+    .object({ strategicValuationContext: paragraphListSchema })
+    .transform((doc) =>
+      doc.strategicValuationContext.map((item) => item.paragraph),
+    ),
+]);
+
+function normalizeStrategicContext(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  let document: unknown;
+  try {
+    document = JSON.parse(value);
+  } catch (e) {
+    // Plain prose
+    return value;
   }
+  const parsed = strategicContextDocumentSchema.safeParse(document);
+  return parsed.success ? parsed.data.join("\n\n") : value;
+}
+
+// Some backends describe the final range as text, e.g. "$120M–$160M"
+function parseFinalRangeString(value: string): MoneyRange | null {
+  const rangeMatch = value.match(
+    /\$(\d+(?:\.\d+)?)([KMB])?\s*[–-]\s*\$(\d+(?:\.\d+)?)([KMB])?/,
+  );
+  if (!rangeMatch) return null;
 
-  // Additional data
-  if (wizardData.step4 && !wizardData.step4.skipExtras) {
-    payload.linkedinUrl = wizardData.step4.linkedinUrl || "";
-    payload.crunchbaseUrl = wizardData.step4.crunchbaseUrl || "";
-    payload.websiteUrl = wizardData.step4.websiteUrl || "";
-    payload.uploadedFiles = wizardData.step4.uploadedFiles || [];
+  const [, lowerNum, lowerUnit, upperNum, upperUnit] = rangeMatch;
+  const multipliers: { [key: string]: number } = { K: 1000, M: 1000000, B: 1000000000 };
+  // A unit on one bound applies to both ("$120–160M"); bare numbers are thousands
+  const lower = parseFloat(lowerNum) * (multipliers[lowerUnit || upperUnit] || 1000);
+  const upper = parseFloat(upperNum) * (multipliers[upperUnit || lowerUnit] || 1000);
+
+  return moneyRange(lower, upper, "units");
+}
+
+/**
+ * Validate a report from any backend against the shared schema. Throws with
+ * the paths of the malformed fields instead of letting NaN ranges render.
+ */
+export function validateValuationReport(report: unknown): ValuationReport {
+  const parsed = valuationReportSchema.safeParse(report);
+  if (!parsed.success) {
+    const issues = formatSchemaIssues(parsed.error);
+    console.error("Malformed valuation report:", issues);
+    throw new Error(
+      `Valuation API returned a malformed report: ${issues.slice(0, 3).join("; ")}${
+        issues.length > 3 ? ` (and ${issues.length - 3} more)` : ""
+      }`,
+    );
   }
+  return parsed.data;
+}
 
-  return payload;
+// Summarise a FastAPI-style 422 body ({ detail: [{ loc, msg }] })
+function describeValidationDetail(detail: unknown): string {
+  if (!Array.isArray(detail) || detail.length === 0) return "";
+  return detail
+    .slice(0, 3)
+    .map((item: any) =>
+      `${(item.loc || []).filter((segment: unknown) => segment !== "body").join(".")}: ${item.msg}`,
+    )
+    .join("; ");
 }
 
 // Transform API response to our ValuationReport format
+// Final valuations whose range is text get a parsed range, or else one
+// spanning the calculation ranges
+function normalizeFinalValuation(finalValuation: any, calculations: any[]) {
+  if (!finalValuation || typeof finalValuation.finalRange !== "string") {
+    return finalValuation;
+  }
+  let finalRange = parseFinalRangeString(finalValuation.finalRange);
+  // Calculation ranges without a scale are in millions, as in the schema
+  if (!finalRange && calculations.length > 0) {
+    const ranges = calculations.map((calc: any) =>
+      rangeToUnits({ scale: "millions", ...calc.valuationRange }),
+    );
+    finalRange = moneyRange(
+      Math.min(...ranges.map((r) => r.lower)),
+      Math.max(...ranges.map((r) => r.upper)),
+      "units",
+      calculations[0].valuationRange?.currency,
+    );
+  }
+  return { ...finalValuation, finalRange: finalRange ?? finalValuation.finalRange };
+}
+
 function transformAPIResponseToValuationReport(apiResponse: any, wizardData: WizardData): ValuationReport {
-  // If the response already matches our expected format, return it directly
+  // If the response already matches our expected format, normalise the known variants
   if (apiResponse.businessSummary && apiResponse.recommendedMethods && apiResponse.calculations) {
-    // Parse strategic context if it's a JSON string
-    let strategicContext = apiResponse.strategicContext;
-    if (typeof strategicContext === 'string' && (strategicContext.includes('strategicValuationContext') || strategicContext.includes('strategicContext'))) {
-      try {
-        const parsed = JSON.parse(strategicContext);
-
-        // Handle new array format with strategicContext containing array of paragraph objects
-        if (parsed.strategicContext && Array.isArray(parsed.strategicContext)) {
-          strategicContext = parsed.strategicContext
-            .map((item: any) => item.paragraph)
-            .join('\n\n');
-        }
-        // Handle format with strategicContext object containing paragraph1, paragraph2, etc.
-        else if (parsed.strategicContext && typeof parsed.strategicContext === 'object') {
-          const paragraphs = Object.keys(parsed.strategicContext)
-            .filter(key => key.startsWith('paragraph'))
-            .sort()
-            .map(key => parsed.strategicContext[key]);
-          strategicContext = paragraphs.join('\n\n');
-        }
-        // Handle legacy format
-        else if (parsed.strategicValuationContext) {
-          strategicContext = parsed.strategicValuationContext
-            .map((item: any) => item.paragraph)
-            .join('\n\n');
-        }
-      } catch (e) {
-        // Keep as string if parsing fails
-      }
-    }
-
-    // Fix finalValuation.finalRange if it's a string
-    let finalValuation = apiResponse.finalValuation;
-    if (finalValuation && typeof finalValuation.finalRange === 'string') {
-      // Extract numbers from string like "$120M–$160M"
-      const rangeMatch = finalValuation.finalRange.match(/\$(\d+(?:\.\d+)?)([KMB])?[–-]\$(\d+(?:\.\d+)?)([KMB])?/);
-      if (rangeMatch) {
-        const [, lowerNum, lowerUnit, upperNum, upperUnit] = rangeMatch;
-        const multipliers: { [key: string]: number } = { K: 1000, M: 1000000, B: 1000000000 };
-
-        const lower = parseFloat(lowerNum) * (multipliers[lowerUnit] || 1000); // Default to thousands
-        const upper = parseFloat(upperNum) * (multipliers[upperUnit] || 1000); // Default to thousands
-
-        finalValuation = {
-          ...finalValuation,
-          finalRange: {
-            lower: lower / 1000000, // Convert to millions for consistency
-            upper: upper / 1000000   // Convert to millions for consistency
-          }
-        };
-      } else {
-        // Fallback: use calculation ranges if finalRange parsing fails
-        if (apiResponse.calculations && apiResponse.calculations.length > 0) {
-          const ranges = apiResponse.calculations.map((calc: any) => calc.valuationRange);
-          const lower = Math.min(...ranges.map((r: any) => r.lower));
-          const upper = Math.max(...ranges.map((r: any) => r.upper));
-          finalValuation = {
-            ...finalValuation,
-            finalRange: { lower, upper }
-          };
-        }
-      }
-    }
-
-    return {
+    return validateValuationReport({
       ...apiResponse,
-      strategicContext: strategicContext || apiResponse.strategicContext,
-      finalValuation
-    };
+      strategicContext: normalizeStrategicContext(apiResponse.strategicContext),
+      finalValuation: normalizeFinalValuation(
+        apiResponse.finalValuation,
+        apiResponse.calculations,
+      ),
+    });
   }
 
-  // Fallback transformation for legacy format
-  const businessName = wizardData.step1?.businessName || "Your Company";
+  // Legacy responses (optionally wrapped in additionalProp1) only echo the
+  // submitted inputs, so the report is computed by the in-house engine
+  return runValuation(wizardData);
+}
 
-  // Handle different response formats
-  let reportData = apiResponse;
-  if (apiResponse.additionalProp1) {
-    reportData = apiResponse.additionalProp1;
+// Error for a FastAPI error response, when its status has a known meaning
+function fastapiResponseError(status: number, data: any): Error | undefined {
+  if (status === 500) {
+    return new Error("Valuation API server error. Please try again later.");
   }
-
-  return {
-    businessSummary: {
-      summary: `${businessName} is a ${reportData.industry || 'technology'} startup in the ${reportData.stage || 'growth'} stage. Based on the provided data, the company shows promising potential in its market segment.`,
-      stageAssessment: reportData.stage || "Growth",
-      keyStrengths: [
-        "Strong market positioning",
-        "Solid revenue foundation",
-        "Clear growth trajectory",
-        "Experienced leadership team"
-      ],
-      weaknessesOrRisks: [
-        "Market competition",
-        "Scaling challenges",
-        "Customer acquisition costs"
-      ],
-    },
-    recommendedMethods: {
-      recommendedMethods: [
-        {
-          method: "Revenue Multiple",
-          confidence: 0.85,
-          reason: `Strong revenue of $${reportData.revenue12m || 0}K provides solid basis`,
-        },
-        {
-          method: "Market Comparable",
-          confidence: 0.78,
-          reason: `Good comparable companies exist in ${reportData.industry}`,
-        },
-        {
-          method: "Growth Analysis",
-          confidence: 0.72,
-          reason: `${reportData.growthRate || 0}% growth rate indicates strong momentum`,
-        },
-      ],
-    },
-    calculations: [
-      {
-        method: "Revenue Multiple Analysis",
-        valuationRange: {
-          lower: Math.max(5, Math.round((reportData.revenue12m || 0) * 0.003)),
-          upper: Math.max(8, Math.round((reportData.revenue12m || 0) * 0.005))
-        },
-        explanation: `Based on industry revenue multiples for ${reportData.industry} companies`,
-        calculation: `Annual Revenue ($${reportData.revenue12m || 0}K) × Industry Multiple (3-5x) × Growth Factor`,
-        narrative: "This method values the company based on revenue multiples from comparable companies in the same industry and stage.",
-      },
-    ],
-    competitorAnalysis: {
-      competitors: ["Industry Leader 1", "Industry Leader 2", "Emerging Competitor"],
-      competitorBenchmarks: [],
-      commentary: `The competitive landscape in ${reportData.industry} shows healthy market dynamics with room for multiple players. ${businessName} has positioned itself well with ${reportData.differentiator || 'strong differentiation'}.`,
-    },
-    strategicContext: `${businessName} operates in the ${reportData.industry} sector. The company has raised $${reportData.fundingRaised || 0}K to date and is positioned for continued growth in this expanding market.`,
-    finalValuation: {
-      finalRange: {
-        lower: Math.max(4, Math.round(((reportData.revenue12m || 0) * 0.0035))),
-        upper: Math.max(7, Math.round(((reportData.revenue12m || 0) * 0.0055)))
-      },
-      methodComparisons: "Revenue multiple and customer value methods show convergent ranges indicating consistent valuation",
-      justification: `Valuation reflects current metrics including $${reportData.revenue12m || 0}K revenue`,
-      recommendations: [
-        "Continue focus on customer acquisition and retention",
-        "Optimize unit economics and reduce burn rate",
-        "Build strategic partnerships to accelerate growth",
-        "Prepare detailed metrics for investor presentations",
-        "Consider expanding to adjacent markets"
-      ],
-    },
-  };
+  if (status === 422) {
+    const detail = describeValidationDetail(data?.detail);
+    return new Error(
+      `Invalid data format sent to valuation API.${detail ? ` ${detail}` : ""}`,
+    );
+  }
+  return undefined;
 }
 
-// Demo data fallback
-const generateDemoReport = (wizardData: WizardData): ValuationReport => {
-  const businessName = wizardData.step1?.businessName || "Demo Company";
-  const industry = wizardData.step1?.industry || "saas";
-
-  return {
-    businessSummary: {
-      summary: `${businessName} is a ${industry} startup with promising market potential. The company demonstrates strong fundamentals and is positioned well within its industry sector.`,
-      stageAssessment: "Growth",
-      keyStrengths: [
-        "Strong market opportunity",
-        "Experienced founding team",
-        "Clear value proposition",
-        "Scalable business model",
-      ],
-      weaknessesOrRisks: [
-        "Competitive market landscape",
-        "Customer acquisition costs",
-        "Market timing considerations",
-      ],
-    },
-    recommendedMethods: {
-      recommendedMethods: [
-        {
-          method: "Revenue Multiple",
-          confidence: 0.85,
-          reason: "Strong revenue metrics available",
-        },
-        {
-          method: "DCF Analysis",
-          confidence: 0.78,
-          reason: "Predictable cash flow patterns",
-        },
-        {
-          method: "Market Comparable",
-          confidence: 0.72,
-          reason: "Good comparable companies exist",
-        },
-      ],
-    },
-    calculations: [
-      {
-        method: "Revenue Multiple",
-        valuationRange: { lower: 8, upper: 12 },
-        explanation:
-          "Based on industry revenue multiples and growth projections",
-        calculation:
-          "Annual Revenue × Industry Multiple (4-6x) × Growth Factor (2x)",
-        narrative:
-          "This method values the company based on revenue multiples from comparable companies.",
-      },
-      {
-        method: "DCF Analysis",
-        valuationRange: { lower: 10, upper: 15 },
-        explanation: "Discounted cash flow analysis over 5-year period",
-        calculation: "NPV of projected cash flows with 12% discount rate",
-        narrative:
-          "DCF provides intrinsic value based on projected cash generation capability.",
-      },
-    ],
-    competitorAnalysis: {
-      competitors: ["CompetitorA", "CompetitorB", "CompetitorC"],
-      competitorBenchmarks: [],
-      commentary:
-        "The competitive landscape shows healthy market dynamics with room for multiple players.",
-    },
-    strategicContext:
-      "This valuation reflects strong growth potential in a expanding market. The company is well-positioned to capture market share and scale operations effectively.",
-    finalValuation: {
-      finalRange: { lower: 9, upper: 14 },
-      methodComparisons:
-        "Revenue multiple and DCF methods show convergent ranges",
-      justification:
-        "Valuation reflects current metrics with growth potential upside",
-      recommendations: [
-        "Focus on customer acquisition efficiency",
-        "Strengthen unit economics",
-        "Build strategic partnerships",
-        "Prepare for next funding round",
-      ],
-    },
-  };
-};
+/**
+ * POST `body` to an endpoint answering newline-delimited JSON events and pass
+ * each on. Aborting `signal` cancels the stream with an "Analysis cancelled"
+ * error; `responseError` describes answers other than 2xx.
+ */
+async function streamReportEvents(
+  url: string,
+  body: unknown,
+  onChunk: (chunk: ValuationStreamEvent) => void,
+  {
+    signal,
+    headers,
+    responseError,
+  }: {
+    signal?: AbortSignal;
+    headers?: Record<string, string>;
+    responseError: (response: Response) => Promise<Error>;
+  },
+) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minute timeout
+  const cancel = () => controller.abort();
+  signal?.addEventListener("abort", cancel);
 
-let currentBackendUrl = FASTAPI_BASE_URL;
+  try {
+    if (signal?.aborted) throw new Error("Analysis cancelled");
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
 
-export const fastapiService = {
-  setBackendUrl(url: string) {
-    currentBackendUrl = url;
-    api.defaults.baseURL = url === "demo" ? "" : url;
-  },
+    if (!response.ok) {
+      throw await responseError(response);
+    }
 
-  async generateValuationReport(
-    wizardData: WizardData,
-  ): Promise<ValuationReport> {
-    // Demo mode
-    if (currentBackendUrl === "demo") {
-      console.log("Using demo mode - generating mock report");
-      // Simulate processing time
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-      return generateDemoReport(wizardData);
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error("No response body reader available");
     }
 
-    try {
-      const payload = transformWizardDataToBackend(wizardData);
-      console.log("Sending payload to FastAPI:", payload);
+    const decoder = new TextDecoder();
+    let buffer = "";
 
-      const response = await api.post<ValuationReport>(
-        "/valuation-report",
-        payload,
-      );
-      return response.data;
-    } catch (error: any) {
-      console.error("FastAPI valuation error:", error);
-
-      // Enhanced error handling with CORS-specific messages
-      if (
-        error.code === "ERR_NETWORK" ||
-        error.message?.includes("Network Error")
-      ) {
-        throw new Error(
-          "Cannot connect to backend server. This might be due to CORS restrictions when connecting from a cloud deployment to localhost. Try using Demo Mode instead.",
-        );
-      } else if (error.code === "ECONNREFUSED") {
-        throw new Error(
-          "Backend server is not running. Please start your FastAPI server or use Demo Mode.",
-        );
-      } else if (error.response?.status === 500) {
-        const detail = error.response?.data?.detail;
-        if (typeof detail === "object" && detail.error) {
-          throw new Error(`AI Analysis Error: ${detail.error}`);
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (line.trim()) {
+          let chunk: ValuationStreamChunk;
+          try {
+            chunk = JSON.parse(line);
+          } catch (e) {
+            console.error("Failed to parse chunk:", line, e);
+            continue;
+          }
+          if ("error" in chunk) {
+            throw new Error(chunk.message || "Analysis failed");
+          }
+          onChunk(chunk as ValuationStreamEvent);
         }
-        throw new Error("Internal server error occurred during analysis.");
-      } else if (error.response?.status === 422) {
-        throw new Error("Invalid data format sent to backend.");
-      } else if (error.message?.includes("timeout")) {
-        throw new Error(
-          "Analysis is taking longer than expected. Please try again.",
-        );
       }
-
-      throw new Error(
-        error.response?.data?.detail ||
-          error.message ||
-          "Failed to generate valuation report",
-      );
     }
-  },
+  } catch (error) {
+    if (signal?.aborted) throw new Error("Analysis cancelled");
+    if (error.name === "AbortError") {
+      throw new Error("Analysis is taking longer than expected. Please try again.");
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", cancel);
+  }
+}
 
+// Backends value the company in the base currency; convert with the
+// user's FX table so every backend sees the same numbers
+export const toBaseCurrencyData = (wizardData: WizardData): WizardData =>
+  toBaseCurrency(wizardData, loadFxRates());
+
+// Body of the FastAPI /valuation-report endpoint for base-currency inputs
+export const fastapiPayload = (wizardData: WizardData) =>
+  transformWizardDataToNewAPI(withTimeSeries(wizardData));
+
+// FastAPI backends at `baseUrl`; inputs are in the base currency
+export const fastapiService = {
   async generateValuationReportNew(
+    baseUrl: string,
     wizardData: WizardData,
+    signal?: AbortSignal,
   ): Promise<ValuationReport> {
     try {
-      const payload = transformWizardDataToNewAPI(wizardData);
+      const payload = fastapiPayload(wizardData);
       console.log("Sending payload to new API:", payload);
 
       // Create axios instance for external API
@@ -536,8 +388,9 @@ export const fastapiService = {
       });
 
       const response = await externalApi.post(
-        "https://74c41b5cf8e8.ngrok-free.app/valuation-report",
+        `${baseUrl}/valuation-report`,
         payload,
+        { signal },
       );
 
       // Transform response to our expected format
@@ -546,12 +399,15 @@ export const fastapiService = {
     } catch (error: any) {
       console.error("New API valuation error:", error);
 
-      if (error.code === "ERR_NETWORK" || error.message?.includes("Network Error")) {
+      const responseError =
+        error.response &&
+        fastapiResponseError(error.response.status, error.response.data);
+      if (signal?.aborted) {
+        throw new Error("Analysis cancelled");
+      } else if (error.code === "ERR_NETWORK" || error.message?.includes("Network Error")) {
         throw new Error("Cannot connect to valuation API. Please check your internet connection.");
-      } else if (error.response?.status === 500) {
-        throw new Error("Valuation API server error. Please try again later.");
-      } else if (error.response?.status === 422) {
-        throw new Error("Invalid data format sent to valuation API.");
+      } else if (responseError) {
+        throw responseError;
       } else if (error.message?.includes("timeout")) {
         throw new Error("Valuation analysis is taking longer than expected. Please try again.");
       }
@@ -564,95 +420,116 @@ export const fastapiService = {
     }
   },
 
-  async testConnection(): Promise<boolean> {
-    if (currentBackendUrl === "demo") {
-      return true;
-    }
-
-    try {
-      // Test if FastAPI backend is running with a shorter timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
-
-      const response = await fetch(`${currentBackendUrl}/docs`, {
-        signal: controller.signal,
-        mode: "cors",
-      });
-
-      clearTimeout(timeoutId);
-      return response.ok;
-    } catch (error: any) {
-      console.error("FastAPI connection test failed:", error);
-
-      // Log specific error types for debugging
-      if (error.name === "AbortError") {
-        console.error("Connection test timed out");
-      } else if (error.message?.includes("Failed to fetch")) {
-        console.error("CORS or network error - likely cross-origin issue");
+  // Sections from /valuation-report-stream as they are produced, with the
+  // same normalisation as whole reports
+  async streamValuationReport(
+    baseUrl: string,
+    wizardData: WizardData,
+    onChunk: (chunk: ValuationStreamEvent) => void,
+    signal?: AbortSignal,
+  ) {
+    const calculations: unknown[] = [];
+    const normalize = (chunk: ValuationStreamEvent): ValuationStreamEvent => {
+      switch (chunk.section) {
+        case "calculation":
+          calculations.push(chunk.data);
+          return chunk;
+        case "strategicContext":
+          return { ...chunk, data: normalizeStrategicContext(chunk.data) } as ValuationStreamEvent;
+        case "finalValuation":
+          return {
+            ...chunk,
+            data: normalizeFinalValuation(chunk.data, calculations),
+          };
+        default:
+          return chunk;
       }
+    };
 
-      return false;
-    }
+    await streamReportEvents(
+      `${baseUrl}/valuation-report-stream`,
+      fastapiPayload(wizardData),
+      (chunk) => onChunk(normalize(chunk)),
+      {
+        signal,
+        headers: { "ngrok-skip-browser-warning": "true" },
+        async responseError(response) {
+          const data = await response.json().catch(() => undefined);
+          return (
+            fastapiResponseError(response.status, data) ??
+            new Error(`HTTP error! status: ${response.status}`)
+          );
+        },
+      },
+    );
+  },
+
+  async testConnection(baseUrl: string): Promise<boolean> {
+    return probe(`${baseUrl}/docs`);
   },
 };
 
-// Streamed valuation report (chunked)
-export async function streamValuationReport(wizardData: WizardData, onChunk: (chunk: any) => void) {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minute timeout
-  
+// Health check with a short timeout; true when the URL answers 2xx
+async function probe(url: string): Promise<boolean> {
   try {
-    const response = await fetch('http://127.0.0.1:8000/valuation-report-stream', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(wizardData),
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
+
+    const response = await fetch(url, {
       signal: controller.signal,
+      mode: "cors",
     });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    clearTimeout(timeoutId);
+    return response.ok;
+  } catch (error: any) {
+    console.error("Backend connection test failed:", error);
+
+    // Log specific error types for debugging
+    if (error.name === "AbortError") {
+      console.error("Connection test timed out");
+    } else if (error.message?.includes("Failed to fetch")) {
+      console.error("CORS or network error - likely cross-origin issue");
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('No response body reader available');
-    }
-    
-    const decoder = new TextDecoder();
-    let buffer = '';
-    
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      
-      buffer += decoder.decode(value, { stream: true });
-      let lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-      
-      for (const line of lines) {
-        if (line.trim()) {
-          try {
-            const chunk = JSON.parse(line);
-            if (chunk.error) {
-              throw new Error(chunk.message || 'Analysis failed');
-            }
-            onChunk(chunk);
-          } catch (e) {
-            if (e instanceof SyntaxError) {
-              console.error('Failed to parse chunk:', line, e);
-            } else {
-              throw e;
-            }
-          }
-        }
-      }
-    }
-  } catch (error) {
-    if (error.name === 'AbortError') {
-      throw new Error('Analysis is taking longer than expected. Please try again.');
-    }
-    throw error;
-  } finally {
-    clearTimeout(timeoutId);
+    return false;
   }
 }
+
+// The in-house engine served by our own Express app; inputs are in the
+// base currency
+export const serverService = {
+  async generateValuationReport(
+    wizardData: WizardData,
+    signal?: AbortSignal,
+  ): Promise<ValuationReport> {
+    const response = await axios.post<unknown>(
+      `${SERVER_BACKEND_URL}/valuation-report`,
+      wizardData,
+      { signal },
+    );
+    return validateValuationReport(response.data);
+  },
+
+  // Newline-delimited JSON, one event per section as it is produced.
+  // Aborting `signal` cancels the stream with an "Analysis cancelled" error.
+  streamValuationReport: (
+    wizardData: WizardData,
+    onChunk: (chunk: ValuationStreamEvent) => void,
+    signal?: AbortSignal,
+  ) =>
+    streamReportEvents(
+      `${SERVER_BACKEND_URL}/valuation-report-stream`,
+      wizardData,
+      onChunk,
+      {
+        signal,
+        responseError: async (response) =>
+          new Error(`HTTP error! status: ${response.status}`),
+      },
+    ),
+
+  async testConnection(): Promise<boolean> {
+    return probe(`${SERVER_BACKEND_URL}/ping`);
+  },
+};
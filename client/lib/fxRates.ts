@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { DEFAULT_FX_RATES, type FxRates } from "@shared/currency";
+
+const FX_RATES_STORAGE_KEY = "fxRates";
+
+const storedRatesSchema = z.record(z.number().positive().finite());
+
+// User-edited FX rates, layered over the defaults
+export function loadFxRates(): FxRates {
+  try {
+    const saved = localStorage.getItem(FX_RATES_STORAGE_KEY);
+    if (!saved) return { ...DEFAULT_FX_RATES };
+    const parsed = storedRatesSchema.safeParse(JSON.parse(saved));
+    if (!parsed.success) {
+      console.warn("Ignoring malformed FX rates in localStorage");
+      return { ...DEFAULT_FX_RATES };
+    }
+    return { ...DEFAULT_FX_RATES, ...parsed.data };
+  } catch (error) {
+    console.error("Error loading FX rates:", error);
+    return { ...DEFAULT_FX_RATES };
+  }
+}
+
+export function saveFxRates(rates: FxRates) {
+  localStorage.setItem(FX_RATES_STORAGE_KEY, JSON.stringify(rates));
+}
+
+export function resetFxRates() {
+  localStorage.removeItem(FX_RATES_STORAGE_KEY);
+}
@@ -0,0 +1,50 @@
+import type { ValuationDistribution } from "@shared/api";
+import {
+  runMonteCarlo,
+  type MonteCarloDistributions,
+  type MonteCarloOptions,
+} from "@shared/monteCarlo";
+import type { ValuationInputs } from "@shared/valuation";
+
+export interface MonteCarloRequest {
+  inputs: ValuationInputs;
+  distributions: MonteCarloDistributions;
+  options: MonteCarloOptions;
+}
+
+export type MonteCarloResponse =
+  | { ok: true; distribution: ValuationDistribution }
+  | { ok: false; error: string };
+
+// One simulation in a dedicated worker; falls back to the main thread where
+// workers are unavailable (tests, very old browsers)
+export function simulateValuation(
+  request: MonteCarloRequest,
+): Promise<ValuationDistribution> {
+  if (typeof Worker === "undefined") {
+    return Promise.resolve().then(() =>
+      runMonteCarlo(request.inputs, request.distributions, request.options),
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL("./monteCarlo.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+      worker.terminate();
+      const response = event.data;
+      if ("error" in response) {
+        reject(new Error(response.error));
+      } else {
+        resolve(response.distribution);
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Monte Carlo worker failed"));
+    };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,20 @@
+import { runMonteCarlo } from "@shared/monteCarlo";
+import type { MonteCarloRequest, MonteCarloResponse } from "./monteCarlo";
+
+// Runs the simulation off the main thread so the results page stays responsive
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { inputs, distributions, options } = event.data;
+  let response: MonteCarloResponse;
+  try {
+    response = {
+      ok: true,
+      distribution: runMonteCarlo(inputs, distributions, options),
+    };
+  } catch (error) {
+    response = {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  self.postMessage(response);
+};
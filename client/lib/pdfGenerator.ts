@@ -1,9 +1,25 @@
 import jsPDF from 'jspdf';
+import { convertRange, reportingCurrency } from '@shared/currency';
+import { applyMethodWeights } from '@shared/blend';
+import { modelRound, plannedRound, type RoundModel } from '@shared/capTable';
+import { exitValues, runExitWaterfall } from '@shared/exitWaterfall';
+import { footballField } from '@shared/footballField';
+import { runScenarios } from '@shared/scenarios';
+import {
+  currencySymbol,
+  formatAmount,
+  formatMoney,
+  formatMoneyRange,
+  moneyRange,
+  type Money,
+  type MoneyRange,
+} from '@shared/money';
 import { ValuationReport, WizardData } from './fastapi';
+import { loadFxRates } from './fxRates';
 
 export function generateValuationPDF(
   wizardData: WizardData,
-  valuationReport: ValuationReport,
+  generatedReport: ValuationReport,
   confidence: number
 ): void {
   const pdf = new jsPDF();
@@ -54,16 +70,31 @@ export function generateValuationPDF(
     yPosition += 10;
   };
 
-  // Helper function to format currency
-  const formatCurrency = (amount: number): string => {
-    if (amount >= 1e9) {
-      return `$${(amount / 1e9).toFixed(2)}B`;
-    } else if (amount >= 1e6) {
-      return `$${(amount / 1e6).toFixed(2)}M`;
-    } else if (amount >= 1e3) {
-      return `$${(amount / 1e3).toFixed(0)}K`;
-    }
-    return `$${amount.toLocaleString()}`;
+  // jsPDF's built-in fonts only cover Latin-1, so symbols such as ₹ are
+  // written as the currency code instead
+  const pdfSafe = (text: string, currency: string) =>
+    /[^\x00-\xff]/.test(text)
+      ? text.split(currencySymbol(currency)).join(`${currency} `)
+      : text;
+
+  const formatPdfMoney = (value: Money) => pdfSafe(formatMoney(value), value.currency);
+
+  const formatPdfRange = (range: MoneyRange) =>
+    pdfSafe(formatMoneyRange(range), range.currency);
+
+  // Ranges are shown in the reporting currency, with the report's own
+  // (base currency) figures alongside when the two differ
+  const currency = reportingCurrency(wizardData);
+  const fxRates = loadFxRates();
+  // Reported at the weighted blend once weights are set, like the page
+  const valuationReport = applyMethodWeights(generatedReport, wizardData.methodWeights, fxRates);
+  const toReportingCurrency = (range: MoneyRange) => convertRange(range, currency, fxRates);
+
+  const formatDualRange = (range: MoneyRange) => {
+    const reporting = formatPdfRange(toReportingCurrency(range));
+    return range.currency === currency
+      ? reporting
+      : `${reporting} (approx. ${formatPdfRange(range)})`;
   };
 
   // Helper function to add calculation details
@@ -116,27 +147,16 @@ export function generateValuationPDF(
 
   // Valuation Summary Box
   yPosition = 90;
-  if (valuationReport.finalValuation?.finalRange || valuationReport.calculations?.length) {
-    let lower = 0, upper = 0;
-    
-    if (valuationReport.finalValuation?.finalRange && 
-        !isNaN(valuationReport.finalValuation.finalRange.lower) && 
-        !isNaN(valuationReport.finalValuation.finalRange.upper)) {
-      lower = valuationReport.finalValuation.finalRange.lower * 1000000;
-      upper = valuationReport.finalValuation.finalRange.upper * 1000000;
-    } else if (valuationReport.calculations?.length > 0) {
-      const ranges = valuationReport.calculations.map(calc => calc.valuationRange);
-      const validRanges = ranges.filter(r => r && !isNaN(r.lower) && !isNaN(r.upper));
-      if (validRanges.length > 0) {
-        lower = Math.min(...validRanges.map(r => r.lower)) * (validRanges[0].lower < 10000 ? 1000 : 1);
-        upper = Math.max(...validRanges.map(r => r.upper)) * (validRanges[0].upper < 10000 ? 1000 : 1);
-      }
-    }
+  if (valuationReport.finalValuation?.finalRange) {
+    // Ranges carry their own scale, so convert to whole units explicitly
+    const summaryRange = valuationReport.finalValuation.finalRange;
+
+    if (summaryRange.lower > 0 && summaryRange.upper > 0) {
+      const showBaseCurrency = summaryRange.currency !== currency;
 
-    if (lower > 0 && upper > 0) {
       pdf.setDrawColor(59, 130, 246);
       pdf.setFillColor(239, 246, 255);
-      pdf.roundedRect(20, yPosition, pageWidth - 40, 30, 5, 5, 'FD');
+      pdf.roundedRect(20, yPosition, pageWidth - 40, showBaseCurrency ? 38 : 30, 5, 5, 'FD');
       
       pdf.setFont('helvetica', 'bold');
       pdf.setFontSize(16);
@@ -145,7 +165,15 @@ export function generateValuationPDF(
       
       pdf.setFontSize(20);
       pdf.setTextColor(0, 0, 0);
-      pdf.text(`${formatCurrency(lower)} - ${formatCurrency(upper)}`, 25, yPosition + 25);
+      pdf.text(formatPdfRange(toReportingCurrency(summaryRange)), 25, yPosition + 25);
+
+      if (showBaseCurrency) {
+        pdf.setFont('helvetica', 'normal');
+        pdf.setFontSize(10);
+        pdf.setTextColor(100, 100, 100);
+        pdf.text(`approx. ${formatPdfRange(summaryRange)}`, 25, yPosition + 33);
+        yPosition += 8;
+      }
       
       yPosition += 45;
     }
@@ -168,11 +196,11 @@ export function generateValuationPDF(
   if (wizardData.step2 && !wizardData.step2.skipFinancials) {
     yPosition += 10;
     addText('FINANCIAL SUMMARY', 14, true);
-    if (wizardData.step2.revenue) addText(`Annual Revenue: ${formatCurrency(wizardData.step2.revenue)}`);
-    if (wizardData.step2.monthlyBurnRate) addText(`Monthly Burn Rate: ${formatCurrency(wizardData.step2.monthlyBurnRate)}`);
-    if (wizardData.step2.netProfitLoss !== undefined) addText(`Net Profit/Loss: ${formatCurrency(wizardData.step2.netProfitLoss)}`);
-    if (wizardData.step2.fundingRaised) addText(`Funding Raised: ${formatCurrency(wizardData.step2.fundingRaised)}`);
-    if (wizardData.step2.planningToRaise) addText(`Amount to Raise: ${formatCurrency(wizardData.step2.planningToRaise)}`);
+    if (wizardData.step2.revenue) addText(`Annual Revenue: ${formatPdfMoney(wizardData.step2.revenue)}`);
+    if (wizardData.step2.monthlyBurnRate) addText(`Monthly Burn Rate: ${formatPdfMoney(wizardData.step2.monthlyBurnRate)}`);
+    if (wizardData.step2.netProfitLoss !== undefined) addText(`Net Profit/Loss: ${formatPdfMoney(wizardData.step2.netProfitLoss)}`);
+    if (wizardData.step2.fundingRaised) addText(`Funding Raised: ${formatPdfMoney(wizardData.step2.fundingRaised)}`);
+    if (wizardData.step2.planningToRaise) addText(`Amount to Raise: ${formatPdfMoney(wizardData.step2.planningToRaise)}`);
   }
 
   yPosition += 15;
@@ -224,6 +252,67 @@ export function generateValuationPDF(
     });
   }
 
+  // Football field drawn as vector shapes: one bar per method over the
+  // shaded final range, which is the weighted blend when weights were set
+  if (valuationReport.calculations?.length) {
+    const field = footballField(valuationReport, currency, fxRates);
+    const formatAxis = (value: number) => pdfSafe(formatAmount(value, currency), currency);
+
+    addText('VALUATION FOOTBALL FIELD', 16, true);
+    addSectionDivider();
+
+    const labelWidth = 50;
+    const rowHeight = 9;
+    const chartLeft = 20 + labelWidth;
+    const chartWidth = pageWidth - 40 - labelWidth;
+    const chartHeight = field.bars.length * rowHeight;
+    checkNewPage(chartHeight + 30);
+    const top = yPosition;
+    const xFor = (value: number) =>
+      chartLeft + ((value - field.min) / (field.max - field.min || 1)) * chartWidth;
+
+    if (field.finalRange) {
+      pdf.setFillColor(254, 249, 195);
+      pdf.rect(xFor(field.finalRange.lower), top - 3, xFor(field.finalRange.upper) - xFor(field.finalRange.lower), chartHeight + 3, 'F');
+      pdf.setDrawColor(202, 138, 4);
+      pdf.setLineDashPattern([1.5, 1.5], 0);
+      pdf.line(xFor(field.finalRange.lower), top - 3, xFor(field.finalRange.lower), top + chartHeight);
+      pdf.line(xFor(field.finalRange.upper), top - 3, xFor(field.finalRange.upper), top + chartHeight);
+      pdf.setLineDashPattern([], 0);
+    }
+
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    field.bars.forEach((bar, index) => {
+      const y = top + index * rowHeight;
+      pdf.setTextColor(0, 0, 0);
+      pdf.text(pdf.splitTextToSize(bar.label, labelWidth - 4)[0], 20, y + 4);
+      if (bar.kind === 'blended') {
+        pdf.setFillColor(129, 140, 248);
+      } else {
+        pdf.setFillColor(96, 165, 250);
+      }
+      pdf.rect(xFor(bar.lower), y, Math.max(xFor(bar.upper) - xFor(bar.lower), 0.5), rowHeight - 4, 'F');
+      pdf.setTextColor(100, 100, 100);
+      pdf.text(`${formatAxis(bar.lower)} - ${formatAxis(bar.upper)}`, Math.min(xFor(bar.upper) + 2, pageWidth - 45), y + 4);
+    });
+
+    const baseline = top + chartHeight;
+    pdf.setDrawColor(100, 100, 100);
+    pdf.line(chartLeft, baseline, chartLeft + chartWidth, baseline);
+    pdf.setTextColor(100, 100, 100);
+    [0, 0.5, 1].forEach((share) => {
+      const value = field.min + (field.max - field.min) * share;
+      pdf.text(formatAxis(value), xFor(value) - (share === 1 ? 12 : share === 0.5 ? 6 : 0), baseline + 5);
+    });
+    pdf.setTextColor(0, 0, 0);
+    yPosition = baseline + 12;
+    if (field.finalRange) {
+      addText('Shaded band: final valuation range.', 9, false);
+    }
+    yPosition += 10;
+  }
+
   // Detailed Valuation Calculations
   if (valuationReport.calculations?.length) {
     addText('DETAILED VALUATION CALCULATIONS', 16, true);
@@ -233,7 +322,7 @@ export function generateValuationPDF(
       checkNewPage(40);
       
       addText(`${index + 1}. ${calc.method}`, 14, true);
-      addText(`Valuation Range: $${calc.valuationRange.lower}M - $${calc.valuationRange.upper}M`, 12, true);
+      addText(`Valuation Range: ${formatDualRange(calc.valuationRange)}`, 12, true);
       
       addText('Methodology:', 11, true);
       addText(calc.explanation, 10, false, 5);
@@ -322,6 +411,189 @@ export function generateValuationPDF(
     }
   }
 
+  // Monte Carlo Distribution
+  const distribution = valuationReport.finalValuation?.distribution;
+  if (distribution?.histogram.length) {
+    addText('MONTE CARLO DISTRIBUTION', 16, true);
+    addSectionDivider();
+
+    const toRange = (value: number) =>
+      moneyRange(value, value, distribution.scale, distribution.currency);
+    const formatPoint = (value: number) =>
+      formatPdfMoney({
+        amount: toReportingCurrency(toRange(value)).lower,
+        scale: distribution.scale,
+        currency,
+      });
+
+    addText(`${distribution.iterations.toLocaleString()} simulated runs of the blended valuation`, 11);
+    addText(`P10: ${formatPoint(distribution.p10)}   P50: ${formatPoint(distribution.p50)}   P90: ${formatPoint(distribution.p90)}`, 12, true);
+    yPosition += 5;
+
+    // Histogram drawn as plain rectangles
+    const chartHeight = 50;
+    const chartWidth = pageWidth - 40;
+    checkNewPage(chartHeight + 20);
+    const maxCount = Math.max(...distribution.histogram.map((bin) => bin.count), 1);
+    const barWidth = chartWidth / distribution.histogram.length;
+    const baseline = yPosition + chartHeight;
+    const first = distribution.histogram[0];
+    const last = distribution.histogram[distribution.histogram.length - 1];
+    const xFor = (value: number) =>
+      20 + ((value - first.lower) / (last.upper - first.lower || 1)) * chartWidth;
+
+    pdf.setFillColor(96, 165, 250);
+    distribution.histogram.forEach((bin, index) => {
+      const height = (bin.count / maxCount) * chartHeight;
+      if (height > 0) {
+        pdf.rect(20 + index * barWidth, baseline - height, Math.max(barWidth - 0.5, 0.5), height, 'F');
+      }
+    });
+    pdf.setDrawColor(100, 100, 100);
+    pdf.line(20, baseline, 20 + chartWidth, baseline);
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    (['p10', 'p50', 'p90'] as const).forEach((key) => {
+      const x = xFor(distribution[key]);
+      pdf.setDrawColor(234, 179, 8);
+      pdf.line(x, yPosition, x, baseline);
+      pdf.text(key.toUpperCase(), x - 3, yPosition - 2);
+    });
+    pdf.text(formatPoint(first.lower), 20, baseline + 5);
+    pdf.text(formatPoint(last.upper), 20 + chartWidth - 20, baseline + 5);
+    yPosition = baseline + 15;
+  }
+
+  // Scenario Analysis
+  if (wizardData.scenarios?.length) {
+    let analysis: ReturnType<typeof runScenarios> | null = null;
+    try {
+      analysis = runScenarios(wizardData, wizardData.scenarios, fxRates);
+    } catch (error) {
+      console.warn('Skipping scenario analysis in PDF:', error);
+    }
+
+    if (analysis) {
+      addText('SCENARIO ANALYSIS', 16, true);
+      addSectionDivider();
+
+      analysis.results.forEach(({ scenario, report, weight }) => {
+        addText(`${scenario.name} (${Math.round(weight * 100)}% weight)`, 12, true);
+        addText(`Valuation Range: ${formatDualRange(report.finalValuation.finalRange)}`, 11, false, 5);
+      });
+      yPosition += 5;
+      addText(`Probability-Weighted Valuation: ${formatDualRange(analysis.weightedRange)}`, 12, true);
+      addText('Scenarios are computed with the in-house valuation engine.', 9, false);
+      yPosition += 10;
+    }
+  }
+
+  // Cap Table & Dilution
+  const finalRange = valuationReport.finalValuation?.finalRange;
+  if (wizardData.capTable && finalRange) {
+    let model: RoundModel | null = null;
+    try {
+      const round = plannedRound(wizardData, finalRange, wizardData.capTable.currency, fxRates);
+      if (round) model = modelRound(wizardData.capTable, round);
+    } catch (error) {
+      console.warn('Skipping cap table in PDF:', error);
+    }
+
+    if (model) {
+      const capCurrency = model.currency;
+      const formatCapAmount = (amount: number) => pdfSafe(formatAmount(amount, capCurrency), capCurrency);
+      const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+      addText('CAP TABLE & DILUTION', 16, true);
+      addSectionDivider();
+
+      addText(`Pre-money: ${formatCapAmount(model.preMoney)}   Raise: ${formatCapAmount(model.raise)}   Post-money: ${formatCapAmount(model.postMoney)}`, 12, true);
+      addText(`Price per share: ${model.pricePerShare.toFixed(4)} ${capCurrency}   New shares: ${model.newShares.toLocaleString()}   Option pool top-up: ${model.poolIncrease.toLocaleString()}`, 10);
+      yPosition += 3;
+
+      model.holders.forEach((holder) => {
+        const before = holder.sharesBefore ? percent(holder.ownershipBefore) : '-';
+        addText(`${holder.name}: ${before} -> ${percent(holder.ownershipAfter)} (${holder.sharesAfter.toLocaleString()} shares)`, 10, false, 5);
+      });
+      model.conversions.forEach((conversion) => {
+        addText(`${conversion.name} converts ${formatCapAmount(conversion.amount)} at ${conversion.price.toFixed(4)} per share (${conversion.basis === 'round' ? 'round price' : conversion.basis})`, 9, false, 5);
+      });
+      yPosition += 5;
+
+      // Founder ownership waterfall drawn as floating bars
+      const steps = [
+        ...model.dilution,
+        { label: 'After round', founderOwnership: model.dilution[model.dilution.length - 1].founderOwnership },
+      ];
+      const chartHeight = 50;
+      const chartWidth = pageWidth - 40;
+      checkNewPage(chartHeight + 25);
+      const baseline = yPosition + chartHeight;
+      const slot = chartWidth / steps.length;
+      pdf.setFontSize(8);
+      pdf.setFont('helvetica', 'normal');
+      steps.forEach((step, index) => {
+        const total = index === 0 || index === steps.length - 1;
+        const top = total ? step.founderOwnership : steps[index - 1].founderOwnership;
+        const bottom = total ? 0 : step.founderOwnership;
+        const height = Math.max((top - bottom) * chartHeight, 0.5);
+        if (total) {
+          pdf.setFillColor(96, 165, 250);
+        } else {
+          pdf.setFillColor(248, 113, 113);
+        }
+        const x = 20 + index * slot + slot * 0.2;
+        pdf.rect(x, baseline - top * chartHeight, slot * 0.6, height, 'F');
+        pdf.text(percent(total ? step.founderOwnership : bottom - top), x, baseline - top * chartHeight - 2);
+        pdf.text(pdf.splitTextToSize(step.label, slot - 2), 20 + index * slot + 1, baseline + 5);
+      });
+      pdf.setDrawColor(100, 100, 100);
+      pdf.line(20, baseline, 20 + chartWidth, baseline);
+      yPosition = baseline + 15;
+      addText('Pre-money includes the option pool top-up and converted SAFEs and notes. Founder ownership is fully diluted.', 9, false);
+      yPosition += 10;
+    }
+  }
+
+  // Exit Waterfall
+  if (wizardData.capTable && finalRange) {
+    const capTable = wizardData.capTable;
+    let outcomes: ReturnType<typeof runExitWaterfall> | null = null;
+    try {
+      const round = plannedRound(wizardData, finalRange, capTable.currency, fxRates);
+      outcomes = runExitWaterfall(
+        capTable,
+        exitValues(finalRange, capTable.currency, fxRates),
+        round ? modelRound(capTable, round) : undefined,
+      );
+    } catch (error) {
+      console.warn('Skipping exit waterfall in PDF:', error);
+    }
+
+    if (outcomes?.length) {
+      const formatCapAmount = (amount: number) =>
+        pdfSafe(formatAmount(amount, capTable.currency), capTable.currency);
+
+      addText('EXIT WATERFALL', 16, true);
+      addSectionDivider();
+      addText('Proceeds per holder after liquidation preferences, at exits around the valuation range.', 10);
+
+      outcomes.forEach((outcome) => {
+        addText(`Exit at ${formatCapAmount(outcome.exitValue)}`, 11, true);
+        addText(outcome.holders.map((holder) => `${holder.name}: ${formatCapAmount(holder.payout)}`).join('   '), 9, false, 5);
+        addText(
+          outcome.classes
+            .map((shareClass) => `${shareClass.name} ${shareClass.perShare.toFixed(4)}/share${shareClass.converted ? ' (converted)' : ''}`)
+            .join('   '),
+          8,
+          false,
+          5
+        );
+      });
+      yPosition += 10;
+    }
+  }
+
   // Strategic Recommendations
   if (valuationReport.finalValuation?.recommendations?.length) {
     addText('STRATEGIC RECOMMENDATIONS', 16, true);
@@ -0,0 +1,112 @@
+import axios from "axios";
+import {
+  cachedReportSchema,
+  type CachedReport,
+  type ValuationReport,
+  type WizardData,
+} from "@shared/api";
+import { reportCacheKey } from "@shared/reportCache";
+import { reportRequest } from "./backends";
+import { SERVER_BACKEND_URL } from "./fastapi";
+
+// Reports by the hash of their request: this browser's IndexedDB first, then
+// the reports the built-in server's engine produced, shared with other
+// browsers. Only the server writes its copy. Both are best-effort; a miss
+// or an unreachable cache just runs the valuation.
+const DB_NAME = "report-cache";
+const DB_VERSION = 1;
+const STORE_NAME = "reports";
+
+const cacheApi = axios.create({
+  baseURL: `${SERVER_BACKEND_URL}/report-cache`,
+});
+
+export interface CacheHit extends CachedReport {
+  source: "browser" | "server";
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Cache key for these inputs on the active backend. Undefined when it cannot
+// be computed, e.g. without crypto.subtle outside secure contexts; the
+// valuation then runs uncached.
+export async function valuationCacheKey(
+  wizardData: WizardData,
+): Promise<string | undefined> {
+  try {
+    const { backend, payload } = reportRequest(wizardData);
+    return await reportCacheKey(backend, payload);
+  } catch (error) {
+    console.warn("Skipping the report cache:", error);
+    return undefined;
+  }
+}
+
+export async function lookupCachedReport(
+  key: string,
+): Promise<CacheHit | undefined> {
+  try {
+    const stored = cachedReportSchema.safeParse(
+      await runRequest("readonly", (store) => store.get(key)),
+    );
+    if (stored.success) return { ...stored.data, source: "browser" };
+  } catch (error) {
+    console.warn("Could not read the local report cache:", error);
+  }
+
+  try {
+    const response = await cacheApi.get<unknown>(`/${key}`);
+    const parsed = cachedReportSchema.safeParse(response.data);
+    if (!parsed.success) return undefined;
+    // Keep a local copy for the next visit
+    await runRequest("readwrite", (store) => store.put(parsed.data)).catch(
+      (error) => console.warn("Could not cache the report locally:", error),
+    );
+    return { ...parsed.data, source: "server" };
+  } catch (error) {
+    if (!(axios.isAxiosError(error) && error.response?.status === 404)) {
+      console.warn("Could not read the server report cache:", error);
+    }
+    return undefined;
+  }
+}
+
+export async function storeCachedReport(key: string, report: ValuationReport) {
+  const entry: CachedReport = {
+    key,
+    report,
+    cachedAt: new Date().toISOString(),
+  };
+  await runRequest("readwrite", (store) => store.put(entry)).catch((error) =>
+    console.warn("Could not cache the report locally:", error),
+  );
+}
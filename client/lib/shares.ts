@@ -0,0 +1,96 @@
+import axios from "axios";
+import {
+  sharedReportSchema,
+  type CreateShareRequest,
+  type CreateShareResponse,
+  type SharedReport,
+} from "@shared/api";
+import type { ShareStatus } from "@shared/share";
+import { SERVER_BACKEND_URL } from "./fastapi";
+
+// Share links are always stored by the built-in server, whichever backend
+// produced the report. The owner tokens needed to revoke them stay in this
+// browser's localStorage.
+const STORAGE_KEY = "sharedLinks";
+
+const sharesApi = axios.create({ baseURL: `${SERVER_BACKEND_URL}/shares` });
+
+export interface OwnedShare {
+  id: string;
+  ownerToken: string;
+  businessName: string;
+  createdAt: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+export type ShareLookup =
+  | { status: "active"; share: SharedReport }
+  | { status: Exclude<ShareStatus, "active"> | "missing" };
+
+export const shareUrl = (id: string) =>
+  `${window.location.origin}/r/${encodeURIComponent(id)}`;
+
+export function listOwnedShares(): OwnedShare[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeOwnedShares(shares: OwnedShare[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(shares));
+}
+
+export async function createShare(
+  request: CreateShareRequest,
+): Promise<OwnedShare> {
+  const response = await sharesApi.post<CreateShareResponse>("", request);
+  const { share, ownerToken } = response.data;
+  const owned: OwnedShare = {
+    id: share.id,
+    ownerToken,
+    businessName: request.wizardData.step1?.businessName || "Untitled",
+    createdAt: share.createdAt,
+    expiresAt: share.expiresAt,
+  };
+  storeOwnedShares([owned, ...listOwnedShares()]);
+  return owned;
+}
+
+export async function revokeShare(id: string): Promise<OwnedShare[]> {
+  const owned = listOwnedShares().find((share) => share.id === id);
+  if (!owned) throw new Error("This link was not created in this browser");
+
+  await sharesApi.delete(`/${encodeURIComponent(id)}`, {
+    headers: { "X-Share-Token": owned.ownerToken },
+  });
+  const updated = listOwnedShares().map((share) =>
+    share.id === id ? { ...share, revokedAt: new Date().toISOString() } : share,
+  );
+  storeOwnedShares(updated);
+  return updated;
+}
+
+export async function fetchShare(id: string): Promise<ShareLookup> {
+  try {
+    const response = await sharesApi.get<unknown>(`/${encodeURIComponent(id)}`);
+    const parsed = sharedReportSchema.safeParse(response.data);
+    return parsed.success
+      ? { status: "active", share: parsed.data }
+      : { status: "missing" };
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 410) {
+      return {
+        status:
+          error.response.data?.status === "revoked" ? "revoked" : "expired",
+      };
+    }
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return { status: "missing" };
+    }
+    throw error;
+  }
+}
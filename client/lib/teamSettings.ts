@@ -0,0 +1,29 @@
+import axios from "axios";
+import { methodWeightsSchema, type MethodWeights } from "@shared/api";
+import { SERVER_BACKEND_URL } from "./fastapi";
+
+// Team defaults are kept by the built-in server, whichever backend produces
+// the reports
+const settingsApi = axios.create({ baseURL: `${SERVER_BACKEND_URL}/settings` });
+
+// Missing or unreachable defaults fall back to the reported confidence
+export async function loadTeamMethodWeights(): Promise<MethodWeights> {
+  try {
+    const response = await settingsApi.get<unknown>("/method-weights");
+    const parsed = methodWeightsSchema.safeParse(response.data);
+    return parsed.success ? parsed.data : {};
+  } catch (error) {
+    console.warn("Team method weights unavailable:", error);
+    return {};
+  }
+}
+
+export async function saveTeamMethodWeights(
+  weights: MethodWeights,
+): Promise<MethodWeights> {
+  const response = await settingsApi.put<MethodWeights>(
+    "/method-weights",
+    weights,
+  );
+  return response.data;
+}
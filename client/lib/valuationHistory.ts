@@ -0,0 +1,180 @@
+import axios from "axios";
+import {
+  savedValuationSchema,
+  type SavedValuation,
+  type ValuationReport,
+  type WizardData,
+} from "@shared/api";
+import { SERVER_BACKEND_URL } from "./fastapi";
+
+// Completed valuations are kept in IndexedDB. Once the user turns on sync
+// they are mirrored to /api/valuations as well, under a random token kept in
+// this browser; the server lists and changes only the entries of that token.
+const DB_NAME = "valuation-history";
+const DB_VERSION = 1;
+const STORE_NAME = "valuations";
+const SYNC_KEY = "syncValuationHistory";
+const TOKEN_KEY = "valuationHistoryToken";
+
+const serverApi = axios.create({ baseURL: `${SERVER_BACKEND_URL}/valuations` });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: "id",
+      });
+      store.createIndex("createdAt", "createdAt");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(
+      db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const isHistorySyncEnabled = () =>
+  localStorage.getItem(SYNC_KEY) === "true";
+
+export function setHistorySyncEnabled(enabled: boolean) {
+  if (enabled) {
+    localStorage.setItem(SYNC_KEY, "true");
+  } else {
+    localStorage.removeItem(SYNC_KEY);
+  }
+}
+
+// Created on first use; the server stores only its hash
+function historyToken(): string {
+  let token = localStorage.getItem(TOKEN_KEY);
+  if (!token) {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    token = btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+    localStorage.setItem(TOKEN_KEY, token);
+  }
+  return token;
+}
+
+const tokenHeaders = () => ({ headers: { "X-History-Token": historyToken() } });
+
+// The server copy is best-effort; local history keeps working without it
+async function mirrorToServer(action: () => Promise<unknown>) {
+  if (!isHistorySyncEnabled()) return;
+  try {
+    await action();
+  } catch (error) {
+    console.warn("Could not sync valuation history with the server:", error);
+  }
+}
+
+async function fetchServerValuations(): Promise<SavedValuation[]> {
+  if (!isHistorySyncEnabled()) return [];
+  try {
+    const response = await serverApi.get<unknown[]>("", tokenHeaders());
+    return response.data.flatMap((entry) => {
+      const parsed = savedValuationSchema.safeParse(entry);
+      return parsed.success ? [parsed.data] : [];
+    });
+  } catch (error) {
+    console.warn("Could not load valuation history from the server:", error);
+    return [];
+  }
+}
+
+export function createSavedValuation(run: {
+  wizardData: WizardData;
+  report: ValuationReport;
+  confidence: number;
+  backendMode: string;
+}): SavedValuation {
+  const createdAt = new Date().toISOString();
+  const businessName = run.wizardData.step1?.businessName || "Untitled";
+  return {
+    id: crypto.randomUUID(),
+    name: `${businessName} – ${new Date(createdAt).toLocaleDateString()}`,
+    createdAt,
+    ...run,
+  };
+}
+
+// Newest first; server-only entries are included when sync is on
+export async function listValuations(): Promise<SavedValuation[]> {
+  const [local, remote] = await Promise.all([
+    runRequest<SavedValuation[]>("readonly", (store) => store.getAll()),
+    fetchServerValuations(),
+  ]);
+  const byId = new Map(remote.map((entry) => [entry.id, entry]));
+  for (const entry of local) byId.set(entry.id, entry);
+  return [...byId.values()].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
+}
+
+export async function getValuation(
+  id: string,
+): Promise<SavedValuation | undefined> {
+  const local = await runRequest<SavedValuation | undefined>(
+    "readonly",
+    (store) => store.get(id),
+  );
+  if (local || !isHistorySyncEnabled()) return local;
+
+  try {
+    const response = await serverApi.get<unknown>(
+      `/${encodeURIComponent(id)}`,
+      tokenHeaders(),
+    );
+    const parsed = savedValuationSchema.safeParse(response.data);
+    return parsed.success ? parsed.data : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export async function saveValuation(entry: SavedValuation) {
+  await runRequest("readwrite", (store) => store.put(entry));
+  await mirrorToServer(() => serverApi.post("", entry, tokenHeaders()));
+}
+
+export async function renameValuation(
+  id: string,
+  name: string,
+): Promise<SavedValuation | undefined> {
+  const entry = await getValuation(id);
+  if (!entry) return undefined;
+  const renamed = { ...entry, name, updatedAt: new Date().toISOString() };
+  await runRequest("readwrite", (store) => store.put(renamed));
+  await mirrorToServer(() =>
+    serverApi.patch(`/${encodeURIComponent(id)}`, { name }, tokenHeaders()),
+  );
+  return renamed;
+}
+
+export async function deleteValuation(id: string) {
+  await runRequest("readwrite", (store) => store.delete(id));
+  await mirrorToServer(() =>
+    serverApi.delete(`/${encodeURIComponent(id)}`, tokenHeaders()),
+  );
+}
@@ -0,0 +1,97 @@
+import axios from "axios";
+import type {
+  ValuationJob,
+  ValuationStreamEvent,
+  WizardData,
+} from "@shared/api";
+import { loadFxRates } from "./fxRates";
+import { SERVER_BACKEND_URL } from "./fastapi";
+
+// Background runs on the built-in server. The id of the run in progress is
+// kept in localStorage so a reload resumes it; /wizard?job=<id> resumes it
+// from another device.
+const ACTIVE_JOB_KEY = "valuationJobId";
+
+const POLL_INTERVAL_MS = 1000;
+
+const jobsApi = axios.create({ baseURL: `${SERVER_BACKEND_URL}/jobs` });
+
+export function activeJobId(): string | undefined {
+  return localStorage.getItem(ACTIVE_JOB_KEY) ?? undefined;
+}
+
+export function rememberJob(id?: string) {
+  if (id) {
+    localStorage.setItem(ACTIVE_JOB_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+  }
+}
+
+export async function createValuationJob(
+  wizardData: WizardData,
+): Promise<ValuationJob> {
+  const response = await jobsApi.post<ValuationJob>("", {
+    wizardData,
+    fxRates: loadFxRates(),
+  });
+  return response.data;
+}
+
+// Undefined once the server no longer knows the job
+export async function fetchValuationJob(
+  id: string,
+  signal?: AbortSignal,
+): Promise<ValuationJob | undefined> {
+  try {
+    const response = await jobsApi.get<ValuationJob>(
+      `/${encodeURIComponent(id)}`,
+      { signal },
+    );
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export async function cancelValuationJob(id: string) {
+  await jobsApi.delete(`/${encodeURIComponent(id)}`);
+}
+
+/**
+ * Poll a job until it finishes, passing on each report section once.
+ * Aborting `signal` stops polling without cancelling the job.
+ */
+export async function followValuationJob(
+  id: string,
+  onChunk: (chunk: ValuationStreamEvent) => void,
+  signal?: AbortSignal,
+) {
+  let seen = 0;
+  while (true) {
+    if (signal?.aborted) throw new Error("Analysis cancelled");
+
+    let job: ValuationJob | undefined;
+    try {
+      job = await fetchValuationJob(id, signal);
+    } catch (error) {
+      if (signal?.aborted) throw new Error("Analysis cancelled");
+      throw error;
+    }
+    if (!job) throw new Error("This valuation run is no longer available");
+
+    job.events.slice(seen).forEach(onChunk);
+    seen = job.events.length;
+
+    if (job.status === "completed") return;
+    if (job.status === "failed") {
+      throw new Error(job.error || "Analysis failed");
+    }
+    if (job.status === "cancelled") throw new Error("Analysis cancelled");
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
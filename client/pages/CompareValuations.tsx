@@ -0,0 +1,345 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  Check,
+  GitCompare,
+  Minus,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
+import type { SavedValuation } from "@shared/api";
+import {
+  compareValuations,
+  type ListDiffRow,
+  type RangeDiffRow,
+} from "@shared/compare";
+import { formatMoneyRange } from "@shared/money";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { loadFxRates } from "@/lib/fxRates";
+import { getValuation } from "@/lib/valuationHistory";
+import { cn } from "@/lib/utils";
+
+const STEP_LABELS: Record<string, string> = {
+  step1: "Quick Start",
+  step2: "Financials",
+  step3: "Traction",
+  step4: "Extras",
+};
+
+function DeltaBadge({ delta }: { delta: number | null }) {
+  if (delta === null) return null;
+  if (Math.abs(delta) < 0.0005) {
+    return <span className="text-xs text-slate-500 font-mono">±0%</span>;
+  }
+  const Icon = delta > 0 ? TrendingUp : TrendingDown;
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center text-xs font-mono",
+        delta > 0 ? "text-green-400" : "text-red-400",
+      )}
+    >
+      <Icon className="w-3 h-3 mr-1" />
+      {delta > 0 ? "+" : ""}
+      {(delta * 100).toFixed(1)}%
+    </span>
+  );
+}
+
+function RangeRow({ row }: { row: RangeDiffRow }) {
+  return (
+    <tr
+      className={cn(
+        "border-t border-slate-800",
+        row.changed && "bg-amber-500/5",
+      )}
+    >
+      <td className="py-3 pr-4 text-slate-300 font-mono text-sm">
+        {row.label}
+      </td>
+      {row.ranges.map((range, index) => (
+        <td key={index} className="py-3 pr-4 font-mono text-sm">
+          {range ? (
+            <div className="space-y-1">
+              <div className="text-white">{formatMoneyRange(range)}</div>
+              <DeltaBadge delta={row.deltas[index]} />
+            </div>
+          ) : (
+            <span className="text-slate-500">Not computed</span>
+          )}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+function ListSection({
+  title,
+  rows,
+  runNames,
+}: {
+  title: string;
+  rows: ListDiffRow[];
+  runNames: string[];
+}) {
+  if (rows.length === 0) return null;
+  return (
+    <Card className="bg-slate-900/50 border-slate-700/50">
+      <CardHeader>
+        <CardTitle className="text-white font-mono text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full">
+          <thead>
+            <tr>
+              <th />
+              {runNames.map((name, index) => (
+                <th
+                  key={index}
+                  className="pb-2 w-24 text-xs text-slate-500 font-mono font-normal truncate"
+                  title={name}
+                >
+                  Run {index + 1}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.item}
+                className={cn(
+                  "border-t border-slate-800",
+                  row.changed && "bg-amber-500/5",
+                )}
+              >
+                <td className="py-2 pr-4 text-sm text-slate-300">{row.item}</td>
+                {runNames.map((_, index) => (
+                  <td key={index} className="py-2 w-24 text-center">
+                    {row.presentIn[index] ? (
+                      <Check
+                        className={cn(
+                          "w-4 h-4 mx-auto",
+                          row.changed ? "text-green-400" : "text-slate-400",
+                        )}
+                      />
+                    ) : (
+                      <Minus
+                        className={cn(
+                          "w-4 h-4 mx-auto",
+                          row.changed ? "text-red-400" : "text-slate-600",
+                        )}
+                      />
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Side-by-side diff of saved runs; the oldest run is the baseline
+export default function CompareValuations() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const ids = (searchParams.get("ids") || "").split(",").filter(Boolean);
+  const [runs, setRuns] = useState<SavedValuation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [fxRates] = useState(loadFxRates);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all(ids.map((id) => getValuation(id)))
+      .then((found) =>
+        setRuns(
+          found
+            .filter(Boolean)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+        ),
+      )
+      .catch((error) => console.error("Failed to load valuations:", error))
+      .finally(() => setIsLoading(false));
+  }, [searchParams]);
+
+  const comparison = useMemo(
+    () => (runs.length >= 2 ? compareValuations(runs, fxRates) : null),
+    [runs, fxRates],
+  );
+
+  const visibleInputs = comparison
+    ? comparison.inputs.filter((row) => showUnchanged || row.changed)
+    : [];
+
+  const runHeaders = (
+    <>
+      {runs.map((run, index) => (
+        <th key={run.id} className="py-3 pr-4 text-left align-bottom">
+          <div className="text-white font-mono text-sm truncate">
+            {run.name}
+          </div>
+          <div className="text-xs text-slate-500 font-mono">
+            {new Date(run.createdAt).toLocaleDateString()}
+            {index === 0 && " · baseline"}
+          </div>
+        </th>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
+      <div className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-blue-500 rounded-lg flex items-center justify-center">
+              <GitCompare className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold font-mono">
+                Compare Valuations
+              </h1>
+              <p className="text-sm text-slate-400 font-mono">
+                What changed between runs, relative to the oldest one
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate("/valuations")}
+            className="text-slate-400 hover:text-white hover:bg-slate-800/50 font-mono"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            History
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-slate-400 font-mono text-center py-16">
+            Loading valuations...
+          </p>
+        ) : !comparison ? (
+          <p className="text-slate-400 font-mono text-center py-16">
+            Select at least two saved valuations to compare.
+          </p>
+        ) : (
+          <>
+            <Card className="bg-slate-900/50 border-slate-700/50">
+              <CardHeader>
+                <CardTitle className="text-white font-mono text-lg">
+                  Valuation Ranges
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr>
+                      <th className="w-48" />
+                      {runHeaders}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <RangeRow row={comparison.finalRange} />
+                    {comparison.methods.map((row) => (
+                      <RangeRow key={row.label} row={row} />
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-slate-900/50 border-slate-700/50">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="text-white font-mono text-lg">
+                  Inputs
+                </CardTitle>
+                <label className="flex items-center space-x-2 text-xs text-slate-400 font-mono">
+                  <input
+                    type="checkbox"
+                    checked={showUnchanged}
+                    onChange={(e) => setShowUnchanged(e.target.checked)}
+                  />
+                  <span>Show unchanged</span>
+                </label>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                {visibleInputs.length === 0 ? (
+                  <p className="text-sm text-slate-500 font-mono">
+                    The inputs are identical across these runs.
+                  </p>
+                ) : (
+                  <table className="w-full">
+                    <thead>
+                      <tr>
+                        <th className="w-48" />
+                        {runHeaders}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleInputs.map((row, index) => (
+                        <Fragment key={`${row.step}.${row.field}`}>
+                          {(index === 0 ||
+                            visibleInputs[index - 1].step !== row.step) && (
+                            <tr>
+                              <td
+                                colSpan={runs.length + 1}
+                                className="pt-4 pb-1 text-xs uppercase tracking-wide text-slate-500 font-mono"
+                              >
+                                {STEP_LABELS[row.step]}
+                              </td>
+                            </tr>
+                          )}
+                          <tr className="border-t border-slate-800">
+                            <td className="py-2 pr-4 text-sm text-slate-400 font-mono">
+                              {row.label}
+                            </td>
+                            {row.values.map((value, runIndex) => (
+                              <td
+                                key={runIndex}
+                                className={cn(
+                                  "py-2 pr-4 text-sm font-mono",
+                                  runIndex > 0 && value !== row.values[0]
+                                    ? "text-amber-300 bg-amber-500/10"
+                                    : "text-slate-200",
+                                )}
+                              >
+                                {value}
+                              </td>
+                            ))}
+                          </tr>
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            <ListSection
+              title="Key Strengths"
+              rows={comparison.strengths}
+              runNames={runs.map((run) => run.name)}
+            />
+            <ListSection
+              title="Risks"
+              rows={comparison.risks}
+              runNames={runs.map((run) => run.name)}
+            />
+            <ListSection
+              title="Recommendations"
+              rows={comparison.recommendations}
+              runNames={runs.map((run) => run.name)}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
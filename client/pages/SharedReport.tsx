@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Link2Off } from "lucide-react";
+import { ConfirmationStep } from "@/components/modern-wizard/ConfirmationStep";
+import { Button } from "@/components/ui/button";
+import { fetchShare, type ShareLookup } from "@/lib/shares";
+
+const UNAVAILABLE_MESSAGES = {
+  expired: "This shared report has expired.",
+  revoked: "This shared report has been revoked by its owner.",
+  missing: "This shared report does not exist.",
+};
+
+// Read-only report opened from a /r/:shareId link
+export default function SharedReport() {
+  const { shareId } = useParams<{ shareId: string }>();
+  const navigate = useNavigate();
+  const [lookup, setLookup] = useState<ShareLookup | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setLookup(null);
+    setError("");
+    fetchShare(shareId || "")
+      .then(setLookup)
+      .catch((error) => {
+        console.error("Failed to load shared report:", error);
+        setError("Could not load this report. Please try again later.");
+      });
+  }, [shareId]);
+
+  if (lookup?.status === "active") {
+    const { share } = lookup;
+    return (
+      <ConfirmationStep
+        wizardData={share.wizardData}
+        onStartOver={() => navigate("/")}
+        userID=""
+        backendMode="Shared"
+        savedValuation={{
+          id: share.id,
+          name: share.wizardData.step1?.businessName || "Shared report",
+          createdAt: share.createdAt,
+          wizardData: share.wizardData,
+          report: share.report,
+          confidence: share.confidence ?? 0,
+          backendMode: "Shared",
+        }}
+        readOnly
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+      {lookup || error ? (
+        <div className="text-center">
+          <Link2Off className="w-10 h-10 text-slate-500 mx-auto mb-4" />
+          <p className="text-xl text-slate-300 font-mono mb-4">
+            {error ||
+              UNAVAILABLE_MESSAGES[
+                lookup.status as keyof typeof UNAVAILABLE_MESSAGES
+              ]}
+          </p>
+          <Button
+            onClick={() => navigate("/")}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-mono"
+          >
+            Value your own startup
+          </Button>
+        </div>
+      ) : (
+        <p className="text-slate-400 font-mono">Loading shared report...</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import type { SavedValuation } from "@shared/api";
+import { ConfirmationStep } from "@/components/modern-wizard/ConfirmationStep";
+import { Button } from "@/components/ui/button";
+import { getValuation } from "@/lib/valuationHistory";
+
+// A saved valuation reopened from the history, without calling a backend
+export default function ValuationDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [entry, setEntry] = useState<SavedValuation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    getValuation(id || "")
+      .then((found) => setEntry(found ?? null))
+      .catch((error) => {
+        console.error("Failed to load valuation:", error);
+        setEntry(null);
+      })
+      .finally(() => setIsLoading(false));
+  }, [id]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+        <p className="text-slate-400 font-mono">Loading valuation...</p>
+      </div>
+    );
+  }
+
+  if (!entry) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-xl text-slate-300 font-mono mb-4">
+            Valuation not found
+          </p>
+          <Button
+            onClick={() => navigate("/valuations")}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-mono"
+          >
+            Back to History
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ConfirmationStep
+      wizardData={entry.wizardData}
+      onStartOver={() => navigate("/wizard")}
+      userID=""
+      backendMode={entry.backendMode}
+      savedValuation={entry}
+    />
+  );
+}
@@ -0,0 +1,322 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  Check,
+  Clock,
+  Eye,
+  GitCompare,
+  History,
+  Home,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import type { SavedValuation } from "@shared/api";
+import { convertRange, reportingCurrency } from "@shared/currency";
+import { formatMoneyRange } from "@shared/money";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { loadFxRates } from "@/lib/fxRates";
+import {
+  deleteValuation,
+  isHistorySyncEnabled,
+  listValuations,
+  renameValuation,
+  setHistorySyncEnabled,
+} from "@/lib/valuationHistory";
+
+export default function Valuations() {
+  const navigate = useNavigate();
+  const [valuations, setValuations] = useState<SavedValuation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [fxRates] = useState(loadFxRates);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [syncEnabled, setSyncEnabled] = useState(isHistorySyncEnabled);
+
+  useEffect(() => {
+    listValuations()
+      .then(setValuations)
+      .catch((error) => {
+        console.error("Failed to load valuation history:", error);
+        setError("Could not load your saved valuations.");
+      })
+      .finally(() => setIsLoading(false));
+  }, [syncEnabled]);
+
+  const handleSyncChange = (enabled: boolean) => {
+    setHistorySyncEnabled(enabled);
+    setSyncEnabled(enabled);
+  };
+
+  const startRename = (entry: SavedValuation) => {
+    setEditingId(entry.id);
+    setDraftName(entry.name);
+  };
+
+  const handleRename = async (id: string) => {
+    const name = draftName.trim();
+    if (!name) return;
+    const renamed = await renameValuation(id, name);
+    if (renamed) {
+      setValuations((prev) =>
+        prev.map((entry) => (entry.id === id ? renamed : entry)),
+      );
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteValuation(id);
+    setValuations((prev) => prev.filter((entry) => entry.id !== id));
+    setSelectedIds((prev) => prev.filter((selected) => selected !== id));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((selected) => selected !== id)
+        : [...prev, id],
+    );
+  };
+
+  // Final range in the run's reporting currency
+  const formatFinalRange = (entry: SavedValuation) =>
+    formatMoneyRange(
+      convertRange(
+        entry.report.finalValuation.finalRange,
+        reportingCurrency(entry.wizardData),
+        fxRates,
+      ),
+    );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
+      <div className="max-w-5xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-cyan-500 rounded-lg flex items-center justify-center">
+              <History className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-white font-mono">
+                Valuation History
+              </h1>
+              <p className="text-sm text-slate-400 font-mono">
+                Reopen past reports without re-running the analysis
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate("/")}
+              className="text-slate-400 hover:text-white hover:bg-slate-800/50 font-mono"
+            >
+              <Home className="w-4 h-4 mr-2" />
+              Home
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                navigate(`/valuations/compare?ids=${selectedIds.join(",")}`)
+              }
+              disabled={selectedIds.length < 2}
+              className="border-slate-700 text-slate-300 hover:bg-slate-800 hover:text-white font-mono"
+            >
+              <GitCompare className="w-4 h-4 mr-2" />
+              Compare ({selectedIds.length})
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => navigate("/wizard")}
+              className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-mono"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Valuation
+            </Button>
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between gap-4 mb-6 p-4 rounded-lg border border-slate-700/50 bg-slate-900/50 font-mono cursor-pointer">
+          <span>
+            <span className="block text-sm text-white">
+              Keep a copy on the server
+            </span>
+            <span className="block text-xs text-slate-500">
+              Runs saved from now on, with their financials and documents, are
+              stored by the server for this browser only
+            </span>
+          </span>
+          <Switch checked={syncEnabled} onCheckedChange={handleSyncChange} />
+        </label>
+
+        {isLoading ? (
+          <p className="text-slate-400 font-mono text-center py-16">
+            Loading saved valuations...
+          </p>
+        ) : error ? (
+          <p className="text-red-400 font-mono text-center py-16">{error}</p>
+        ) : valuations.length === 0 ? (
+          <Card className="bg-slate-900/50 border-slate-700/50">
+            <CardContent className="p-12 text-center">
+              <Clock className="w-10 h-10 text-slate-500 mx-auto mb-4" />
+              <p className="text-slate-300 font-mono mb-2">
+                No saved valuations yet
+              </p>
+              <p className="text-sm text-slate-500 font-mono">
+                Completed runs of the wizard appear here automatically.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {valuations.map((entry, index) => (
+              <motion.div
+                key={entry.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <Card className="bg-slate-900/50 border-slate-700/50 backdrop-blur-sm">
+                  <CardContent className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                      className="w-4 h-4 accent-blue-500"
+                      aria-label={`Select ${entry.name} for comparison`}
+                    />
+                    <div className="min-w-0 flex-1">
+                      {editingId === entry.id ? (
+                        <div className="flex items-center space-x-2">
+                          <input
+                            value={draftName}
+                            onChange={(e) => setDraftName(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") handleRename(entry.id);
+                              if (e.key === "Escape") setEditingId(null);
+                            }}
+                            autoFocus
+                            className="flex-1 px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-blue-500 font-mono"
+                          />
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => handleRename(entry.id)}
+                            disabled={!draftName.trim()}
+                            className="text-green-400 hover:bg-slate-800"
+                          >
+                            <Check className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setEditingId(null)}
+                            className="text-slate-400 hover:bg-slate-800"
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <h3 className="text-lg font-semibold text-white font-mono truncate">
+                          {entry.name}
+                        </h3>
+                      )}
+                      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-slate-400 font-mono">
+                        <span>
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </span>
+                        <Badge className="bg-slate-800 text-slate-300 border border-slate-700">
+                          {entry.backendMode}
+                        </Badge>
+                        <Badge className="bg-slate-800 text-slate-300 border border-slate-700">
+                          {entry.confidence}% confidence
+                        </Badge>
+                      </div>
+                    </div>
+
+                    <div className="text-xl font-bold text-blue-400 font-mono">
+                      {formatFinalRange(entry)}
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        onClick={() => navigate(`/valuations/${entry.id}`)}
+                        className="bg-blue-600 hover:bg-blue-700 text-white font-mono"
+                      >
+                        <Eye className="w-4 h-4 mr-2" />
+                        Open
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => startRename(entry)}
+                        className="text-slate-400 hover:text-white hover:bg-slate-800"
+                        title="Rename"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              Delete valuation?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{entry.name}" will be removed from your history.
+                              This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDelete(entry.id)}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { randomUUID } from "crypto";
+import type { StoredDocument } from "@shared/api";
+import { storedDocumentSchema } from "../shared/api";
+import { createJsonFileStore } from "./jsonFileStore";
+
+// Extracted document text; the uploaded bytes are not kept
+const documents = new Map<string, StoredDocument>();
+
+const { ready, persist } = createJsonFileStore({
+  fileEnv: "DOCUMENTS_FILE",
+  description: "documents",
+  load: (entries) => {
+    if (!Array.isArray(entries)) return;
+    for (const entry of entries) {
+      const parsed = storedDocumentSchema.safeParse(entry);
+      if (parsed.success) documents.set(parsed.data.id, parsed.data);
+    }
+  },
+  snapshot: () => [...documents.values()],
+});
+
+export async function putDocument(
+  document: Omit<StoredDocument, "id" | "uploadedAt">,
+): Promise<StoredDocument> {
+  await ready();
+  const stored: StoredDocument = {
+    ...document,
+    id: randomUUID(),
+    uploadedAt: new Date().toISOString(),
+  };
+  documents.set(stored.id, stored);
+  await persist();
+  return stored;
+}
+
+export async function getDocument(
+  id: string,
+): Promise<StoredDocument | undefined> {
+  await ready();
+  return documents.get(id);
+}
+
+export async function deleteDocument(id: string): Promise<boolean> {
+  await ready();
+  const deleted = documents.delete(id);
+  if (deleted) await persist();
+  return deleted;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { jsPDF } from "jspdf";
+import { extractDocumentText } from "./documentText";
+
+const zip = (parts: Record<string, string>) =>
+  Buffer.from(
+    zipSync(
+      Object.fromEntries(
+        Object.entries(parts).map(([path, xml]) => [path, strToU8(xml)]),
+      ),
+    ),
+  );
+
+describe("extractDocumentText", () => {
+  it("reads DOCX paragraphs", async () => {
+    const docx = zip({
+      "word/document.xml":
+        "<w:document><w:body>" +
+        "<w:p><w:r><w:t>Acme &amp; Co</w:t></w:r></w:p>" +
+        '<w:p><w:r><w:t xml:space="preserve">ARR </w:t></w:r><w:r><w:t>$1.2M</w:t></w:r></w:p>' +
+        "</w:body></w:document>",
+    });
+    expect(await extractDocumentText(docx, "docx")).toBe(
+      "Acme & Co\nARR $1.2M\n",
+    );
+  });
+
+  it("reads XLSX rows with shared and inline strings", async () => {
+    const xlsx = zip({
+      "xl/sharedStrings.xml":
+        "<sst><si><t>Metric</t></si><si><t>Revenue</t></si></sst>",
+      "xl/worksheets/sheet1.xml":
+        "<worksheet><sheetData>" +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>2024</t></is></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2"><v>1200000</v></c></row>' +
+        "</sheetData></worksheet>",
+    });
+    expect(await extractDocumentText(xlsx, "xlsx")).toBe(
+      "Metric, 2024\nRevenue, 1200000",
+    );
+  });
+
+  it("reads PDF text", async () => {
+    const pdf = new jsPDF();
+    pdf.text("Seed round pitch deck", 10, 10);
+    const text = await extractDocumentText(
+      Buffer.from(pdf.output("arraybuffer")),
+      "pdf",
+    );
+    expect(text).toContain("Seed round pitch deck");
+  });
+
+  it("rejects files that are not Office archives", async () => {
+    await expect(
+      extractDocumentText(Buffer.from("plain text"), "docx"),
+    ).rejects.toThrow("not a valid Office document");
+  });
+});
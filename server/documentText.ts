@@ -0,0 +1,55 @@
+import { strFromU8 } from "fflate";
+import { extractText, getDocumentProxy } from "unpdf";
+import type { DocumentKind } from "@shared/documents";
+import { parseXlsx, stripTags, unzipParts } from "../shared/spreadsheet";
+
+// Paragraph and line breaks become newlines; other markup is dropped
+function docxText(buffer: Buffer): string {
+  const parts = unzipParts(
+    new Uint8Array(buffer),
+    (path) => path === "word/document.xml",
+  );
+  const document = parts["word/document.xml"];
+  if (!document) throw new Error("DOCX file has no document body");
+  return stripTags(
+    strFromU8(document)
+      .replace(/<w:tab\/>/g, "\t")
+      .replace(/<w:br\/>|<\/w:p>/g, "\n"),
+  );
+}
+
+// One line per row, cells separated by commas like the CSV export
+const xlsxText = (buffer: Buffer) =>
+  parseXlsx(new Uint8Array(buffer))
+    .map((sheet) =>
+      sheet.rows
+        .map((row) => row.filter(Boolean).join(", "))
+        .filter(Boolean)
+        .join("\n"),
+    )
+    .join("\n\n");
+
+async function pdfText(buffer: Buffer): Promise<string> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text } = await extractText(pdf, { mergePages: true });
+  return text;
+}
+
+/**
+ * Raw text of an uploaded document; throws when the file cannot be read
+ */
+export async function extractDocumentText(
+  buffer: Buffer,
+  kind: DocumentKind,
+): Promise<string> {
+  switch (kind) {
+    case "pdf":
+      return pdfText(buffer);
+    case "docx":
+      return docxText(buffer);
+    case "xlsx":
+      return xlsxText(buffer);
+    case "csv":
+      return buffer.toString("utf8").replace(/^﻿/, "");
+  }
+}
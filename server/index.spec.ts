@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { strToU8, zipSync } from "fflate";
+import { wizardDataSchema } from "../shared/api";
+import { MAX_DOCUMENT_TEXT, MAX_DOCUMENTS } from "../shared/documents";
+import { reportCacheKey, SERVER_REPORT_BACKEND } from "../shared/reportCache";
+import { createServer } from "./index";
+
+let server: Server;
+let origin: string;
+
+beforeAll(async () => {
+  server = await new Promise<Server>((resolve) => {
+    const listening = createServer().listen(0, "127.0.0.1", () =>
+      resolve(listening),
+    );
+  });
+  const { port } = server.address() as AddressInfo;
+  origin = `http://127.0.0.1:${port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const wizardData = (documents: number) => ({
+  step1: {
+    businessName: "Acme",
+    country: "United States",
+    industry: "saas",
+    stage: "mvp",
+    isLaunched: true,
+  },
+  step4: {
+    uploadedFiles: Array.from({ length: documents }, (_, index) => ({
+      name: `deck-${index}.pdf`,
+      size: 1024,
+      type: "application/pdf",
+      text: "é".repeat(MAX_DOCUMENT_TEXT),
+    })),
+  },
+});
+
+const postReport = (body: unknown) =>
+  fetch(`${origin}/api/valuation-report`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("createServer", () => {
+  it("accepts valuation requests carrying every allowed document", async () => {
+    const response = await postReport(wizardData(MAX_DOCUMENTS));
+    expect(response.status).toBe(200);
+  });
+
+  it("rejects more documents than a request may carry", async () => {
+    const response = await postReport(wizardData(MAX_DOCUMENTS + 1));
+    expect(response.status).toBe(422);
+  });
+
+  it("answers 400 for metric answers the industry pack rejects", async () => {
+    const { step1, ...rest } = wizardData(0);
+    const response = await postReport({
+      ...rest,
+      step1: { ...step1, industry: "ecommerce" },
+      step3: { industryMetrics: { repeatRate: "high" } },
+    });
+    expect(response.status).toBe(400);
+    const { detail } = await response.json();
+    expect(detail[0].loc).toEqual([
+      "body",
+      "step3",
+      "industryMetrics",
+      "repeatRate",
+    ]);
+  });
+
+  it("answers 422 for spreadsheets beyond the sheet bounds", async () => {
+    const xlsx = zipSync({
+      "xl/worksheets/sheet1.xml": strToU8(
+        '<worksheet><sheetData><row r="1000000000"><c><v>1</v></c></row></sheetData></worksheet>',
+      ),
+    });
+    const response = await fetch(`${origin}/api/documents`, {
+      method: "POST",
+      headers: { "X-File-Name": "model.xlsx" },
+      body: xlsx,
+    });
+    expect(response.status).toBe(422);
+  });
+
+  it("caches the reports its engine produced and accepts no others", async () => {
+    const body = wizardData(1);
+    const report = await (await postReport(body)).json();
+    const key = await reportCacheKey(
+      SERVER_REPORT_BACKEND,
+      wizardDataSchema.parse(body),
+    );
+
+    const cached = await fetch(`${origin}/api/report-cache/${key}`);
+    expect((await cached.json()).report).toEqual(report);
+
+    const planted = await fetch(`${origin}/api/report-cache/${key}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ report: {} }),
+    });
+    expect(planted.status).toBe(404);
+  });
+
+  it("scopes the valuation history to the saving browser's token", async () => {
+    const history = (token?: string, init: RequestInit = {}, id = "") =>
+      fetch(`${origin}/api/valuations${id}`, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { "X-History-Token": token } : {}),
+        },
+      });
+    const owner = "o".repeat(32);
+    const stranger = "s".repeat(32);
+    const body = wizardData(0);
+    const saved = await history(owner, {
+      method: "POST",
+      body: JSON.stringify({
+        id: "history-1",
+        name: "Acme",
+        createdAt: new Date().toISOString(),
+        wizardData: body,
+        report: await (await postReport(body)).json(),
+        confidence: 50,
+        backendMode: "Built-in Server",
+      }),
+    });
+    expect(saved.status).toBe(201);
+
+    expect((await history()).status).toBe(400);
+    expect(await (await history(stranger)).json()).toEqual([]);
+    expect(
+      (await (await history(owner)).json()).map((entry) => entry.id),
+    ).toEqual(["history-1"]);
+    const rename = { method: "PATCH", body: JSON.stringify({ name: "Mine" }) };
+    expect((await history(stranger, rename, "/history-1")).status).toBe(403);
+    expect(
+      (await history(stranger, { method: "DELETE" }, "/history-1")).status,
+    ).toBe(403);
+    expect(
+      (await history(owner, { method: "DELETE" }, "/history-1")).status,
+    ).toBe(204);
+  });
+
+  it("serves the FastAPI stand-in only when opted in", async () => {
+    const response = await fetch(`${origin}/mock-fastapi/config`);
+    expect(response.status).toBe(404);
+  });
+});
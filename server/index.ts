@@ -1,13 +1,49 @@
 import express from "express";
 import cors from "cors";
+import { MAX_DOCUMENT_BYTES, MAX_JSON_BODY_BYTES } from "../shared/documents";
+import { createMockFastapi } from "./mockFastapi";
 import { handleDemo } from "./routes/demo";
+import {
+  handleDeleteDocument,
+  handleGetDocument,
+  handleUploadDocument,
+} from "./routes/documents";
+import { handleCreateJob, handleDeleteJob, handleGetJob } from "./routes/jobs";
+import {
+  handleValuationReport,
+  handleValuationReportStream,
+} from "./routes/valuation";
+import {
+  handleDeleteValuation,
+  handleGetValuation,
+  handleListValuations,
+  handleRenameValuation,
+  handleSaveValuation,
+} from "./routes/valuations";
+import { handleGetCachedReport } from "./routes/reportCache";
+import {
+  handleGetMethodWeights,
+  handlePutMethodWeights,
+} from "./routes/settings";
+import {
+  handleCreateShare,
+  handleGetShare,
+  handleRevokeShare,
+} from "./routes/shares";
 
 export function createServer() {
   const app = express();
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  // FastAPI stand-in for development, only with MOCK_FASTAPI=true as its
+  // config is writable by anyone. Mounted ahead of the body parsers
+  // since it parses its own.
+  if (process.env.MOCK_FASTAPI === "true") {
+    app.use("/mock-fastapi", createMockFastapi());
+  }
+  // Valuation requests carry the text of the attached documents
+  app.use(express.json({ limit: MAX_JSON_BODY_BYTES }));
   app.use(express.urlencoded({ extended: true }));
 
   // Example API routes
@@ -17,5 +53,43 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Valuation reports computed by the in-house engine
+  app.post("/api/valuation-report", handleValuationReport);
+  app.post("/api/valuation-report-stream", handleValuationReportStream);
+
+  // Background valuation runs that survive a reload
+  app.post("/api/jobs", handleCreateJob);
+  app.get("/api/jobs/:id", handleGetJob);
+  app.delete("/api/jobs/:id", handleDeleteJob);
+
+  // Reports by request hash, so identical inputs are not valued twice
+  app.get("/api/report-cache/:key", handleGetCachedReport);
+
+  // Optional server-side copy of the valuation history, scoped to the
+  // X-History-Token of the browser that saved each entry
+  app.get("/api/valuations", handleListValuations);
+  app.get("/api/valuations/:id", handleGetValuation);
+  app.post("/api/valuations", handleSaveValuation);
+  app.patch("/api/valuations/:id", handleRenameValuation);
+  app.delete("/api/valuations/:id", handleDeleteValuation);
+
+  // Read-only report links
+  app.post("/api/shares", handleCreateShare);
+  app.get("/api/shares/:id", handleGetShare);
+  app.delete("/api/shares/:id", handleRevokeShare);
+
+  // Team defaults
+  app.get("/api/settings/method-weights", handleGetMethodWeights);
+  app.put("/api/settings/method-weights", handlePutMethodWeights);
+
+  // Pitch decks and financial documents; the upload is the raw file body
+  app.post(
+    "/api/documents",
+    express.raw({ type: () => true, limit: MAX_DOCUMENT_BYTES }),
+    handleUploadDocument,
+  );
+  app.get("/api/documents/:id", handleGetDocument);
+  app.delete("/api/documents/:id", handleDeleteDocument);
+
   return app;
 }
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  applyStreamChunk,
+  completeReport,
+  emptyStreamedReport,
+} from "../shared/reportStream";
+import { cancelJob, createJob, getJob } from "./jobQueue";
+
+const wizardData = {
+  step1: {
+    businessName: "Acme",
+    country: "United States",
+    industry: "saas",
+    stage: "mvp",
+    isLaunched: true,
+  },
+};
+
+const statusOf = async (id: string) => (await getJob(id))?.status;
+
+describe("jobQueue", () => {
+  it("runs queued jobs in the background and keeps their sections", async () => {
+    const first = await createJob(wizardData);
+    const second = await createJob(wizardData);
+    expect(first.status).toBe("queued");
+
+    expect(await cancelJob(second.id)).toBe("cancelled");
+    await vi.waitFor(async () =>
+      expect(await statusOf(first.id)).toBe("completed"),
+    );
+
+    const { events } = await getJob(first.id);
+    const report = completeReport(
+      events.reduce(applyStreamChunk, emptyStreamedReport()),
+    );
+    expect(report.businessSummary).toBeDefined();
+    expect((await getJob(second.id))?.events).toEqual([]);
+    expect(await statusOf(second.id)).toBe("cancelled");
+  });
+
+  it("deletes finished jobs", async () => {
+    const job = await createJob(wizardData);
+    await vi.waitFor(async () =>
+      expect(await statusOf(job.id)).toBe("completed"),
+    );
+    expect(await cancelJob(job.id)).toBe("deleted");
+    expect(await getJob(job.id)).toBeUndefined();
+    expect(await cancelJob(job.id)).toBe("not-found");
+  });
+});
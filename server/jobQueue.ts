@@ -0,0 +1,165 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import type { FxRates } from "@shared/currency";
+import type { ValuationJob, WizardData } from "@shared/api";
+import { valuationJobStatusSchema, wizardDataSchema } from "../shared/api";
+import { DEFAULT_FX_RATES, toBaseCurrency } from "../shared/currency";
+import { toStreamChunks } from "../shared/reportStream";
+import { runValuation } from "../shared/valuation";
+import { createJsonFileStore } from "./jsonFileStore";
+import { cacheEngineReport } from "./reportCache";
+
+// Background valuation runs. Jobs run one at a time in this process; any
+// still queued or running when it stopped are run again.
+const storedJobSchema = z.object({
+  id: z.string().min(1),
+  status: valuationJobStatusSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  wizardData: wizardDataSchema,
+  fxRates: z.record(z.number()).optional(),
+  error: z.string().optional(),
+});
+
+// Finished jobs stay available for resuming this long
+const FINISHED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+const jobs = new Map<string, ValuationJob>();
+let draining = false;
+
+const isFinished = ({ status }: ValuationJob) =>
+  status === "completed" || status === "failed" || status === "cancelled";
+
+const { ready, persist } = createJsonFileStore({
+  fileEnv: "JOBS_FILE",
+  description: "valuation jobs",
+  load: (records) => {
+    if (!Array.isArray(records)) return;
+    for (const record of records) {
+      const parsed = storedJobSchema.safeParse(record);
+      if (!parsed.success) continue;
+      const job = {
+        ...parsed.data,
+        events: record.events ?? [],
+      } as ValuationJob;
+      // Interrupted runs start over
+      jobs.set(
+        job.id,
+        isFinished(job) ? job : { ...job, status: "queued", events: [] },
+      );
+    }
+    void drain();
+  },
+  snapshot: () => [...jobs.values()],
+});
+
+function update(id: string, change: Partial<ValuationJob>) {
+  const job = jobs.get(id);
+  if (!job) return undefined;
+  const updated = { ...job, ...change, updatedAt: new Date().toISOString() };
+  jobs.set(id, updated);
+  return updated;
+}
+
+function pruneFinished() {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const job of jobs.values()) {
+    if (isFinished(job) && Date.parse(job.updatedAt) < cutoff) {
+      jobs.delete(job.id);
+    }
+  }
+}
+
+async function runJob(id: string) {
+  const job = update(id, { status: "running", events: [] });
+  await persist();
+  try {
+    const inputs = toBaseCurrency(
+      job.wizardData,
+      job.fxRates ?? DEFAULT_FX_RATES,
+    );
+    const report = runValuation(inputs);
+    for (const event of toStreamChunks(report)) {
+      // Yield between sections so polls see the run progress
+      await new Promise((resolve) => setImmediate(resolve));
+      const current = jobs.get(id);
+      // Cancelled or deleted meanwhile
+      if (current?.status !== "running") return;
+      update(id, { events: [...current.events, event] });
+    }
+    update(id, { status: "completed" });
+    await cacheEngineReport(inputs, report);
+  } catch (error: any) {
+    console.error("Valuation job failed:", error);
+    update(id, {
+      status: "failed",
+      error: error.message || "Valuation failed",
+    });
+  }
+  await persist();
+}
+
+async function drain() {
+  if (draining) return;
+  draining = true;
+  try {
+    const nextQueued = () =>
+      [...jobs.values()].find((job) => job.status === "queued");
+    for (let job = nextQueued(); job; job = nextQueued()) {
+      await runJob(job.id);
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Queue a valuation run; it starts once the jobs ahead of it have finished
+ */
+export async function createJob(
+  wizardData: WizardData,
+  fxRates?: FxRates,
+): Promise<ValuationJob> {
+  await ready();
+  pruneFinished();
+  const now = new Date().toISOString();
+  const job: ValuationJob = {
+    id: randomBytes(12).toString("base64url"),
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    wizardData,
+    fxRates,
+    events: [],
+  };
+  jobs.set(job.id, job);
+  await persist();
+  void drain();
+  return job;
+}
+
+export async function getJob(id: string): Promise<ValuationJob | undefined> {
+  await ready();
+  return jobs.get(id);
+}
+
+/**
+ * Cancel a queued or running job, or delete a finished one. Cancelled jobs
+ * are kept so other pollers learn why the run stopped.
+ */
+export async function cancelJob(
+  id: string,
+): Promise<"cancelled" | "deleted" | "not-found"> {
+  await ready();
+  const job = jobs.get(id);
+  if (!job) return "not-found";
+
+  if (isFinished(job)) {
+    jobs.delete(id);
+    await persist();
+    return "deleted";
+  }
+  update(id, { status: "cancelled" });
+  await persist();
+  return "cancelled";
+}
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { createJsonFileStore } from "./jsonFileStore";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+async function storeFile() {
+  const directory = await fs.mkdtemp(path.join(tmpdir(), "json-store-"));
+  const file = path.join(directory, "store.json");
+  vi.stubEnv("TEST_STORE_FILE", file);
+  return { directory, file };
+}
+
+describe("createJsonFileStore", () => {
+  it("leaves the last contents after a burst of writes", async () => {
+    const { directory, file } = await storeFile();
+    let entries: number[] = [];
+    const store = createJsonFileStore({
+      fileEnv: "TEST_STORE_FILE",
+      description: "test entries",
+      load: () => {},
+      snapshot: () => entries,
+    });
+
+    const writes: Promise<void>[] = [];
+    for (let index = 0; index < 50; index++) {
+      entries = [...entries, index];
+      writes.push(store.persist());
+    }
+    await Promise.all(writes);
+
+    expect(JSON.parse(await fs.readFile(file, "utf8"))).toHaveLength(50);
+    expect(await fs.readdir(directory)).toEqual(["store.json"]);
+  });
+
+  it("loads the file once, before first use", async () => {
+    const { file } = await storeFile();
+    await fs.writeFile(file, JSON.stringify(["saved"]));
+    const load = vi.fn();
+    const store = createJsonFileStore({
+      fileEnv: "TEST_STORE_FILE",
+      description: "test entries",
+      load,
+      snapshot: () => [],
+    });
+
+    await Promise.all([store.ready(), store.ready()]);
+    expect(load).toHaveBeenCalledOnce();
+    expect(load).toHaveBeenCalledWith(["saved"]);
+  });
+});
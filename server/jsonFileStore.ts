@@ -0,0 +1,76 @@
+import { promises as fs } from "fs";
+
+interface JsonFileStoreOptions {
+  // Environment variable naming the file; nothing is persisted when unset
+  fileEnv: string;
+  // What the store holds, for the logged errors, e.g. "saved valuations"
+  description: string;
+  // Receives the parsed file contents once, before the store is first used
+  load: (stored: unknown) => void;
+  // The contents to write, read when each write starts
+  snapshot: () => unknown;
+}
+
+export interface JsonFileStore {
+  /**
+   * Resolves once the file has been loaded
+   */
+  ready(): Promise<void>;
+  /**
+   * Write the current contents. A failed write is logged rather than
+   * failing the request; the contents are still held in memory.
+   */
+  persist(): Promise<void>;
+}
+
+/**
+ * Back an in-memory store with a JSON file. Writes run one at a time, each
+ * to a temporary file that is then renamed over the store file, so a burst
+ * of writes cannot leave it truncated or interleaved.
+ */
+export function createJsonFileStore({
+  fileEnv,
+  description,
+  load,
+  snapshot,
+}: JsonFileStoreOptions): JsonFileStore {
+  let loaded: Promise<void> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const storeFile = () => process.env[fileEnv];
+
+  async function loadFromFile() {
+    const file = storeFile();
+    if (!file) return;
+    try {
+      load(JSON.parse(await fs.readFile(file, "utf8")));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.error(`Failed to load ${description}:`, error);
+      }
+    }
+  }
+
+  async function write() {
+    const file = storeFile();
+    if (!file) return;
+    const temporary = `${file}.${process.pid}.tmp`;
+    try {
+      await fs.writeFile(temporary, JSON.stringify(snapshot(), null, 2));
+      await fs.rename(temporary, file);
+    } catch (error) {
+      console.error(`Failed to persist ${description}:`, error);
+    }
+  }
+
+  return {
+    async ready() {
+      loaded ??= loadFromFile();
+      await loaded;
+    },
+    persist() {
+      writing = writing.then(write);
+      return writing;
+    },
+  };
+}
@@ -0,0 +1,296 @@
+import { Router, json, type Response } from "express";
+import { z } from "zod";
+import type { ValuationReport } from "@shared/api";
+import { toValidationErrorResponse } from "../shared/api";
+import { toStreamChunks } from "../shared/reportStream";
+
+// Stand-in for the Python FastAPI backend, speaking its contract so the
+// request and response transforms in client/lib/fastapi.ts run locally.
+// With MOCK_FASTAPI=true the app serves it at /mock-fastapi; point the
+// FastAPI backend there. The answers come from the fixtures below, chosen
+// with PUT /mock-fastapi/config.
+
+export const MOCK_FIXTURES = [
+  // Report in the current contract
+  "report",
+  // finalRange as text, e.g. "$18M–$32M"
+  "string-final-range",
+  // strategicContext as a JSON document serialised into a string
+  "json-strategic-context",
+  // The old contract echoing the inputs inside additionalProp1
+  "legacy",
+] as const;
+
+export const MOCK_ERROR_MODES = [
+  "none",
+  // 500 with a FastAPI { detail: { error } } body
+  "server-error",
+  // 422 as if the payload failed validation
+  "validation",
+  // 200 with a report whose final range is inverted
+  "malformed",
+  // Connection dropped without a response (mid-stream for the stream)
+  "disconnect",
+] as const;
+
+const mockFastapiConfigSchema = z.object({
+  fixture: z.enum(MOCK_FIXTURES),
+  // Delay before a response, and between streamed sections
+  latencyMs: z.number().int().min(0).max(60_000),
+  error: z.enum(MOCK_ERROR_MODES),
+});
+
+export type MockFastapiConfig = z.infer<typeof mockFastapiConfigSchema>;
+
+const DEFAULT_CONFIG: MockFastapiConfig = {
+  fixture: "report",
+  latencyMs: 0,
+  error: "none",
+};
+
+// Only the fields the real backend insists on
+const valuationRequestSchema = z.object({
+  name: z.string(),
+  country: z.string(),
+  industry: z.string(),
+  stage: z.string(),
+});
+
+type ValuationRequest = z.infer<typeof valuationRequestSchema> &
+  Record<string, unknown>;
+
+// FastAPI ranges are in millions of US dollars with no scale or currency
+const millions = (lower: number, upper: number) => ({ lower, upper });
+
+function reportFixture({
+  name,
+  industry,
+  stage,
+}: ValuationRequest): Record<string, any> {
+  return {
+    businessSummary: {
+      summary: `${name} is a ${stage} ${industry} company.`,
+      stageAssessment: `${stage} stage with early commercial traction`,
+      keyStrengths: ["Experienced founding team", "Recurring revenue model"],
+      weaknessesOrRisks: ["Concentrated customer base"],
+    },
+    recommendedMethods: {
+      recommendedMethods: [
+        {
+          method: "Scorecard Method",
+          confidence: 0.8,
+          reason: "Suited to pre-revenue and early-revenue startups",
+        },
+        {
+          method: "Market Multiples",
+          confidence: 0.6,
+          reason: `Public ${industry} comparables are available`,
+        },
+      ],
+    },
+    calculations: [
+      {
+        method: "Scorecard Method",
+        valuationRange: millions(18, 26),
+        explanation: "Weighted comparison with regional pre-money averages",
+        calculation: { baseValuation: 20, teamFactor: 1.2, marketFactor: 1.1 },
+        narrative: "The team and market size lift the regional average.",
+      },
+      {
+        method: "Market Multiples",
+        valuationRange: millions(22, 32),
+        explanation: "Revenue multiple of comparable companies",
+        calculation: "ARR × 8-12x",
+        narrative: "Comparable companies trade at 8-12x revenue.",
+      },
+    ],
+    competitorAnalysis: {
+      competitors: ["Incumbent Co", "Challenger Inc"],
+      competitorBenchmarks: [
+        { name: "Incumbent Co", valuation: "$1.2B", difference: "40x larger" },
+      ],
+      commentary: `${name} competes on price against the incumbents.`,
+    },
+    strategicContext:
+      "Consolidation in the sector makes strategic acquirers likely buyers.",
+    finalValuation: {
+      finalRange: millions(18, 32),
+      justification: "Spans the scorecard and market multiple ranges.",
+      recommendations: ["Raise at the midpoint", "Extend runway to 18 months"],
+    },
+  };
+}
+
+function fixtureResponse(
+  config: MockFastapiConfig,
+  request: ValuationRequest,
+): Record<string, any> {
+  const report = reportFixture(request);
+  if (config.error === "malformed") {
+    return {
+      ...report,
+      finalValuation: {
+        ...report.finalValuation,
+        finalRange: millions(40, 10),
+      },
+    };
+  }
+  switch (config.fixture) {
+    case "string-final-range":
+      return {
+        ...report,
+        finalValuation: { ...report.finalValuation, finalRange: "$18M–$32M" },
+      };
+    case "json-strategic-context":
+      return {
+        ...report,
+        strategicContext: JSON.stringify({
+          strategicContext: [
+            { paragraph: "Consolidation makes acquirers likely buyers." },
+            { paragraph: "Regulation raises the barrier to new entrants." },
+          ],
+        }),
+      };
+    case "legacy":
+      return { additionalProp1: request };
+    default:
+      return report;
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Answers for the error modes that replace the whole response; true when
+// one was sent
+function sendErrorMode(res: Response, config: MockFastapiConfig): boolean {
+  switch (config.error) {
+    case "server-error":
+      res.status(500).json({ detail: { error: "Mock LLM provider failed" } });
+      return true;
+    case "validation":
+      res.status(422).json({
+        detail: [
+          {
+            loc: ["body", "revenue12m"],
+            msg: "value is not a valid integer",
+            type: "type_error.integer",
+          },
+        ],
+      });
+      return true;
+    case "disconnect":
+      res.socket?.destroy();
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Router implementing /valuation-report, /valuation-report-stream and /docs
+ * of the FastAPI backend, plus GET and PUT /config. Each router keeps its
+ * own config, starting from `initial`.
+ */
+export function createMockFastapi(initial: Partial<MockFastapiConfig> = {}) {
+  let config = mockFastapiConfigSchema.parse({
+    ...DEFAULT_CONFIG,
+    ...initial,
+  });
+
+  const router = Router();
+  router.use(json({ limit: "10mb" }));
+
+  // Validates the body like FastAPI would; undefined after answering 422
+  const parseRequest = (
+    body: unknown,
+    res: Response,
+  ): ValuationRequest | undefined => {
+    const parsed = valuationRequestSchema.passthrough().safeParse(body);
+    if (parsed.success) return parsed.data as ValuationRequest;
+    res.status(422).json({
+      detail: parsed.error.issues.map((issue) => ({
+        loc: ["body", ...issue.path],
+        msg: issue.message,
+        type: `value_error.${issue.code}`,
+      })),
+    });
+    return undefined;
+  };
+
+  router.get("/config", (_req, res) => {
+    res.json(config);
+  });
+
+  router.put("/config", (req, res) => {
+    const parsed = mockFastapiConfigSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(422).json(toValidationErrorResponse(parsed.error));
+      return;
+    }
+    config = { ...config, ...parsed.data };
+    res.json(config);
+  });
+
+  router.get("/docs", (_req, res) => {
+    res
+      .type("html")
+      .send(
+        "<!doctype html><title>Mock FastAPI</title>" +
+          "<h1>Mock FastAPI</h1><ul>" +
+          "<li>POST /valuation-report</li>" +
+          "<li>POST /valuation-report-stream</li>" +
+          "<li>GET, PUT /config</li></ul>" +
+          `<pre>${JSON.stringify(config, null, 2)}</pre>`,
+      );
+  });
+
+  router.post("/valuation-report", async (req, res) => {
+    const request = parseRequest(req.body, res);
+    if (!request) return;
+
+    await wait(config.latencyMs);
+    if (sendErrorMode(res, config)) return;
+    res.json(fixtureResponse(config, request));
+  });
+
+  router.post("/valuation-report-stream", async (req, res) => {
+    const request = parseRequest(req.body, res);
+    if (!request) return;
+    if (config.error !== "disconnect" && sendErrorMode(res, config)) return;
+
+    let closed = false;
+    res.on("close", () => {
+      closed = true;
+    });
+    res.status(200);
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.setHeader("Cache-Control", "no-cache");
+    res.flushHeaders();
+
+    const body = fixtureResponse(config, request);
+    if (!body.businessSummary) {
+      res.end(
+        JSON.stringify({
+          error: true,
+          message: "The legacy contract has no stream",
+        }) + "\n",
+      );
+      return;
+    }
+
+    const chunks = toStreamChunks(body as ValuationReport);
+    for (const [index, chunk] of chunks.entries()) {
+      await wait(config.latencyMs);
+      if (closed) return;
+      // Drop the connection halfway through the report
+      if (config.error === "disconnect" && index === chunks.length >> 1) {
+        res.socket?.destroy();
+        return;
+      }
+      res.write(JSON.stringify(chunk) + "\n");
+    }
+    res.end();
+  });
+
+  return router;
+}
@@ -0,0 +1,15 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+// Owner tokens let the browser that created a record change it later
+
+export const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * Whether `token` hashes to `tokenHash`, compared in constant time
+ */
+export function tokenMatches(tokenHash: string, token: string): boolean {
+  const expected = Buffer.from(tokenHash, "hex");
+  const actual = Buffer.from(hashToken(token || ""), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
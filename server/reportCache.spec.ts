@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { runValuation } from "../shared/valuation";
+import { getCachedReport, putCachedReport } from "./reportCache";
+
+const wizardData = {
+  step1: {
+    businessName: "Acme",
+    country: "United States",
+    industry: "saas",
+    stage: "mvp",
+    isLaunched: true,
+  },
+};
+
+describe("reportCache", () => {
+  it("serves a stored report by its key", async () => {
+    const key = "a".repeat(64);
+    expect(await getCachedReport(key)).toBeUndefined();
+
+    const report = runValuation(wizardData);
+    const entry = await putCachedReport(key, report);
+    expect(await getCachedReport(key)).toEqual(entry);
+    expect(entry.report).toBe(report);
+  });
+});
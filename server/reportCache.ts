@@ -0,0 +1,70 @@
+import type { CachedReport, ValuationReport, WizardData } from "@shared/api";
+import { cachedReportSchema } from "../shared/api";
+import { reportCacheKey, SERVER_REPORT_BACKEND } from "../shared/reportCache";
+import { createJsonFileStore } from "./jsonFileStore";
+
+// Reports by request hash. The oldest entries are dropped beyond
+// MAX_CACHED_REPORTS. Only reports the in-house engine produced here are
+// stored, so one user cannot plant a report another user is served.
+const MAX_CACHED_REPORTS = 500;
+
+const reports = new Map<string, CachedReport>();
+
+const { ready, persist } = createJsonFileStore({
+  fileEnv: "REPORT_CACHE_FILE",
+  description: "the report cache",
+  load: (records) => {
+    if (!Array.isArray(records)) return;
+    for (const record of records) {
+      const parsed = cachedReportSchema.safeParse(record);
+      if (parsed.success) reports.set(parsed.data.key, parsed.data);
+    }
+  },
+  snapshot: () => [...reports.values()],
+});
+
+export async function getCachedReport(
+  key: string,
+): Promise<CachedReport | undefined> {
+  await ready();
+  return reports.get(key);
+}
+
+export async function putCachedReport(
+  key: string,
+  report: ValuationReport,
+): Promise<CachedReport> {
+  await ready();
+  const entry: CachedReport = {
+    key,
+    report,
+    cachedAt: new Date().toISOString(),
+  };
+  // Re-inserting moves the key to the newest end
+  reports.delete(key);
+  reports.set(key, entry);
+  for (const oldest of reports.keys()) {
+    if (reports.size <= MAX_CACHED_REPORTS) break;
+    reports.delete(oldest);
+  }
+  await persist();
+  return entry;
+}
+
+/**
+ * Cache a report the in-house engine produced for these base-currency
+ * inputs, under the key clients compute for the built-in server backend
+ */
+export async function cacheEngineReport(
+  wizardData: WizardData,
+  report: ValuationReport,
+) {
+  try {
+    await putCachedReport(
+      await reportCacheKey(SERVER_REPORT_BACKEND, wizardData),
+      report,
+    );
+  } catch (error) {
+    console.error("Failed to cache the valuation report:", error);
+  }
+}
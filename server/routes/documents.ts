@@ -0,0 +1,76 @@
+import { RequestHandler } from "express";
+import {
+  DOCUMENT_TYPES,
+  documentKind,
+  normalizeDocumentText,
+} from "../../shared/documents";
+import { extractDocumentText } from "../documentText";
+import { deleteDocument, getDocument, putDocument } from "../documentStore";
+
+// The file is the raw request body (see createServer); its name arrives
+// URI-encoded in X-File-Name so no multipart parser is needed
+export const handleUploadDocument: RequestHandler = async (req, res) => {
+  const header = req.get("X-File-Name");
+  let name = "";
+  try {
+    name = header ? decodeURIComponent(header).trim() : "";
+  } catch {
+    // Malformed encoding is reported as a missing name
+  }
+  if (!name) {
+    res.status(400).json({ error: "X-File-Name header is required" });
+    return;
+  }
+
+  const kind = documentKind(name, req.get("Content-Type"));
+  if (!kind) {
+    res
+      .status(415)
+      .json({ error: "Only PDF, DOCX, XLSX and CSV files are supported" });
+    return;
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({ error: "Document is empty" });
+    return;
+  }
+
+  let extracted: string;
+  try {
+    extracted = await extractDocumentText(req.body, kind);
+  } catch (error: any) {
+    console.error("Document extraction error:", error);
+    res.status(422).json({ error: `Could not read text from ${name}` });
+    return;
+  }
+  const { text, truncated } = normalizeDocumentText(extracted);
+  if (!text) {
+    res.status(422).json({ error: `${name} contains no readable text` });
+    return;
+  }
+
+  const document = await putDocument({
+    name,
+    size: req.body.length,
+    type: DOCUMENT_TYPES[kind],
+    text,
+    truncated,
+  });
+  res.status(201).json(document);
+};
+
+export const handleGetDocument: RequestHandler = async (req, res) => {
+  const document = await getDocument(req.params.id);
+  if (!document) {
+    res.status(404).json({ error: "Document not found" });
+    return;
+  }
+  res.status(200).json(document);
+};
+
+export const handleDeleteDocument: RequestHandler = async (req, res) => {
+  if (!(await deleteDocument(req.params.id))) {
+    res.status(404).json({ error: "Document not found" });
+    return;
+  }
+  res.status(204).end();
+};
@@ -0,0 +1,44 @@
+import { RequestHandler } from "express";
+import {
+  createValuationJobSchema,
+  toValidationErrorResponse,
+} from "../../shared/api";
+import { industryMetricsError } from "../../shared/metricPacks";
+import { cancelJob, createJob, getJob } from "../jobQueue";
+
+// 202: the report is produced in the background; poll GET /api/jobs/:id
+export const handleCreateJob: RequestHandler = async (req, res) => {
+  const parsed = createValuationJobSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(422).json(toValidationErrorResponse(parsed.error));
+    return;
+  }
+  const metricsError = industryMetricsError(parsed.data.wizardData, [
+    "wizardData",
+  ]);
+  if (metricsError) {
+    res.status(400).json(toValidationErrorResponse(metricsError));
+    return;
+  }
+
+  const job = await createJob(parsed.data.wizardData, parsed.data.fxRates);
+  res.status(202).location(`/api/jobs/${job.id}`).json(job);
+};
+
+export const handleGetJob: RequestHandler = async (req, res) => {
+  const job = await getJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: "Valuation job not found" });
+    return;
+  }
+  res.status(200).json(job);
+};
+
+export const handleDeleteJob: RequestHandler = async (req, res) => {
+  const result = await cancelJob(req.params.id);
+  if (result === "not-found") {
+    res.status(404).json({ error: "Valuation job not found" });
+    return;
+  }
+  res.status(204).end();
+};
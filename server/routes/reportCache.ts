@@ -0,0 +1,11 @@
+import { RequestHandler } from "express";
+import { getCachedReport } from "../reportCache";
+
+export const handleGetCachedReport: RequestHandler = async (req, res) => {
+  const entry = await getCachedReport(req.params.key);
+  if (!entry) {
+    res.status(404).json({ error: "No cached report for this request" });
+    return;
+  }
+  res.status(200).json(entry);
+};
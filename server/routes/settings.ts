@@ -0,0 +1,21 @@
+import { RequestHandler } from "express";
+import {
+  methodWeightsSchema,
+  toValidationErrorResponse,
+} from "../../shared/api";
+import { getMethodWeights, putMethodWeights } from "../settingsStore";
+
+export const handleGetMethodWeights: RequestHandler = async (_req, res) => {
+  res.status(200).json(await getMethodWeights());
+};
+
+export const handlePutMethodWeights: RequestHandler = async (req, res) => {
+  const parsed = methodWeightsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(422).json(toValidationErrorResponse(parsed.error));
+    return;
+  }
+
+  await putMethodWeights(parsed.data);
+  res.status(200).json(parsed.data);
+};
@@ -0,0 +1,59 @@
+import { RequestHandler } from "express";
+import {
+  createShareSchema,
+  toValidationErrorResponse,
+  type CreateShareResponse,
+} from "../../shared/api";
+import { discloseInputs, redactReport, shareStatus } from "../../shared/share";
+import { createShare, getShare, revokeShare } from "../shareStore";
+
+export const handleCreateShare: RequestHandler = async (req, res) => {
+  const parsed = createShareSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(422).json(toValidationErrorResponse(parsed.error));
+    return;
+  }
+
+  const { report, wizardData, confidence, disclosedSteps, redactFinancials } =
+    parsed.data;
+  const response: CreateShareResponse = await createShare({
+    report: redactFinancials ? redactReport(report) : report,
+    wizardData: discloseInputs(wizardData, disclosedSteps, redactFinancials),
+    confidence,
+    expiresAt: parsed.data.expiresAt,
+    redactedFinancials: redactFinancials,
+  });
+  res.status(201).json(response);
+};
+
+// Expired and revoked links answer 410 so the page can say why
+export const handleGetShare: RequestHandler = async (req, res) => {
+  const share = await getShare(req.params.id);
+  if (!share) {
+    res.status(404).json({ error: "Shared report not found" });
+    return;
+  }
+
+  const status = shareStatus(share);
+  if (status !== "active") {
+    res.status(410).json({ error: `This link has been ${status}`, status });
+    return;
+  }
+  res.status(200).json(share);
+};
+
+export const handleRevokeShare: RequestHandler = async (req, res) => {
+  const result = await revokeShare(
+    req.params.id,
+    req.header("X-Share-Token") ?? "",
+  );
+  if (result === "not-found") {
+    res.status(404).json({ error: "Shared report not found" });
+    return;
+  }
+  if (result === "forbidden") {
+    res.status(403).json({ error: "Only the owner can revoke this link" });
+    return;
+  }
+  res.status(204).end();
+};
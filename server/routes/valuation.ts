@@ -0,0 +1,70 @@
+import { RequestHandler } from "express";
+import { ValuationReport } from "@shared/api";
+// Runtime imports use relative paths: vite.config.ts loads the server
+// through esbuild, which does not apply the @shared alias
+import { toValidationErrorResponse, wizardDataSchema } from "../../shared/api";
+import { industryMetricsError } from "../../shared/metricPacks";
+import { toStreamChunks } from "../../shared/reportStream";
+import { runValuation } from "../../shared/valuation";
+import { cacheEngineReport } from "../reportCache";
+
+export const handleValuationReport: RequestHandler = async (req, res) => {
+  const parsed = wizardDataSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(422).json(toValidationErrorResponse(parsed.error));
+    return;
+  }
+  const metricsError = industryMetricsError(parsed.data);
+  if (metricsError) {
+    res.status(400).json(toValidationErrorResponse(metricsError));
+    return;
+  }
+
+  const report: ValuationReport = runValuation(parsed.data);
+  await cacheEngineReport(parsed.data, report);
+  res.status(200).json(report);
+};
+
+export const handleValuationReportStream: RequestHandler = async (req, res) => {
+  const parsed = wizardDataSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(422).json(toValidationErrorResponse(parsed.error));
+    return;
+  }
+  const metricsError = industryMetricsError(parsed.data);
+  if (metricsError) {
+    res.status(400).json(toValidationErrorResponse(metricsError));
+    return;
+  }
+
+  // The client may abort mid-stream; stop writing once the socket closes
+  let closed = false;
+  res.on("close", () => {
+    closed = true;
+  });
+
+  res.status(200);
+  res.setHeader("Content-Type", "application/x-ndjson");
+  res.setHeader("Cache-Control", "no-cache");
+  res.flushHeaders();
+
+  try {
+    const report = runValuation(parsed.data);
+    for (const chunk of toStreamChunks(report)) {
+      if (closed) return;
+      res.write(JSON.stringify(chunk) + "\n");
+      // Yield between sections so each line is flushed separately
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    await cacheEngineReport(parsed.data, report);
+  } catch (error: any) {
+    console.error("Valuation stream error:", error);
+    res.write(
+      JSON.stringify({
+        error: true,
+        message: error.message || "Valuation failed",
+      }) + "\n",
+    );
+  }
+  res.end();
+};
@@ -0,0 +1,100 @@
+import { Request, RequestHandler, Response } from "express";
+import {
+  renameValuationSchema,
+  savedValuationSchema,
+  toValidationErrorResponse,
+} from "../../shared/api";
+import {
+  deleteValuation,
+  getValuation,
+  listValuations,
+  putValuation,
+  renameValuation,
+} from "../valuationStore";
+
+// Browsers generate a random token for their history, far longer than this
+const MIN_HISTORY_TOKEN_LENGTH = 32;
+
+// The history token sent in X-History-Token; undefined after answering 400
+function historyToken(req: Request, res: Response): string | undefined {
+  const token = req.get("X-History-Token") ?? "";
+  if (token.length >= MIN_HISTORY_TOKEN_LENGTH) return token;
+  res.status(400).json({ error: "X-History-Token header is required" });
+  return undefined;
+}
+
+const sendForbidden = (res: Response) =>
+  res
+    .status(403)
+    .json({
+      error: "Only the browser that saved this valuation can change it",
+    });
+
+export const handleListValuations: RequestHandler = async (req, res) => {
+  const token = historyToken(req, res);
+  if (!token) return;
+  res.status(200).json(await listValuations(token));
+};
+
+export const handleGetValuation: RequestHandler = async (req, res) => {
+  const token = historyToken(req, res);
+  if (!token) return;
+  const entry = await getValuation(req.params.id, token);
+  if (!entry) {
+    res.status(404).json({ error: "Valuation not found" });
+    return;
+  }
+  res.status(200).json(entry);
+};
+
+export const handleSaveValuation: RequestHandler = async (req, res) => {
+  const token = historyToken(req, res);
+  if (!token) return;
+  const parsed = savedValuationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(422).json(toValidationErrorResponse(parsed.error));
+    return;
+  }
+
+  if ((await putValuation(parsed.data, token)) === "forbidden") {
+    sendForbidden(res);
+    return;
+  }
+  res.status(201).json(parsed.data);
+};
+
+export const handleRenameValuation: RequestHandler = async (req, res) => {
+  const token = historyToken(req, res);
+  if (!token) return;
+  const parsed = renameValuationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(422).json(toValidationErrorResponse(parsed.error));
+    return;
+  }
+
+  const result = await renameValuation(req.params.id, parsed.data.name, token);
+  if (result === "not-found") {
+    res.status(404).json({ error: "Valuation not found" });
+    return;
+  }
+  if (result === "forbidden") {
+    sendForbidden(res);
+    return;
+  }
+  res.status(200).json(result);
+};
+
+export const handleDeleteValuation: RequestHandler = async (req, res) => {
+  const token = historyToken(req, res);
+  if (!token) return;
+  const result = await deleteValuation(req.params.id, token);
+  if (result === "not-found") {
+    res.status(404).json({ error: "Valuation not found" });
+    return;
+  }
+  if (result === "forbidden") {
+    sendForbidden(res);
+    return;
+  }
+  res.status(204).end();
+};
@@ -0,0 +1,13 @@
+import { describe, it, expect } from "vitest";
+import { getMethodWeights, putMethodWeights } from "./settingsStore";
+
+describe("settingsStore", () => {
+  it("starts empty and keeps the team method weights", async () => {
+    expect(await getMethodWeights()).toEqual({});
+    await putMethodWeights({ DCF: 20, "Revenue Multiple": 80 });
+    expect(await getMethodWeights()).toEqual({
+      DCF: 20,
+      "Revenue Multiple": 80,
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import type { MethodWeights } from "@shared/api";
+import { methodWeightsSchema } from "../shared/api";
+import { createJsonFileStore } from "./jsonFileStore";
+
+// Team-wide defaults
+interface TeamSettings {
+  methodWeights: MethodWeights;
+}
+
+let settings: TeamSettings = { methodWeights: {} };
+
+const { ready, persist } = createJsonFileStore({
+  fileEnv: "SETTINGS_FILE",
+  description: "team settings",
+  load: (stored: any) => {
+    const parsed = methodWeightsSchema.safeParse(stored?.methodWeights);
+    if (parsed.success) settings = { methodWeights: parsed.data };
+  },
+  snapshot: () => settings,
+});
+
+export async function getMethodWeights(): Promise<MethodWeights> {
+  await ready();
+  return settings.methodWeights;
+}
+
+export async function putMethodWeights(weights: MethodWeights) {
+  await ready();
+  settings = { ...settings, methodWeights: weights };
+  await persist();
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { runValuation } from "../shared/valuation";
+import { createShare, getShare, revokeShare } from "./shareStore";
+
+const wizardData = {
+  step1: {
+    businessName: "Acme",
+    country: "United States",
+    industry: "saas",
+    stage: "mvp",
+    isLaunched: true,
+  },
+};
+
+describe("shareStore", () => {
+  it("only lets the owner revoke a share", async () => {
+    const { share, ownerToken } = await createShare({
+      report: runValuation(wizardData),
+      wizardData,
+      redactedFinancials: false,
+    });
+    expect(share.id).toMatch(/^[\w-]{16}$/);
+    expect((await getShare(share.id))?.revokedAt).toBeUndefined();
+
+    expect(await revokeShare(share.id, "not-the-token")).toBe("forbidden");
+    expect(await revokeShare(share.id, ownerToken)).toBe("revoked");
+    expect((await getShare(share.id))?.revokedAt).toBeDefined();
+    expect(await revokeShare("missing", ownerToken)).toBe("not-found");
+  });
+});
@@ -0,0 +1,76 @@
+import { randomBytes } from "crypto";
+import type { SharedReport } from "@shared/api";
+import { sharedReportSchema } from "../shared/api";
+import { createJsonFileStore } from "./jsonFileStore";
+import { hashToken, tokenMatches } from "./ownerTokens";
+
+// Shared report snapshots. Only a hash of each owner token is stored, so
+// the file alone cannot be used to revoke links.
+interface ShareRecord {
+  share: SharedReport;
+  ownerTokenHash: string;
+}
+
+const shares = new Map<string, ShareRecord>();
+
+const { ready, persist } = createJsonFileStore({
+  fileEnv: "SHARES_FILE",
+  description: "shared reports",
+  load: (records) => {
+    if (!Array.isArray(records)) return;
+    for (const record of records) {
+      const parsed = sharedReportSchema.safeParse(record?.share);
+      if (parsed.success && typeof record.ownerTokenHash === "string") {
+        shares.set(parsed.data.id, {
+          share: parsed.data,
+          ownerTokenHash: record.ownerTokenHash,
+        });
+      }
+    }
+  },
+  snapshot: () => [...shares.values()],
+});
+
+/**
+ * Store a snapshot under a new unguessable id; returns the owner token
+ */
+export async function createShare(
+  snapshot: Omit<SharedReport, "id" | "createdAt">,
+): Promise<{ share: SharedReport; ownerToken: string }> {
+  await ready();
+  const share: SharedReport = {
+    ...snapshot,
+    id: randomBytes(12).toString("base64url"),
+    createdAt: new Date().toISOString(),
+  };
+  const ownerToken = randomBytes(24).toString("base64url");
+  shares.set(share.id, { share, ownerTokenHash: hashToken(ownerToken) });
+  await persist();
+  return { share, ownerToken };
+}
+
+export async function getShare(id: string): Promise<SharedReport | undefined> {
+  await ready();
+  return shares.get(id)?.share;
+}
+
+/**
+ * Mark a share as revoked. Revoked shares are kept so readers get a clear
+ * "revoked" answer rather than "not found".
+ */
+export async function revokeShare(
+  id: string,
+  ownerToken: string,
+): Promise<"revoked" | "not-found" | "forbidden"> {
+  await ready();
+  const record = shares.get(id);
+  if (!record) return "not-found";
+
+  if (!tokenMatches(record.ownerTokenHash, ownerToken)) return "forbidden";
+
+  if (!record.share.revokedAt) {
+    record.share = { ...record.share, revokedAt: new Date().toISOString() };
+    await persist();
+  }
+  return "revoked";
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import type { SavedValuation } from "@shared/api";
+import { runValuation } from "../shared/valuation";
+import {
+  deleteValuation,
+  getValuation,
+  listValuations,
+  putValuation,
+  renameValuation,
+} from "./valuationStore";
+
+const wizardData = {
+  step1: {
+    businessName: "Acme",
+    country: "United States",
+    industry: "saas",
+    stage: "mvp",
+    isLaunched: true,
+  },
+};
+
+const entry = (id: string, createdAt: string): SavedValuation => ({
+  id,
+  name: `Run ${id}`,
+  createdAt,
+  wizardData,
+  report: runValuation(wizardData),
+  confidence: 50,
+  backendMode: "Built-in Server",
+});
+
+const owner = "a".repeat(32);
+const stranger = "b".repeat(32);
+
+describe("valuationStore", () => {
+  it("lists, renames and deletes saved valuations", async () => {
+    await putValuation(entry("a", "2025-01-01T00:00:00.000Z"), owner);
+    await putValuation(entry("b", "2025-02-01T00:00:00.000Z"), owner);
+    expect((await listValuations(owner)).map((v) => v.id)).toEqual(["b", "a"]);
+
+    const renamed = await renameValuation("a", "Seed round", owner);
+    expect(renamed).toMatchObject({ name: "Seed round" });
+    expect((renamed as SavedValuation).updatedAt).toBeDefined();
+    expect((await getValuation("a", owner))?.name).toBe("Seed round");
+
+    expect(await deleteValuation("a", owner)).toBe("deleted");
+    expect(await deleteValuation("a", owner)).toBe("not-found");
+    expect(await getValuation("a", owner)).toBeUndefined();
+    expect(await renameValuation("missing", "x", owner)).toBe("not-found");
+  });
+
+  it("keeps each entry to the token that saved it", async () => {
+    await putValuation(entry("c", "2025-03-01T00:00:00.000Z"), owner);
+
+    expect(await listValuations(stranger)).toEqual([]);
+    expect(await getValuation("c", stranger)).toBeUndefined();
+    expect(await renameValuation("c", "Mine now", stranger)).toBe("forbidden");
+    expect(await deleteValuation("c", stranger)).toBe("forbidden");
+    expect(
+      await putValuation(entry("c", "2025-03-02T00:00:00.000Z"), stranger),
+    ).toBe("forbidden");
+    expect((await getValuation("c", owner))?.name).toBe("Run c");
+  });
+});
@@ -0,0 +1,105 @@
+import type { SavedValuation } from "@shared/api";
+import { savedValuationSchema } from "../shared/api";
+import { createJsonFileStore } from "./jsonFileStore";
+import { hashToken, tokenMatches } from "./ownerTokens";
+
+// Saved valuations live in memory; set VALUATIONS_FILE to also persist them
+// as JSON so they survive restarts. Serverless deployments keep one store per
+// warm instance, so the client's IndexedDB history stays the source of truth.
+// Each entry belongs to the history token of the browser that saved it, and
+// only a hash of that token is stored.
+interface ValuationRecord {
+  entry: SavedValuation;
+  ownerTokenHash: string;
+}
+
+const valuations = new Map<string, ValuationRecord>();
+
+const { ready, persist } = createJsonFileStore({
+  fileEnv: "VALUATIONS_FILE",
+  description: "saved valuations",
+  load: (records) => {
+    if (!Array.isArray(records)) return;
+    for (const record of records) {
+      const parsed = savedValuationSchema.safeParse(record?.entry);
+      if (parsed.success && typeof record.ownerTokenHash === "string") {
+        valuations.set(parsed.data.id, {
+          entry: parsed.data,
+          ownerTokenHash: record.ownerTokenHash,
+        });
+      }
+    }
+  },
+  snapshot: () => [...valuations.values()],
+});
+
+// The record when it exists and belongs to the token's owner
+function ownedRecord(
+  id: string,
+  ownerToken: string,
+): ValuationRecord | "not-found" | "forbidden" {
+  const record = valuations.get(id);
+  if (!record) return "not-found";
+  return tokenMatches(record.ownerTokenHash, ownerToken) ? record : "forbidden";
+}
+
+export async function listValuations(
+  ownerToken: string,
+): Promise<SavedValuation[]> {
+  await ready();
+  return [...valuations.values()]
+    .filter((record) => tokenMatches(record.ownerTokenHash, ownerToken))
+    .map((record) => record.entry)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * The entry, or undefined when it is missing or saved by another owner
+ */
+export async function getValuation(
+  id: string,
+  ownerToken: string,
+): Promise<SavedValuation | undefined> {
+  await ready();
+  const record = ownedRecord(id, ownerToken);
+  return typeof record === "string" ? undefined : record.entry;
+}
+
+/**
+ * Save an entry under the token; an id saved by another owner is refused
+ */
+export async function putValuation(
+  entry: SavedValuation,
+  ownerToken: string,
+): Promise<"saved" | "forbidden"> {
+  await ready();
+  if (ownedRecord(entry.id, ownerToken) === "forbidden") return "forbidden";
+  valuations.set(entry.id, { entry, ownerTokenHash: hashToken(ownerToken) });
+  await persist();
+  return "saved";
+}
+
+export async function renameValuation(
+  id: string,
+  name: string,
+  ownerToken: string,
+): Promise<SavedValuation | "not-found" | "forbidden"> {
+  await ready();
+  const record = ownedRecord(id, ownerToken);
+  if (typeof record === "string") return record;
+  record.entry = { ...record.entry, name, updatedAt: new Date().toISOString() };
+  await persist();
+  return record.entry;
+}
+
+export async function deleteValuation(
+  id: string,
+  ownerToken: string,
+): Promise<"deleted" | "not-found" | "forbidden"> {
+  await ready();
+  const record = ownedRecord(id, ownerToken);
+  if (typeof record === "string") return record;
+  valuations.delete(id);
+  await persist();
+  return "deleted";
+}
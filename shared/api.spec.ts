@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatSchemaIssues,
+  valuationReportSchema,
+  wizardDataSchema,
+} from "./api";
+import { money } from "./money";
+import { runValuation } from "./valuation";
+
+const report = runValuation({
+  step1: {
+    businessName: "Acme",
+    country: "United States",
+    industry: "saas",
+    stage: "launched",
+    isLaunched: true,
+  },
+  step2: { revenue: money(500_000) },
+});
+
+describe("wizardDataSchema", () => {
+  it("migrates plain numbers and numeric form strings to Money", () => {
+    const parsed = wizardDataSchema.parse({
+      step2: { revenue: "1200", monthlyBurnRate: "", fundingRaised: 50_000 },
+    });
+    expect(parsed.step2).toEqual({
+      revenue: money(1200),
+      monthlyBurnRate: undefined,
+      fundingRaised: money(50_000),
+    });
+  });
+
+  it("keeps the scale and currency of Money values", () => {
+    const parsed = wizardDataSchema.parse({
+      step2: { revenue: money(1.5, "millions", "EUR") },
+    });
+    expect(parsed.step2.revenue).toEqual(money(1.5, "millions", "EUR"));
+    expect(
+      wizardDataSchema.safeParse({
+        step2: { revenue: { amount: 1, scale: "lakhs", currency: "INR" } },
+      }).success,
+    ).toBe(false);
+  });
+
+  it("rejects payloads from a newer schema version", () => {
+    expect(wizardDataSchema.safeParse({ schemaVersion: 2 }).success).toBe(
+      false,
+    );
+    expect(wizardDataSchema.safeParse({ schemaVersion: 1 }).success).toBe(true);
+  });
+});
+
+describe("valuationReportSchema", () => {
+  it("accepts reports produced by the in-house engine", () => {
+    expect(valuationReportSchema.safeParse(report).success).toBe(true);
+  });
+
+  it("declares ranges without a scale as millions of US dollars", () => {
+    const legacy = structuredClone(report) as any;
+    legacy.finalValuation.finalRange = { lower: 3, upper: 9 };
+    const parsed = valuationReportSchema.parse(legacy);
+    expect(parsed.finalValuation.finalRange).toEqual({
+      lower: 3,
+      upper: 9,
+      scale: "millions",
+      currency: "USD",
+    });
+  });
+
+  it("reports the path of a malformed field", () => {
+    const malformed = structuredClone(report);
+    malformed.calculations[1].valuationRange.lower = NaN;
+    (malformed.finalValuation as any).finalRange = "$5M-$8M";
+
+    const parsed = valuationReportSchema.safeParse(malformed);
+    expect(parsed.success).toBe(false);
+    if (!parsed.success) {
+      const issues = formatSchemaIssues(parsed.error);
+      expect(issues).toContain(
+        "calculations[1].valuationRange.lower: Expected number, received nan",
+      );
+      expect(
+        issues.some((issue) => issue.startsWith("finalValuation.finalRange:")),
+      ).toBe(true);
+    }
+  });
+
+  it("rejects inverted ranges", () => {
+    const inverted = structuredClone(report);
+    inverted.finalValuation.finalRange = {
+      ...inverted.finalValuation.finalRange,
+      lower: 9,
+      upper: 3,
+    };
+    const parsed = valuationReportSchema.safeParse(inverted);
+    expect(parsed.success).toBe(false);
+  });
+});
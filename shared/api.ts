@@ -3,6 +3,16 @@
  * Useful to share types between client and server
  * and/or small pure JS functions that can be used on both client and server
  */
+import { z } from "zod";
+import { MAX_DOCUMENT_TEXT, MAX_DOCUMENTS } from "./documents";
+import {
+  DEFAULT_CURRENCY,
+  money,
+  UNIT_SCALES,
+  type Money,
+  type MoneyRange,
+  type UnitScale,
+} from "./money";
 
 /**
  * Example response type for /api/demo
@@ -10,3 +20,628 @@
 export interface DemoResponse {
   message: string;
 }
+
+// Empty form inputs arrive as "" or null; numeric strings are accepted too
+const optionalNumber = z.preprocess(
+  (value) =>
+    value === "" || value === null
+      ? undefined
+      : typeof value === "string"
+        ? Number(value)
+        : value,
+  z.number().finite().optional(),
+);
+
+const unitScaleSchema = z.enum(
+  Object.keys(UNIT_SCALES) as [UnitScale, ...UnitScale[]],
+);
+
+const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, "expected an ISO 4217 currency code");
+
+/**
+ * Amount with an explicit unit scale and currency, see ./money. The money
+ * schemas are cast to the ./money interfaces because without
+ * strictNullChecks zod infers every key as optional.
+ */
+export const moneySchema = z.object({
+  amount: z.number().finite(),
+  scale: unitScaleSchema,
+  currency: currencyCodeSchema,
+}) as z.ZodType<Money>;
+
+// Wizard amounts saved before the Money model were plain numbers (or numeric
+// strings) in whole US dollars; they are migrated on parse
+const optionalMoney = z.preprocess((value) => {
+  if (value === "" || value === null) return undefined;
+  if (typeof value === "string") return money(Number(value));
+  if (typeof value === "number") return money(value);
+  return value;
+}, moneySchema.optional());
+
+/**
+ * Version of the WizardData and ValuationReport schemas below. Payloads may
+ * carry it as `schemaVersion`; a payload from a newer version is rejected
+ * rather than misread.
+ */
+export const SCHEMA_VERSION = 1;
+
+const schemaVersionField = z.literal(SCHEMA_VERSION).optional();
+
+/**
+ * File attached in the AI extras step. Uploads to /api/documents carry the
+ * stored document's id and its extracted text.
+ */
+export const uploadedFileSchema = z.object({
+  name: z.string(),
+  size: z.number().nonnegative(),
+  type: z.string(),
+  uploadedAt: z.string().optional(),
+  documentId: z.string().optional(),
+  text: z.string().max(MAX_DOCUMENT_TEXT).optional(),
+  truncated: z.boolean().optional(),
+});
+
+export type UploadedFile = z.infer<typeof uploadedFileSchema>;
+
+/**
+ * Document held by the server; response of POST and GET /api/documents
+ */
+export const storedDocumentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  size: z.number().nonnegative(),
+  type: z.string(),
+  uploadedAt: z.string(),
+  text: z.string().max(MAX_DOCUMENT_TEXT),
+  truncated: z.boolean(),
+});
+
+export type StoredDocument = z.infer<typeof storedDocumentSchema>;
+
+/**
+ * Named what-if case over the wizard answers. Only the fields present in
+ * `overrides` replace the step2/step3 values; probability is 0-100.
+ */
+export const scenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  probability: z.number().min(0).max(100),
+  overrides: z.object({
+    step2: z
+      .object({
+        revenue: optionalMoney,
+        monthlyBurnRate: optionalMoney,
+        netProfitLoss: optionalMoney,
+      })
+      .optional(),
+    step3: z
+      .object({
+        customerCount: optionalNumber,
+        growthRate: optionalNumber,
+      })
+      .optional(),
+  }),
+});
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+
+/**
+ * One month of the detailed financial input. Amounts are whole units of the
+ * series currency; costs are total operating costs for the month.
+ */
+export const monthlyFiguresSchema = z.object({
+  revenue: z.number().finite(),
+  costs: z.number().finite().nonnegative(),
+  headcount: z.number().int().nonnegative().optional(),
+  customers: z.number().int().nonnegative().optional(),
+});
+
+export type MonthlyFigures = z.infer<typeof monthlyFiguresSchema>;
+
+/**
+ * Optional detailed mode of the financial step: 12-36 consecutive months
+ * starting at `startMonth` (YYYY-MM). When present the step2 and step3
+ * snapshot answers are derived from it.
+ */
+export const timeSeriesSchema = z.object({
+  startMonth: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "startMonth must be YYYY-MM"),
+  currency: currencyCodeSchema.default(DEFAULT_CURRENCY),
+  months: z.array(monthlyFiguresSchema).min(12).max(36),
+  // Cash in the bank at the end of the last month
+  cashBalance: z.number().nonnegative().optional(),
+});
+
+export type TimeSeries = z.infer<typeof timeSeriesSchema>;
+
+/**
+ * Recurring-revenue answers collected for SaaS-like industries, see
+ * ./unitEconomics. Percentages are 0-100; churn is monthly and net revenue
+ * retention annual.
+ */
+export const unitEconomicsSchema = z.object({
+  arr: optionalMoney,
+  grossMargin: optionalNumber,
+  logoChurn: optionalNumber,
+  revenueChurn: optionalNumber,
+  nrr: optionalNumber,
+  // Blended acquisition cost per new customer
+  cac: optionalMoney,
+  paybackMonths: optionalNumber,
+});
+
+export type UnitEconomics = z.infer<typeof unitEconomicsSchema>;
+
+/**
+ * Holder of common or preferred shares in the cap table
+ */
+export const shareholderSchema = z.object({
+  name: z.string().trim().min(1),
+  shares: z.number().int().nonnegative(),
+});
+
+export type Shareholder = z.infer<typeof shareholderSchema>;
+
+/**
+ * Liquidation preference of a preferred share class. participationCap is the
+ * total return, as a multiple of the amount invested, at which participation
+ * stops; higher seniority is paid first and equal seniority pari passu.
+ */
+export const preferenceTermsSchema = z.object({
+  preferenceMultiple: z.number().min(0).default(1),
+  participating: z.boolean().default(false),
+  participationCap: z.number().positive().optional(),
+  seniority: z.number().int().default(0),
+});
+
+export type PreferenceTerms = z.infer<typeof preferenceTermsSchema>;
+
+/**
+ * Preferred shares bought in an earlier priced round
+ */
+export const preferredHolderSchema = shareholderSchema
+  .merge(preferenceTermsSchema)
+  .extend({
+    invested: z.number().nonnegative().default(0),
+  });
+
+export type PreferredHolder = z.infer<typeof preferredHolderSchema>;
+
+/**
+ * Largest conversion discount, in percent. At 100 the conversion price
+ * would be zero and the conversion shares infinite.
+ */
+export const MAX_CONVERTIBLE_DISCOUNT = 95;
+
+/**
+ * SAFE or convertible note outstanding before the priced round. Amounts are
+ * whole units of the cap table currency; interest is 0-100 and the discount
+ * 0-MAX_CONVERTIBLE_DISCOUNT.
+ */
+export const convertibleSchema = z.object({
+  name: z.string().trim().min(1),
+  kind: z.enum(["safe", "note"]),
+  principal: z.number().positive(),
+  valuationCap: z.number().positive().optional(),
+  discount: z.number().min(0).max(MAX_CONVERTIBLE_DISCOUNT).optional(),
+  // Simple annual interest, notes only
+  interestRate: z.number().min(0).max(100).optional(),
+  monthsOutstanding: z.number().nonnegative().optional(),
+});
+
+export type Convertible = z.infer<typeof convertibleSchema>;
+
+/**
+ * Ownership before the planned raise, see ./capTable and ./exitWaterfall.
+ * The option pool is every share reserved for employees, granted or not;
+ * targetOptionPool is the pool the new investors require as a share (0-100)
+ * of post-money.
+ */
+export const capTableSchema = z.object({
+  currency: currencyCodeSchema.default(DEFAULT_CURRENCY),
+  founders: z.array(shareholderSchema).min(1),
+  optionPool: z.number().int().nonnegative().default(0),
+  investors: z.array(preferredHolderSchema).default([]),
+  convertibles: z.array(convertibleSchema).default([]),
+  targetOptionPool: z.number().min(0).max(50).optional(),
+  // Preference of the shares sold in the planned round; converted SAFEs and
+  // notes get the same terms
+  roundTerms: preferenceTermsSchema.optional(),
+});
+
+export type CapTable = z.infer<typeof capTableSchema>;
+
+/**
+ * Relative weight (0-100) per valuation method name, see ./blend. Also the
+ * body and response of GET/PUT /api/settings/method-weights, which hold the
+ * team's defaults.
+ */
+export const methodWeightsSchema = z.record(
+  z.string().min(1),
+  z.number().min(0).max(100),
+);
+
+export type MethodWeights = z.infer<typeof methodWeightsSchema>;
+
+/**
+ * Answers collected by the modern wizard, one object per step.
+ * Request body of POST /api/valuation-report and /api/valuation-report-stream
+ */
+export const wizardDataSchemaV1 = z.object({
+  schemaVersion: schemaVersionField,
+  step1: z
+    .object({
+      businessName: z.string(),
+      country: z.string(),
+      industry: z.string(),
+      stage: z.string(),
+      isLaunched: z.boolean(),
+      // Currency the financials in step2 are entered in
+      currency: currencyCodeSchema.optional(),
+    })
+    .optional(),
+  step2: z
+    .object({
+      revenue: optionalMoney,
+      monthlyBurnRate: optionalMoney,
+      netProfitLoss: optionalMoney,
+      fundingRaised: optionalMoney,
+      planningToRaise: optionalMoney,
+      skipFinancials: z.boolean().optional(),
+    })
+    .optional(),
+  step3: z
+    .object({
+      customerCount: optionalNumber,
+      growthRate: optionalNumber,
+      growthPeriod: z.string().optional(),
+      uniqueValue: z.string().optional(),
+      competitors: z.string().optional(),
+      unitEconomics: unitEconomicsSchema.optional(),
+      // Answers to the industry's metric pack, see ./metricPacks
+      industryMetrics: z
+        .record(z.string(), z.union([z.number(), z.string(), moneySchema]))
+        .optional(),
+      skipTraction: z.boolean().optional(),
+    })
+    .optional(),
+  step4: z
+    .object({
+      linkedinUrl: z.string().optional(),
+      crunchbaseUrl: z.string().optional(),
+      websiteUrl: z.string().optional(),
+      uploadedFiles: z.array(uploadedFileSchema).max(MAX_DOCUMENTS).optional(),
+      skipExtras: z.boolean().optional(),
+    })
+    .optional(),
+  scenarios: z.array(scenarioSchema).optional(),
+  timeSeries: timeSeriesSchema.optional(),
+  capTable: capTableSchema.optional(),
+  methodWeights: methodWeightsSchema.optional(),
+});
+
+export const wizardDataSchema = wizardDataSchemaV1;
+
+export type WizardData = z.infer<typeof wizardDataSchema>;
+
+/**
+ * Valuation range; NaN and inverted ranges are rejected. Ranges without a
+ * scale or currency are denominated in millions of US dollars, which is
+ * what the FastAPI backends return.
+ */
+export const valuationRangeSchema = z
+  .object({
+    lower: z.number().finite(),
+    upper: z.number().finite(),
+    scale: unitScaleSchema.default("millions"),
+    currency: currencyCodeSchema.default(DEFAULT_CURRENCY),
+  })
+  .refine((range) => range.lower <= range.upper, {
+    message: "lower must not exceed upper",
+    path: ["lower"],
+  }) as z.ZodType<MoneyRange, z.ZodTypeDef, unknown>;
+
+/**
+ * Monte Carlo distribution of the blended valuation midpoint. Percentiles
+ * and histogram bounds share the scale and currency, like a range.
+ */
+export const valuationDistributionSchema = z.object({
+  iterations: z.number().int().positive(),
+  p10: z.number().finite(),
+  p50: z.number().finite(),
+  p90: z.number().finite(),
+  mean: z.number().finite(),
+  scale: unitScaleSchema.default("millions"),
+  currency: currencyCodeSchema.default(DEFAULT_CURRENCY),
+  histogram: z.array(
+    z.object({
+      lower: z.number().finite(),
+      upper: z.number().finite(),
+      count: z.number().int().nonnegative(),
+    }),
+  ),
+});
+
+export type ValuationDistribution = z.infer<typeof valuationDistributionSchema>;
+
+export const competitorBenchmarkSchema = z.object({
+  name: z.string(),
+  valuation: z.union([z.string(), z.number()]),
+  difference: z.string().optional(),
+});
+
+export type CompetitorBenchmark = z.infer<typeof competitorBenchmarkSchema>;
+
+export const methodComparisonSchema = z.object({
+  method: z.string(),
+  range: z.string(),
+  rationale: z.string().optional(),
+});
+
+export const valuationCalculationSchema = z.object({
+  method: z.string(),
+  valuationRange: valuationRangeSchema,
+  explanation: z.string(),
+  // Backends return either a formula string or a breakdown of named inputs
+  calculation: z.union([z.string(), z.record(z.unknown())]),
+  narrative: z.string(),
+});
+
+export type ValuationCalculation = z.infer<typeof valuationCalculationSchema>;
+
+/**
+ * Valuation report rendered by the results screen and the PDF export
+ */
+export const valuationReportSchemaV1 = z.object({
+  schemaVersion: schemaVersionField,
+  businessSummary: z.object({
+    summary: z.string(),
+    stageAssessment: z.string(),
+    keyStrengths: z.array(z.string()).optional(),
+    weaknessesOrRisks: z.array(z.string()).optional(),
+  }),
+  recommendedMethods: z.object({
+    recommendedMethods: z.array(
+      z.object({
+        method: z.string(),
+        confidence: z.number().min(0).max(1),
+        reason: z.string(),
+      }),
+    ),
+  }),
+  calculations: z.array(valuationCalculationSchema),
+  competitorAnalysis: z
+    .object({
+      competitors: z.array(z.string()).optional(),
+      competitorBenchmarks: z.array(competitorBenchmarkSchema).optional(),
+      commentary: z.string().optional(),
+    })
+    .optional(),
+  strategicContext: z.string().optional(),
+  finalValuation: z.object({
+    finalRange: valuationRangeSchema,
+    // Present when the Monte Carlo mode was run
+    distribution: valuationDistributionSchema.optional(),
+    methodComparisons: z
+      .union([z.string(), z.array(methodComparisonSchema)])
+      .optional(),
+    justification: z.string().optional(),
+    recommendations: z.union([z.array(z.string()), z.string()]).optional(),
+  }),
+});
+
+export const valuationReportSchema = valuationReportSchemaV1;
+
+export type ValuationReport = z.infer<typeof valuationReportSchema>;
+
+/**
+ * Completed valuation run kept in the history store. Body of
+ * POST /api/valuations; confidence is the 0-100 data completeness score.
+ */
+export const savedValuationSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+  wizardData: wizardDataSchema,
+  report: valuationReportSchema,
+  confidence: z.number().min(0).max(100),
+  backendMode: z.string(),
+});
+
+export type SavedValuation = z.infer<typeof savedValuationSchema>;
+
+/**
+ * Body of PATCH /api/valuations/:id
+ */
+export const renameValuationSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+});
+
+export const DISCLOSABLE_STEPS = ["step1", "step2", "step3", "step4"] as const;
+
+/**
+ * Body of POST /api/shares. Only the listed wizard steps are disclosed;
+ * `redactFinancials` drops the step2 amounts even when step2 is listed.
+ */
+export const createShareSchema = z
+  .object({
+    report: valuationReportSchema,
+    wizardData: wizardDataSchema,
+    confidence: z.number().min(0).max(100).optional(),
+    disclosedSteps: z.array(z.enum(DISCLOSABLE_STEPS)).default(["step1"]),
+    redactFinancials: z.boolean().default(false),
+    expiresAt: z.string().datetime().optional(),
+  })
+  .refine(
+    (share) => !share.expiresAt || Date.parse(share.expiresAt) > Date.now(),
+    { message: "expiresAt must be in the future", path: ["expiresAt"] },
+  );
+
+export type CreateShareRequest = z.input<typeof createShareSchema>;
+
+/**
+ * Read-only snapshot served by GET /api/shares/:id
+ */
+export const sharedReportSchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.string(),
+  expiresAt: z.string().optional(),
+  revokedAt: z.string().optional(),
+  report: valuationReportSchema,
+  wizardData: wizardDataSchema,
+  confidence: z.number().min(0).max(100).optional(),
+  redactedFinancials: z.boolean(),
+});
+
+export type SharedReport = z.infer<typeof sharedReportSchema>;
+
+/**
+ * Response of POST /api/shares; the owner token is required to revoke
+ * the link and is not stored in plain text on the server
+ */
+export interface CreateShareResponse {
+  share: SharedReport;
+  ownerToken: string;
+}
+
+/**
+ * Render schema issues as "calculations[2].valuationRange.lower: message"
+ */
+export function formatSchemaIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.reduce<string>(
+      (result, segment) =>
+        typeof segment === "number"
+          ? `${result}[${segment}]`
+          : result
+            ? `${result}.${segment}`
+            : String(segment),
+      "",
+    );
+    return `${path || "(root)"}: ${issue.message}`;
+  });
+}
+
+/**
+ * One report section of /api/valuation-report-stream.
+ * Sections arrive in report order; `progress` runs from 0 to 1.
+ */
+export type ValuationStreamEvent =
+  | {
+      section: "businessSummary";
+      data: ValuationReport["businessSummary"];
+      progress: number;
+    }
+  | {
+      section: "recommendedMethods";
+      data: ValuationReport["recommendedMethods"];
+      progress: number;
+    }
+  | {
+      section: "calculation";
+      data: ValuationReport["calculations"][number];
+      index: number;
+      total: number;
+      progress: number;
+    }
+  | {
+      section: "competitorAnalysis";
+      data: ValuationReport["competitorAnalysis"];
+      progress: number;
+    }
+  | {
+      section: "strategicContext";
+      data: ValuationReport["strategicContext"];
+      progress: number;
+    }
+  | {
+      section: "finalValuation";
+      data: ValuationReport["finalValuation"];
+      progress: number;
+    }
+  | { section: "complete"; progress: number };
+
+/**
+ * One newline-delimited JSON line of /api/valuation-report-stream: a
+ * section, or the error that ended the stream
+ */
+export type ValuationStreamChunk =
+  | ValuationStreamEvent
+  | { error: true; message: string };
+
+export const valuationJobStatusSchema = z.enum([
+  "queued",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+]);
+
+export type ValuationJobStatus = z.infer<typeof valuationJobStatusSchema>;
+
+/**
+ * Body of POST /api/jobs. The amounts are in the reporting currency;
+ * `fxRates` is the submitter's table for valuing them in the base currency.
+ */
+export const createValuationJobSchema = z.object({
+  wizardData: wizardDataSchema,
+  fxRates: z.record(z.number().positive().finite()).optional(),
+});
+
+export type CreateValuationJobRequest = z.input<
+  typeof createValuationJobSchema
+>;
+
+/**
+ * Background valuation run served by GET /api/jobs/:id. `events` holds the
+ * report sections produced so far, in stream order.
+ */
+export interface ValuationJob {
+  id: string;
+  status: ValuationJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  wizardData: WizardData;
+  fxRates?: Record<string, number>;
+  events: ValuationStreamEvent[];
+  error?: string;
+}
+
+/**
+ * Report stored under the content hash of its request; served by
+ * GET /api/report-cache/:key
+ */
+export const cachedReportSchema = z.object({
+  key: z.string().regex(/^[0-9a-f]{64}$/),
+  report: valuationReportSchema,
+  cachedAt: z.string(),
+});
+
+export type CachedReport = z.infer<typeof cachedReportSchema>;
+
+/**
+ * FastAPI-compatible validation error body returned with HTTP 422
+ */
+export interface ValidationErrorResponse {
+  detail: Array<{
+    loc: Array<string | number>;
+    msg: string;
+    type: string;
+  }>;
+}
+
+export function toValidationErrorResponse(
+  error: z.ZodError,
+): ValidationErrorResponse {
+  return {
+    detail: error.issues.map((issue) => ({
+      loc: ["body", ...issue.path],
+      msg: issue.message,
+      type: issue.code,
+    })),
+  };
+}
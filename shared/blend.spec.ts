@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import type { ValuationReport } from "./api";
+import { applyMethodWeights, blendValuation, seedMethodWeights } from "./blend";
+import { moneyRange } from "./money";
+
+const calculation = (method: string, lower: number, upper: number) => ({
+  method,
+  valuationRange: moneyRange(lower, upper, "millions", "USD"),
+  calculation: "",
+  narrative: "",
+});
+
+const report = {
+  recommendedMethods: {
+    recommendedMethods: [
+      { method: "Revenue Multiple", confidence: 0.8, reason: "" },
+      { method: "DCF", confidence: 0.2, reason: "" },
+    ],
+  },
+  calculations: [
+    calculation("Revenue Multiple", 10, 20),
+    calculation("DCF", 4, 6),
+    calculation("Scorecard", 8, 12),
+  ],
+  finalValuation: { finalRange: moneyRange(4, 20, "millions", "USD") },
+} as unknown as ValuationReport;
+
+describe("seedMethodWeights", () => {
+  it("scales the confidence by the team default", () => {
+    expect(seedMethodWeights(report, { DCF: 60 })).toEqual({
+      "Revenue Multiple": 80,
+      DCF: 12,
+      Scorecard: 50,
+    });
+  });
+});
+
+describe("applyMethodWeights", () => {
+  it("reports the weighted blend once weights are set", () => {
+    const weighted = applyMethodWeights(report, {
+      "Revenue Multiple": 75,
+      DCF: 25,
+    });
+    expect(weighted.finalValuation.finalRange).toEqual(
+      moneyRange(8.5, 16.5, "millions", "USD"),
+    );
+  });
+
+  it("keeps the backend's range until weights are set", () => {
+    expect(applyMethodWeights(report, undefined)).toBe(report);
+  });
+
+  it("blends the seeded weights when the backend has no range", () => {
+    const withoutRange = { ...report, finalValuation: {} } as ValuationReport;
+    expect(
+      applyMethodWeights(withoutRange, undefined).finalValuation.finalRange,
+    ).toEqual(blendValuation(report, seedMethodWeights(report)).range);
+  });
+
+  it("keeps the backend's range when no method carries weight", () => {
+    expect(applyMethodWeights(report, {})).toBe(report);
+  });
+});
+
+describe("blendValuation", () => {
+  it("weights each range by its share of the total weight", () => {
+    const blend = blendValuation(report, {
+      "Revenue Multiple": 75,
+      DCF: 25,
+    });
+    expect(blend.range).toEqual(moneyRange(8.5, 16.5, "millions", "USD"));
+    expect(blend.midpoint).toBe(12_500_000);
+    expect(blend.contributions.map(({ contribution }) => contribution)).toEqual(
+      [11_250_000, 1_250_000, 0],
+    );
+  });
+
+  it("needs at least one positive weight", () => {
+    expect(() => blendValuation(report, {})).toThrow(
+      "At least one method needs a weight above 0",
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Weighted blend of the valuation methods in a report.
+ *
+ * Each calculation's range is weighted by the method's share of the total
+ * weight. Weights are seeded from the reported method confidence, scaled by
+ * the team default when there is one for the method.
+ */
+import type { MethodWeights, ValuationReport } from "./api";
+import { convertRange, DEFAULT_FX_RATES, type FxRates } from "./currency";
+import {
+  moneyRange,
+  rangeToUnits,
+  rescaleRange,
+  type MoneyRange,
+} from "./money";
+
+// Confidence of a calculated method the report does not recommend
+const UNRANKED_CONFIDENCE = 0.5;
+
+// Team default of a method the team has not weighted
+const NEUTRAL_TEAM_WEIGHT = 100;
+
+export interface MethodContribution {
+  method: string;
+  // Share of the total weight, 0-1
+  weight: number;
+  // Whole units of the blend currency
+  lower: number;
+  upper: number;
+  // Weighted midpoint added to the blended midpoint
+  contribution: number;
+}
+
+export interface BlendedValuation {
+  range: MoneyRange;
+  midpoint: number;
+  contributions: MethodContribution[];
+}
+
+/**
+ * Starting weights for every calculated method: the reported confidence as
+ * 0-100, scaled by the team default (100 = as reported)
+ */
+export function seedMethodWeights(
+  report: ValuationReport,
+  defaults: MethodWeights = {},
+): MethodWeights {
+  const recommended = report.recommendedMethods?.recommendedMethods ?? [];
+  return Object.fromEntries(
+    (report.calculations ?? []).map(({ method }) => {
+      const confidence = recommended.find(
+        (entry) => entry.method === method,
+      )?.confidence;
+      return [
+        method,
+        Math.round(
+          (defaults[method] ?? NEUTRAL_TEAM_WEIGHT) *
+            (confidence ?? UNRANKED_CONFIDENCE),
+        ),
+      ];
+    }),
+  );
+}
+
+/**
+ * Blend the calculated ranges by weight. The result is in the currency of
+ * the first calculation and the scale of the report's final range.
+ */
+export function blendValuation(
+  report: ValuationReport,
+  weights: MethodWeights,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): BlendedValuation {
+  const calculations = report.calculations ?? [];
+  const totalWeight = calculations.reduce(
+    (sum, { method }) => sum + (weights[method] ?? 0),
+    0,
+  );
+  if (calculations.length === 0 || totalWeight <= 0) {
+    throw new Error("At least one method needs a weight above 0");
+  }
+  const currency = calculations[0].valuationRange.currency;
+
+  const contributions = calculations.map(({ method, valuationRange }) => {
+    const weight = (weights[method] ?? 0) / totalWeight;
+    const { lower, upper } = rangeToUnits(
+      convertRange(valuationRange, currency, fxRates),
+    );
+    return {
+      method,
+      weight,
+      lower,
+      upper,
+      contribution: (weight * (lower + upper)) / 2,
+    };
+  });
+  const weighted = (bound: "lower" | "upper") =>
+    contributions.reduce((sum, entry) => sum + entry.weight * entry[bound], 0);
+
+  return {
+    range: rescaleRange(
+      moneyRange(weighted("lower"), weighted("upper"), "units", currency),
+      report.finalValuation?.finalRange?.scale ?? "millions",
+    ),
+    midpoint: contributions.reduce((sum, entry) => sum + entry.contribution, 0),
+    contributions,
+  };
+}
+
+/**
+ * The report with the final range it is reported at. Precedence:
+ * 1. the blend of `weights`, once weights are set for the run or the team
+ * 2. the backend's own final range
+ * 3. the blend of the confidence-seeded weights, for reports without one
+ */
+export function applyMethodWeights(
+  report: ValuationReport,
+  weights: MethodWeights | undefined,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): ValuationReport {
+  const blendWeights =
+    weights ??
+    (report.finalValuation?.finalRange ? undefined : seedMethodWeights(report));
+  if (!blendWeights) return report;
+  try {
+    const { range } = blendValuation(report, blendWeights, fxRates);
+    return {
+      ...report,
+      finalValuation: { ...report.finalValuation, finalRange: range },
+    };
+  } catch {
+    // No method carries weight; the backend's range stands
+    return report;
+  }
+}
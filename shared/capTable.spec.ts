@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { convertibleSchema, type CapTable, type WizardData } from "./api";
+import {
+  convertibleAmount,
+  defaultCapTable,
+  modelRound,
+  plannedRound,
+} from "./capTable";
+import { money, moneyRange } from "./money";
+
+const capTable: CapTable = {
+  currency: "USD",
+  founders: [
+    { name: "Ada", shares: 6_000_000 },
+    { name: "Grace", shares: 3_000_000 },
+  ],
+  optionPool: 1_000_000,
+  investors: [],
+  convertibles: [],
+  targetOptionPool: 10,
+};
+
+describe("modelRound", () => {
+  it("tops up the option pool before the new money", () => {
+    const round = modelRound(capTable, {
+      preMoney: 10_000_000,
+      raise: 2_500_000,
+    });
+    expect(round.postMoney).toBe(12_500_000);
+    expect(round.poolIncrease).toBe(285_714);
+    const after = (name: string) =>
+      round.holders.find((holder) => holder.name === name).ownershipAfter;
+    expect(after("Option pool")).toBeCloseTo(0.1, 4);
+    expect(after("New investors")).toBeCloseTo(0.2, 4);
+    expect(
+      round.dilution.map(({ founderOwnership }) => founderOwnership),
+    ).toEqual([
+      0.9,
+      expect.closeTo(0.875, 4),
+      expect.closeTo(0.875, 4),
+      expect.closeTo(0.7, 4),
+    ]);
+  });
+
+  it("converts SAFEs at the better of cap and discount", () => {
+    const round = modelRound(
+      {
+        ...capTable,
+        targetOptionPool: 0,
+        convertibles: [
+          {
+            name: "Seed SAFE",
+            kind: "safe",
+            principal: 1_000_000,
+            valuationCap: 5_000_000,
+            discount: 20,
+          },
+          {
+            name: "Bridge note",
+            kind: "note",
+            principal: 100_000,
+            discount: 20,
+          },
+        ],
+      },
+      { preMoney: 20_000_000, raise: 5_000_000 },
+    );
+    const [safe, note] = round.conversions;
+    expect(safe.basis).toBe("cap");
+    expect(safe.price).toBe(0.5);
+    expect(safe.shares).toBe(2_000_000);
+    expect(note.basis).toBe("discount");
+    expect(note.price).toBeCloseTo(round.pricePerShare * 0.8);
+    // The pre-money includes the conversion shares
+    expect(
+      round.pricePerShare * (round.sharesAfter - round.newShares),
+    ).toBeCloseTo(20_000_000, -2);
+  });
+
+  it("rejects a 100% discount and keeps the round finite if one slips in", () => {
+    const note = {
+      name: "Bridge note",
+      kind: "note" as const,
+      principal: 100_000,
+      discount: 100,
+    };
+    expect(convertibleSchema.safeParse(note).success).toBe(false);
+    expect(convertibleSchema.safeParse({ ...note, discount: 95 }).success).toBe(
+      true,
+    );
+
+    const round = modelRound(
+      { ...capTable, convertibles: [note] },
+      { preMoney: 20_000_000, raise: 5_000_000 },
+    );
+    expect(Number.isFinite(round.conversions[0].shares)).toBe(true);
+    expect(Number.isFinite(round.pricePerShare)).toBe(true);
+  });
+
+  it("accrues simple interest on notes and rejects an empty raise", () => {
+    expect(
+      convertibleAmount({
+        name: "Note",
+        kind: "note",
+        principal: 100_000,
+        interestRate: 10,
+        monthsOutstanding: 18,
+      }),
+    ).toBeCloseTo(115_000);
+    expect(() => modelRound(capTable, { preMoney: 1, raise: 0 })).toThrow(
+      "Planned raise must be greater than 0",
+    );
+  });
+});
+
+describe("plannedRound", () => {
+  const wizardData: WizardData = {
+    step1: {
+      businessName: "Acme",
+      country: "Germany",
+      industry: "saas",
+      stage: "growth",
+      isLaunched: true,
+    },
+    step2: {
+      fundingRaised: money(500_000, "units", "EUR"),
+      planningToRaise: money(2, "millions", "EUR"),
+    },
+  };
+
+  it("uses the valuation midpoint and the planned raise", () => {
+    expect(
+      plannedRound(wizardData, moneyRange(8, 12, "millions", "USD"), "EUR", {
+        USD: 1,
+        EUR: 2,
+      }),
+    ).toEqual({ preMoney: 5_000_000, raise: 2_000_000 });
+    expect(
+      plannedRound({}, moneyRange(8, 12, "millions", "USD"), "USD"),
+    ).toBeUndefined();
+  });
+
+  it("seeds the editor with prior funding as a SAFE", () => {
+    const seeded = defaultCapTable(wizardData);
+    expect(seeded.currency).toBe("EUR");
+    expect(seeded.convertibles).toEqual([
+      expect.objectContaining({ kind: "safe", principal: 500_000 }),
+    ]);
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Cap table and dilution modelling for the planned priced round.
+ *
+ * The pre-money valuation is fully diluted: it includes the option pool
+ * top-up the new investors ask for and the shares issued to converting SAFEs
+ * and notes (the "option pool shuffle"), so only existing holders are
+ * diluted by both. Amounts are whole units of the cap table currency.
+ */
+import {
+  MAX_CONVERTIBLE_DISCOUNT,
+  type CapTable,
+  type Convertible,
+  type WizardData,
+} from "./api";
+import {
+  convertAmount,
+  convertMoney,
+  DEFAULT_FX_RATES,
+  reportingCurrency,
+  type FxRates,
+} from "./currency";
+import { rangeToUnits, toUnits, type MoneyRange } from "./money";
+
+export type HolderKind =
+  | "founder"
+  | "investor"
+  | "pool"
+  | "convertible"
+  | "new";
+
+export interface HolderPosition {
+  name: string;
+  kind: HolderKind;
+  sharesBefore: number;
+  sharesAfter: number;
+  // Fully diluted, 0-1
+  ownershipBefore: number;
+  ownershipAfter: number;
+}
+
+export interface ConversionResult {
+  name: string;
+  kind: Convertible["kind"];
+  // Principal plus accrued note interest
+  amount: number;
+  price: number;
+  // Which term set the conversion price
+  basis: "cap" | "discount" | "round";
+  shares: number;
+}
+
+export interface DilutionStep {
+  label: string;
+  // Combined founder ownership after the step, 0-1
+  founderOwnership: number;
+}
+
+export interface RoundModel {
+  currency: string;
+  preMoney: number;
+  raise: number;
+  postMoney: number;
+  pricePerShare: number;
+  newShares: number;
+  poolIncrease: number;
+  sharesBefore: number;
+  sharesAfter: number;
+  holders: HolderPosition[];
+  conversions: ConversionResult[];
+  dilution: DilutionStep[];
+}
+
+export interface PlannedRound {
+  preMoney: number;
+  raise: number;
+}
+
+const MAX_ITERATIONS = 100;
+
+const sumShares = (holders: Array<{ shares?: number }>) =>
+  holders.reduce((sum, holder) => sum + (holder.shares ?? 0), 0);
+
+/**
+ * Amount that converts: the principal, plus simple interest for notes
+ */
+export function convertibleAmount(convertible: Convertible): number {
+  if (convertible.kind !== "note" || !convertible.interestRate) {
+    return convertible.principal;
+  }
+  const years = (convertible.monthsOutstanding ?? 0) / 12;
+  return convertible.principal * (1 + (convertible.interestRate / 100) * years);
+}
+
+function conversionPrice(
+  convertible: Convertible,
+  roundPrice: number,
+  capShares: number,
+): Pick<ConversionResult, "price" | "basis"> {
+  let best: Pick<ConversionResult, "price" | "basis"> = {
+    price: roundPrice,
+    basis: "round",
+  };
+  if (convertible.discount) {
+    // Cap tables edited in the panel are not validated yet
+    const discount = Math.min(convertible.discount, MAX_CONVERTIBLE_DISCOUNT);
+    const price = roundPrice * (1 - discount / 100);
+    if (price < best.price) best = { price, basis: "discount" };
+  }
+  if (convertible.valuationCap) {
+    const price = convertible.valuationCap / capShares;
+    if (price < best.price) best = { price, basis: "cap" };
+  }
+  return best;
+}
+
+/**
+ * Model a priced round on top of the cap table. Pool top-up, conversion
+ * shares and the price depend on each other, so they are solved by
+ * iterating until the share counts settle.
+ */
+export function modelRound(
+  capTable: CapTable,
+  { preMoney, raise }: PlannedRound,
+): RoundModel {
+  if (!(preMoney > 0)) {
+    throw new Error("Pre-money valuation must be greater than 0");
+  }
+  if (!(raise > 0)) {
+    throw new Error("Planned raise must be greater than 0");
+  }
+  const investors = capTable.investors ?? [];
+  const convertibles = capTable.convertibles ?? [];
+  const pool = capTable.optionPool ?? 0;
+  const founderShares = sumShares(capTable.founders);
+  const sharesBefore = founderShares + sumShares(investors) + pool;
+  if (sharesBefore <= 0) {
+    throw new Error("The cap table needs at least one share outstanding");
+  }
+  const target = (capTable.targetOptionPool ?? 0) / 100;
+
+  let poolIncrease = 0;
+  let conversionShares = 0;
+  let price = 0;
+  let newShares = 0;
+  let conversions: ConversionResult[] = [];
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    price = preMoney / (sharesBefore + poolIncrease + conversionShares);
+    conversions = convertibles.map((convertible) => {
+      const amount = convertibleAmount(convertible);
+      const terms = conversionPrice(
+        convertible,
+        price,
+        sharesBefore + poolIncrease,
+      );
+      return {
+        name: convertible.name,
+        kind: convertible.kind,
+        amount,
+        ...terms,
+        shares: amount / terms.price,
+      };
+    });
+    const nextConversionShares = sumShares(conversions);
+    newShares = raise / price;
+    const sharesAfter =
+      sharesBefore + poolIncrease + nextConversionShares + newShares;
+    const nextPoolIncrease = Math.max(0, target * sharesAfter - pool);
+    const settled =
+      Math.abs(nextPoolIncrease - poolIncrease) < 0.5 &&
+      Math.abs(nextConversionShares - conversionShares) < 0.5;
+    poolIncrease = nextPoolIncrease;
+    conversionShares = nextConversionShares;
+    if (settled) break;
+  }
+
+  poolIncrease = Math.round(poolIncrease);
+  newShares = Math.round(newShares);
+  conversions = conversions.map((conversion) => ({
+    ...conversion,
+    shares: Math.round(conversion.shares),
+  }));
+  conversionShares = sumShares(conversions);
+  const sharesAfter =
+    sharesBefore + poolIncrease + conversionShares + newShares;
+
+  const position = (
+    name: string,
+    kind: HolderKind,
+    before: number,
+    after: number,
+  ): HolderPosition => ({
+    name,
+    kind,
+    sharesBefore: before,
+    sharesAfter: after,
+    ownershipBefore: before / sharesBefore,
+    ownershipAfter: after / sharesAfter,
+  });
+
+  const holders = [
+    ...capTable.founders.map(({ name, shares }) =>
+      position(name, "founder", shares, shares),
+    ),
+    ...investors.map(({ name, shares }) =>
+      position(name, "investor", shares, shares),
+    ),
+    position("Option pool", "pool", pool, pool + poolIncrease),
+    ...conversions.map(({ name, shares }) =>
+      position(name, "convertible", 0, shares),
+    ),
+    position("New investors", "new", 0, newShares),
+  ];
+
+  const afterPool = sharesBefore + poolIncrease;
+  const afterConversions = afterPool + conversionShares;
+  const dilution: DilutionStep[] = [
+    { label: "Before round", founderOwnership: founderShares / sharesBefore },
+    {
+      label: "Option pool top-up",
+      founderOwnership: founderShares / afterPool,
+    },
+    {
+      label: "SAFE & note conversion",
+      founderOwnership: founderShares / afterConversions,
+    },
+    { label: "New money", founderOwnership: founderShares / sharesAfter },
+  ];
+
+  return {
+    currency: capTable.currency,
+    preMoney,
+    raise,
+    postMoney: preMoney + raise,
+    pricePerShare: price,
+    newShares,
+    poolIncrease,
+    sharesBefore,
+    sharesAfter,
+    holders,
+    conversions,
+    dilution,
+  };
+}
+
+/**
+ * The round implied by the report: the midpoint of the final range as the
+ * pre-money and the "planning to raise" answer, both in `currency`.
+ * Undefined when no raise is planned.
+ */
+export function plannedRound(
+  wizardData: WizardData,
+  finalRange: MoneyRange,
+  currency: string,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): PlannedRound | undefined {
+  const planned = wizardData.step2?.planningToRaise;
+  if (!planned || !(planned.amount > 0)) return undefined;
+  const { lower, upper } = rangeToUnits(finalRange);
+  return {
+    preMoney: convertAmount(
+      (lower + upper) / 2,
+      finalRange.currency,
+      currency,
+      fxRates,
+    ),
+    raise: toUnits(convertMoney(planned, currency, fxRates)),
+  };
+}
+
+/**
+ * Starting point for the cap table editor: founders and a 10% pool, with
+ * any funding already raised treated as a SAFE
+ */
+export function defaultCapTable(
+  wizardData: WizardData,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): CapTable {
+  const currency = reportingCurrency(wizardData);
+  const raised = wizardData.step2?.fundingRaised;
+  return {
+    currency,
+    founders: [{ name: "Founders", shares: 9_000_000 }],
+    optionPool: 1_000_000,
+    investors: [],
+    convertibles:
+      raised && raised.amount > 0
+        ? [
+            {
+              name: "Prior SAFE",
+              kind: "safe",
+              principal: Math.round(
+                toUnits(convertMoney(raised, currency, fxRates)),
+              ),
+              discount: 20,
+            },
+          ]
+        : [],
+    targetOptionPool: 10,
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import type { SavedValuation, WizardData } from "./api";
+import { compareInputs, compareLists, compareValuations } from "./compare";
+import { money } from "./money";
+import { runValuation } from "./valuation";
+
+const baseline: WizardData = {
+  step1: {
+    businessName: "Acme Analytics",
+    country: "United States",
+    industry: "saas",
+    stage: "growth",
+    isLaunched: true,
+  },
+  step2: {
+    revenue: money(2_000_000),
+    monthlyBurnRate: money(150_000),
+  },
+  step3: { customerCount: 250, growthRate: 80, growthPeriod: "yearly" },
+};
+
+const rerun: WizardData = {
+  ...baseline,
+  step2: { ...baseline.step2, revenue: money(3_000_000) },
+};
+
+const saved = (id: string, wizardData: WizardData): SavedValuation => ({
+  id,
+  name: id,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  wizardData,
+  report: runValuation(wizardData),
+  confidence: 80,
+  backendMode: "server",
+});
+
+describe("compareInputs", () => {
+  it("flags only the fields that differ between runs", () => {
+    const rows = compareInputs([baseline, rerun]);
+    const changed = rows.filter((row) => row.changed);
+    expect(changed.map((row) => row.field)).toEqual(["revenue"]);
+    expect(changed[0].values).toEqual(["$2.00M", "$3.00M"]);
+    expect(changed[0].label).toBe("Revenue");
+  });
+});
+
+describe("compareLists", () => {
+  it("records which runs contain each item", () => {
+    const rows = compareLists([["Strong team"], ["Strong team", "Big market"]]);
+    expect(rows).toEqual([
+      { item: "Strong team", presentIn: [true, true], changed: false },
+      { item: "Big market", presentIn: [false, true], changed: true },
+    ]);
+  });
+});
+
+describe("compareValuations", () => {
+  it("reports the midpoint change of the final range against the baseline", () => {
+    const comparison = compareValuations([
+      saved("a", baseline),
+      saved("b", rerun),
+    ]);
+    expect(comparison.finalRange.changed).toBe(true);
+    expect(comparison.finalRange.deltas[0]).toBeNull();
+    expect(comparison.finalRange.deltas[1]).toBeGreaterThan(0);
+  });
+
+  it("leaves methods missing from a run as not computed", () => {
+    const first = saved("a", baseline);
+    const second = saved("b", baseline);
+    const [dropped] = first.report.calculations;
+    second.report = {
+      ...second.report,
+      calculations: second.report.calculations.slice(1),
+    };
+    const row = compareValuations([first, second]).methods.find(
+      (method) => method.label === dropped.method,
+    );
+    expect(row.ranges[1]).toBeNull();
+    expect(row.deltas[1]).toBeNull();
+    expect(row.changed).toBe(true);
+  });
+});
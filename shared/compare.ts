@@ -0,0 +1,216 @@
+/**
+ * Diffs between saved valuation runs.
+ *
+ * The first run is the baseline: range deltas are the relative change of the
+ * range midpoint against it. Ranges are compared in the base currency so runs
+ * from different backends line up.
+ */
+import type { SavedValuation, ValuationReport, WizardData } from "./api";
+import {
+  BASE_CURRENCY,
+  convertRange,
+  DEFAULT_FX_RATES,
+  type FxRates,
+} from "./currency";
+import {
+  formatMoney,
+  rangeToUnits,
+  rescaleRange,
+  type Money,
+  type MoneyRange,
+} from "./money";
+
+const WIZARD_STEPS = ["step1", "step2", "step3", "step4"] as const;
+
+export type WizardStep = (typeof WIZARD_STEPS)[number];
+
+export interface InputDiffRow {
+  step: WizardStep;
+  field: string;
+  label: string;
+  values: string[];
+  changed: boolean;
+}
+
+export interface RangeDiffRow {
+  label: string;
+  ranges: Array<MoneyRange | null>;
+  // Relative change of the midpoint against the first run
+  deltas: Array<number | null>;
+  changed: boolean;
+}
+
+export interface ListDiffRow {
+  item: string;
+  presentIn: boolean[];
+  changed: boolean;
+}
+
+export interface ValuationComparison {
+  inputs: InputDiffRow[];
+  methods: RangeDiffRow[];
+  finalRange: RangeDiffRow;
+  strengths: ListDiffRow[];
+  risks: ListDiffRow[];
+  recommendations: ListDiffRow[];
+}
+
+const isMoney = (value: unknown): value is Money =>
+  typeof value === "object" &&
+  value !== null &&
+  "amount" in value &&
+  "scale" in value;
+
+/**
+ * "monthlyBurnRate" -> "Monthly burn rate"
+ */
+export function fieldLabel(field: string): string {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatInputValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (isMoney(value)) return formatMoney(value);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") return value.toLocaleString("en-US");
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "—";
+    return value
+      .map((item) =>
+        typeof item === "object" && item !== null && "name" in item
+          ? String(item.name)
+          : String(item),
+      )
+      .join(", ");
+  }
+  return String(value);
+}
+
+export function compareInputs(runs: WizardData[]): InputDiffRow[] {
+  const rows: InputDiffRow[] = [];
+  for (const step of WIZARD_STEPS) {
+    const fields = new Set<string>();
+    for (const run of runs) {
+      Object.keys(run[step] ?? {}).forEach((field) => fields.add(field));
+    }
+    for (const field of fields) {
+      const values = runs.map((run) =>
+        formatInputValue((run[step] as Record<string, unknown>)?.[field]),
+      );
+      rows.push({
+        step,
+        field,
+        label: fieldLabel(field),
+        values,
+        changed: values.some((value) => value !== values[0]),
+      });
+    }
+  }
+  return rows;
+}
+
+function compareRanges(
+  label: string,
+  ranges: Array<MoneyRange | null>,
+  fxRates: FxRates,
+): RangeDiffRow {
+  const normalized = ranges.map((range) =>
+    range
+      ? rescaleRange(convertRange(range, BASE_CURRENCY, fxRates), "millions")
+      : null,
+  );
+  const midpoints = normalized.map((range) => {
+    if (!range) return null;
+    const { lower, upper } = rangeToUnits(range);
+    return (lower + upper) / 2;
+  });
+  const baseline = midpoints[0];
+  const deltas = midpoints.map((midpoint, index) =>
+    index === 0 || midpoint === null || !baseline
+      ? null
+      : (midpoint - baseline) / baseline,
+  );
+  const sameAsBaseline = (range: MoneyRange | null) => {
+    const baselineRange = normalized[0];
+    if (!range || !baselineRange) return range === baselineRange;
+    return (
+      Math.abs(range.lower - baselineRange.lower) < 1e-9 &&
+      Math.abs(range.upper - baselineRange.upper) < 1e-9
+    );
+  };
+  const changed = !normalized.every(sameAsBaseline);
+  return { label, ranges: normalized, deltas, changed };
+}
+
+export function compareMethodRanges(
+  reports: ValuationReport[],
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): RangeDiffRow[] {
+  const methods: string[] = [];
+  for (const report of reports) {
+    for (const calc of report.calculations) {
+      if (!methods.includes(calc.method)) methods.push(calc.method);
+    }
+  }
+  return methods.map((method) =>
+    compareRanges(
+      method,
+      reports.map(
+        (report) =>
+          report.calculations.find((calc) => calc.method === method)
+            ?.valuationRange ?? null,
+      ),
+      fxRates,
+    ),
+  );
+}
+
+// Recommendations arrive as a list or as one block of text
+function toList(value: string[] | string | undefined): string[] {
+  if (!value) return [];
+  const items = Array.isArray(value) ? value : value.split(/\n+/);
+  return items
+    .map((item) => item.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean);
+}
+
+export function compareLists(lists: string[][]): ListDiffRow[] {
+  const items: string[] = [];
+  for (const list of lists) {
+    for (const item of list) if (!items.includes(item)) items.push(item);
+  }
+  return items.map((item) => {
+    const presentIn = lists.map((list) => list.includes(item));
+    return {
+      item,
+      presentIn,
+      changed: presentIn.some((present) => present !== presentIn[0]),
+    };
+  });
+}
+
+export function compareValuations(
+  runs: SavedValuation[],
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): ValuationComparison {
+  const reports = runs.map((run) => run.report);
+  return {
+    inputs: compareInputs(runs.map((run) => run.wizardData)),
+    methods: compareMethodRanges(reports, fxRates),
+    finalRange: compareRanges(
+      "Final valuation",
+      reports.map((report) => report.finalValuation.finalRange),
+      fxRates,
+    ),
+    strengths: compareLists(
+      reports.map((report) => report.businessSummary.keyStrengths ?? []),
+    ),
+    risks: compareLists(
+      reports.map((report) => report.businessSummary.weaknessesOrRisks ?? []),
+    ),
+    recommendations: compareLists(
+      reports.map((report) => toList(report.finalValuation.recommendations)),
+    ),
+  };
+}
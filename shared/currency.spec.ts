@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import type { WizardData } from "./api";
+import {
+  convertMoney,
+  convertRange,
+  currencyForCountry,
+  reportingCurrency,
+  toBaseCurrency,
+} from "./currency";
+import { money, moneyRange } from "./money";
+import { runValuation } from "./valuation";
+
+const rates = { USD: 1, EUR: 1.1, INR: 0.012 };
+
+describe("currency", () => {
+  it("defaults the reporting currency from the country", () => {
+    expect(currencyForCountry("India")).toBe("INR");
+    expect(currencyForCountry("Germany")).toBe("EUR");
+    expect(currencyForCountry("Atlantis")).toBe("USD");
+    expect(
+      reportingCurrency({
+        step1: {
+          businessName: "Acme",
+          country: "France",
+          industry: "saas",
+          stage: "mvp",
+          isLaunched: false,
+          currency: "GBP",
+        },
+      }),
+    ).toBe("GBP");
+  });
+
+  it("converts through the base currency and keeps the scale", () => {
+    const dollars = convertMoney(money(100, "thousands", "EUR"), "USD", rates);
+    expect(dollars).toMatchObject({ scale: "thousands", currency: "USD" });
+    expect(dollars.amount).toBeCloseTo(110);
+    const converted = convertRange(
+      moneyRange(1.1, 2.2, "millions"),
+      "EUR",
+      rates,
+    );
+    expect(converted.currency).toBe("EUR");
+    expect(converted.scale).toBe("millions");
+    expect(converted.lower).toBeCloseTo(1);
+    expect(converted.upper).toBeCloseTo(2);
+  });
+
+  it("rejects currencies without a rate", () => {
+    expect(() => convertMoney(money(1, "units", "XYZ"), "USD", rates)).toThrow(
+      "No FX rate configured for XYZ",
+    );
+  });
+
+  it("values the company the same whatever the reporting currency", () => {
+    const inRupees: WizardData = {
+      step1: {
+        businessName: "Chai Cloud",
+        country: "India",
+        industry: "saas",
+        stage: "launched",
+        isLaunched: true,
+        currency: "INR",
+      },
+      step2: { revenue: money(100_000_000, "units", "INR") },
+    };
+    const inDollars = toBaseCurrency(inRupees, rates);
+    expect(inDollars.step2.revenue.currency).toBe("USD");
+    expect(inDollars.step2.revenue.amount).toBeCloseTo(1_200_000);
+    expect(runValuation(inRupees, rates)).toEqual(
+      runValuation(inDollars, rates),
+    );
+  });
+});
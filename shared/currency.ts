@@ -0,0 +1,211 @@
+/**
+ * Reporting currencies and FX normalisation.
+ *
+ * Financials are captured in the company's reporting currency and converted
+ * to the base currency before valuation, so every engine and backend sees a
+ * single currency. Rates are plain tables that the client lets users edit.
+ */
+import type { TimeSeries, WizardData } from "./api";
+import {
+  DEFAULT_CURRENCY,
+  toUnits,
+  type Money,
+  type MoneyRange,
+} from "./money";
+
+/**
+ * Currency the valuation engines work in
+ */
+export const BASE_CURRENCY = DEFAULT_CURRENCY;
+
+/**
+ * Units of the base currency per one unit of each currency
+ */
+export type FxRates = Record<string, number>;
+
+export const SUPPORTED_CURRENCIES = [
+  { code: "USD", name: "US Dollar" },
+  { code: "EUR", name: "Euro" },
+  { code: "GBP", name: "British Pound" },
+  { code: "CAD", name: "Canadian Dollar" },
+  { code: "AUD", name: "Australian Dollar" },
+  { code: "INR", name: "Indian Rupee" },
+  { code: "SGD", name: "Singapore Dollar" },
+  { code: "JPY", name: "Japanese Yen" },
+  { code: "BRL", name: "Brazilian Real" },
+  { code: "CHF", name: "Swiss Franc" },
+];
+
+// Indicative rates; users override them from the settings panel
+export const DEFAULT_FX_RATES: FxRates = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CAD: 0.73,
+  AUD: 0.66,
+  INR: 0.012,
+  SGD: 0.74,
+  JPY: 0.0067,
+  BRL: 0.18,
+  CHF: 1.12,
+};
+
+// Keyed by the country names offered in the first wizard step
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  "United States": "USD",
+  Canada: "CAD",
+  "United Kingdom": "GBP",
+  Australia: "AUD",
+  Germany: "EUR",
+  France: "EUR",
+  India: "INR",
+  Singapore: "SGD",
+  Japan: "JPY",
+  Brazil: "BRL",
+  Netherlands: "EUR",
+  Switzerland: "CHF",
+};
+
+export function currencyForCountry(country?: string): string {
+  return COUNTRY_CURRENCIES[country || ""] ?? BASE_CURRENCY;
+}
+
+/**
+ * Reporting currency of the wizard answers, defaulted from the country
+ */
+export function reportingCurrency(wizardData: WizardData): string {
+  return (
+    wizardData.step1?.currency || currencyForCountry(wizardData.step1?.country)
+  );
+}
+
+function rateFor(currency: string, rates: FxRates): number {
+  const rate = currency === BASE_CURRENCY ? 1 : rates[currency];
+  if (!rate || !Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`No FX rate configured for ${currency}`);
+  }
+  return rate;
+}
+
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: FxRates = DEFAULT_FX_RATES,
+): number {
+  if (from === to) return amount;
+  return (amount * rateFor(from, rates)) / rateFor(to, rates);
+}
+
+/**
+ * Convert to another currency, keeping the unit scale
+ */
+export function convertMoney(
+  value: Money,
+  to: string,
+  rates: FxRates = DEFAULT_FX_RATES,
+): Money {
+  return {
+    ...value,
+    amount: convertAmount(value.amount, value.currency, to, rates),
+    currency: to,
+  };
+}
+
+export function convertRange(
+  range: MoneyRange,
+  to: string,
+  rates: FxRates = DEFAULT_FX_RATES,
+): MoneyRange {
+  return {
+    ...range,
+    lower: convertAmount(range.lower, range.currency, to, rates),
+    upper: convertAmount(range.upper, range.currency, to, rates),
+    currency: to,
+  };
+}
+
+/**
+ * Amount in whole units of the base currency; missing values count as zero
+ */
+export function toBaseUnits(
+  value: Money | undefined | null,
+  rates: FxRates = DEFAULT_FX_RATES,
+): number {
+  return value ? toUnits(convertMoney(value, BASE_CURRENCY, rates)) : 0;
+}
+
+/**
+ * Wizard answers with every financial converted to the base currency. The
+ * reporting currency stays on step1 so results can be shown in both.
+ */
+export function toBaseCurrency(
+  wizardData: WizardData,
+  rates: FxRates = DEFAULT_FX_RATES,
+): WizardData {
+  const { step2, step3, timeSeries } = wizardData;
+  const { unitEconomics, industryMetrics } = step3 ?? {};
+  if (!step2 && !unitEconomics && !industryMetrics && !timeSeries) {
+    return wizardData;
+  }
+
+  const convert = (value?: Money) =>
+    value ? convertMoney(value, BASE_CURRENCY, rates) : value;
+
+  return {
+    ...wizardData,
+    ...(step2 && {
+      step2: {
+        ...step2,
+        revenue: convert(step2.revenue),
+        monthlyBurnRate: convert(step2.monthlyBurnRate),
+        netProfitLoss: convert(step2.netProfitLoss),
+        fundingRaised: convert(step2.fundingRaised),
+        planningToRaise: convert(step2.planningToRaise),
+      },
+    }),
+    ...((unitEconomics || industryMetrics) && {
+      step3: {
+        ...step3,
+        ...(unitEconomics && {
+          unitEconomics: {
+            ...unitEconomics,
+            arr: convert(unitEconomics.arr),
+            cac: convert(unitEconomics.cac),
+          },
+        }),
+        // Money answers of the industry metric pack are the object values
+        ...(industryMetrics && {
+          industryMetrics: Object.fromEntries(
+            Object.entries(industryMetrics).map(([key, value]) => [
+              key,
+              typeof value === "object" ? convert(value) : value,
+            ]),
+          ),
+        }),
+      },
+    }),
+    ...(timeSeries && {
+      timeSeries: convertTimeSeries(timeSeries, rates),
+    }),
+  };
+}
+
+// Monthly series amounts are plain numbers in the series currency
+function convertTimeSeries(series: TimeSeries, rates: FxRates): TimeSeries {
+  const currency = series.currency || BASE_CURRENCY;
+  const convert = (amount: number) =>
+    convertAmount(amount, currency, BASE_CURRENCY, rates);
+  return {
+    ...series,
+    currency: BASE_CURRENCY,
+    months: series.months.map((month) => ({
+      ...month,
+      revenue: convert(month.revenue),
+      costs: convert(month.costs),
+    })),
+    ...(series.cashBalance !== undefined && {
+      cashBalance: convert(series.cashBalance),
+    }),
+  };
+}
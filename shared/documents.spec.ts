@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_DOCUMENT_TEXT,
+  documentKind,
+  normalizeDocumentText,
+} from "./documents";
+import { runValuation } from "./valuation";
+
+describe("documentKind", () => {
+  it("prefers the extension and falls back to the MIME type", () => {
+    expect(documentKind("Deck.PDF")).toBe("pdf");
+    expect(documentKind("metrics.csv", "application/vnd.ms-excel")).toBe("csv");
+    expect(documentKind("upload", "application/pdf")).toBe("pdf");
+    expect(documentKind("notes.txt", "text/plain")).toBeUndefined();
+  });
+});
+
+describe("normalizeDocumentText", () => {
+  it("collapses whitespace and truncates long text", () => {
+    expect(normalizeDocumentText("  a \t b\r\n\n\n\nc  ")).toEqual({
+      text: "a b\n\nc",
+      truncated: false,
+    });
+    const long = normalizeDocumentText("x".repeat(MAX_DOCUMENT_TEXT + 1));
+    expect(long.text).toHaveLength(MAX_DOCUMENT_TEXT);
+    expect(long.truncated).toBe(true);
+  });
+});
+
+describe("runValuation with documents", () => {
+  it("lists attached documents unless extras are skipped", () => {
+    const step4 = {
+      uploadedFiles: [
+        {
+          name: "deck.pdf",
+          size: 1000,
+          type: "application/pdf",
+          text: "Seed round deck",
+        },
+      ],
+    };
+    expect(runValuation({ step4 }).strategicContext).toContain(
+      "deck.pdf (3 words)",
+    );
+    expect(
+      runValuation({ step4: { ...step4, skipExtras: true } }).strategicContext,
+    ).not.toContain("deck.pdf");
+  });
+});
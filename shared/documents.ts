@@ -0,0 +1,87 @@
+/**
+ * Pitch decks and financial documents attached in the AI extras step.
+ *
+ * POST /api/documents extracts the text of an upload; the text travels with
+ * the wizard answers so every backend sees it with the valuation request.
+ */
+import type { UploadedFile, WizardData } from "./api";
+
+/**
+ * Formats text can be extracted from, with their canonical MIME type
+ */
+export const DOCUMENT_TYPES = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  csv: "text/csv",
+} as const;
+
+export type DocumentKind = keyof typeof DOCUMENT_TYPES;
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Characters of extracted text kept per document
+ */
+export const MAX_DOCUMENT_TEXT = 20_000;
+
+/**
+ * Documents that can accompany one valuation request
+ */
+export const MAX_DOCUMENTS = 10;
+
+/**
+ * Largest JSON body the server accepts: the documents' text at up to six
+ * bytes per escaped character, plus room for the other answers and a report
+ */
+export const MAX_JSON_BODY_BYTES =
+  MAX_DOCUMENTS * MAX_DOCUMENT_TEXT * 6 + 1024 * 1024;
+
+/**
+ * Identify an upload by its extension, falling back to the MIME type.
+ * Browsers report CSV under several types, so the extension wins.
+ */
+export function documentKind(
+  name: string,
+  type?: string,
+): DocumentKind | undefined {
+  const extension = name.split(".").pop()?.toLowerCase();
+  if (extension && extension in DOCUMENT_TYPES) {
+    return extension as DocumentKind;
+  }
+  const mimeType = type?.split(";")[0].trim().toLowerCase();
+  return (Object.keys(DOCUMENT_TYPES) as DocumentKind[]).find(
+    (kind) => DOCUMENT_TYPES[kind] === mimeType,
+  );
+}
+
+/**
+ * Collapse runs of spaces and blank lines, then cut to the stored length
+ */
+export function normalizeDocumentText(text: string): {
+  text: string;
+  truncated: boolean;
+} {
+  const normalized = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t ]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return normalized.length > MAX_DOCUMENT_TEXT
+    ? { text: normalized.slice(0, MAX_DOCUMENT_TEXT), truncated: true }
+    : { text: normalized, truncated: false };
+}
+
+export const countWords = (text: string) =>
+  text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Documents whose text should accompany the valuation request
+ */
+export function attachedDocuments(wizardData: WizardData): UploadedFile[] {
+  const { step4 } = wizardData;
+  if (!step4 || step4.skipExtras) return [];
+  return (step4.uploadedFiles ?? []).filter((file) => file.text);
+}
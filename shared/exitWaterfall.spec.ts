@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import type { CapTable, PreferredHolder } from "./api";
+import { modelRound } from "./capTable";
+import {
+  exitValues,
+  exitWaterfallCsv,
+  runExitWaterfall,
+  shareClasses,
+} from "./exitWaterfall";
+import { moneyRange } from "./money";
+
+const withSeriesA = (terms: Partial<PreferredHolder> = {}): CapTable => ({
+  currency: "USD",
+  founders: [{ name: "Ada", shares: 8_000_000 }],
+  optionPool: 0,
+  investors: [
+    {
+      name: "Series A",
+      shares: 2_000_000,
+      invested: 4_000_000,
+      preferenceMultiple: 1,
+      participating: false,
+      seniority: 0,
+      ...terms,
+    },
+  ],
+  convertibles: [],
+});
+
+const payouts = (capTable: CapTable, exitValue: number) =>
+  Object.fromEntries(
+    runExitWaterfall(capTable, [exitValue])[0].classes.map(
+      ({ name, payout }) => [name, Math.round(payout)],
+    ),
+  );
+
+describe("runExitWaterfall", () => {
+  it("pays a non-participating preference or converts when that pays more", () => {
+    expect(payouts(withSeriesA(), 3_000_000)).toEqual({
+      "Series A": 3_000_000,
+      Common: 0,
+    });
+    expect(payouts(withSeriesA(), 10_000_000)).toEqual({
+      "Series A": 4_000_000,
+      Common: 6_000_000,
+    });
+    const [outcome] = runExitWaterfall(withSeriesA(), [30_000_000]);
+    expect(outcome.classes[0]).toMatchObject({
+      payout: 6_000_000,
+      perShare: 3,
+      converted: true,
+    });
+  });
+
+  it("lets participating preferred double dip up to its cap", () => {
+    expect(payouts(withSeriesA({ participating: true }), 10_000_000)).toEqual({
+      "Series A": 5_200_000,
+      Common: 4_800_000,
+    });
+    const capped = withSeriesA({ participating: true, participationCap: 2 });
+    expect(payouts(capped, 25_000_000)).toEqual({
+      "Series A": 8_000_000,
+      Common: 17_000_000,
+    });
+    expect(payouts(capped, 50_000_000)["Series A"]).toBe(10_000_000);
+  });
+
+  it("pays senior classes first and equal seniority pari passu", () => {
+    const twoRounds = (seniorityB: number): CapTable => ({
+      currency: "USD",
+      founders: [{ name: "Ada", shares: 8_000_000 }],
+      investors: [
+        { name: "A", shares: 1_000_000, invested: 2_000_000, seniority: 0 },
+        {
+          name: "B",
+          shares: 1_000_000,
+          invested: 3_000_000,
+          seniority: seniorityB,
+        },
+      ],
+    });
+    expect(payouts(twoRounds(1), 4_000_000)).toEqual({
+      A: 1_000_000,
+      B: 3_000_000,
+      Common: 0,
+    });
+    expect(payouts(twoRounds(0), 4_000_000)).toEqual({
+      A: 1_600_000,
+      B: 2_400_000,
+      Common: 0,
+    });
+  });
+
+  it("adds the planned round and converted SAFEs as preferred classes", () => {
+    const capTable: CapTable = {
+      ...withSeriesA(),
+      convertibles: [
+        { name: "Seed SAFE", kind: "safe", principal: 500_000, discount: 20 },
+      ],
+    };
+    const round = modelRound(capTable, {
+      preMoney: 20_000_000,
+      raise: 5_000_000,
+    });
+    expect(shareClasses(capTable, round).map(({ name }) => name)).toEqual([
+      "Series A",
+      "Seed SAFE",
+      "New investors",
+      "Common",
+    ]);
+    const [outcome] = runExitWaterfall(capTable, [9_500_000], round);
+    const holder = (name: string) =>
+      outcome.holders.find((entry) => entry.name === name).payout;
+    expect(holder("New investors")).toBeCloseTo(5_000_000);
+    expect(holder("Seed SAFE")).toBeCloseTo(500_000);
+    expect(holder("Ada") + holder("Option pool")).toBeCloseTo(0);
+  });
+});
+
+describe("exit values", () => {
+  it("spans the valuation range and exports to CSV", () => {
+    const values = exitValues(moneyRange(10, 20, "millions", "USD"), "USD");
+    expect(values).toEqual([
+      5_000_000, 10_000_000, 15_000_000, 20_000_000, 40_000_000, 100_000_000,
+    ]);
+    const csv = exitWaterfallCsv(runExitWaterfall(withSeriesA(), [10_000_000]));
+    expect(csv.split("\r\n")[0]).toBe(
+      "Exit value,Series A (class),Series A per share,Common (class),Common per share,Series A,Ada,Option pool",
+    );
+    expect(csv.split("\r\n")[1]).toBe(
+      "10000000,4000000,2,6000000,0.75,4000000,6000000,0",
+    );
+  });
+});
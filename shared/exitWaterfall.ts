@@ -0,0 +1,331 @@
+/**
+ * Exit waterfall: how the proceeds of a sale are split between the share
+ * classes of the cap table once liquidation preferences are applied.
+ *
+ * Preferences are paid by seniority (equal seniority pari passu), then the
+ * rest goes to common and the participating classes as-converted. A
+ * non-participating or capped class converts to common when that pays more.
+ * Amounts are whole units of the cap table currency.
+ */
+import type { CapTable, PreferenceTerms } from "./api";
+import type { HolderKind, RoundModel } from "./capTable";
+import { convertAmount, DEFAULT_FX_RATES, type FxRates } from "./currency";
+import { rangeToUnits, type MoneyRange } from "./money";
+import { toCsv } from "./spreadsheet";
+
+export interface ShareClassHolder {
+  name: string;
+  kind: HolderKind;
+  shares: number;
+}
+
+export interface ShareClass {
+  name: string;
+  shares: number;
+  // Amount the liquidation preference is a multiple of
+  invested: number;
+  // Undefined for common
+  terms?: PreferenceTerms;
+  holders: ShareClassHolder[];
+}
+
+export interface ClassPayout {
+  name: string;
+  payout: number;
+  perShare: number;
+  // A preferred class that took common instead of its preference
+  converted: boolean;
+}
+
+export interface HolderPayout {
+  name: string;
+  kind: HolderKind;
+  payout: number;
+}
+
+export interface ExitOutcome {
+  exitValue: number;
+  classes: ClassPayout[];
+  holders: HolderPayout[];
+}
+
+export const DEFAULT_ROUND_TERMS: PreferenceTerms = {
+  preferenceMultiple: 1,
+  participating: false,
+  seniority: 0,
+};
+
+// Multiples of the valuation range the waterfall is shown at
+const EXIT_POINTS: Array<[bound: "lower" | "mid" | "upper", factor: number]> = [
+  ["lower", 0.5],
+  ["lower", 1],
+  ["mid", 1],
+  ["upper", 1],
+  ["upper", 2],
+  ["upper", 5],
+];
+
+const EPSILON = 1e-6;
+
+/**
+ * Share classes after the planned round when there is one: each earlier
+ * priced round, each converted SAFE or note and the new money as preferred,
+ * founders and the option pool as common. Without a round, outstanding
+ * SAFEs and notes are left out as they have not converted yet.
+ */
+export function shareClasses(
+  capTable: CapTable,
+  round?: RoundModel,
+): ShareClass[] {
+  const roundTerms = capTable.roundTerms ?? DEFAULT_ROUND_TERMS;
+  const pool = round
+    ? round.holders.find((holder) => holder.kind === "pool").sharesAfter
+    : (capTable.optionPool ?? 0);
+  const commonHolders: ShareClassHolder[] = [
+    ...capTable.founders.map(({ name, shares }) => ({
+      name,
+      kind: "founder" as const,
+      shares,
+    })),
+    { name: "Option pool", kind: "pool", shares: pool },
+  ];
+
+  const classes: ShareClass[] = (capTable.investors ?? []).map(
+    ({ name, shares, invested, ...terms }) => ({
+      name,
+      shares,
+      invested: invested ?? 0,
+      terms: { ...DEFAULT_ROUND_TERMS, ...terms },
+      holders: [{ name, kind: "investor", shares }],
+    }),
+  );
+  if (round) {
+    for (const conversion of round.conversions) {
+      classes.push({
+        name: conversion.name,
+        shares: conversion.shares,
+        invested: conversion.amount,
+        terms: roundTerms,
+        holders: [
+          {
+            name: conversion.name,
+            kind: "convertible",
+            shares: conversion.shares,
+          },
+        ],
+      });
+    }
+    classes.push({
+      name: "New investors",
+      shares: round.newShares,
+      invested: round.raise,
+      terms: roundTerms,
+      holders: [
+        { name: "New investors", kind: "new", shares: round.newShares },
+      ],
+    });
+  }
+
+  return [
+    ...classes,
+    {
+      name: "Common",
+      shares: commonHolders.reduce((sum, holder) => sum + holder.shares, 0),
+      invested: 0,
+      holders: commonHolders,
+    },
+  ];
+}
+
+// Payout per class for a fixed set of converting classes
+function settle(
+  exitValue: number,
+  classes: ShareClass[],
+  converted: Set<number>,
+): number[] {
+  const payouts = classes.map(() => 0);
+  let remaining = exitValue;
+
+  const preferred = classes
+    .map((shareClass, index) => ({ shareClass, index }))
+    .filter(
+      ({ shareClass, index }) => shareClass.terms && !converted.has(index),
+    );
+  const seniorities = [
+    ...new Set(preferred.map(({ shareClass }) => shareClass.terms.seniority)),
+  ].sort((a, b) => b - a);
+  for (const seniority of seniorities) {
+    const group = preferred.filter(
+      ({ shareClass }) => shareClass.terms.seniority === seniority,
+    );
+    const owed = group.map(
+      ({ shareClass }) =>
+        shareClass.invested * shareClass.terms.preferenceMultiple,
+    );
+    const totalOwed = owed.reduce((sum, amount) => sum + amount, 0);
+    if (totalOwed <= 0) continue;
+    const paid = Math.min(remaining, totalOwed);
+    group.forEach(({ index }, i) => {
+      payouts[index] += (paid * owed[i]) / totalOwed;
+    });
+    remaining -= paid;
+  }
+
+  // What is left is shared as-converted; capped classes drop out once they
+  // reach their cap and the excess goes to the others
+  let active = classes
+    .map((shareClass, index) => ({ shareClass, index }))
+    .filter(
+      ({ shareClass, index }) =>
+        !shareClass.terms ||
+        converted.has(index) ||
+        shareClass.terms.participating,
+    );
+  while (remaining > EPSILON && active.length > 0) {
+    const totalShares = active.reduce(
+      (sum, { shareClass }) => sum + shareClass.shares,
+      0,
+    );
+    if (totalShares <= 0) break;
+    const roomFor = ({ shareClass, index }: (typeof active)[number]) =>
+      shareClass.terms?.participationCap && !converted.has(index)
+        ? shareClass.terms.participationCap * shareClass.invested -
+          payouts[index]
+        : Infinity;
+    const capped = active.filter(
+      (entry) =>
+        (remaining * entry.shareClass.shares) / totalShares > roomFor(entry),
+    );
+    if (capped.length === 0) {
+      for (const { shareClass, index } of active) {
+        payouts[index] += (remaining * shareClass.shares) / totalShares;
+      }
+      remaining = 0;
+      break;
+    }
+    for (const entry of capped) {
+      const room = Math.max(0, roomFor(entry));
+      payouts[entry.index] += room;
+      remaining -= room;
+    }
+    active = active.filter((entry) => !capped.includes(entry));
+  }
+  return payouts;
+}
+
+/**
+ * Split one exit value between the classes and their holders
+ */
+export function distributeExit(
+  exitValue: number,
+  classes: ShareClass[],
+): ExitOutcome {
+  if (!(exitValue >= 0)) {
+    throw new Error("Exit value must not be negative");
+  }
+  // Convert one class at a time while converting pays the class more
+  const converted = new Set<number>();
+  let payouts = settle(exitValue, classes, converted);
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const [index, shareClass] of classes.entries()) {
+      const { terms } = shareClass;
+      if (!terms || converted.has(index)) continue;
+      if (terms.participating && !terms.participationCap) continue;
+      const trial = new Set(converted).add(index);
+      const trialPayouts = settle(exitValue, classes, trial);
+      if (trialPayouts[index] > payouts[index] + EPSILON) {
+        converted.add(index);
+        payouts = trialPayouts;
+        changed = true;
+        break;
+      }
+    }
+  }
+
+  return {
+    exitValue,
+    classes: classes.map((shareClass, index) => ({
+      name: shareClass.name,
+      payout: payouts[index],
+      perShare: shareClass.shares ? payouts[index] / shareClass.shares : 0,
+      converted: converted.has(index),
+    })),
+    holders: classes.flatMap((shareClass, index) =>
+      shareClass.holders.map(({ name, kind, shares }) => ({
+        name,
+        kind,
+        payout: shareClass.shares
+          ? (payouts[index] * shares) / shareClass.shares
+          : 0,
+      })),
+    ),
+  };
+}
+
+/**
+ * Exit values around the valuation range, in `currency`: half the low end
+ * up to five times the high end
+ */
+export function exitValues(
+  finalRange: MoneyRange,
+  currency: string,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): number[] {
+  const units = rangeToUnits(finalRange);
+  const bounds = {
+    lower: units.lower,
+    mid: (units.lower + units.upper) / 2,
+    upper: units.upper,
+  };
+  const values = EXIT_POINTS.map(([bound, factor]) =>
+    Math.round(
+      convertAmount(
+        bounds[bound] * factor,
+        finalRange.currency,
+        currency,
+        fxRates,
+      ),
+    ),
+  );
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+/**
+ * Waterfall at each exit value
+ */
+export function runExitWaterfall(
+  capTable: CapTable,
+  values: number[],
+  round?: RoundModel,
+): ExitOutcome[] {
+  const classes = shareClasses(capTable, round);
+  return values.map((value) => distributeExit(value, classes));
+}
+
+/**
+ * One row per exit value with the payout of every class and holder
+ */
+export function exitWaterfallCsv(outcomes: ExitOutcome[]): string {
+  if (outcomes.length === 0) return "";
+  const [first] = outcomes;
+  const rounded = (value: number) => String(Math.round(value * 100) / 100);
+  return toCsv([
+    [
+      "Exit value",
+      ...first.classes.flatMap(({ name }) => [
+        `${name} (class)`,
+        `${name} per share`,
+      ]),
+      ...first.holders.map(({ name }) => name),
+    ],
+    ...outcomes.map((outcome) => [
+      rounded(outcome.exitValue),
+      ...outcome.classes.flatMap(({ payout, perShare }) => [
+        rounded(payout),
+        String(Math.round(perShare * 10_000) / 10_000),
+      ]),
+      ...outcome.holders.map(({ payout }) => rounded(payout)),
+    ]),
+  ]);
+}
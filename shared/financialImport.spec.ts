@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  importFinancials,
+  parseAmount,
+  parseMonthHeader,
+} from "./financialImport";
+import { parseCsv } from "./spreadsheet";
+
+const months = Array.from(
+  { length: 12 },
+  (_, index) =>
+    `${["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"][index]} 2024`,
+);
+
+const pnl = parseCsv(
+  [
+    ["Acme Ltd P&L", ...months.map(() => "")],
+    ["Line item", ...months],
+    ["Revenue", ...months.map((_, i) => String(1000 * 1.1 ** i))],
+    ["Cost of sales", ...months.map(() => "200")],
+    ["Total operating expenses", ...months.map(() => "3,000")],
+    ["Net profit/(loss)", ...months.map(() => "(2,000)")],
+  ]
+    .map((row) => row.map((cell) => `"${cell}"`).join(","))
+    .join("\n"),
+);
+
+describe("parseMonthHeader", () => {
+  it("reads common month formats", () => {
+    expect(parseMonthHeader("Jan 2024")).toEqual({ year: 2024, month: 0 });
+    expect(parseMonthHeader("September-23")).toEqual({ year: 2023, month: 8 });
+    expect(parseMonthHeader("2024-03")).toEqual({ year: 2024, month: 2 });
+    expect(parseMonthHeader("04/2024")).toEqual({ year: 2024, month: 3 });
+    expect(parseMonthHeader("45292")).toEqual({ year: 2024, month: 0 });
+    expect(parseMonthHeader("Marketing")).toBeUndefined();
+  });
+});
+
+describe("parseAmount", () => {
+  it("handles separators, currency symbols and accounting negatives", () => {
+    expect(parseAmount("$1,200.50")).toBe(1200.5);
+    expect(parseAmount("(300)")).toBe(-300);
+    expect(parseAmount("-")).toBe(0);
+    expect(parseAmount("12%")).toBeUndefined();
+    expect(parseAmount("n/a")).toBeUndefined();
+  });
+});
+
+describe("importFinancials", () => {
+  it("derives trailing-12-month answers with their source cells", () => {
+    const {
+      values,
+      months: used,
+      warnings,
+    } = importFinancials([{ name: "P&L", rows: pnl }]);
+    expect(used).toEqual(months);
+    expect(warnings).toEqual([]);
+    expect(values.revenue.value).toBeCloseTo(21384.28, 1);
+    expect(values.revenue.cells).toEqual(["P&L!B3:M3"]);
+    expect(values.netProfitLoss).toMatchObject({
+      value: -24000,
+      cells: ["P&L!B6:M6"],
+    });
+    expect(values.monthlyBurnRate).toMatchObject({
+      value: 3000,
+      cells: ["P&L!B5:M5"],
+    });
+    expect(values.growthRate).toMatchObject({
+      value: 10,
+      cells: ["P&L!B3", "P&L!M3"],
+    });
+  });
+
+  it("uses the latest months and annualises short histories", () => {
+    const rows = [
+      ["", "Mar 2024", "Feb 2024", "Jan 2024"],
+      ["Sales", "300", "200", "100"],
+    ];
+    const {
+      values,
+      months: used,
+      warnings,
+    } = importFinancials([{ name: "Sheet1", rows }]);
+    expect(used).toEqual(["Jan 2024", "Feb 2024", "Mar 2024"]);
+    expect(values.revenue.value).toBe(2400);
+    expect(warnings[0]).toMatch(/Only 3 months/);
+  });
+
+  it("totals invested amounts from a cap table", () => {
+    const rows = parseCsv(
+      'Holder,Shares,Amount invested\nFounders,8000000,\nSeed fund,1000000,"$500,000"\nAngels,250000,125000\nTotal,9250000,625000',
+    );
+    const { values } = importFinancials([{ name: "Cap table", rows }]);
+    expect(values.fundingRaised).toEqual({
+      value: 625000,
+      cells: ["Cap table!C2:C5"],
+      basis: "Total of the invested amounts in the cap table",
+    });
+  });
+
+  it("rejects sheets without P&L lines or investments", () => {
+    expect(() =>
+      importFinancials([{ name: "Notes", rows: [["Hello", "world"]] }]),
+    ).toThrow("No monthly P&L lines");
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Importer for profit-and-loss and cap table spreadsheets.
+ *
+ * A P&L sheet has one column per month and one row per line item. The
+ * importer finds the month header row, picks out the revenue, expense, burn
+ * and net profit rows and derives the step2/step3 answers from the trailing
+ * twelve months. A cap table column of invested amounts gives the funding
+ * raised. Every value records the cells it was read from.
+ */
+import { cellRef, type Sheet } from "./spreadsheet";
+
+export type ImportedField =
+  | "revenue"
+  | "monthlyBurnRate"
+  | "netProfitLoss"
+  | "fundingRaised"
+  | "growthRate";
+
+export interface ImportedValue {
+  // Amounts are in the sheet's own units; growth is a monthly percentage
+  value: number;
+  // Source ranges such as "P&L!B4:M4"
+  cells: string[];
+  basis: string;
+}
+
+export interface FinancialImport {
+  // Month headers of the trailing period the P&L values cover
+  months: string[];
+  values: Partial<Record<ImportedField, ImportedValue>>;
+  warnings: string[];
+}
+
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const TRAILING_MONTHS = 12;
+
+interface MonthKey {
+  year?: number;
+  // 0-11
+  month: number;
+}
+
+const monthKey = (year: number | undefined, month: number) =>
+  month >= 1 && month <= 12 ? { year, month: month - 1 } : undefined;
+
+/**
+ * Recognise a month column header: "Jan 2024", "January-24", "2024-01",
+ * "01/2024" or an Excel date serial
+ */
+export function parseMonthHeader(value: string): MonthKey | undefined {
+  const text = value.trim().toLowerCase();
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    // Excel stores dates as days since 1899-12-30
+    const serial = Math.floor(Number(text));
+    if (serial < 20_000 || serial > 80_000) return undefined;
+    const date = new Date(Date.UTC(1899, 11, 30) + serial * 86_400_000);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() };
+  }
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?$/);
+  if (match) return monthKey(Number(match[1]), Number(match[2]));
+  match = text.match(/^(\d{1,2})[-/.](?:\d{1,2}[-/.])?(\d{4})$/);
+  if (match) return monthKey(Number(match[2]), Number(match[1]));
+  match = text.match(/^([a-z]{3,9})\.?(?:[\s\-'’,]+(\d{4}|\d{2}))?$/);
+  if (!match) return undefined;
+  const [, word, yearText] = match;
+  const month = MONTH_NAMES.findIndex((name) => name.startsWith(word));
+  if (month === -1) return undefined;
+  const year = yearText
+    ? Number(yearText) + (yearText.length === 2 ? 2000 : 0)
+    : undefined;
+  return { year, month };
+}
+
+/**
+ * Parse a money cell: "1,200", "$1200", "(300)" for negatives, "-" for zero.
+ * Percentages and text are not amounts.
+ */
+export function parseAmount(value: string): number | undefined {
+  let text = value.trim();
+  if (!text) return undefined;
+  if (/^[-–—]$/.test(text)) return 0;
+  if (text.includes("%")) return undefined;
+  const negative = /^\(.*\)$/.test(text);
+  text = text
+    .replace(/^\((.*)\)$/, "$1")
+    .replace(/^[A-Za-z]{3}\s/, "")
+    .replace(/[\s,$€£¥₹]/g, "");
+  if (!text || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) {
+    return undefined;
+  }
+  const amount = Number(text);
+  return negative ? -Math.abs(amount) : amount;
+}
+
+const normalizeLabel = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Patterns in order of preference; the first row matching the earliest
+// pattern wins
+const LINE_ITEMS = {
+  revenue: [
+    /^total (net )?(revenue|revenues|sales|turnover)$/,
+    /^(net |gross )?(revenue|revenues|sales|turnover)( total)?$/,
+    /\b(revenue|revenues|sales|turnover)\b/,
+  ],
+  expenses: [
+    /^total (operating )?(expenses|expenditure|costs|opex)$/,
+    /^(operating )?(expenses|opex)( total)?$/,
+  ],
+  burn: [/^(net |gross |cash |monthly )?burn( rate)?$/, /\bburn\b/],
+  net: [
+    /^net (income|profit|loss|earnings|result)\b/,
+    /^profit (and |& )?loss$/,
+  ],
+};
+
+// Rows that mention revenue without being the revenue line
+const NOT_REVENUE =
+  /\b(cost|costs|cogs|deferred|growth|margin|per|marketing)\b/;
+
+const FUNDING_HEADER =
+  /^(total )?(amount )?(invested|investment|investment amount|amount raised|capital invested|capital raised|funding raised)$/;
+
+interface LineItem {
+  row: number;
+  values: number[];
+}
+
+interface MonthColumn {
+  column: number;
+  label: string;
+  key: MonthKey;
+}
+
+function findMonthHeader(sheet: Sheet) {
+  let best: { row: number; columns: MonthColumn[] } | undefined;
+  sheet.rows.forEach((cells, row) => {
+    const columns = cells.flatMap((cell, column) => {
+      const key = parseMonthHeader(cell);
+      return key ? [{ column, label: cell.trim(), key }] : [];
+    });
+    if (columns.length >= 2 && columns.length > (best?.columns.length ?? 0)) {
+      best = { row, columns };
+    }
+  });
+  if (!best) return undefined;
+
+  // Order chronologically when every header carries a year; sheets with the
+  // latest month first are common
+  if (best.columns.every(({ key }) => key.year !== undefined)) {
+    best.columns.sort(
+      (a, b) => a.key.year * 12 + a.key.month - (b.key.year * 12 + b.key.month),
+    );
+  }
+  return best;
+}
+
+function rowLabel(cells: string[], before: number): string {
+  for (let column = 0; column < Math.min(before, cells.length); column++) {
+    const cell = cells[column]?.trim();
+    if (cell && parseAmount(cell) === undefined) return normalizeLabel(cell);
+  }
+  return "";
+}
+
+function findLineItem(
+  sheet: Sheet,
+  headerRow: number,
+  columns: MonthColumn[],
+  patterns: RegExp[],
+  exclude?: RegExp,
+): LineItem | undefined {
+  const firstColumn = Math.min(...columns.map(({ column }) => column));
+  for (const pattern of patterns) {
+    for (let row = headerRow + 1; row < sheet.rows.length; row++) {
+      const cells = sheet.rows[row] ?? [];
+      const label = rowLabel(cells, firstColumn);
+      if (!pattern.test(label) || exclude?.test(label)) continue;
+      const amounts = columns.map(({ column }) =>
+        parseAmount(cells[column] ?? ""),
+      );
+      if (amounts.every((amount) => amount === undefined)) continue;
+      return { row, values: amounts.map((amount) => amount ?? 0) };
+    }
+  }
+  return undefined;
+}
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+const round = (value: number, places = 2) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+function importPnl(sheet: Sheet, result: FinancialImport): boolean {
+  const header = findMonthHeader(sheet);
+  if (!header) return false;
+  const columns = header.columns.slice(-TRAILING_MONTHS);
+  const find = (patterns: RegExp[], exclude?: RegExp) =>
+    findLineItem(sheet, header.row, columns, patterns, exclude);
+  const revenue = find(LINE_ITEMS.revenue, NOT_REVENUE);
+  const expenses = find(LINE_ITEMS.expenses);
+  const burn = find(LINE_ITEMS.burn);
+  const net = find(LINE_ITEMS.net);
+  if (!revenue && !expenses && !burn && !net) return false;
+
+  const count = columns.length;
+  const range = (item: LineItem) => {
+    const used = columns.map(({ column }) => column);
+    return `${sheet.name}!${cellRef(item.row, Math.min(...used))}:${cellRef(item.row, Math.max(...used))}`;
+  };
+  // Fewer than twelve months are scaled up to a year
+  const annualize = TRAILING_MONTHS / count;
+  const period =
+    count === TRAILING_MONTHS
+      ? "the last 12 months"
+      : `${count} months, annualised`;
+
+  result.months = columns.map(({ label }) => label);
+  if (header.columns.length > TRAILING_MONTHS) {
+    result.warnings.push(
+      `Only the last ${TRAILING_MONTHS} of ${header.columns.length} months are used.`,
+    );
+  } else if (count < TRAILING_MONTHS) {
+    result.warnings.push(
+      `Only ${count} months were found; annual figures are scaled up from them.`,
+    );
+  }
+
+  if (revenue) {
+    result.values.revenue = {
+      value: round(sum(revenue.values) * annualize),
+      cells: [range(revenue)],
+      basis: `Revenue summed over ${period}`,
+    };
+  } else {
+    result.warnings.push("No revenue row was found.");
+  }
+
+  if (net) {
+    result.values.netProfitLoss = {
+      value: round(sum(net.values) * annualize),
+      cells: [range(net)],
+      basis: `Net profit/loss summed over ${period}`,
+    };
+  } else if (revenue && expenses) {
+    result.values.netProfitLoss = {
+      value: round(
+        (sum(revenue.values) - sum(expenses.values.map(Math.abs))) * annualize,
+      ),
+      cells: [range(revenue), range(expenses)],
+      basis: `Revenue minus total expenses over ${period}`,
+    };
+  }
+
+  if (burn) {
+    result.values.monthlyBurnRate = {
+      value: round(sum(burn.values.map(Math.abs)) / count),
+      cells: [range(burn)],
+      basis: "Average of the burn row",
+    };
+  } else if (expenses) {
+    result.values.monthlyBurnRate = {
+      value: round(sum(expenses.values.map(Math.abs)) / count),
+      cells: [range(expenses)],
+      basis: "Average monthly total expenses",
+    };
+  } else if (net) {
+    result.values.monthlyBurnRate = {
+      value: round(sum(net.values.map((v) => Math.max(0, -v))) / count),
+      cells: [range(net)],
+      basis: "Average monthly net loss",
+    };
+  }
+
+  if (revenue) {
+    const first = revenue.values.findIndex((value) => value > 0);
+    const last = revenue.values.length - 1;
+    if (first !== -1 && first < last && revenue.values[last] > 0) {
+      const growth =
+        (Math.pow(
+          revenue.values[last] / revenue.values[first],
+          1 / (last - first),
+        ) -
+          1) *
+        100;
+      if (growth < 0) {
+        result.warnings.push(
+          "Revenue fell over the period; growth is imported as 0%.",
+        );
+      }
+      result.values.growthRate = {
+        value: Math.max(0, round(growth, 1)),
+        cells: [
+          `${sheet.name}!${cellRef(revenue.row, columns[first].column)}`,
+          `${sheet.name}!${cellRef(revenue.row, columns[last].column)}`,
+        ],
+        basis: `Compound monthly revenue growth from ${columns[first].label} to ${columns[last].label}`,
+      };
+    }
+  }
+  return true;
+}
+
+function importFunding(sheet: Sheet, result: FinancialImport): boolean {
+  for (let row = 0; row < Math.min(sheet.rows.length, 10); row++) {
+    const column = (sheet.rows[row] ?? []).findIndex((cell) =>
+      FUNDING_HEADER.test(normalizeLabel(cell ?? "")),
+    );
+    if (column === -1) continue;
+
+    let total = 0;
+    let lastRow = row;
+    for (let below = row + 1; below < sheet.rows.length; below++) {
+      const cells = sheet.rows[below] ?? [];
+      const amount = parseAmount(cells[column] ?? "");
+      if (amount === undefined) continue;
+      // A totals row already sums the holders above it
+      if (/^total/.test(normalizeLabel(cells.find(Boolean) ?? ""))) {
+        total = amount;
+        lastRow = below;
+        break;
+      }
+      total += amount;
+      lastRow = below;
+    }
+    if (total <= 0) continue;
+    result.values.fundingRaised = {
+      value: round(total),
+      cells: [
+        `${sheet.name}!${cellRef(row + 1, column)}:${cellRef(lastRow, column)}`,
+      ],
+      basis: "Total of the invested amounts in the cap table",
+    };
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Derive wizard answers from the sheets of a P&L or cap table workbook.
+ * Throws when no sheet holds monthly P&L lines or invested amounts.
+ */
+export function importFinancials(sheets: Sheet[]): FinancialImport {
+  const result: FinancialImport = { months: [], values: {}, warnings: [] };
+  const pnl = sheets.find((sheet) => importPnl(sheet, result));
+  const funding = sheets.find(
+    (sheet) => sheet !== pnl && importFunding(sheet, result),
+  );
+  if (!pnl && !funding) {
+    throw new Error(
+      "No monthly P&L lines or invested amounts were found in the spreadsheet",
+    );
+  }
+  return result;
+}
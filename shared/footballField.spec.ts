@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import type { ValuationReport } from "./api";
+import { footballField } from "./footballField";
+import { moneyRange } from "./money";
+
+const report = {
+  calculations: [
+    {
+      method: "Revenue Multiple",
+      valuationRange: moneyRange(10, 20, "millions", "USD"),
+    },
+    { method: "DCF", valuationRange: moneyRange(4, 6, "millions", "USD") },
+  ],
+  finalValuation: { finalRange: moneyRange(6, 14, "millions", "USD") },
+} as unknown as ValuationReport;
+
+describe("footballField", () => {
+  it("converts each method range and the final overlay", () => {
+    const field = footballField(
+      report,
+      "EUR",
+      { USD: 1, EUR: 2 },
+      moneyRange(8, 16, "millions", "USD"),
+    );
+    expect(field.bars).toEqual([
+      {
+        label: "Revenue Multiple",
+        kind: "method",
+        lower: 5_000_000,
+        upper: 10_000_000,
+      },
+      { label: "DCF", kind: "method", lower: 2_000_000, upper: 3_000_000 },
+      { label: "Blended", kind: "blended", lower: 4_000_000, upper: 8_000_000 },
+    ]);
+    expect(field.finalRange).toEqual({ lower: 3_000_000, upper: 7_000_000 });
+    expect([field.min, field.max]).toEqual([0, 10_000_000]);
+  });
+});
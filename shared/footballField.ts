@@ -0,0 +1,61 @@
+/**
+ * Football-field view of a report: one bar per method spanning its
+ * valuation range, with the final range as an overlay. Shared by the
+ * results screen chart and the PDF drawing.
+ */
+import type { ValuationReport } from "./api";
+import { convertRange, DEFAULT_FX_RATES, type FxRates } from "./currency";
+import { rangeToUnits, type MoneyRange } from "./money";
+
+export interface FootballFieldBar {
+  label: string;
+  kind: "method" | "blended";
+  // Whole units of the chart currency
+  lower: number;
+  upper: number;
+}
+
+export interface FootballField {
+  currency: string;
+  bars: FootballFieldBar[];
+  finalRange?: { lower: number; upper: number };
+  // Axis bounds covering every bar and the overlay
+  min: number;
+  max: number;
+}
+
+/**
+ * Bars in `currency`; the blended range from ./blend is appended when given
+ */
+export function footballField(
+  report: ValuationReport,
+  currency: string,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+  blended?: MoneyRange,
+): FootballField {
+  const inCurrency = (range: MoneyRange) =>
+    rangeToUnits(convertRange(range, currency, fxRates));
+
+  const bars: FootballFieldBar[] = (report.calculations ?? []).map(
+    ({ method, valuationRange }) => ({
+      label: method,
+      kind: "method",
+      ...inCurrency(valuationRange),
+    }),
+  );
+  if (blended) {
+    bars.push({ label: "Blended", kind: "blended", ...inCurrency(blended) });
+  }
+  const finalRange = report.finalValuation?.finalRange
+    ? inCurrency(report.finalValuation.finalRange)
+    : undefined;
+
+  const bounds = [...bars, ...(finalRange ? [finalRange] : [])];
+  return {
+    currency,
+    bars,
+    finalRange,
+    min: Math.min(0, ...bounds.map(({ lower }) => lower)),
+    max: Math.max(0, ...bounds.map(({ upper }) => upper)),
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import type { WizardData } from "./api";
+import {
+  deriveIndustryMetrics,
+  getMetricPack,
+  industryMetricsError,
+  metricPackSchema,
+  normalizeMetricAnswers,
+} from "./metricPacks";
+import { money } from "./money";
+import { normalizeInputs, runValuation } from "./valuation";
+
+const shop: WizardData = {
+  step1: {
+    businessName: "Cartwheel",
+    country: "United States",
+    industry: "ecommerce",
+    stage: "launched",
+    isLaunched: true,
+  },
+  step2: { revenue: money(1_000_000) },
+  step3: {
+    customerCount: 5_000,
+    industryMetrics: {
+      gmv: money(4, "millions"),
+      aov: money(80),
+      repeatRate: 40,
+    },
+  },
+};
+
+const confidence = (wizardData: WizardData, method: string) =>
+  runValuation(wizardData).recommendedMethods.recommendedMethods.find(
+    (entry) => entry.method === method,
+  ).confidence;
+
+describe("metric packs", () => {
+  it("validates answers against the pack fields", () => {
+    const schema = metricPackSchema(getMetricPack("biotech"));
+    expect(schema.safeParse({ pipelinePhase: "phase2" }).success).toBe(true);
+    expect(schema.safeParse({ pipelinePhase: "phase9" }).success).toBe(false);
+    expect(schema.safeParse({ patents: 1.5 }).success).toBe(false);
+    expect(getMetricPack("other")).toBeUndefined();
+  });
+
+  it("reports invalid and unknown answers with their wizard data path", () => {
+    expect(industryMetricsError(shop)).toBeUndefined();
+    const error = industryMetricsError(
+      {
+        ...shop,
+        step3: { industryMetrics: { repeatRate: 140, churn: 5 } },
+      },
+      ["wizardData"],
+    );
+    expect(error.issues.map((issue) => issue.path)).toEqual([
+      ["wizardData", "step3", "industryMetrics", "repeatRate"],
+      ["wizardData", "step3", "industryMetrics"],
+    ]);
+  });
+
+  it("normalises money and percentages and drops invalid answers", () => {
+    expect(
+      normalizeMetricAnswers(
+        getMetricPack("ecommerce"),
+        { gmv: money(2, "millions", "EUR"), repeatRate: 25, aov: -5 },
+        { USD: 1, EUR: 1.5 },
+      ),
+    ).toEqual({ gmv: 3_000_000, repeatRate: 0.25 });
+  });
+
+  it("derives sector metrics from the answers", () => {
+    const { pack, metrics } = deriveIndustryMetrics(normalizeInputs(shop));
+    expect(pack.label).toBe("E-commerce");
+    expect(metrics).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ label: "Orders per year", value: 50_000 }),
+        expect.objectContaining({ label: "Take rate", value: 0.25 }),
+        expect.objectContaining({ label: "Orders per customer", value: 10 }),
+      ]),
+    );
+  });
+
+  it("re-weights the valuation methods", () => {
+    const { industryMetrics, ...traction } = shop.step3;
+    const plain = { ...shop, step3: traction };
+    expect(confidence(shop, "Revenue Multiple")).toBeGreaterThan(
+      confidence(plain, "Revenue Multiple"),
+    );
+  });
+});
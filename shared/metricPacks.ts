@@ -0,0 +1,602 @@
+/**
+ * Industry metric packs.
+ *
+ * A pack adds questions to the traction step for one `step1.industry` value,
+ * validates the answers, derives metrics from them for the results screen and
+ * re-weights the confidence of the valuation methods. Packs are looked up in
+ * a registry so new industries only need a `registerMetricPack` call.
+ */
+import { z } from "zod";
+import { moneySchema, type WizardData } from "./api";
+import { DEFAULT_FX_RATES, toBaseUnits, type FxRates } from "./currency";
+import type { Money } from "./money";
+import type { ValuationInputs, ValuationMethod } from "./valuation";
+
+export interface MetricField {
+  key: string;
+  label: string;
+  // Percentages are entered 0-100; money in the reporting currency
+  kind: "number" | "percent" | "money" | "choice";
+  description: string;
+  placeholder?: string;
+  unit?: string;
+  integer?: boolean;
+  options?: Array<{ value: string; label: string }>;
+}
+
+/**
+ * Answers as stored in the wizard data
+ */
+export type MetricAnswers = Record<string, number | string | Money | undefined>;
+
+/**
+ * Answers as the engine sees them: money in whole base currency units and
+ * percentages as fractions
+ */
+export type MetricValues = Record<string, number | string | undefined>;
+
+export interface DerivedMetric {
+  label: string;
+  value: number;
+  format: "number" | "percent" | "money" | "ratio";
+  detail?: string;
+}
+
+export type MethodWeights = Partial<Record<ValuationMethod, number>>;
+
+export interface MetricPack {
+  industry: string;
+  label: string;
+  fields: MetricField[];
+  derive: (values: MetricValues, inputs: ValuationInputs) => DerivedMetric[];
+  // Multipliers on the stage confidence of each method; 1 when absent
+  methodWeights?: (
+    values: MetricValues,
+    inputs: ValuationInputs,
+  ) => MethodWeights;
+}
+
+const registry = new Map<string, MetricPack>();
+
+export function registerMetricPack(pack: MetricPack): void {
+  registry.set(pack.industry, pack);
+}
+
+export function getMetricPack(industry?: string): MetricPack | undefined {
+  return registry.get(industry || "");
+}
+
+// Forms edit money answers as plain amounts of the reporting currency
+function fieldSchema(
+  field: MetricField,
+  amountsAsNumbers = false,
+): z.ZodTypeAny {
+  switch (field.kind) {
+    case "money":
+      if (!amountsAsNumbers) return moneySchema;
+      return z
+        .number({ invalid_type_error: `${field.label} must be a number` })
+        .finite()
+        .min(0, `${field.label} must be 0 or greater`);
+    case "choice":
+      return z.enum(
+        field.options.map((option) => option.value) as [string, ...string[]],
+      );
+    default: {
+      let schema = z
+        .number({ invalid_type_error: `${field.label} must be a number` })
+        .finite()
+        .min(0, `${field.label} must be 0 or greater`);
+      if (field.kind === "percent") {
+        schema = schema.max(100, `${field.label} is a percentage`);
+      }
+      if (field.integer) {
+        schema = schema.int(`${field.label} must be a whole number`);
+      }
+      return schema;
+    }
+  }
+}
+
+/**
+ * Schema of a pack's answers; every field is optional. With
+ * `amountsAsNumbers` money answers are plain amounts, as in the wizard form.
+ */
+export function metricPackSchema(pack: MetricPack, amountsAsNumbers = false) {
+  return z.object(
+    Object.fromEntries(
+      pack.fields.map((field) => [
+        field.key,
+        fieldSchema(field, amountsAsNumbers).optional(),
+      ]),
+    ),
+  );
+}
+
+/**
+ * Check the metric answers against the pack of the company's industry.
+ * Issue paths point into the wizard data, after `path` when it is nested in
+ * a request body. Answers for an industry without a pack are not used.
+ */
+export function industryMetricsError(
+  wizardData: WizardData,
+  path: Array<string | number> = [],
+): z.ZodError | undefined {
+  const answers = wizardData.step3?.industryMetrics;
+  const pack = getMetricPack(wizardData.step1?.industry);
+  if (!answers || !pack) return undefined;
+
+  const parsed = metricPackSchema(pack).strict().safeParse(answers);
+  if (parsed.success) return undefined;
+  return new z.ZodError(
+    parsed.error.issues.map((issue) => ({
+      ...issue,
+      path: [...path, "step3", "industryMetrics", ...issue.path],
+    })),
+  );
+}
+
+/**
+ * Engine values for the answers. The API rejects invalid answers (see
+ * industryMetricsError); any left in older saved data are dropped.
+ */
+export function normalizeMetricAnswers(
+  pack: MetricPack,
+  answers: MetricAnswers | undefined,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): MetricValues | undefined {
+  const values: MetricValues = {};
+  for (const field of pack.fields) {
+    const parsed = fieldSchema(field).safeParse(answers?.[field.key]);
+    if (!parsed.success) continue;
+    values[field.key] =
+      field.kind === "money"
+        ? toBaseUnits(parsed.data as Money, fxRates)
+        : field.kind === "percent"
+          ? (parsed.data as number) / 100
+          : (parsed.data as number | string);
+  }
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+/**
+ * Confidence multiplier of a method for the company's industry pack
+ */
+export function methodWeight(
+  inputs: ValuationInputs,
+  method: ValuationMethod,
+): number {
+  const pack = getMetricPack(inputs.industry);
+  if (!pack?.methodWeights || !inputs.industryMetrics) return 1;
+  return pack.methodWeights(inputs.industryMetrics, inputs)[method] ?? 1;
+}
+
+/**
+ * Pack and derived metrics for the engine inputs; undefined without answers
+ */
+export function deriveIndustryMetrics(
+  inputs: ValuationInputs,
+): { pack: MetricPack; metrics: DerivedMetric[] } | undefined {
+  const pack = getMetricPack(inputs.industry);
+  if (!pack || !inputs.industryMetrics) return undefined;
+  return { pack, metrics: pack.derive(inputs.industryMetrics, inputs) };
+}
+
+const num = (value: number | string | undefined) =>
+  typeof value === "number" ? value : undefined;
+
+registerMetricPack({
+  industry: "ecommerce",
+  label: "E-commerce",
+  fields: [
+    {
+      key: "gmv",
+      label: "GMV",
+      kind: "money",
+      description: "Gross merchandise value over the last 12 months",
+      placeholder: "e.g., 5000000",
+    },
+    {
+      key: "aov",
+      label: "Average Order Value",
+      kind: "money",
+      description: "GMV divided by the number of orders",
+      placeholder: "e.g., 65",
+    },
+    {
+      key: "repeatRate",
+      label: "Repeat Purchase Rate",
+      kind: "percent",
+      unit: "%",
+      description: "Share of customers who ordered more than once",
+      placeholder: "e.g., 35",
+    },
+  ],
+  derive: (values, inputs) => {
+    const gmv = num(values.gmv);
+    const aov = num(values.aov);
+    const repeatRate = num(values.repeatRate);
+    const metrics: DerivedMetric[] = [];
+    if (gmv > 0 && aov > 0)
+      metrics.push({
+        label: "Orders per year",
+        value: Math.round(gmv / aov),
+        format: "number",
+      });
+    if (gmv > 0 && inputs.revenue > 0)
+      metrics.push({
+        label: "Take rate",
+        value: inputs.revenue / gmv,
+        format: "percent",
+        detail: "Revenue as a share of GMV",
+      });
+    if (gmv > 0 && aov > 0 && inputs.customerCount > 0)
+      metrics.push({
+        label: "Orders per customer",
+        value: gmv / aov / inputs.customerCount,
+        format: "ratio",
+      });
+    if (repeatRate !== undefined)
+      metrics.push({
+        label: "Repeat purchase rate",
+        value: repeatRate,
+        format: "percent",
+        detail:
+          repeatRate >= 0.3
+            ? "Healthy retention for online retail"
+            : "Below the ~30% typical of strong brands",
+      });
+    return metrics;
+  },
+  methodWeights: (values) => ({
+    ...(num(values.gmv) > 0 && {
+      "Revenue Multiple": 1.15,
+      "DCF Analysis": 1.1,
+    }),
+    ...(num(values.repeatRate) >= 0.3 && { "First Chicago Method": 1.05 }),
+  }),
+});
+
+// Likelihood of approval from each development phase (industry averages)
+const APPROVAL_PROBABILITY: Record<string, number> = {
+  discovery: 0.04,
+  preclinical: 0.06,
+  phase1: 0.1,
+  phase2: 0.16,
+  phase3: 0.5,
+  filed: 0.9,
+  approved: 1,
+};
+
+registerMetricPack({
+  industry: "biotech",
+  label: "Biotech",
+  fields: [
+    {
+      key: "pipelinePhase",
+      label: "Lead Asset Phase",
+      kind: "choice",
+      description: "Development stage of the most advanced programme",
+      options: [
+        { value: "discovery", label: "Discovery" },
+        { value: "preclinical", label: "Preclinical" },
+        { value: "phase1", label: "Phase I" },
+        { value: "phase2", label: "Phase II" },
+        { value: "phase3", label: "Phase III" },
+        { value: "filed", label: "Filed for approval" },
+        { value: "approved", label: "Approved" },
+      ],
+    },
+    {
+      key: "trialCount",
+      label: "Clinical Trials",
+      kind: "number",
+      integer: true,
+      description: "Active or completed clinical trials",
+      placeholder: "e.g., 2",
+    },
+    {
+      key: "patents",
+      label: "Patents",
+      kind: "number",
+      integer: true,
+      description: "Granted and pending patent families",
+      placeholder: "e.g., 5",
+    },
+  ],
+  derive: (values) => {
+    const metrics: DerivedMetric[] = [];
+    const phase =
+      typeof values.pipelinePhase === "string"
+        ? values.pipelinePhase
+        : undefined;
+    if (phase)
+      metrics.push({
+        label: "Probability of approval",
+        value: APPROVAL_PROBABILITY[phase],
+        format: "percent",
+        detail: "Industry average from the lead asset's phase",
+      });
+    if (num(values.trialCount) !== undefined)
+      metrics.push({
+        label: "Clinical trials",
+        value: num(values.trialCount),
+        format: "number",
+      });
+    if (num(values.patents) !== undefined)
+      metrics.push({
+        label: "Patent families",
+        value: num(values.patents),
+        format: "number",
+      });
+    return metrics;
+  },
+  // Binary clinical outcomes suit scenario-based methods better than
+  // multiples of (usually absent) revenue
+  methodWeights: (values, inputs) => ({
+    ...(typeof values.pipelinePhase === "string" && {
+      "First Chicago Method": 1.3,
+      "VC Method": 1.15,
+    }),
+    ...(inputs.revenue <= 0 && {
+      "Revenue Multiple": 0.7,
+      "DCF Analysis": 0.7,
+    }),
+    ...(num(values.patents) > 0 && { "Berkus Method": 1.1 }),
+  }),
+});
+
+registerMetricPack({
+  industry: "gaming",
+  label: "Gaming",
+  fields: [
+    {
+      key: "dau",
+      label: "DAU",
+      kind: "number",
+      integer: true,
+      description: "Average daily active users",
+      placeholder: "e.g., 40000",
+    },
+    {
+      key: "mau",
+      label: "MAU",
+      kind: "number",
+      integer: true,
+      description: "Monthly active users",
+      placeholder: "e.g., 200000",
+    },
+    {
+      key: "arpdau",
+      label: "ARPDAU",
+      kind: "money",
+      description: "Average revenue per daily active user",
+      placeholder: "e.g., 0.15",
+    },
+  ],
+  derive: (values) => {
+    const dau = num(values.dau);
+    const mau = num(values.mau);
+    const arpdau = num(values.arpdau);
+    const metrics: DerivedMetric[] = [];
+    if (dau > 0 && mau > 0)
+      metrics.push({
+        label: "DAU/MAU",
+        value: dau / mau,
+        format: "percent",
+        detail:
+          dau / mau >= 0.2
+            ? "Sticky; 20% or more is strong"
+            : "Below the 20% mark of sticky games",
+      });
+    if (dau > 0 && arpdau > 0)
+      metrics.push({
+        label: "Revenue run rate",
+        value: dau * arpdau * 365,
+        format: "money",
+        detail: "DAU × ARPDAU × 365",
+      });
+    return metrics;
+  },
+  methodWeights: (values) => {
+    const stickiness =
+      num(values.mau) > 0 ? num(values.dau) / num(values.mau) : undefined;
+    return {
+      ...(num(values.arpdau) > 0 && { "Revenue Multiple": 1.1 }),
+      ...(stickiness !== undefined && {
+        "First Chicago Method": stickiness >= 0.2 ? 1.1 : 0.9,
+      }),
+    };
+  },
+});
+
+registerMetricPack({
+  industry: "cleantech",
+  label: "CleanTech",
+  fields: [
+    {
+      key: "contractedCapacity",
+      label: "Contracted Capacity",
+      kind: "number",
+      unit: "MW",
+      description: "Capacity under signed offtake or supply contracts",
+      placeholder: "e.g., 120",
+    },
+    {
+      key: "pipelineCapacity",
+      label: "Pipeline Capacity",
+      kind: "number",
+      unit: "MW",
+      description: "Capacity in development or negotiation",
+      placeholder: "e.g., 400",
+    },
+    {
+      key: "contractedRevenue",
+      label: "Contracted Revenue",
+      kind: "money",
+      description: "Remaining value of signed contracts",
+      placeholder: "e.g., 25000000",
+    },
+  ],
+  derive: (values, inputs) => {
+    const contracted = num(values.contractedCapacity);
+    const pipeline = num(values.pipelineCapacity);
+    const backlog = num(values.contractedRevenue);
+    const metrics: DerivedMetric[] = [];
+    if (contracted !== undefined)
+      metrics.push({
+        label: "Contracted capacity (MW)",
+        value: contracted,
+        format: "number",
+      });
+    if (contracted > 0 && pipeline > 0)
+      metrics.push({
+        label: "Contracted share of pipeline",
+        value: contracted / (contracted + pipeline),
+        format: "percent",
+      });
+    if (backlog > 0 && inputs.revenue > 0)
+      metrics.push({
+        label: "Backlog coverage",
+        value: backlog / inputs.revenue,
+        format: "ratio",
+        detail: "Years of current revenue under contract",
+      });
+    return metrics;
+  },
+  // Contracted cash flows make discounted cash flow far more reliable
+  methodWeights: (values) => ({
+    ...(num(values.contractedRevenue) > 0 && { "DCF Analysis": 1.3 }),
+    ...(num(values.contractedCapacity) > 0 && { "Risk Factor Summation": 1.1 }),
+  }),
+});
+
+registerMetricPack({
+  industry: "healthtech",
+  label: "HealthTech",
+  fields: [
+    {
+      key: "regulatoryStatus",
+      label: "Regulatory Status",
+      kind: "choice",
+      description: "Clearance of the main product (e.g. FDA, CE)",
+      options: [
+        { value: "notRequired", label: "Not required" },
+        { value: "planned", label: "Not yet submitted" },
+        { value: "submitted", label: "Submitted" },
+        { value: "cleared", label: "Cleared" },
+      ],
+    },
+    {
+      key: "providers",
+      label: "Provider Sites",
+      kind: "number",
+      integer: true,
+      description: "Clinics, hospitals or practices using the product",
+      placeholder: "e.g., 30",
+    },
+    {
+      key: "patients",
+      label: "Patients Served",
+      kind: "number",
+      integer: true,
+      description: "Patients reached in the last 12 months",
+      placeholder: "e.g., 12000",
+    },
+  ],
+  derive: (values, inputs) => {
+    const providers = num(values.providers);
+    const patients = num(values.patients);
+    const metrics: DerivedMetric[] = [];
+    if (providers > 0 && patients > 0)
+      metrics.push({
+        label: "Patients per site",
+        value: patients / providers,
+        format: "ratio",
+      });
+    if (patients > 0 && inputs.revenue > 0)
+      metrics.push({
+        label: "Revenue per patient",
+        value: inputs.revenue / patients,
+        format: "money",
+      });
+    if (providers > 0 && inputs.revenue > 0)
+      metrics.push({
+        label: "Revenue per site",
+        value: inputs.revenue / providers,
+        format: "money",
+      });
+    return metrics;
+  },
+  methodWeights: (values) =>
+    values.regulatoryStatus === "cleared"
+      ? { "Scorecard Method": 1.1, "Revenue Multiple": 1.1 }
+      : values.regulatoryStatus === "planned" ||
+          values.regulatoryStatus === "submitted"
+        ? { "Risk Factor Summation": 1.2, "Revenue Multiple": 0.9 }
+        : {},
+});
+
+registerMetricPack({
+  industry: "edtech",
+  label: "EdTech",
+  fields: [
+    {
+      key: "learners",
+      label: "Active Learners",
+      kind: "number",
+      integer: true,
+      description: "Learners active in the last 30 days",
+      placeholder: "e.g., 25000",
+    },
+    {
+      key: "paidConversion",
+      label: "Paid Conversion",
+      kind: "percent",
+      unit: "%",
+      description: "Share of learners on a paid plan",
+      placeholder: "e.g., 6",
+    },
+    {
+      key: "completionRate",
+      label: "Completion Rate",
+      kind: "percent",
+      unit: "%",
+      description: "Share of enrolled learners finishing a course",
+      placeholder: "e.g., 40",
+    },
+  ],
+  derive: (values, inputs) => {
+    const learners = num(values.learners);
+    const conversion = num(values.paidConversion);
+    const completion = num(values.completionRate);
+    const metrics: DerivedMetric[] = [];
+    const paying =
+      learners > 0 && conversion !== undefined
+        ? learners * conversion
+        : undefined;
+    if (paying !== undefined)
+      metrics.push({
+        label: "Paying learners",
+        value: Math.round(paying),
+        format: "number",
+      });
+    if (paying > 0 && inputs.revenue > 0)
+      metrics.push({
+        label: "Revenue per paying learner",
+        value: inputs.revenue / paying,
+        format: "money",
+      });
+    if (completion !== undefined)
+      metrics.push({
+        label: "Completion rate",
+        value: completion,
+        format: "percent",
+      });
+    return metrics;
+  },
+  methodWeights: (values) => ({
+    ...(num(values.completionRate) >= 0.5 && { "Scorecard Method": 1.1 }),
+    ...(num(values.paidConversion) > 0 && { "Revenue Multiple": 1.05 }),
+  }),
+});
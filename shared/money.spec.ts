@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  amountIn,
+  formatAmount,
+  formatMoneyRange,
+  money,
+  moneyRange,
+  rangeToUnits,
+  rescale,
+  toUnits,
+} from "./money";
+
+describe("money", () => {
+  it("converts between scales explicitly", () => {
+    expect(toUnits(money(2.5, "millions"))).toBe(2_500_000);
+    expect(rescale(money(1_500_000), "thousands")).toEqual(
+      money(1500, "thousands"),
+    );
+    expect(amountIn(money(750, "thousands"), "millions")).toBe(0.75);
+    expect(amountIn(undefined, "thousands")).toBe(0);
+  });
+
+  it("does not guess the scale from the magnitude", () => {
+    // A 5,000 valuation in millions is 5 billion, not 5 million
+    expect(rangeToUnits(moneyRange(5000, 8000, "millions"))).toEqual({
+      lower: 5e9,
+      upper: 8e9,
+    });
+    expect(rangeToUnits(moneyRange(5000, 8000, "units"))).toEqual({
+      lower: 5000,
+      upper: 8000,
+    });
+  });
+
+  it("formats compact amounts with the currency symbol", () => {
+    expect(formatAmount(1_234_567)).toBe("$1.23M");
+    expect(formatAmount(-45_000)).toBe("-$45K");
+    expect(formatAmount(2e9, "EUR")).toBe("€2.00B");
+    expect(formatMoneyRange(moneyRange(1.2, 3.4, "millions"))).toBe(
+      "$1.20M - $3.40M",
+    );
+  });
+});
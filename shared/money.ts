@@ -0,0 +1,134 @@
+/**
+ * Money values with an explicit unit scale and currency.
+ *
+ * Amounts move between the wizard (whole currency units), the FastAPI
+ * payload (thousands) and valuation reports (millions). Every value carries
+ * its scale so conversions are explicit instead of guessed from magnitude.
+ */
+
+export const UNIT_SCALES = {
+  units: 1,
+  thousands: 1e3,
+  millions: 1e6,
+  billions: 1e9,
+} as const;
+
+export type UnitScale = keyof typeof UNIT_SCALES;
+
+export const DEFAULT_CURRENCY = "USD";
+
+export interface Money {
+  amount: number;
+  scale: UnitScale;
+  currency: string;
+}
+
+export interface MoneyRange {
+  lower: number;
+  upper: number;
+  scale: UnitScale;
+  currency: string;
+}
+
+export function money(
+  amount: number,
+  scale: UnitScale = "units",
+  currency: string = DEFAULT_CURRENCY,
+): Money {
+  return { amount, scale, currency };
+}
+
+/**
+ * Amount in whole currency units
+ */
+export function toUnits(value: Money | undefined | null): number {
+  if (!value) return 0;
+  return value.amount * UNIT_SCALES[value.scale];
+}
+
+export function rescale(value: Money, scale: UnitScale): Money {
+  return {
+    ...value,
+    amount: (value.amount * UNIT_SCALES[value.scale]) / UNIT_SCALES[scale],
+    scale,
+  };
+}
+
+/**
+ * Amount expressed in the given scale; missing values count as zero
+ */
+export function amountIn(
+  value: Money | undefined | null,
+  scale: UnitScale,
+): number {
+  return toUnits(value) / UNIT_SCALES[scale];
+}
+
+export function moneyRange(
+  lower: number,
+  upper: number,
+  scale: UnitScale = "units",
+  currency: string = DEFAULT_CURRENCY,
+): MoneyRange {
+  return { lower, upper, scale, currency };
+}
+
+/**
+ * Range bounds in whole currency units
+ */
+export function rangeToUnits(range: MoneyRange): {
+  lower: number;
+  upper: number;
+} {
+  const factor = UNIT_SCALES[range.scale];
+  return { lower: range.lower * factor, upper: range.upper * factor };
+}
+
+export function rescaleRange(range: MoneyRange, scale: UnitScale): MoneyRange {
+  const factor = UNIT_SCALES[range.scale] / UNIT_SCALES[scale];
+  return {
+    ...range,
+    lower: range.lower * factor,
+    upper: range.upper * factor,
+    scale,
+  };
+}
+
+export function currencySymbol(currency: string = DEFAULT_CURRENCY): string {
+  try {
+    const parts = new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      currencyDisplay: "symbol",
+    }).formatToParts(0);
+    return parts.find((part) => part.type === "currency")?.value || currency;
+  } catch (e) {
+    // Unknown currency code
+    return currency;
+  }
+}
+
+/**
+ * Compact display of an amount in whole units, e.g. "$1.20M" or "€350K"
+ */
+export function formatAmount(
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+): string {
+  const symbol = currencySymbol(currency);
+  const sign = amount < 0 ? "-" : "";
+  const abs = Math.abs(amount);
+  if (abs >= 1e9) return `${sign}${symbol}${(abs / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${sign}${symbol}${(abs / 1e6).toFixed(2)}M`;
+  if (abs >= 1e3) return `${sign}${symbol}${(abs / 1e3).toFixed(0)}K`;
+  return `${sign}${symbol}${Math.round(abs).toLocaleString("en-US")}`;
+}
+
+export function formatMoney(value: Money): string {
+  return formatAmount(toUnits(value), value.currency);
+}
+
+export function formatMoneyRange(range: MoneyRange): string {
+  const { lower, upper } = rangeToUnits(range);
+  return `${formatAmount(lower, range.currency)} - ${formatAmount(upper, range.currency)}`;
+}
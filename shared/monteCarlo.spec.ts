@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { money } from "./money";
+import {
+  defaultDistributions,
+  runMonteCarlo,
+  sampleDistribution,
+  seededRandom,
+} from "./monteCarlo";
+import { normalizeInputs } from "./valuation";
+
+const inputs = normalizeInputs({
+  step1: {
+    businessName: "Acme Analytics",
+    country: "United States",
+    industry: "saas",
+    stage: "growth",
+    isLaunched: true,
+  },
+  step2: { revenue: money(2_000_000), monthlyBurnRate: money(150_000) },
+  step3: { customerCount: 250, growthRate: 80, growthPeriod: "yearly" },
+});
+
+describe("sampleDistribution", () => {
+  it("keeps triangular draws within their bounds", () => {
+    const random = seededRandom(7);
+    for (let i = 0; i < 500; i++) {
+      const value = sampleDistribution(
+        { kind: "triangular", min: 1, mode: 2, max: 4 },
+        random,
+      );
+      expect(value).toBeGreaterThanOrEqual(1);
+      expect(value).toBeLessThanOrEqual(4);
+    }
+  });
+});
+
+describe("runMonteCarlo", () => {
+  it("produces ordered percentiles and a histogram covering every run", () => {
+    const result = runMonteCarlo(inputs, defaultDistributions(inputs), {
+      iterations: 500,
+    });
+    expect(result.p10).toBeLessThanOrEqual(result.p50);
+    expect(result.p50).toBeLessThanOrEqual(result.p90);
+    expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(500);
+    expect(result.scale).toBe("millions");
+  });
+
+  it("is reproducible for a given seed", () => {
+    const distributions = defaultDistributions(inputs);
+    const options = { iterations: 200, seed: 42 };
+    expect(runMonteCarlo(inputs, distributions, options)).toEqual(
+      runMonteCarlo(inputs, distributions, options),
+    );
+  });
+
+  it("collapses to a point when every input is fixed", () => {
+    const fixed = { kind: "fixed" as const };
+    const result = runMonteCarlo(
+      inputs,
+      {
+        annualGrowthRate: { ...fixed, value: inputs.annualGrowthRate },
+        targetMargin: { ...fixed, value: inputs.targetMargin },
+        multipleFactor: { ...fixed, value: 1 },
+        discountRate: { ...fixed, value: inputs.discountRate },
+      },
+      { iterations: 50 },
+    );
+    expect(result.p10).toBe(result.p90);
+  });
+
+  it("rejects inconsistent distributions", () => {
+    expect(() =>
+      runMonteCarlo(inputs, {
+        ...defaultDistributions(inputs),
+        multipleFactor: { kind: "triangular", min: 2, mode: 1, max: 3 },
+      }),
+    ).toThrow("min <= mode <= max");
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Monte Carlo mode for the in-house engine.
+ *
+ * The uncertain assumptions are drawn from user-specified distributions and
+ * the methods re-run for every draw; the result is the distribution of the
+ * blended midpoint. A seeded generator keeps runs reproducible.
+ */
+import type { ValuationDistribution } from "./api";
+import { BASE_CURRENCY } from "./currency";
+import {
+  blendRanges,
+  runValuationMethods,
+  type ValuationInputs,
+} from "./valuation";
+
+export type Distribution =
+  | { kind: "fixed"; value: number }
+  | { kind: "uniform"; min: number; max: number }
+  | { kind: "triangular"; min: number; mode: number; max: number }
+  | { kind: "normal"; mean: number; sd: number };
+
+export const MONTE_CARLO_PARAMETERS = [
+  "annualGrowthRate",
+  "targetMargin",
+  "multipleFactor",
+  "discountRate",
+] as const;
+
+export type MonteCarloParameter = (typeof MONTE_CARLO_PARAMETERS)[number];
+
+export type MonteCarloDistributions = Record<MonteCarloParameter, Distribution>;
+
+export const PARAMETER_LABELS: Record<MonteCarloParameter, string> = {
+  annualGrowthRate: "Annual growth",
+  targetMargin: "Target margin",
+  multipleFactor: "Exit multiple (× sector)",
+  discountRate: "Discount rate",
+};
+
+// Draws outside these bounds are clamped so every method stays defined
+const PARAMETER_BOUNDS: Record<MonteCarloParameter, [number, number]> = {
+  annualGrowthRate: [0, 3],
+  targetMargin: [-1, 0.6],
+  multipleFactor: [0.1, 5],
+  discountRate: [0.08, 0.9],
+};
+
+export const DEFAULT_ITERATIONS = 5000;
+const MAX_ITERATIONS = 50_000;
+const HISTOGRAM_BINS = 30;
+
+export interface MonteCarloOptions {
+  iterations?: number;
+  seed?: number;
+  bins?: number;
+}
+
+/**
+ * Distributions centred on the wizard answers and engine benchmarks
+ */
+export function defaultDistributions(
+  inputs: ValuationInputs,
+): MonteCarloDistributions {
+  const growth = inputs.annualGrowthRate;
+  return {
+    annualGrowthRate: {
+      kind: "triangular",
+      min: growth * 0.5,
+      mode: growth,
+      max: growth * 1.3,
+    },
+    targetMargin: { kind: "normal", mean: inputs.targetMargin, sd: 0.05 },
+    multipleFactor: { kind: "triangular", min: 0.7, mode: 1, max: 1.4 },
+    discountRate: { kind: "normal", mean: inputs.discountRate, sd: 0.05 },
+  };
+}
+
+export function validateDistribution(distribution: Distribution): void {
+  switch (distribution.kind) {
+    case "fixed":
+      if (!Number.isFinite(distribution.value)) {
+        throw new Error("Fixed value must be a number");
+      }
+      return;
+    case "uniform":
+      if (!(distribution.min <= distribution.max)) {
+        throw new Error("Uniform min must not exceed max");
+      }
+      return;
+    case "triangular":
+      if (
+        !(distribution.min <= distribution.mode) ||
+        !(distribution.mode <= distribution.max)
+      ) {
+        throw new Error("Triangular values must satisfy min <= mode <= max");
+      }
+      return;
+    case "normal":
+      if (!Number.isFinite(distribution.mean) || !(distribution.sd >= 0)) {
+        throw new Error("Normal needs a mean and a non-negative deviation");
+      }
+      return;
+  }
+}
+
+/**
+ * Small seeded PRNG (mulberry32) returning values in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sampleDistribution(
+  distribution: Distribution,
+  random: () => number,
+): number {
+  switch (distribution.kind) {
+    case "fixed":
+      return distribution.value;
+    case "uniform":
+      return (
+        distribution.min + (distribution.max - distribution.min) * random()
+      );
+    case "triangular": {
+      const { min, mode, max } = distribution;
+      if (max === min) return min;
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case "normal": {
+      // Box-Muller; 1 - random() avoids log(0)
+      const radius = Math.sqrt(-2 * Math.log(1 - random()));
+      return (
+        distribution.mean +
+        distribution.sd * radius * Math.cos(2 * Math.PI * random())
+      );
+    }
+  }
+}
+
+// Linear interpolation between the closest ranks of a sorted sample
+const percentile = (sorted: number[], p: number) => {
+  const rank = (sorted.length - 1) * p;
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+};
+
+const toMillions = (amount: number) => Math.round((amount / 1e6) * 100) / 100;
+
+function buildHistogram(sorted: number[], bins: number) {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / bins || 1;
+  const counts = new Array<number>(bins).fill(0);
+  for (const value of sorted) {
+    counts[Math.min(Math.floor((value - min) / width), bins - 1)]++;
+  }
+  return counts.map((count, index) => ({
+    lower: toMillions(min + index * width),
+    upper: toMillions(min + (index + 1) * width),
+    count,
+  }));
+}
+
+/**
+ * Sample the blended midpoint; amounts come back in millions of the base
+ * currency like the report ranges
+ */
+export function runMonteCarlo(
+  inputs: ValuationInputs,
+  distributions: MonteCarloDistributions,
+  {
+    iterations = DEFAULT_ITERATIONS,
+    seed = 1,
+    bins = HISTOGRAM_BINS,
+  }: MonteCarloOptions = {},
+): ValuationDistribution {
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error("Iterations must be a positive whole number");
+  }
+  if (iterations > MAX_ITERATIONS) {
+    throw new Error(`At most ${MAX_ITERATIONS} iterations are supported`);
+  }
+  MONTE_CARLO_PARAMETERS.forEach((parameter) =>
+    validateDistribution(distributions[parameter]),
+  );
+
+  const random = seededRandom(seed);
+  const midpoints: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const draw = { ...inputs };
+    for (const parameter of MONTE_CARLO_PARAMETERS) {
+      const [min, max] = PARAMETER_BOUNDS[parameter];
+      const value = sampleDistribution(distributions[parameter], random);
+      draw[parameter] = Math.min(Math.max(value, min), max);
+    }
+    const { lower, upper } = blendRanges(runValuationMethods(draw));
+    midpoints.push((lower + upper) / 2);
+  }
+
+  midpoints.sort((a, b) => a - b);
+  const mean = midpoints.reduce((sum, value) => sum + value, 0) / iterations;
+
+  return {
+    iterations,
+    p10: toMillions(percentile(midpoints, 0.1)),
+    p50: toMillions(percentile(midpoints, 0.5)),
+    p90: toMillions(percentile(midpoints, 0.9)),
+    mean: toMillions(mean),
+    scale: "millions",
+    currency: BASE_CURRENCY,
+    histogram: buildHistogram(midpoints, bins),
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  canonicalJson,
+  REPORT_CACHE_KEY_PATTERN,
+  reportCacheKey,
+} from "./reportCache";
+
+describe("canonicalJson", () => {
+  it("sorts keys and drops undefined properties", () => {
+    expect(
+      canonicalJson({ b: [1, undefined], a: { d: undefined, c: "x" } }),
+    ).toBe('{"a":{"c":"x"},"b":[1,null]}');
+  });
+});
+
+describe("reportCacheKey", () => {
+  it("ignores key order but not the backend or the inputs", async () => {
+    const key = await reportCacheKey("/api", { revenue: 1, stage: "mvp" });
+    expect(key).toMatch(REPORT_CACHE_KEY_PATTERN);
+    expect(await reportCacheKey("/api", { stage: "mvp", revenue: 1 })).toBe(
+      key,
+    );
+    expect(await reportCacheKey("demo", { revenue: 1, stage: "mvp" })).not.toBe(
+      key,
+    );
+    expect(await reportCacheKey("/api", { revenue: 2, stage: "mvp" })).not.toBe(
+      key,
+    );
+  });
+
+  it("fails clearly where crypto.subtle is unavailable", async () => {
+    vi.stubGlobal("crypto", {});
+    try {
+      await expect(reportCacheKey("/api", {})).rejects.toThrow(
+        "crypto.subtle is not available",
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Content-addressed keys for cached valuation reports. A key is the SHA-256
+ * of the canonical JSON of the payload a backend receives, together with
+ * the backend and the prompt version, so any change to them is a miss.
+ */
+import { SCHEMA_VERSION } from "./api";
+
+/** Bump when the backend prompts or the in-house engine change their answers */
+export const PROMPT_VERSION = 1;
+
+export const REPORT_CACHE_KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Backend identity of the in-house engine on the built-in server. The
+ * server caches the reports its engine produces under it; clients cannot
+ * write to the shared cache.
+ */
+export const SERVER_REPORT_BACKEND = canonicalJson({ id: "server" });
+
+/**
+ * JSON with object keys sorted and undefined properties dropped, so equal
+ * payloads serialize identically whatever order they were built in
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : canonicalJson(item))).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export async function reportCacheKey(
+  backend: string,
+  payload: unknown,
+): Promise<string> {
+  const canonical = canonicalJson({
+    backend,
+    promptVersion: PROMPT_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    payload,
+  });
+  // Only available in secure contexts (HTTPS or localhost) in browsers
+  if (!globalThis.crypto?.subtle) {
+    throw new Error("crypto.subtle is not available in this context");
+  }
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonical),
+  );
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
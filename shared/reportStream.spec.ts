@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import type { ValuationReport } from "./api";
+import { moneyRange } from "./money";
+import {
+  applyStreamChunk,
+  completeReport,
+  emptyStreamedReport,
+  missingSections,
+  toStreamChunks,
+} from "./reportStream";
+
+const calculation = (method: string) => ({
+  method,
+  valuationRange: moneyRange(4, 8, "millions", "USD"),
+  explanation: "",
+  calculation: "",
+  narrative: "",
+});
+
+const report = {
+  businessSummary: { summary: "SaaS", stageAssessment: "Seed" },
+  recommendedMethods: {
+    recommendedMethods: [{ method: "DCF", confidence: 0.7, reason: "" }],
+  },
+  calculations: [calculation("DCF"), calculation("Scorecard")],
+  competitorAnalysis: { competitors: ["Acme"] },
+  strategicContext: "Crowded market.",
+  finalValuation: { finalRange: moneyRange(4, 8, "millions", "USD") },
+} as unknown as ValuationReport;
+
+describe("report stream", () => {
+  it("reassembles the report from its chunks", () => {
+    const state = toStreamChunks(report).reduce(
+      applyStreamChunk,
+      emptyStreamedReport(),
+    );
+    expect(state.progress).toBe(1);
+    expect(state.failed).toEqual({});
+    expect(completeReport(state)).toEqual(report);
+  });
+
+  it("keeps the sections received before the stream stopped", () => {
+    const state = toStreamChunks(report)
+      .slice(0, 3)
+      .reduce(applyStreamChunk, emptyStreamedReport());
+    expect(state.report.businessSummary).toEqual(report.businessSummary);
+    expect(state.report.calculations).toHaveLength(1);
+    expect(state.progress).toBeCloseTo(3 / 7);
+    expect(missingSections(state)).toEqual(["calculations", "finalValuation"]);
+    expect(() => completeReport(state)).toThrow(
+      "The report stream ended without: calculations, finalValuation",
+    );
+  });
+
+  it("records a malformed section without dropping the others", () => {
+    const state = toStreamChunks(report)
+      .map((chunk) =>
+        chunk.section === "recommendedMethods"
+          ? { ...chunk, data: { recommendedMethods: "DCF" } as never }
+          : chunk,
+      )
+      .reduce(applyStreamChunk, emptyStreamedReport());
+    expect(state.failed.recommendedMethods).toMatch(/recommendedMethods/);
+    expect(state.report.recommendedMethods).toBeUndefined();
+    expect(state.report.finalValuation).toEqual(report.finalValuation);
+    expect(missingSections(state)).toEqual(["recommendedMethods"]);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Splitting a valuation report into the newline-delimited JSON events of
+ * /api/valuation-report-stream, and assembling it again as they arrive
+ */
+import {
+  formatSchemaIssues,
+  valuationCalculationSchema,
+  valuationReportSchema,
+  type ValuationReport,
+  type ValuationStreamEvent,
+} from "./api";
+
+export function toStreamChunks(
+  report: ValuationReport,
+): ValuationStreamEvent[] {
+  const total = report.calculations.length;
+  // businessSummary, recommendedMethods, each calculation, competitors,
+  // strategic context, final valuation
+  const steps = total + 5;
+  let step = 0;
+  const progress = () => Math.round((++step / steps) * 100) / 100;
+
+  const chunks: ValuationStreamEvent[] = [
+    {
+      section: "businessSummary",
+      data: report.businessSummary,
+      progress: progress(),
+    },
+    {
+      section: "recommendedMethods",
+      data: report.recommendedMethods,
+      progress: progress(),
+    },
+  ];
+
+  report.calculations.forEach((calculation, index) => {
+    chunks.push({
+      section: "calculation",
+      data: calculation,
+      index,
+      total,
+      progress: progress(),
+    });
+  });
+
+  chunks.push(
+    {
+      section: "competitorAnalysis",
+      data: report.competitorAnalysis,
+      progress: progress(),
+    },
+    {
+      section: "strategicContext",
+      data: report.strategicContext,
+      progress: progress(),
+    },
+    {
+      section: "finalValuation",
+      data: report.finalValuation,
+      progress: progress(),
+    },
+    { section: "complete", progress: 1 },
+  );
+
+  return chunks;
+}
+
+export type StreamSection =
+  | "businessSummary"
+  | "recommendedMethods"
+  | "calculations"
+  | "competitorAnalysis"
+  | "strategicContext"
+  | "finalValuation";
+
+/**
+ * Report assembled from the events received so far
+ */
+export interface StreamedReport {
+  report: Partial<ValuationReport>;
+  // 0-1 as reported by the stream
+  progress: number;
+  // Number of calculations announced by the first calculation event
+  expectedCalculations?: number;
+  // Sections dropped because their data did not match the report schema
+  failed: Partial<Record<StreamSection, string>>;
+  complete: boolean;
+}
+
+// Sections a report cannot be shown without
+const REQUIRED_SECTIONS: StreamSection[] = [
+  "businessSummary",
+  "recommendedMethods",
+  "calculations",
+  "finalValuation",
+];
+
+const sectionSchemas = valuationReportSchema.shape;
+
+export function emptyStreamedReport(): StreamedReport {
+  return { report: {}, progress: 0, failed: {}, complete: false };
+}
+
+/**
+ * Fold one event into the report. Sections whose data fails validation are
+ * recorded in `failed` instead of the report so the rest can still render.
+ */
+export function applyStreamChunk(
+  state: StreamedReport,
+  chunk: ValuationStreamEvent,
+): StreamedReport {
+  const next: StreamedReport = {
+    ...state,
+    progress: Math.max(state.progress, chunk.progress ?? 0),
+  };
+
+  if (chunk.section === "complete") {
+    return { ...next, complete: true };
+  }
+
+  if (chunk.section === "calculation") {
+    const parsed = valuationCalculationSchema.safeParse(chunk.data);
+    if (!parsed.success) {
+      return {
+        ...next,
+        expectedCalculations: chunk.total,
+        failed: {
+          ...state.failed,
+          calculations: `Calculation ${chunk.index + 1}: ${formatSchemaIssues(parsed.error).join("; ")}`,
+        },
+      };
+    }
+    return {
+      ...next,
+      expectedCalculations: chunk.total,
+      // Calculations are streamed in order
+      report: {
+        ...state.report,
+        calculations: [...(state.report.calculations ?? []), parsed.data],
+      },
+    };
+  }
+
+  const parsed = sectionSchemas[chunk.section].safeParse(chunk.data);
+  if (!parsed.success) {
+    return {
+      ...next,
+      failed: {
+        ...state.failed,
+        [chunk.section]: formatSchemaIssues(parsed.error).join("; "),
+      },
+    };
+  }
+  return { ...next, report: { ...state.report, [chunk.section]: parsed.data } };
+}
+
+/**
+ * Required sections not received intact, including calculations while fewer
+ * have arrived than announced
+ */
+export function missingSections(state: StreamedReport): StreamSection[] {
+  const { report, expectedCalculations } = state;
+  return REQUIRED_SECTIONS.filter((section) => {
+    if (section === "calculations") {
+      return (
+        report.calculations === undefined ||
+        state.failed.calculations !== undefined ||
+        report.calculations.length < (expectedCalculations ?? 0)
+      );
+    }
+    return report[section] === undefined;
+  });
+}
+
+/**
+ * The finished report once the stream has completed with every required
+ * section
+ */
+export function completeReport(state: StreamedReport): ValuationReport {
+  const missing = missingSections(state);
+  if (!state.complete || missing.length > 0) {
+    throw new Error(
+      missing.length > 0
+        ? `The report stream ended without: ${missing.join(", ")}`
+        : "The report stream ended before the report was complete",
+    );
+  }
+  return valuationReportSchema.parse(state.report);
+}
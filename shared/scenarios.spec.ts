@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { wizardDataSchema, type WizardData } from "./api";
+import { money } from "./money";
+import { applyScenario, defaultScenarios, runScenarios } from "./scenarios";
+import { runValuation } from "./valuation";
+
+const wizardData: WizardData = {
+  step1: {
+    businessName: "Acme Analytics",
+    country: "United States",
+    industry: "saas",
+    stage: "growth",
+    isLaunched: true,
+  },
+  step2: {
+    revenue: money(2_000_000),
+    monthlyBurnRate: money(150_000),
+  },
+  step3: { customerCount: 250, growthRate: 80, growthPeriod: "yearly" },
+};
+
+describe("applyScenario", () => {
+  it("replaces only the overridden fields", () => {
+    const applied = applyScenario(wizardData, {
+      id: "custom",
+      name: "Custom",
+      probability: 10,
+      overrides: { step2: { revenue: money(5, "millions") } },
+    });
+    expect(applied.step2.revenue).toEqual(money(5, "millions"));
+    expect(applied.step2.monthlyBurnRate).toEqual(money(150_000));
+    expect(applied.step3).toBe(wizardData.step3);
+  });
+});
+
+describe("runScenarios", () => {
+  it("blends scenario ranges by probability", () => {
+    const scenarios = defaultScenarios(wizardData);
+    const { results, weightedRange } = runScenarios(wizardData, scenarios);
+    const [base, upside, downside] = results.map(
+      (result) => result.report.finalValuation.finalRange,
+    );
+    expect(upside.lower).toBeGreaterThan(base.lower);
+    expect(downside.lower).toBeLessThan(base.lower);
+    expect(weightedRange.lower).toBeCloseTo(
+      base.lower * 0.5 + upside.lower * 0.25 + downside.lower * 0.25,
+      1,
+    );
+    expect(base).toEqual(runValuation(wizardData).finalValuation.finalRange);
+  });
+
+  it("weights by share when probabilities do not sum to 100", () => {
+    const [base] = defaultScenarios(wizardData);
+    const { results, weightedRange } = runScenarios(wizardData, [
+      { ...base, probability: 20 },
+    ]);
+    expect(results[0].weight).toBe(1);
+    expect(weightedRange).toEqual(results[0].report.finalValuation.finalRange);
+  });
+
+  it("rejects scenarios without any probability", () => {
+    const [base] = defaultScenarios(wizardData);
+    expect(() =>
+      runScenarios(wizardData, [{ ...base, probability: 0 }]),
+    ).toThrow("Scenario probabilities");
+  });
+
+  it("round-trips through the wizard schema", () => {
+    const parsed = wizardDataSchema.parse({
+      ...wizardData,
+      scenarios: defaultScenarios(wizardData),
+    });
+    expect(parsed.scenarios).toHaveLength(3);
+    expect(parsed.scenarios[1].overrides.step2.revenue).toEqual(
+      money(2_600_000),
+    );
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Base / upside / downside scenario modelling.
+ *
+ * Each scenario overrides a few step2/step3 answers and is run through the
+ * in-house engine; the scenario ranges are then blended by probability.
+ */
+import type { Scenario, ValuationReport, WizardData } from "./api";
+import { DEFAULT_FX_RATES, type FxRates } from "./currency";
+import { moneyRange, type Money, type MoneyRange } from "./money";
+import { withTimeSeries } from "./timeSeries";
+import { runValuation } from "./valuation";
+
+export interface ScenarioResult {
+  scenario: Scenario;
+  report: ValuationReport;
+  // Probability as a share of the scenarios' total, 0-1
+  weight: number;
+}
+
+export interface ScenarioAnalysis {
+  results: ScenarioResult[];
+  weightedRange: MoneyRange;
+  totalProbability: number;
+}
+
+const scaleMoney = (value: Money | undefined, factor: number) =>
+  value ? { ...value, amount: value.amount * factor } : undefined;
+
+const scaleNumber = (value: number | undefined, factor: number) =>
+  typeof value === "number" ? Math.round(value * factor * 10) / 10 : undefined;
+
+/**
+ * Starting point for the scenario editor: the wizard answers as the base
+ * case, with upside and downside cases moved around them
+ */
+export function defaultScenarios(wizardData: WizardData): Scenario[] {
+  const { step2, step3 } = withTimeSeries(wizardData);
+  const shifted = (
+    revenueFactor: number,
+    growthFactor: number,
+    burnFactor: number,
+  ): Scenario["overrides"] => ({
+    step2: {
+      revenue: scaleMoney(step2?.revenue, revenueFactor),
+      monthlyBurnRate: scaleMoney(step2?.monthlyBurnRate, burnFactor),
+    },
+    step3: {
+      growthRate: scaleNumber(step3?.growthRate, growthFactor),
+    },
+  });
+
+  return [
+    { id: "base", name: "Base", probability: 50, overrides: {} },
+    {
+      id: "upside",
+      name: "Upside",
+      probability: 25,
+      overrides: shifted(1.3, 1.5, 1),
+    },
+    {
+      id: "downside",
+      name: "Downside",
+      probability: 25,
+      overrides: shifted(0.7, 0.5, 1.2),
+    },
+  ];
+}
+
+const definedFields = <T extends object>(values: T | undefined) =>
+  Object.fromEntries(
+    Object.entries(values ?? {}).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+
+/**
+ * The wizard answers with the scenario's overrides applied
+ */
+export function applyScenario(
+  wizardData: WizardData,
+  scenario: Scenario,
+): WizardData {
+  const step2 = definedFields(scenario.overrides.step2);
+  const step3 = definedFields(scenario.overrides.step3);
+  // Overrides apply on top of the monthly series, which is then dropped so
+  // the engine does not derive the snapshot from it again
+  const { timeSeries, ...base } = withTimeSeries(wizardData);
+  return {
+    ...base,
+    // Overriding a skipped step fills it in
+    step2: Object.keys(step2).length
+      ? { ...base.step2, ...step2, skipFinancials: false }
+      : base.step2,
+    step3: Object.keys(step3).length
+      ? { ...base.step3, ...step3, skipTraction: false }
+      : base.step3,
+  };
+}
+
+/**
+ * Run every scenario and blend the final ranges by probability.
+ * Probabilities need not sum to 100; they are weighted by their share.
+ */
+export function runScenarios(
+  wizardData: WizardData,
+  scenarios: Scenario[] = wizardData.scenarios ?? [],
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): ScenarioAnalysis {
+  if (scenarios.length === 0) {
+    throw new Error("At least one scenario is required");
+  }
+  const totalProbability = scenarios.reduce(
+    (sum, scenario) => sum + scenario.probability,
+    0,
+  );
+  if (totalProbability <= 0) {
+    throw new Error("Scenario probabilities must add up to more than 0");
+  }
+
+  const results = scenarios.map((scenario) => ({
+    scenario,
+    report: runValuation(applyScenario(wizardData, scenario), fxRates),
+    weight: scenario.probability / totalProbability,
+  }));
+
+  // Engine ranges share one scale and currency
+  const { scale, currency } = results[0].report.finalValuation.finalRange;
+  const weighted = (bound: "lower" | "upper") =>
+    results.reduce(
+      (sum, result) =>
+        sum + result.report.finalValuation.finalRange[bound] * result.weight,
+      0,
+    );
+
+  return {
+    results,
+    weightedRange: moneyRange(
+      Math.round(weighted("lower") * 100) / 100,
+      Math.round(weighted("upper") * 100) / 100,
+      scale,
+      currency,
+    ),
+    totalProbability,
+  };
+}
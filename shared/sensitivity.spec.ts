@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import type { WizardData } from "./api";
+import { money } from "./money";
+import {
+  applyShocks,
+  evaluateSensitivity,
+  sensitivityTable,
+  tornado,
+} from "./sensitivity";
+import { normalizeInputs, runValuation } from "./valuation";
+
+const wizardData: WizardData = {
+  step1: {
+    businessName: "Acme Analytics",
+    country: "United States",
+    industry: "saas",
+    stage: "growth",
+    isLaunched: true,
+  },
+  step2: {
+    revenue: money(2_000_000),
+    monthlyBurnRate: money(150_000),
+    fundingRaised: money(5_000_000),
+  },
+  step3: { customerCount: 250, growthRate: 80, growthPeriod: "yearly" },
+};
+
+const inputs = normalizeInputs(wizardData);
+
+describe("evaluateSensitivity", () => {
+  it("matches the engine's blended range without shocks", () => {
+    const { lower, upper } = evaluateSensitivity(inputs);
+    const { finalRange } = runValuation(wizardData).finalValuation;
+    expect(lower / 1e6).toBeCloseTo(finalRange.lower, 1);
+    expect(upper / 1e6).toBeCloseTo(finalRange.upper, 1);
+  });
+
+  it("raises the valuation with revenue and lowers it with the discount rate", () => {
+    const base = evaluateSensitivity(inputs).midpoint;
+    expect(
+      evaluateSensitivity(inputs, { revenue: 0.2 }).midpoint,
+    ).toBeGreaterThan(base);
+    expect(
+      evaluateSensitivity(inputs, { discountRate: 0.2 }).midpoint,
+    ).toBeLessThan(base);
+  });
+
+  it("keeps shocked assumptions within their bounds", () => {
+    const shocked = applyShocks(inputs, {
+      discountRate: -0.9,
+      customerCount: 0.01,
+    });
+    expect(shocked.discountRate).toBe(0.08);
+    expect(Number.isInteger(shocked.customerCount)).toBe(true);
+  });
+});
+
+describe("tornado", () => {
+  it("orders drivers by the width of their swing", () => {
+    const rows = tornado(inputs);
+    expect(rows).toHaveLength(6);
+    for (let i = 1; i < rows.length; i++) {
+      expect(rows[i - 1].spread).toBeGreaterThanOrEqual(rows[i].spread);
+    }
+  });
+});
+
+describe("sensitivityTable", () => {
+  it("puts the unshocked midpoint at the centre", () => {
+    const table = sensitivityTable(inputs, "revenue", "multipleFactor");
+    expect(table.midpoints).toHaveLength(5);
+    expect(table.midpoints[2][2]).toBeCloseTo(
+      evaluateSensitivity(inputs).midpoint,
+    );
+  });
+
+  it("rejects the same driver on both axes", () => {
+    expect(() => sensitivityTable(inputs, "revenue", "revenue")).toThrow();
+  });
+});
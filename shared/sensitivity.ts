@@ -0,0 +1,149 @@
+/**
+ * Sensitivity analysis on top of the in-house engine.
+ *
+ * Drivers are shocked by a relative amount (0.2 = +20%) on the normalised
+ * inputs and the methods are re-run, so every figure here is in whole units
+ * of the base currency.
+ */
+import {
+  blendRanges,
+  runValuationMethods,
+  type ValuationInputs,
+  type ValuationMethod,
+} from "./valuation";
+
+export const SENSITIVITY_DRIVERS = [
+  "revenue",
+  "annualGrowthRate",
+  "monthlyBurnRate",
+  "customerCount",
+  "discountRate",
+  "multipleFactor",
+] as const;
+
+export type SensitivityDriver = (typeof SENSITIVITY_DRIVERS)[number];
+
+export type DriverShocks = Partial<Record<SensitivityDriver, number>>;
+
+export const DRIVER_LABELS: Record<SensitivityDriver, string> = {
+  revenue: "Revenue",
+  annualGrowthRate: "Growth rate",
+  monthlyBurnRate: "Monthly burn",
+  customerCount: "Customer count",
+  discountRate: "Discount rate",
+  multipleFactor: "Valuation multiple",
+};
+
+export interface SensitivityResult {
+  methods: Array<{ method: ValuationMethod; lower: number; upper: number }>;
+  lower: number;
+  upper: number;
+  midpoint: number;
+}
+
+export interface TornadoRow {
+  driver: SensitivityDriver;
+  label: string;
+  // Blended midpoint with the driver shocked down and up
+  low: number;
+  high: number;
+  spread: number;
+}
+
+export interface SensitivityTable {
+  rowDriver: SensitivityDriver;
+  columnDriver: SensitivityDriver;
+  rowShocks: number[];
+  columnShocks: number[];
+  // midpoints[row][column]
+  midpoints: number[][];
+}
+
+export const DEFAULT_TABLE_SHOCKS = [-0.2, -0.1, 0, 0.1, 0.2];
+
+// Keeps shocked assumptions inside the range the methods are defined for
+const DRIVER_BOUNDS: Partial<Record<SensitivityDriver, [number, number]>> = {
+  annualGrowthRate: [0, 3],
+  discountRate: [0.08, 0.9],
+};
+
+export function applyShocks(
+  inputs: ValuationInputs,
+  shocks: DriverShocks,
+): ValuationInputs {
+  const shocked = { ...inputs };
+  for (const driver of SENSITIVITY_DRIVERS) {
+    const shock = shocks[driver];
+    if (!shock) continue;
+    let value = Math.max(0, inputs[driver] * (1 + shock));
+    const bounds = DRIVER_BOUNDS[driver];
+    if (bounds) value = Math.min(Math.max(value, bounds[0]), bounds[1]);
+    shocked[driver] = driver === "customerCount" ? Math.round(value) : value;
+  }
+  return shocked;
+}
+
+export function evaluateSensitivity(
+  inputs: ValuationInputs,
+  shocks: DriverShocks = {},
+): SensitivityResult {
+  const results = runValuationMethods(applyShocks(inputs, shocks));
+  const { lower, upper } = blendRanges(results);
+  return {
+    methods: results.map(({ method, lower, upper }) => ({
+      method,
+      lower,
+      upper,
+    })),
+    lower,
+    upper,
+    midpoint: (lower + upper) / 2,
+  };
+}
+
+/**
+ * Swing each driver down and up by `swing`, widest effect first
+ */
+export function tornado(inputs: ValuationInputs, swing = 0.2): TornadoRow[] {
+  return SENSITIVITY_DRIVERS.map((driver) => {
+    const low = evaluateSensitivity(inputs, { [driver]: -swing }).midpoint;
+    const high = evaluateSensitivity(inputs, { [driver]: swing }).midpoint;
+    return {
+      driver,
+      label: DRIVER_LABELS[driver],
+      low,
+      high,
+      spread: Math.abs(high - low),
+    };
+  }).sort((a, b) => b.spread - a.spread);
+}
+
+/**
+ * Blended midpoints for every combination of two drivers' shocks
+ */
+export function sensitivityTable(
+  inputs: ValuationInputs,
+  rowDriver: SensitivityDriver,
+  columnDriver: SensitivityDriver,
+  rowShocks: number[] = DEFAULT_TABLE_SHOCKS,
+  columnShocks: number[] = DEFAULT_TABLE_SHOCKS,
+): SensitivityTable {
+  if (rowDriver === columnDriver) {
+    throw new Error("A sensitivity table needs two different drivers");
+  }
+  return {
+    rowDriver,
+    columnDriver,
+    rowShocks,
+    columnShocks,
+    midpoints: rowShocks.map((rowShock) =>
+      columnShocks.map(
+        (columnShock) =>
+          evaluateSensitivity(inputs, {
+            [rowDriver]: rowShock,
+            [columnDriver]: columnShock,
+          }).midpoint,
+      ),
+    ),
+  };
+}
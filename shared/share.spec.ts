@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import type { WizardData } from "./api";
+import { formatAmount, money, toUnits } from "./money";
+import { defaultScenarios } from "./scenarios";
+import { discloseInputs, redactReport, shareStatus } from "./share";
+import { runValuation } from "./valuation";
+
+const wizardData: WizardData = {
+  step1: {
+    businessName: "Acme",
+    country: "United States",
+    industry: "saas",
+    stage: "mvp",
+    isLaunched: true,
+  },
+  step2: { revenue: money(900_000), fundingRaised: money(2_000_000) },
+  step3: { customerCount: 40 },
+  step4: { websiteUrl: "https://acme.example" },
+};
+
+describe("discloseInputs", () => {
+  it("keeps only the chosen steps", () => {
+    const disclosed = discloseInputs(wizardData, ["step1", "step3"], false);
+    expect(Object.keys(disclosed).sort()).toEqual(["step1", "step3"]);
+  });
+
+  it("drops financial amounts and scenarios when redacting", () => {
+    const disclosed = discloseInputs(
+      { ...wizardData, scenarios: defaultScenarios(wizardData) },
+      ["step1", "step2"],
+      true,
+    );
+    expect(disclosed.step2).toEqual({ skipFinancials: undefined });
+    expect(disclosed.scenarios).toBeUndefined();
+  });
+});
+
+describe("redactReport", () => {
+  it("leaves no input amount anywhere in a redacted share", () => {
+    const inputs: WizardData = {
+      ...wizardData,
+      step2: {
+        revenue: money(1_250_000),
+        monthlyBurnRate: money(85_000),
+        netProfitLoss: money(-420_000),
+        fundingRaised: money(3_400_000),
+        planningToRaise: money(5_000_000),
+      },
+      step3: { customerCount: 40, growthRate: 120 },
+    };
+    const payload = JSON.stringify({
+      report: redactReport(runValuation(inputs)),
+      wizardData: discloseInputs(
+        inputs,
+        ["step1", "step2", "step3", "step4"],
+        true,
+      ),
+    });
+
+    for (const amount of Object.values(inputs.step2).map(toUnits)) {
+      const abs = Math.abs(amount);
+      for (const form of [
+        formatAmount(abs),
+        String(abs),
+        abs.toLocaleString("en-US"),
+      ]) {
+        expect(payload).not.toContain(form);
+      }
+    }
+  });
+
+  it("keeps no method range that scales with the revenue", () => {
+    const withRevenue = (revenue: number): WizardData => ({
+      ...wizardData,
+      step1: { ...wizardData.step1, stage: "growth" },
+      step2: { revenue: money(revenue), fundingRaised: money(2_000_000) },
+      step3: { customerCount: 40, growthRate: 120 },
+    });
+    const report = runValuation(withRevenue(1_250_000));
+    const redacted = redactReport(report);
+
+    expect(report.calculations.map((c) => c.method)).toContain(
+      "Revenue Multiple",
+    );
+    expect(redacted.calculations.map((c) => c.method)).toEqual([
+      "Berkus Method",
+      "Scorecard Method",
+      "Risk Factor Summation",
+    ]);
+    // Doubling the revenue leaves every method the reader sees unchanged,
+    // so none of them can be divided back into it
+    expect(
+      redactReport(runValuation(withRevenue(2_500_000))).calculations,
+    ).toEqual(redacted.calculations);
+  });
+});
+
+describe("shareStatus", () => {
+  const now = new Date("2025-06-01T00:00:00.000Z");
+
+  it("reports expired and revoked links", () => {
+    expect(shareStatus({}, now)).toBe("active");
+    expect(shareStatus({ expiresAt: "2025-07-01T00:00:00.000Z" }, now)).toBe(
+      "active",
+    );
+    expect(shareStatus({ expiresAt: "2025-05-01T00:00:00.000Z" }, now)).toBe(
+      "expired",
+    );
+    expect(shareStatus({ revokedAt: "2025-05-15T00:00:00.000Z" }, now)).toBe(
+      "revoked",
+    );
+  });
+});
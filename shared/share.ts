@@ -0,0 +1,139 @@
+/**
+ * Snapshots for shareable read-only report links.
+ */
+import type {
+  DISCLOSABLE_STEPS,
+  SharedReport,
+  ValuationReport,
+  WizardData,
+} from "./api";
+
+export type DisclosableStep = (typeof DISCLOSABLE_STEPS)[number];
+
+export type ShareStatus = "active" | "expired" | "revoked";
+
+/**
+ * Step2 with the amounts removed; the skip flag is kept so the reader can
+ * tell "redacted" from "not provided"
+ */
+export function redactFinancials(
+  step2: WizardData["step2"],
+): WizardData["step2"] {
+  if (!step2) return step2;
+  return { skipFinancials: step2.skipFinancials };
+}
+
+/**
+ * The wizard answers limited to what the owner chose to disclose
+ */
+export function discloseInputs(
+  wizardData: WizardData,
+  disclosedSteps: DisclosableStep[],
+  redact: boolean,
+): WizardData {
+  const disclosed: WizardData = {};
+  for (const step of disclosedSteps) {
+    if (wizardData[step])
+      Object.assign(disclosed, { [step]: wizardData[step] });
+  }
+  if (disclosed.step2 && redact) {
+    disclosed.step2 = redactFinancials(disclosed.step2);
+  }
+  // ARR, acquisition cost and the money answers of the industry metric pack
+  // are amounts too; ratios and counts stay visible
+  if (disclosed.step3 && redact) {
+    const { unitEconomics, industryMetrics } = disclosed.step3;
+    if (unitEconomics) {
+      const { arr, cac, ...ratios } = unitEconomics;
+      disclosed.step3 = { ...disclosed.step3, unitEconomics: ratios };
+    }
+    if (industryMetrics) {
+      disclosed.step3 = {
+        ...disclosed.step3,
+        industryMetrics: Object.fromEntries(
+          Object.entries(industryMetrics).filter(
+            ([, value]) => typeof value !== "object",
+          ),
+        ),
+      };
+    }
+  }
+  // Extracted document text can restate the financials too
+  if (disclosed.step4?.uploadedFiles && redact) {
+    disclosed.step4 = {
+      ...disclosed.step4,
+      uploadedFiles: disclosed.step4.uploadedFiles.map(
+        ({ text, truncated, ...file }) => file,
+      ),
+    };
+  }
+  // Scenario overrides, monthly figures and the cap table restate the
+  // financials, so they follow step2
+  if (wizardData.scenarios && disclosed.step2 && !redact) {
+    disclosed.scenarios = wizardData.scenarios;
+  }
+  if (wizardData.timeSeries && disclosed.step2 && !redact) {
+    disclosed.timeSeries = wizardData.timeSeries;
+  }
+  if (wizardData.capTable && disclosed.step2 && !redact) {
+    disclosed.capTable = wizardData.capTable;
+  }
+  return disclosed;
+}
+
+// Amounts as the report prose quotes them: "$1.20M", "CHF350K", "€2,000",
+// "-$40K" or "1,500,000"
+const AMOUNT_PATTERN =
+  /-?(?:[A-Z]{0,3}[$€£¥₹₩₪₫₱]\s?|\b[A-Z]{3}(?=\d))\d[\d,]*(?:\.\d+)?(?:\s?(?:[KMBTkmbt]|thousand|million|billion)\b)?|\b\d{1,3}(?:,\d{3})+(?:\.\d+)?\b/g;
+
+const REDACTED = "[redacted]";
+
+// Methods that price the company off its revenue or cash flows. Their
+// ranges divided by the sector multiples give the revenue back, so redacted
+// shares leave them out.
+const FINANCIAL_METHOD_PATTERN =
+  /revenue|multiple|cash flow|\bdcf\b|\bvc\b|venture capital|first chicago/i;
+
+export const isFinancialMethod = (method: string) =>
+  FINANCIAL_METHOD_PATTERN.test(method);
+
+export const redactAmounts = (text: string) =>
+  text.replace(AMOUNT_PATTERN, REDACTED);
+
+function redactText(value: unknown): unknown {
+  if (typeof value === "string") return redactAmounts(value);
+  if (Array.isArray(value)) return value.map(redactText);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactText(item)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * The report with the amounts in its prose removed, since summaries,
+ * strengths and explanations restate the revenue, burn and funding. Methods
+ * priced off the financials are dropped with their ranges, and the other
+ * methods lose their breakdowns; the final range stays.
+ */
+export function redactReport(report: ValuationReport): ValuationReport {
+  const redacted = redactText(report) as ValuationReport;
+  return {
+    ...redacted,
+    calculations: redacted.calculations
+      .filter((calculation) => !isFinancialMethod(calculation.method))
+      .map((calculation) => ({ ...calculation, calculation: REDACTED })),
+  };
+}
+
+export function shareStatus(
+  share: Pick<SharedReport, "expiresAt" | "revokedAt">,
+  now: Date = new Date(),
+): ShareStatus {
+  if (share.revokedAt) return "revoked";
+  if (share.expiresAt && Date.parse(share.expiresAt) <= now.getTime()) {
+    return "expired";
+  }
+  return "active";
+}
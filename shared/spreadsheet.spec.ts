@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import {
+  cellRef,
+  columnName,
+  MAX_UNZIPPED_BYTES,
+  parseCsv,
+  parseXlsx,
+  toCsv,
+  unzipParts,
+} from "./spreadsheet";
+
+describe("cell references", () => {
+  it("names columns past Z", () => {
+    expect(columnName(0)).toBe("A");
+    expect(columnName(25)).toBe("Z");
+    expect(columnName(26)).toBe("AA");
+    expect(cellRef(4, 27)).toBe("AB5");
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quotes, embedded delimiters and semicolon files", () => {
+    expect(
+      parseCsv('Item,Amount\r\n"Rent, office","1,200"\n"Say ""hi""",3'),
+    ).toEqual([
+      ["Item", "Amount"],
+      ["Rent, office", "1,200"],
+      ['Say "hi"', "3"],
+    ]);
+    expect(parseCsv("a;b\n1;2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes cells that parseCsv would split", () => {
+    const rows = [
+      ["Holder", "Payout"],
+      ['Fund "A", LP', "1200.5"],
+    ];
+    expect(toCsv(rows)).toBe('Holder,Payout\r\n"Fund ""A"", LP",1200.5\r\n');
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe("parseXlsx", () => {
+  it("places sparse cells by reference and uses the tab names", () => {
+    const xlsx = zipSync({
+      "xl/workbook.xml": strToU8(
+        '<workbook><sheets><sheet name="P&amp;L" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      ),
+      "xl/_rels/workbook.xml.rels": strToU8(
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      ),
+      "xl/worksheets/sheet1.xml": strToU8(
+        '<worksheet><sheetData><row r="2"><c r="C2"><v>42</v></c></row></sheetData></worksheet>',
+      ),
+    });
+    expect(parseXlsx(xlsx)).toEqual([
+      { name: "P&L", rows: [[], ["", "", "42"]] },
+    ]);
+  });
+
+  const worksheet = (sheetData: string) =>
+    zipSync({
+      "xl/worksheets/sheet1.xml": strToU8(
+        `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`,
+      ),
+    });
+
+  it("rejects references outside the sheet bounds", () => {
+    expect(() =>
+      parseXlsx(
+        worksheet('<row r="3000000"><c r="A3000000"><v>1</v></c></row>'),
+      ),
+    ).toThrow("Row 3000000 is outside the sheet");
+    expect(() =>
+      parseXlsx(worksheet('<row r="1"><c r="XFE1"><v>1</v></c></row>')),
+    ).toThrow("Row 1 has a cell outside the sheet");
+  });
+
+  it("rejects grids with more cells than it reads", () => {
+    expect(() =>
+      parseXlsx(
+        worksheet('<row r="1048576"><c r="A1048576"><v>1</v></c></row>'),
+      ),
+    ).toThrow("too many cells");
+  });
+});
+
+describe("unzipParts", () => {
+  it("refuses archives that unpack past the size limit", () => {
+    const bomb = zipSync(
+      { "word/document.xml": new Uint8Array(MAX_UNZIPPED_BYTES + 1) },
+      { level: 1 },
+    );
+    expect(() => unzipParts(bomb, () => true)).toThrow("too large to unpack");
+  });
+});
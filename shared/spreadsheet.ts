@@ -0,0 +1,262 @@
+/**
+ * Minimal CSV and XLSX readers producing a grid of cell strings, and the
+ * matching CSV writer.
+ *
+ * XLSX files are zip archives of XML parts; only the shared strings and the
+ * worksheets are unpacked, and cells are read from their markup rather than
+ * through a full spreadsheet library.
+ */
+import { strFromU8, unzipSync, type Unzipped } from "fflate";
+
+/**
+ * Excel's own worksheet bounds; cell references beyond them are rejected
+ */
+export const MAX_SHEET_ROWS = 1_048_576;
+export const MAX_SHEET_COLUMNS = 16_384;
+
+/**
+ * Cells read from one workbook, counting the empty ones padding the grid
+ */
+export const MAX_WORKBOOK_CELLS = 1_000_000;
+
+/**
+ * Uncompressed bytes unpacked from one Office document
+ */
+export const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+export interface Sheet {
+  name: string;
+  // rows[r][c] is "" for empty cells; rows may have different lengths
+  rows: string[][];
+}
+
+/**
+ * Column letters for a zero-based index: 0 → A, 26 → AA
+ */
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * A1-style reference for zero-based row and column indexes
+ */
+export const cellRef = (row: number, column: number) =>
+  `${columnName(column)}${row + 1}`;
+
+function columnIndex(letters: string): number {
+  return (
+    [...letters.toUpperCase()].reduce(
+      (index, letter) => index * 26 + letter.charCodeAt(0) - 64,
+      0,
+    ) - 1
+  );
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting; comma, semicolon or tab separated)
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^﻿/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows;
+}
+
+/**
+ * Write a grid of cells as comma separated CSV, quoting where needed
+ */
+export function toCsv(rows: string[][]): string {
+  const quote = (cell: string) =>
+    /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return rows.map((row) => row.map(quote).join(",")).join("\r\n") + "\r\n";
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== "#") return XML_ENTITIES[code] ?? entity;
+    return String.fromCodePoint(
+      code[1].toLowerCase() === "x"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10),
+    );
+  });
+
+export const stripTags = (xml: string) =>
+  decodeXml(xml.replace(/<[^>]+>/g, ""));
+
+/**
+ * Unpack the zip entries accepted by `wanted`; throws for non-zip input and
+ * when the entries would unpack to more than MAX_UNZIPPED_BYTES
+ */
+export function unzipParts(
+  data: Uint8Array,
+  wanted: (path: string) => boolean,
+): Unzipped {
+  let unzippedBytes = 0;
+  let parts: Unzipped;
+  try {
+    // Entries are inflated into buffers of their declared size, so checking
+    // it before inflating bounds the memory used
+    parts = unzipSync(data, {
+      filter: (file) => {
+        if (!wanted(file.name)) return false;
+        unzippedBytes += file.originalSize;
+        return unzippedBytes <= MAX_UNZIPPED_BYTES;
+      },
+    });
+  } catch {
+    throw new Error("File is not a valid Office document");
+  }
+  if (unzippedBytes > MAX_UNZIPPED_BYTES) {
+    throw new Error("File is too large to unpack");
+  }
+  return parts;
+}
+
+const attribute = (tag: string, name: string) =>
+  tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+const isCellIndex = (index: number, limit: number) =>
+  Number.isInteger(index) && index >= 0 && index < limit;
+
+const sheetNumber = (path: string) => Number(path.match(/(\d+)\.xml$/)?.[1]);
+
+// Worksheet paths in workbook order with their tab names. Falls back to the
+// file names when the workbook part is missing.
+function worksheetPaths(parts: Unzipped): Array<[string, string]> {
+  const workbook = parts["xl/workbook.xml"];
+  const rels = parts["xl/_rels/workbook.xml.rels"];
+  if (workbook && rels) {
+    const targets = new Map(
+      [...strFromU8(rels).matchAll(/<Relationship\b[^>]*>/g)].map(([tag]) => [
+        attribute(tag, "Id"),
+        attribute(tag, "Target")?.replace(/^\/?(xl\/)?/, "xl/"),
+      ]),
+    );
+    const sheets = [...strFromU8(workbook).matchAll(/<sheet\b[^>]*>/g)]
+      .map(([tag]): [string, string] => [
+        targets.get(attribute(tag, "r:id")) ?? "",
+        decodeXml(attribute(tag, "name") ?? ""),
+      ])
+      .filter(([path]) => parts[path]);
+    if (sheets.length) return sheets;
+  }
+  return Object.keys(parts)
+    .filter((path) => /^xl\/worksheets\/[^/]+\.xml$/.test(path))
+    .sort((a, b) => sheetNumber(a) - sheetNumber(b))
+    .map((path, index) => [path, `Sheet${index + 1}`]);
+}
+
+/**
+ * Read every worksheet of an XLSX file. Cells hold their displayed text for
+ * strings and the raw stored value for numbers and dates. Throws for cell
+ * references outside the sheet bounds and for grids over MAX_WORKBOOK_CELLS.
+ */
+export function parseXlsx(data: Uint8Array): Sheet[] {
+  const parts = unzipParts(
+    data,
+    (path) =>
+      path === "xl/sharedStrings.xml" ||
+      path === "xl/workbook.xml" ||
+      path === "xl/_rels/workbook.xml.rels" ||
+      path.startsWith("xl/worksheets/"),
+  );
+  const sharedStrings = [
+    ...strFromU8(parts["xl/sharedStrings.xml"] ?? new Uint8Array()).matchAll(
+      /<si>([\s\S]*?)<\/si>/g,
+    ),
+  ].map((match) => stripTags(match[1]));
+
+  // Rows and cells are placed by reference, so the grid is sized by the
+  // references rather than by the markup
+  let cells = 0;
+  const countCells = (count: number) => {
+    cells += count;
+    if (cells > MAX_WORKBOOK_CELLS) {
+      throw new Error("Spreadsheet has too many cells to read");
+    }
+  };
+
+  const sheets = worksheetPaths(parts).map(([path, name]) => {
+    const rows: string[][] = [];
+    for (const [, rowTag, body] of strFromU8(parts[path]).matchAll(
+      /<row\b([^>]*)>([\s\S]*?)<\/row>/g,
+    )) {
+      const rowIndex = Number(attribute(rowTag, "r") ?? rows.length + 1) - 1;
+      if (!isCellIndex(rowIndex, MAX_SHEET_ROWS)) {
+        throw new Error(`Row ${rowIndex + 1} is outside the sheet`);
+      }
+      const row: string[] = [];
+      for (const [, cellTag, content = ""] of body.matchAll(
+        /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g,
+      )) {
+        const ref = attribute(cellTag, "r");
+        const column = ref ? columnIndex(ref.replace(/\d+$/, "")) : row.length;
+        if (!isCellIndex(column, MAX_SHEET_COLUMNS)) {
+          throw new Error(`Row ${rowIndex + 1} has a cell outside the sheet`);
+        }
+        const type = attribute(cellTag, "t");
+        const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? "";
+        row[column] =
+          type === "inlineStr"
+            ? stripTags(content)
+            : type === "s"
+              ? (sharedStrings[Number(value)] ?? "")
+              : decodeXml(value);
+      }
+      countCells(row.length);
+      rows[rowIndex] = Array.from(row, (cell) => cell ?? "");
+    }
+    countCells(rows.length);
+    return { name, rows: Array.from(rows, (row) => row ?? []) };
+  });
+  if (sheets.length === 0) throw new Error("XLSX file has no worksheets");
+  return sheets;
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import type { TimeSeries, WizardData } from "./api";
+import { toBaseCurrency } from "./currency";
+import { money } from "./money";
+import {
+  deriveMetrics,
+  monthLabel,
+  parsePastedMonths,
+  withTimeSeries,
+} from "./timeSeries";
+
+// Revenue grows 5% a month from 10,000 while costs stay at 20,000
+const series = (
+  count: number,
+  extra: Partial<TimeSeries> = {},
+): TimeSeries => ({
+  startMonth: "2023-11",
+  currency: "USD",
+  months: Array.from({ length: count }, (_, i) => ({
+    revenue: 10_000 * 1.05 ** i,
+    costs: 20_000,
+    headcount: 10 + i,
+    customers: 100 + 10 * i,
+  })),
+  ...extra,
+});
+
+describe("monthLabel", () => {
+  it("rolls over year ends", () => {
+    expect(monthLabel("2023-11")).toBe("Nov 2023");
+    expect(monthLabel("2023-11", 2)).toBe("Jan 2024");
+  });
+});
+
+describe("deriveMetrics", () => {
+  it("computes growth, runway and burn from twelve months", () => {
+    const metrics = deriveMetrics(series(12, { cashBalance: 300_000 }));
+    expect(metrics.momGrowth).toBeCloseTo(0.05, 4);
+    expect(metrics.cagr).toBeCloseTo(1.05 ** 12 - 1, 3);
+    expect(metrics.monthlyCosts).toBe(20_000);
+    expect(metrics.monthlyNetBurn).toBeCloseTo(
+      20_000 - (10_000 * (1.05 ** 9 + 1.05 ** 10 + 1.05 ** 11)) / 3,
+    );
+    expect(metrics.runwayMonths).toBeCloseTo(
+      300_000 / metrics.monthlyNetBurn,
+      1,
+    );
+    expect(metrics.burnMultiple).toBeGreaterThan(0);
+    expect(metrics.headcount).toBe(21);
+    expect(metrics.customers).toBe(210);
+    // Pure exponential growth has no seasonal pattern
+    expect(metrics.seasonality?.amplitude).toBeCloseTo(0, 3);
+  });
+
+  it("measures annual growth year over year with two years of history", () => {
+    const metrics = deriveMetrics(series(24));
+    expect(metrics.cagr).toBeCloseTo(1.05 ** 12 - 1, 3);
+    expect(metrics.ttmRevenue).toBeCloseTo(
+      Array.from({ length: 12 }, (_, i) => 10_000 * 1.05 ** (i + 12)).reduce(
+        (a, b) => a + b,
+      ),
+    );
+  });
+
+  it("finds a December peak", () => {
+    const seasonal = series(24);
+    seasonal.months = seasonal.months.map((month, i) => ({
+      ...month,
+      // Index 1 is December 2023, index 13 December 2024
+      revenue: i % 12 === 1 ? 15_000 : 10_000,
+    }));
+    const { seasonality } = deriveMetrics(seasonal);
+    expect(seasonality?.index[11]).toBeGreaterThan(1.3);
+    expect(seasonality?.index[5]).toBeLessThan(1);
+  });
+
+  it("reports no burn multiple problem for profitable companies", () => {
+    const profitable = series(12);
+    profitable.months = profitable.months.map((month) => ({
+      ...month,
+      costs: 5_000,
+    }));
+    const metrics = deriveMetrics(profitable);
+    expect(metrics.burnMultiple).toBe(0);
+    expect(metrics.runwayMonths).toBeUndefined();
+  });
+});
+
+describe("withTimeSeries", () => {
+  it("replaces the snapshot answers with the derived ones", () => {
+    const wizardData: WizardData = {
+      step2: {
+        revenue: money(1, "millions", "EUR"),
+        fundingRaised: money(500, "thousands", "EUR"),
+        skipFinancials: true,
+      },
+      step3: { customerCount: 5, growthRate: 1, growthPeriod: "monthly" },
+      timeSeries: series(12, { currency: "EUR" }),
+    };
+    const { step2, step3 } = withTimeSeries(wizardData);
+    expect(step2.revenue).toEqual(
+      money(
+        Math.round(deriveMetrics(wizardData.timeSeries).ttmRevenue),
+        "units",
+        "EUR",
+      ),
+    );
+    expect(step2.monthlyBurnRate).toEqual(money(20_000, "units", "EUR"));
+    expect(step2.fundingRaised).toEqual(money(500, "thousands", "EUR"));
+    expect(step2.skipFinancials).toBe(false);
+    expect(step3).toMatchObject({
+      customerCount: 210,
+      growthRate: 79.6,
+      growthPeriod: "yearly",
+    });
+  });
+
+  it("is converted to the base currency with the other financials", () => {
+    const converted = toBaseCurrency(
+      { timeSeries: series(12, { currency: "EUR", cashBalance: 1000 }) },
+      { USD: 1, EUR: 2 },
+    );
+    expect(converted.timeSeries.currency).toBe("USD");
+    expect(converted.timeSeries.months[0].costs).toBe(40_000);
+    expect(converted.timeSeries.cashBalance).toBe(2000);
+  });
+});
+
+describe("parsePastedMonths", () => {
+  it("reads labelled rows copied from a spreadsheet", () => {
+    const pasted =
+      "Month\tRevenue\tCosts\tHeadcount\n" +
+      "Jan 2024\t1,200\t(3,000)\t4\n" +
+      "Feb 2024\t1,500\t3,100\t5\n";
+    expect(parsePastedMonths(pasted)).toEqual({
+      startMonth: "2024-01",
+      months: [
+        { revenue: 1200, costs: 3000, headcount: 4, customers: undefined },
+        { revenue: 1500, costs: 3100, headcount: 5, customers: undefined },
+      ],
+    });
+  });
+
+  it("accepts unlabelled CSV rows", () => {
+    const { startMonth, months } = parsePastedMonths(
+      "45000,20000\n46000,21000",
+    );
+    expect(startMonth).toBeUndefined();
+    expect(months.map((month) => month.revenue)).toEqual([45000, 46000]);
+  });
+
+  it("rejects text without figures", () => {
+    expect(() => parsePastedMonths("hello")).toThrow("No monthly figures");
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Metrics derived from the detailed monthly financial input.
+ *
+ * Rates are fractions (0.05 = 5%) like the engine's; amounts stay in whole
+ * units of the series currency.
+ */
+import type { MonthlyFigures, TimeSeries, WizardData } from "./api";
+import { parseAmount, parseMonthHeader } from "./financialImport";
+import { money } from "./money";
+import { parseCsv } from "./spreadsheet";
+
+export interface SeasonalityProfile {
+  // Revenue relative to trend per calendar month, January first; 1 = on trend
+  index: number[];
+  // Gap between the strongest and the weakest month
+  amplitude: number;
+}
+
+export interface TimeSeriesMetrics {
+  monthCount: number;
+  ttmRevenue: number;
+  ttmCosts: number;
+  ttmNetIncome: number;
+  // Averages over the last three months
+  monthlyCosts: number;
+  monthlyNetBurn: number;
+  // Compound month-over-month revenue growth over the last twelve months
+  momGrowth?: number;
+  // Annual revenue growth: year over year from 24 months, otherwise the
+  // monthly rate compounded
+  cagr?: number;
+  // Undefined when there is no cash balance or no net burn
+  runwayMonths?: number;
+  // Net burn per unit of net new ARR over the last twelve months
+  burnMultiple?: number;
+  seasonality?: SeasonalityProfile;
+  headcount?: number;
+  revenuePerEmployee?: number;
+  customers?: number;
+  customerMomGrowth?: number;
+}
+
+const MONTH_ABBREVIATIONS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const TRAILING_MONTHS = 12;
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+const average = (values: number[]) =>
+  values.length ? sum(values) / values.length : 0;
+
+const round = (value: number, places = 4) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+// Zero-based calendar month of the month `offset` months after the start
+function calendarMonth(startMonth: string, offset: number) {
+  const [year, month] = startMonth.split("-").map(Number);
+  const index = year * 12 + (month - 1) + offset;
+  return { year: Math.floor(index / 12), month: index % 12 };
+}
+
+/**
+ * "Jan 2024" style label of the month `offset` months after the start
+ */
+export function monthLabel(startMonth: string, offset = 0): string {
+  const { year, month } = calendarMonth(startMonth, offset);
+  return `${MONTH_ABBREVIATIONS[month]} ${year}`;
+}
+
+/**
+ * Compound growth per period between two positive values
+ */
+export function compoundGrowth(
+  first: number,
+  last: number,
+  periods: number,
+): number | undefined {
+  if (!(first > 0) || !(last > 0) || !(periods > 0)) return undefined;
+  return Math.pow(last / first, 1 / periods) - 1;
+}
+
+// Growth between the first positive value and the last value of a window
+function windowGrowth(values: Array<number | undefined>) {
+  const first = values.findIndex((value) => value > 0);
+  const last = values.length - 1;
+  if (first === -1) return undefined;
+  return compoundGrowth(values[first], values[last], last - first);
+}
+
+// Ratio of revenue to its log-linear trend, averaged per calendar month
+function seasonality(series: TimeSeries): SeasonalityProfile | undefined {
+  const revenue = series.months.map((month) => month.revenue);
+  if (revenue.length < TRAILING_MONTHS || revenue.some((v) => !(v > 0))) {
+    return undefined;
+  }
+  const logs = revenue.map(Math.log);
+  const meanX = (revenue.length - 1) / 2;
+  const meanY = average(logs);
+  const slope =
+    sum(logs.map((y, x) => (x - meanX) * (y - meanY))) /
+    sum(logs.map((_, x) => (x - meanX) ** 2));
+
+  const ratios: number[][] = Array.from({ length: 12 }, () => []);
+  revenue.forEach((value, x) => {
+    const trend = Math.exp(meanY + slope * (x - meanX));
+    ratios[calendarMonth(series.startMonth, x).month].push(value / trend);
+  });
+  const raw = ratios.map(average);
+  const scale = average(raw);
+  const index = raw.map((value) => round(value / scale, 3));
+  return {
+    index,
+    amplitude: round(Math.max(...index) - Math.min(...index), 3),
+  };
+}
+
+const latestDefined = (values: Array<number | undefined>) =>
+  [...values].reverse().find((value) => value !== undefined);
+
+export function deriveMetrics(series: TimeSeries): TimeSeriesMetrics {
+  const { months } = series;
+  const count = months.length;
+  const trailing = months.slice(-TRAILING_MONTHS);
+  const recent = months.slice(-3);
+  const netBurn = (month: (typeof months)[number]) =>
+    Math.max(0, month.costs - month.revenue);
+
+  const ttmRevenue = sum(trailing.map((month) => month.revenue));
+  const ttmCosts = sum(trailing.map((month) => month.costs));
+  const monthlyNetBurn = average(recent.map(netBurn));
+  const momGrowth = windowGrowth(trailing.map((month) => month.revenue));
+
+  const cagr =
+    count >= 2 * TRAILING_MONTHS
+      ? compoundGrowth(
+          sum(months.slice(0, TRAILING_MONTHS).map((month) => month.revenue)),
+          ttmRevenue,
+          (count - TRAILING_MONTHS) / TRAILING_MONTHS,
+        )
+      : momGrowth !== undefined
+        ? Math.pow(1 + momGrowth, 12) - 1
+        : undefined;
+
+  // Net new ARR over the trailing year, measured from the month before it
+  // where the series is long enough
+  const start = months[Math.max(0, count - TRAILING_MONTHS - 1)];
+  const netNewArr = (months[count - 1].revenue - start.revenue) * 12;
+  const trailingBurn = sum(trailing.map(netBurn));
+  const burnMultiple =
+    trailingBurn === 0
+      ? 0
+      : netNewArr > 0
+        ? trailingBurn / netNewArr
+        : undefined;
+
+  const headcount = latestDefined(months.map((month) => month.headcount));
+  const customerCounts = trailing.map((month) => month.customers);
+  const customers = latestDefined(customerCounts);
+  const customerMomGrowth = windowGrowth(
+    customerCounts.filter((value) => value !== undefined),
+  );
+
+  return {
+    monthCount: count,
+    ttmRevenue,
+    ttmCosts,
+    ttmNetIncome: ttmRevenue - ttmCosts,
+    monthlyCosts: average(recent.map((month) => month.costs)),
+    monthlyNetBurn,
+    momGrowth: momGrowth === undefined ? undefined : round(momGrowth),
+    cagr: cagr === undefined ? undefined : round(cagr),
+    runwayMonths:
+      series.cashBalance !== undefined && monthlyNetBurn > 0
+        ? round(series.cashBalance / monthlyNetBurn, 1)
+        : undefined,
+    burnMultiple:
+      burnMultiple === undefined ? undefined : round(burnMultiple, 2),
+    seasonality: seasonality(series),
+    headcount,
+    revenuePerEmployee: headcount > 0 ? ttmRevenue / headcount : undefined,
+    customers,
+    customerMomGrowth:
+      customerMomGrowth === undefined ? undefined : round(customerMomGrowth),
+  };
+}
+
+/**
+ * The wizard answers with the step2/step3 snapshot replaced by values
+ * derived from the monthly series, when there is one
+ */
+export function withTimeSeries(wizardData: WizardData): WizardData {
+  const series = wizardData.timeSeries;
+  if (!series?.months?.length) return wizardData;
+  const metrics = deriveMetrics(series);
+  const amount = (value: number) =>
+    money(Math.round(value), "units", series.currency);
+
+  const traction = {
+    ...(metrics.customers !== undefined && {
+      customerCount: metrics.customers,
+    }),
+    ...(metrics.cagr !== undefined && {
+      growthRate: Math.round(metrics.cagr * 1000) / 10,
+      growthPeriod: "yearly",
+    }),
+  };
+  return {
+    ...wizardData,
+    step2: {
+      ...wizardData.step2,
+      revenue: amount(metrics.ttmRevenue),
+      monthlyBurnRate: amount(metrics.monthlyCosts),
+      netProfitLoss: amount(metrics.ttmNetIncome),
+      skipFinancials: false,
+    },
+    step3: Object.keys(traction).length
+      ? { ...wizardData.step3, ...traction, skipTraction: false }
+      : wizardData.step3,
+  };
+}
+
+export interface PastedMonths {
+  // YYYY-MM of the first row when the rows are labelled with months
+  startMonth?: string;
+  months: MonthlyFigures[];
+}
+
+/**
+ * Read monthly figures pasted from a spreadsheet: one row per month with
+ * revenue, costs and optionally headcount and customers, in that order,
+ * optionally preceded by a month label. Header rows are skipped.
+ */
+export function parsePastedMonths(text: string): PastedMonths {
+  // Spreadsheets copy tab separated cells whose numbers may contain commas
+  const rows = text.includes("\t")
+    ? text.split(/\r?\n/).map((line) => line.split("\t"))
+    : parseCsv(text);
+
+  let startMonth: string | undefined;
+  const months: MonthlyFigures[] = [];
+  for (const row of rows) {
+    const cells = row.map((cell) => cell.trim());
+    // Plain numbers are figures, not Excel date serials
+    const first = cells[0] ?? "";
+    const label = /^[\d.,]+$/.test(first) ? undefined : parseMonthHeader(first);
+    const [revenue, costs, headcount, customers] = (
+      label ? cells.slice(1) : cells
+    ).map(parseAmount);
+    if (revenue === undefined) continue;
+
+    if (label?.year !== undefined && months.length === 0) {
+      startMonth = `${label.year}-${String(label.month + 1).padStart(2, "0")}`;
+    }
+    const count = (value?: number) =>
+      value === undefined ? undefined : Math.max(0, Math.round(value));
+    months.push({
+      revenue,
+      costs: Math.abs(costs ?? 0),
+      headcount: count(headcount),
+      customers: count(customers),
+    });
+  }
+  if (months.length === 0) {
+    throw new Error("No monthly figures were found in the pasted text");
+  }
+  return { startMonth, months };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import type { WizardData } from "./api";
+import { money } from "./money";
+import { deriveUnitEconomics, normalizeUnitEconomics } from "./unitEconomics";
+import { normalizeInputs, runValuation } from "./valuation";
+
+const saasCompany: WizardData = {
+  step1: {
+    businessName: "Acme Analytics",
+    country: "United States",
+    industry: "saas",
+    stage: "growth",
+    isLaunched: true,
+  },
+  step2: {
+    revenue: money(2_400_000),
+    netProfitLoss: money(-240_000),
+  },
+  step3: {
+    customerCount: 200,
+    growthRate: 50,
+    growthPeriod: "yearly",
+    unitEconomics: {
+      arr: money(2.4, "millions"),
+      grossMargin: 80,
+      revenueChurn: 2,
+      nrr: 115,
+      cac: money(10_000),
+    },
+  },
+};
+
+describe("deriveUnitEconomics", () => {
+  it("computes LTV/CAC, payback and the Rule of 40", () => {
+    const metrics = deriveUnitEconomics(normalizeInputs(saasCompany));
+    // 1,000 a month per customer at 80% margin over 50 months
+    expect(metrics.arpa).toBe(1000);
+    expect(metrics.ltv).toBeCloseTo(40_000);
+    expect(metrics.ltvToCac).toBe(4);
+    expect(metrics.paybackMonths).toBe(12.5);
+    expect(metrics.ruleOf40).toBe(40);
+    expect(metrics.adjustments.map(({ label }) => label)).toEqual([
+      "Net revenue retention",
+      "Gross margin",
+      "LTV/CAC",
+      "CAC payback",
+      "Rule of 40",
+    ]);
+    expect(metrics.multipleAdjustment).toBeCloseTo(1.15 * 1.05 * 1.05, 2);
+  });
+
+  it("is skipped for other industries and empty answers", () => {
+    const ecommerce = {
+      ...saasCompany,
+      step1: { ...saasCompany.step1, industry: "ecommerce" },
+    };
+    expect(deriveUnitEconomics(normalizeInputs(ecommerce))).toBeUndefined();
+    expect(normalizeUnitEconomics({})).toBeUndefined();
+  });
+});
+
+describe("revenue multiple", () => {
+  it("is scaled by the unit economics adjustment", () => {
+    const multiple = (wizardData: WizardData) =>
+      runValuation(wizardData).calculations.find(
+        (calculation) => calculation.method === "Revenue Multiple",
+      );
+    const { unitEconomics, ...plainTraction } = saasCompany.step3;
+    const plain = multiple({ ...saasCompany, step3: plainTraction });
+    const adjusted = multiple(saasCompany);
+    expect(adjusted.valuationRange.upper).toBeGreaterThan(
+      plain.valuationRange.upper,
+    );
+    expect(adjusted.calculation).toContain("Unit economics adj.");
+  });
+});
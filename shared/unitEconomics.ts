@@ -0,0 +1,187 @@
+/**
+ * SaaS unit economics: LTV/CAC, payback and the Rule of 40 derived from the
+ * recurring-revenue answers, and the revenue multiple adjustment they imply.
+ *
+ * Amounts are whole units of the base currency and rates are fractions,
+ * like the rest of the engine inputs.
+ */
+import type { UnitEconomics } from "./api";
+import { DEFAULT_FX_RATES, toBaseUnits, type FxRates } from "./currency";
+import type { ValuationInputs } from "./valuation";
+
+/**
+ * Industries whose traction step asks for the recurring-revenue metrics
+ */
+export const UNIT_ECONOMICS_INDUSTRIES = ["saas", "fintech", "ai"];
+
+export function collectsUnitEconomics(industry?: string): boolean {
+  return UNIT_ECONOMICS_INDUSTRIES.includes(industry || "");
+}
+
+export interface UnitEconomicsInputs {
+  arr?: number;
+  grossMargin?: number;
+  // Monthly
+  logoChurn?: number;
+  revenueChurn?: number;
+  // Annual; 1.1 = 110%
+  nrr?: number;
+  cac?: number;
+  paybackMonths?: number;
+}
+
+export interface MultipleAdjustment {
+  label: string;
+  factor: number;
+}
+
+export interface UnitEconomicsMetrics extends UnitEconomicsInputs {
+  // Monthly recurring revenue per customer
+  arpa?: number;
+  ltv?: number;
+  ltvToCac?: number;
+  // Annual growth plus profit margin, in percentage points
+  ruleOf40?: number;
+  multipleAdjustment: number;
+  adjustments: MultipleAdjustment[];
+}
+
+// Customers are not assumed to stay longer than five years
+const MAX_LIFETIME_MONTHS = 60;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const round = (value: number, places = 2) =>
+  Math.round(value * 10 ** places) / 10 ** places;
+
+const fraction = (percent?: number) =>
+  percent === undefined || Number.isNaN(percent) ? undefined : percent / 100;
+
+/**
+ * Engine view of the wizard answers; undefined when none were given
+ */
+export function normalizeUnitEconomics(
+  answers: UnitEconomics | undefined,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): UnitEconomicsInputs | undefined {
+  if (!answers) return undefined;
+  const amount = (value: UnitEconomics["arr"]) =>
+    value ? Math.max(0, toBaseUnits(value, fxRates)) : undefined;
+  const inputs: UnitEconomicsInputs = {
+    arr: amount(answers.arr),
+    grossMargin: fraction(answers.grossMargin),
+    logoChurn: fraction(answers.logoChurn),
+    revenueChurn: fraction(answers.revenueChurn),
+    nrr: fraction(answers.nrr),
+    cac: amount(answers.cac),
+    paybackMonths: answers.paybackMonths,
+  };
+  return Object.values(inputs).some((value) => value !== undefined)
+    ? inputs
+    : undefined;
+}
+
+function multipleAdjustments(
+  metrics: Omit<UnitEconomicsMetrics, "multipleAdjustment" | "adjustments">,
+): MultipleAdjustment[] {
+  const adjustments: MultipleAdjustment[] = [];
+  const add = (label: string, factor: number) =>
+    adjustments.push({ label, factor: round(factor) });
+
+  if (metrics.nrr !== undefined) {
+    add("Net revenue retention", clamp(metrics.nrr, 0.8, 1.3));
+  } else if ((metrics.revenueChurn ?? metrics.logoChurn) !== undefined) {
+    // Retention already reflects churn; use churn only without it
+    const churn = metrics.revenueChurn ?? metrics.logoChurn;
+    add("Churn", clamp(1.05 - churn * 5, 0.8, 1.05));
+  }
+  if (metrics.grossMargin !== undefined) {
+    add("Gross margin", clamp(0.25 + metrics.grossMargin, 0.8, 1.15));
+  }
+  if (metrics.ltvToCac !== undefined) {
+    add("LTV/CAC", clamp(0.85 + 0.05 * metrics.ltvToCac, 0.8, 1.1));
+  }
+  if (metrics.paybackMonths !== undefined) {
+    add(
+      "CAC payback",
+      metrics.paybackMonths <= 12 ? 1.05 : metrics.paybackMonths > 24 ? 0.9 : 1,
+    );
+  }
+  if (metrics.ruleOf40 !== undefined) {
+    add("Rule of 40", clamp(0.8 + metrics.ruleOf40 / 200, 0.85, 1.15));
+  }
+  return adjustments;
+}
+
+/**
+ * Derived metrics for the engine inputs; undefined when the company has no
+ * recurring-revenue answers
+ */
+export function deriveUnitEconomics(
+  inputs: Pick<
+    ValuationInputs,
+    | "revenue"
+    | "netProfitLoss"
+    | "customerCount"
+    | "annualGrowthRate"
+    | "unitEconomics"
+  >,
+): UnitEconomicsMetrics | undefined {
+  const answers = inputs.unitEconomics;
+  if (!answers) return undefined;
+
+  const recurring = answers.arr ?? inputs.revenue;
+  const arpa =
+    recurring > 0 && inputs.customerCount > 0
+      ? recurring / 12 / inputs.customerCount
+      : undefined;
+  const churn = answers.revenueChurn ?? answers.logoChurn;
+  const lifetime =
+    churn > 0 ? Math.min(1 / churn, MAX_LIFETIME_MONTHS) : MAX_LIFETIME_MONTHS;
+  const monthlyGrossProfit =
+    arpa !== undefined && answers.grossMargin !== undefined
+      ? arpa * answers.grossMargin
+      : undefined;
+  const ltv =
+    monthlyGrossProfit !== undefined
+      ? monthlyGrossProfit * lifetime
+      : undefined;
+  const paybackMonths =
+    answers.paybackMonths ??
+    (answers.cac > 0 && monthlyGrossProfit > 0
+      ? round(answers.cac / monthlyGrossProfit, 1)
+      : undefined);
+  const ruleOf40 =
+    inputs.revenue > 0
+      ? round(
+          (inputs.annualGrowthRate + inputs.netProfitLoss / inputs.revenue) *
+            100,
+          1,
+        )
+      : undefined;
+
+  const metrics = {
+    ...answers,
+    arpa,
+    ltv,
+    ltvToCac:
+      ltv !== undefined && answers.cac > 0
+        ? round(ltv / answers.cac)
+        : undefined,
+    paybackMonths,
+    ruleOf40,
+  };
+  const adjustments = multipleAdjustments(metrics);
+  return {
+    ...metrics,
+    multipleAdjustment: round(
+      clamp(
+        adjustments.reduce((product, { factor }) => product * factor, 1),
+        0.6,
+        1.6,
+      ),
+    ),
+    adjustments,
+  };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import type { WizardData } from "./api";
+import { money } from "./money";
+import { annualizeGrowthRate, projectRevenue, runValuation } from "./valuation";
+
+const growthCompany: WizardData = {
+  step1: {
+    businessName: "Acme Analytics",
+    country: "United States",
+    industry: "saas",
+    stage: "growth",
+    isLaunched: true,
+  },
+  step2: {
+    revenue: money(2_000_000),
+    monthlyBurnRate: money(150_000),
+    netProfitLoss: money(-400_000),
+    fundingRaised: money(5_000_000),
+    planningToRaise: money(3_000_000),
+  },
+  step3: {
+    customerCount: 250,
+    growthRate: 80,
+    growthPeriod: "yearly",
+    uniqueValue: "technology, data",
+    competitors: "Looker, Tableau",
+  },
+};
+
+const ideaCompany: WizardData = {
+  step1: {
+    businessName: "Napkin Labs",
+    country: "India",
+    industry: "edtech",
+    stage: "idea",
+    isLaunched: false,
+  },
+  step2: { skipFinancials: true },
+  step3: { skipTraction: true },
+};
+
+describe("annualizeGrowthRate", () => {
+  it("compounds monthly and quarterly rates", () => {
+    expect(annualizeGrowthRate(10, "yearly")).toBeCloseTo(0.1);
+    expect(annualizeGrowthRate(10, "quarterly")).toBeCloseTo(0.4641);
+    expect(annualizeGrowthRate(5, "monthly")).toBeCloseTo(0.7959, 3);
+  });
+
+  it("caps runaway growth at 300%", () => {
+    expect(annualizeGrowthRate(50, "monthly")).toBe(3);
+  });
+});
+
+describe("projectRevenue", () => {
+  it("fades growth towards the terminal rate", () => {
+    const projections = projectRevenue(1_000_000, 1);
+    expect(projections).toHaveLength(5);
+    expect(projections[0]).toBeCloseTo(2_000_000);
+    const lastGrowth = projections[4] / projections[3] - 1;
+    expect(lastGrowth).toBeCloseTo(0.03);
+  });
+});
+
+describe("runValuation", () => {
+  it("is deterministic", () => {
+    expect(runValuation(growthCompany)).toEqual(runValuation(growthCompany));
+  });
+
+  it("computes every method for a revenue-generating company", () => {
+    const report = runValuation(growthCompany);
+    expect(report.calculations.map((c) => c.method)).toEqual([
+      "Revenue Multiple",
+      "DCF Analysis",
+      "Berkus Method",
+      "Scorecard Method",
+      "Risk Factor Summation",
+      "VC Method",
+      "First Chicago Method",
+    ]);
+    for (const calc of report.calculations) {
+      expect(calc.valuationRange.lower).toBeLessThanOrEqual(calc.valuationRange.upper);
+      expect(Number.isFinite(calc.valuationRange.lower)).toBe(true);
+    }
+    expect(report.recommendedMethods.recommendedMethods[0].method).toBe("Revenue Multiple");
+  });
+
+  it("skips revenue-based methods for pre-revenue companies", () => {
+    const report = runValuation(ideaCompany);
+    const methods = report.calculations.map((c) => c.method);
+    expect(methods).not.toContain("Revenue Multiple");
+    expect(methods).not.toContain("DCF Analysis");
+    expect(report.finalValuation.finalRange.upper).toBeGreaterThan(0);
+  });
+
+  it("responds to the inputs", () => {
+    const faster = runValuation({
+      ...growthCompany,
+      step3: { ...growthCompany.step3, growthRate: 150 },
+    });
+    const base = runValuation(growthCompany);
+    expect(faster.finalValuation.finalRange.upper).toBeGreaterThan(
+      base.finalValuation.finalRange.upper,
+    );
+    expect(runValuation(ideaCompany).finalValuation.finalRange.upper).toBeLessThan(
+      base.finalValuation.finalRange.lower,
+    );
+  });
+
+  it("credits a technology advantage however it is capitalised", () => {
+    const riskFactors = (uniqueValue: string) =>
+      runValuation({
+        ...growthCompany,
+        step3: { ...growthCompany.step3, uniqueValue },
+      }).calculations.find((c) => c.method === "Risk Factor Summation")
+        .calculation;
+    expect(riskFactors("Technology, Brand")).toContain("Technology: +1");
+    expect(riskFactors("brand")).toContain("Technology: 0");
+  });
+
+  it("keeps the final range within the method ranges", () => {
+    const report = runValuation(growthCompany);
+    const lowers = report.calculations.map((c) => c.valuationRange.lower);
+    const uppers = report.calculations.map((c) => c.valuationRange.upper);
+    expect(report.finalValuation.finalRange.lower).toBeGreaterThanOrEqual(Math.min(...lowers));
+    expect(report.finalValuation.finalRange.upper).toBeLessThanOrEqual(Math.max(...uppers));
+  });
+});
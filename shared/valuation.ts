@@ -0,0 +1,1028 @@
+/**
+ * In-house valuation engine.
+ *
+ * Pure TypeScript with no I/O so it can run in the browser (Demo Mode),
+ * on the Express server and in unit tests. All amounts are handled in whole
+ * units of the base currency internally; report ranges are emitted in millions to match
+ * the shape returned by the AI backend, and say so in their `scale`.
+ */
+import type { ValuationReport, WizardData } from "./api";
+import {
+  BASE_CURRENCY,
+  DEFAULT_FX_RATES,
+  toBaseUnits,
+  type FxRates,
+} from "./currency";
+import { attachedDocuments, countWords } from "./documents";
+import { formatAmount, moneyRange, type MoneyRange } from "./money";
+import {
+  getMetricPack,
+  methodWeight,
+  normalizeMetricAnswers,
+  type MetricValues,
+} from "./metricPacks";
+import { withTimeSeries } from "./timeSeries";
+import {
+  collectsUnitEconomics,
+  deriveUnitEconomics,
+  normalizeUnitEconomics,
+  type UnitEconomicsInputs,
+} from "./unitEconomics";
+
+export type ValuationMethod =
+  | "Revenue Multiple"
+  | "DCF Analysis"
+  | "Berkus Method"
+  | "Scorecard Method"
+  | "Risk Factor Summation"
+  | "VC Method"
+  | "First Chicago Method";
+
+export interface MethodResult {
+  method: ValuationMethod;
+  lower: number;
+  upper: number;
+  confidence: number;
+  reason: string;
+  explanation: string;
+  calculation: string;
+  narrative: string;
+}
+
+interface IndustryBenchmark {
+  label: string;
+  revenueMultiple: [number, number];
+  targetMargin: number;
+  exitMultiple: number;
+  marketFactor: number;
+  regulated: boolean;
+  capitalIntensive: boolean;
+}
+
+interface StageProfile {
+  label: string;
+  medianPreMoney: number;
+  discountRate: number;
+  targetReturn: number;
+  assumedYear5Revenue: number;
+  scenarioWeights: [number, number, number];
+}
+
+const INDUSTRY_BENCHMARKS: Record<string, IndustryBenchmark> = {
+  saas: {
+    label: "SaaS",
+    revenueMultiple: [5, 10],
+    targetMargin: 0.25,
+    exitMultiple: 8,
+    marketFactor: 1.2,
+    regulated: false,
+    capitalIntensive: false,
+  },
+  ecommerce: {
+    label: "E-commerce",
+    revenueMultiple: [1, 3],
+    targetMargin: 0.1,
+    exitMultiple: 2.5,
+    marketFactor: 1.0,
+    regulated: false,
+    capitalIntensive: true,
+  },
+  fintech: {
+    label: "FinTech",
+    revenueMultiple: [4, 8],
+    targetMargin: 0.25,
+    exitMultiple: 6,
+    marketFactor: 1.25,
+    regulated: true,
+    capitalIntensive: false,
+  },
+  healthtech: {
+    label: "HealthTech",
+    revenueMultiple: [3, 7],
+    targetMargin: 0.2,
+    exitMultiple: 5,
+    marketFactor: 1.15,
+    regulated: true,
+    capitalIntensive: false,
+  },
+  edtech: {
+    label: "EdTech",
+    revenueMultiple: [2, 5],
+    targetMargin: 0.18,
+    exitMultiple: 4,
+    marketFactor: 0.95,
+    regulated: false,
+    capitalIntensive: false,
+  },
+  ai: {
+    label: "AI/ML",
+    revenueMultiple: [8, 15],
+    targetMargin: 0.25,
+    exitMultiple: 10,
+    marketFactor: 1.4,
+    regulated: false,
+    capitalIntensive: true,
+  },
+  biotech: {
+    label: "Biotech",
+    revenueMultiple: [4, 10],
+    targetMargin: 0.3,
+    exitMultiple: 6,
+    marketFactor: 1.2,
+    regulated: true,
+    capitalIntensive: true,
+  },
+  cleantech: {
+    label: "CleanTech",
+    revenueMultiple: [2, 5],
+    targetMargin: 0.15,
+    exitMultiple: 4,
+    marketFactor: 1.1,
+    regulated: true,
+    capitalIntensive: true,
+  },
+  gaming: {
+    label: "Gaming",
+    revenueMultiple: [2, 5],
+    targetMargin: 0.2,
+    exitMultiple: 3.5,
+    marketFactor: 0.95,
+    regulated: false,
+    capitalIntensive: false,
+  },
+  other: {
+    label: "General",
+    revenueMultiple: [1.5, 4],
+    targetMargin: 0.15,
+    exitMultiple: 3,
+    marketFactor: 1.0,
+    regulated: false,
+    capitalIntensive: false,
+  },
+};
+
+const STAGE_PROFILES: Record<string, StageProfile> = {
+  idea: {
+    label: "Idea",
+    medianPreMoney: 1_500_000,
+    discountRate: 0.6,
+    targetReturn: 30,
+    assumedYear5Revenue: 5_000_000,
+    scenarioWeights: [0.15, 0.35, 0.5],
+  },
+  mvp: {
+    label: "MVP",
+    medianPreMoney: 3_000_000,
+    discountRate: 0.5,
+    targetReturn: 20,
+    assumedYear5Revenue: 8_000_000,
+    scenarioWeights: [0.2, 0.4, 0.4],
+  },
+  launched: {
+    label: "Launched",
+    medianPreMoney: 6_000_000,
+    discountRate: 0.4,
+    targetReturn: 10,
+    assumedYear5Revenue: 12_000_000,
+    scenarioWeights: [0.25, 0.5, 0.25],
+  },
+  growth: {
+    label: "Growth",
+    medianPreMoney: 15_000_000,
+    discountRate: 0.3,
+    targetReturn: 5,
+    assumedYear5Revenue: 30_000_000,
+    scenarioWeights: [0.3, 0.5, 0.2],
+  },
+};
+
+// Relative funding market depth, used to scale the stage medians
+const COUNTRY_FACTORS: Record<string, number> = {
+  "United States": 1.0,
+  Switzerland: 0.9,
+  "United Kingdom": 0.85,
+  Singapore: 0.85,
+  Canada: 0.8,
+  Germany: 0.8,
+  Netherlands: 0.8,
+  France: 0.75,
+  Australia: 0.75,
+  Japan: 0.7,
+  India: 0.5,
+  Brazil: 0.5,
+};
+
+// Weights for the method confidence by stage; methods missing for a stage
+// are still computed when inputs allow but carry a low confidence.
+const METHOD_FIT: Record<string, Partial<Record<ValuationMethod, number>>> = {
+  idea: {
+    "Berkus Method": 0.85,
+    "Scorecard Method": 0.8,
+    "Risk Factor Summation": 0.75,
+    "VC Method": 0.55,
+    "First Chicago Method": 0.45,
+  },
+  mvp: {
+    "Berkus Method": 0.75,
+    "Scorecard Method": 0.8,
+    "Risk Factor Summation": 0.75,
+    "VC Method": 0.65,
+    "First Chicago Method": 0.55,
+    "Revenue Multiple": 0.4,
+    "DCF Analysis": 0.3,
+  },
+  launched: {
+    "Scorecard Method": 0.7,
+    "Risk Factor Summation": 0.65,
+    "VC Method": 0.75,
+    "First Chicago Method": 0.7,
+    "Revenue Multiple": 0.75,
+    "DCF Analysis": 0.5,
+    "Berkus Method": 0.5,
+  },
+  growth: {
+    "Revenue Multiple": 0.85,
+    "DCF Analysis": 0.75,
+    "First Chicago Method": 0.75,
+    "VC Method": 0.7,
+    "Scorecard Method": 0.5,
+    "Risk Factor Summation": 0.5,
+    "Berkus Method": 0.3,
+  },
+};
+
+const PROJECTION_YEARS = 5;
+const TERMINAL_GROWTH = 0.03;
+const BERKUS_FACTOR_MAX = 500_000;
+const RISK_FACTOR_STEP = 250_000;
+
+/**
+ * Normalised view of the wizard answers the methods work from
+ */
+export interface ValuationInputs {
+  businessName: string;
+  industry: string;
+  stage: string;
+  country: string;
+  isLaunched: boolean;
+  revenue: number;
+  monthlyBurnRate: number;
+  netProfitLoss: number;
+  fundingRaised: number;
+  planningToRaise: number;
+  customerCount: number;
+  annualGrowthRate: number;
+  advantages: string[];
+  competitors: string[];
+  hasFinancials: boolean;
+  hasTraction: boolean;
+  // Recurring-revenue answers of SaaS-like companies, see ./unitEconomics
+  unitEconomics?: UnitEconomicsInputs;
+  // Answers to the industry's metric pack, see ./metricPacks
+  industryMetrics?: MetricValues;
+  // Assumptions rather than answers: the stage discount rate, the sector
+  // target margin and a scale applied to the sector revenue and exit multiples
+  discountRate: number;
+  targetMargin: number;
+  multipleFactor: number;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const toMillions = (amount: number) => Math.round((amount / 1e6) * 100) / 100;
+
+const toReportRange = (range: { lower: number; upper: number }): MoneyRange =>
+  moneyRange(
+    toMillions(range.lower),
+    toMillions(range.upper),
+    "millions",
+    BASE_CURRENCY,
+  );
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const splitList = (value?: string) =>
+  (value || "")
+    .split(/[,;\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Advantages are the option values picked in step 3 or typed by hand
+const hasAdvantage = (inputs: ValuationInputs, value: string) =>
+  inputs.advantages.some((advantage) => advantage.toLowerCase() === value);
+
+/**
+ * Convert a growth rate entered for a period into an annual rate
+ */
+export function annualizeGrowthRate(
+  ratePercent: number,
+  period?: string,
+): number {
+  const rate = (ratePercent || 0) / 100;
+  let annual: number;
+  switch (period) {
+    case "monthly":
+      annual = Math.pow(1 + rate, 12) - 1;
+      break;
+    case "quarterly":
+      annual = Math.pow(1 + rate, 4) - 1;
+      break;
+    default:
+      annual = rate;
+  }
+  // Compounded monthly rates explode quickly; cap at 300% a year
+  return clamp(annual, 0, 3);
+}
+
+export function getIndustryBenchmark(industry?: string): IndustryBenchmark {
+  return INDUSTRY_BENCHMARKS[industry || "other"] || INDUSTRY_BENCHMARKS.other;
+}
+
+export function getStageProfile(stage?: string): StageProfile {
+  return STAGE_PROFILES[stage || "idea"] || STAGE_PROFILES.idea;
+}
+
+export function getCountryFactor(country?: string): number {
+  return COUNTRY_FACTORS[country || ""] ?? 0.7;
+}
+
+export function normalizeInputs(
+  wizardData: WizardData,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): ValuationInputs {
+  const { step1, step2, step3 } = withTimeSeries(wizardData);
+  const hasFinancials = !!step2 && !step2.skipFinancials;
+  const hasTraction = !!step3 && !step3.skipTraction;
+  const metricPack = getMetricPack(step1?.industry);
+
+  return {
+    businessName: step1?.businessName || "Your Company",
+    industry: step1?.industry || "other",
+    stage: step1?.stage || "idea",
+    country: step1?.country || "United States",
+    isLaunched: !!step1?.isLaunched,
+    revenue: hasFinancials
+      ? Math.max(0, toBaseUnits(step2.revenue, fxRates))
+      : 0,
+    monthlyBurnRate: hasFinancials
+      ? Math.max(0, toBaseUnits(step2.monthlyBurnRate, fxRates))
+      : 0,
+    netProfitLoss: hasFinancials
+      ? toBaseUnits(step2.netProfitLoss, fxRates)
+      : 0,
+    fundingRaised: hasFinancials
+      ? Math.max(0, toBaseUnits(step2.fundingRaised, fxRates))
+      : 0,
+    planningToRaise: hasFinancials
+      ? Math.max(0, toBaseUnits(step2.planningToRaise, fxRates))
+      : 0,
+    customerCount: hasTraction
+      ? Math.max(0, Number(step3.customerCount) || 0)
+      : 0,
+    annualGrowthRate: hasTraction
+      ? annualizeGrowthRate(Number(step3.growthRate) || 0, step3.growthPeriod)
+      : 0,
+    advantages: hasTraction ? splitList(step3.uniqueValue) : [],
+    competitors: hasTraction ? splitList(step3.competitors) : [],
+    hasFinancials,
+    hasTraction,
+    unitEconomics:
+      hasTraction && collectsUnitEconomics(step1?.industry)
+        ? normalizeUnitEconomics(step3.unitEconomics, fxRates)
+        : undefined,
+    industryMetrics:
+      hasTraction && metricPack
+        ? normalizeMetricAnswers(metricPack, step3.industryMetrics, fxRates)
+        : undefined,
+    discountRate: getStageProfile(step1?.stage).discountRate,
+    targetMargin: getIndustryBenchmark(step1?.industry).targetMargin,
+    multipleFactor: 1,
+  };
+}
+
+/**
+ * Project revenue forward with growth fading linearly towards the terminal rate
+ */
+export function projectRevenue(
+  revenue: number,
+  annualGrowthRate: number,
+  years: number = PROJECTION_YEARS,
+): number[] {
+  const projections: number[] = [];
+  let current = revenue;
+  const startGrowth = Math.min(annualGrowthRate, 2);
+  for (let year = 1; year <= years; year++) {
+    const fade = (year - 1) / Math.max(years - 1, 1);
+    const growth = startGrowth * (1 - fade) + TERMINAL_GROWTH * fade;
+    current = current * (1 + growth);
+    projections.push(current);
+  }
+  return projections;
+}
+
+// Forward revenue used by the exit-based methods; pre-revenue companies
+// fall back to the stage benchmark so the methods still produce a value.
+const year5Revenue = (
+  inputs: ValuationInputs,
+  growthMultiplier = 1,
+): number => {
+  if (inputs.revenue > 0) {
+    const projections = projectRevenue(
+      inputs.revenue,
+      inputs.annualGrowthRate * growthMultiplier,
+    );
+    return projections[projections.length - 1];
+  }
+  return getStageProfile(inputs.stage).assumedYear5Revenue * growthMultiplier;
+};
+
+const confidenceFor = (
+  inputs: ValuationInputs,
+  method: ValuationMethod,
+  needsFinancials: boolean,
+): number => {
+  const fit = METHOD_FIT[inputs.stage]?.[method] ?? 0.35;
+  const dataPenalty = needsFinancials && !inputs.hasFinancials ? 0.7 : 1;
+  const tractionPenalty = !inputs.hasTraction ? 0.9 : 1;
+  const confidence =
+    fit * dataPenalty * tractionPenalty * methodWeight(inputs, method);
+  return Math.round(Math.min(confidence, 0.95) * 100) / 100;
+};
+
+function revenueMultiple(inputs: ValuationInputs): MethodResult | null {
+  if (inputs.revenue <= 0) return null;
+
+  const benchmark = getIndustryBenchmark(inputs.industry);
+  const [lowMultiple, highMultiple] = benchmark.revenueMultiple.map(
+    (multiple) => Math.round(multiple * inputs.multipleFactor * 100) / 100,
+  );
+  // Benchmarks assume ~40% annual growth
+  const growthAdjustment = clamp(0.6 + inputs.annualGrowthRate, 0.6, 2.5);
+  const profitabilityAdjustment = inputs.netProfitLoss > 0 ? 1.1 : 1;
+  const unitEconomicsAdjustment =
+    deriveUnitEconomics(inputs)?.multipleAdjustment ?? 1;
+  const adjustment =
+    growthAdjustment * profitabilityAdjustment * unitEconomicsAdjustment;
+
+  return {
+    method: "Revenue Multiple",
+    lower: inputs.revenue * lowMultiple * adjustment,
+    upper: inputs.revenue * highMultiple * adjustment,
+    confidence: confidenceFor(inputs, "Revenue Multiple", true),
+    reason: `${formatAmount(inputs.revenue)} of trailing revenue gives a direct comparable basis for ${benchmark.label} multiples`,
+    explanation: `Applies ${benchmark.label} revenue multiples of ${lowMultiple}x-${highMultiple}x, adjusted for growth and profitability`,
+    calculation: `Revenue ${formatAmount(inputs.revenue)} × Multiple ${lowMultiple}x-${highMultiple}x × Growth adj. ${growthAdjustment.toFixed(2)} × Profitability adj. ${profitabilityAdjustment.toFixed(2)}${inputs.unitEconomics ? ` × Unit economics adj. ${unitEconomicsAdjustment.toFixed(2)}` : ""}`,
+    narrative: `With annual growth of ${formatPercent(inputs.annualGrowthRate)}, the company trades ${growthAdjustment >= 1 ? "at or above" : "below"} the sector's typical multiple range.${inputs.unitEconomics ? ` Retention, margins and acquisition efficiency move the multiple ${unitEconomicsAdjustment >= 1 ? "up" : "down"} by ${formatPercent(Math.abs(unitEconomicsAdjustment - 1))}.` : ""}`,
+  };
+}
+
+function discountedCashFlow(inputs: ValuationInputs): MethodResult | null {
+  if (inputs.revenue <= 0) return null;
+
+  const profile = getStageProfile(inputs.stage);
+  const projections = projectRevenue(inputs.revenue, inputs.annualGrowthRate);
+  const currentMargin = clamp(
+    inputs.netProfitLoss / inputs.revenue,
+    -1,
+    inputs.targetMargin,
+  );
+
+  const valueAt = (discountRate: number) => {
+    let presentValue = 0;
+    let lastCashFlow = 0;
+    projections.forEach((revenue, index) => {
+      const year = index + 1;
+      // Margin ramps linearly from today's margin to the sector target
+      const margin =
+        currentMargin +
+        ((inputs.targetMargin - currentMargin) * year) / PROJECTION_YEARS;
+      lastCashFlow = revenue * margin;
+      presentValue += lastCashFlow / Math.pow(1 + discountRate, year);
+    });
+    const terminalValue =
+      (lastCashFlow * (1 + TERMINAL_GROWTH)) / (discountRate - TERMINAL_GROWTH);
+    presentValue +=
+      terminalValue / Math.pow(1 + discountRate, PROJECTION_YEARS);
+    return Math.max(0, presentValue);
+  };
+
+  const highRate = inputs.discountRate + 0.05;
+  // The Gordon growth terminal value needs a rate above terminal growth
+  const lowRate = Math.max(inputs.discountRate - 0.05, TERMINAL_GROWTH + 0.01);
+
+  return {
+    method: "DCF Analysis",
+    lower: valueAt(highRate),
+    upper: valueAt(lowRate),
+    confidence: confidenceFor(inputs, "DCF Analysis", true),
+    reason: "Projects cash generation from current revenue, margin and growth",
+    explanation: `${PROJECTION_YEARS}-year discounted cash flow with margins converging to ${formatPercent(inputs.targetMargin)} and a ${formatPercent(TERMINAL_GROWTH)} terminal growth rate`,
+    calculation: `Year 5 revenue ${formatAmount(projections[PROJECTION_YEARS - 1])}; discount rate ${formatPercent(lowRate)}-${formatPercent(highRate)}; terminal value via Gordon growth`,
+    narrative: `A ${profile.label.toLowerCase()}-stage discount rate of about ${formatPercent(inputs.discountRate)} reflects execution risk on the projected cash flows.`,
+  };
+}
+
+function berkus(inputs: ValuationInputs): MethodResult {
+  const countryFactor = getCountryFactor(inputs.country);
+  const stageProgress: Record<string, number> = {
+    idea: 0.2,
+    mvp: 0.6,
+    launched: 0.9,
+    growth: 1,
+  };
+
+  const factors: Array<[string, number]> = [
+    ["Sound idea", clamp(0.5 + inputs.advantages.length * 0.1, 0, 1)],
+    ["Prototype", stageProgress[inputs.stage] ?? 0.2],
+    [
+      "Quality team",
+      inputs.fundingRaised > 1_000_000
+        ? 0.9
+        : inputs.fundingRaised > 0
+          ? 0.7
+          : 0.4,
+    ],
+    [
+      "Strategic relationships",
+      inputs.customerCount > 100
+        ? 0.9
+        : inputs.customerCount > 10
+          ? 0.6
+          : inputs.customerCount > 0
+            ? 0.4
+            : 0.2,
+    ],
+    [
+      "Product rollout",
+      inputs.revenue > 1_000_000
+        ? 1
+        : inputs.revenue > 100_000
+          ? 0.8
+          : inputs.revenue > 0
+            ? 0.5
+            : inputs.isLaunched
+              ? 0.3
+              : 0,
+    ],
+  ];
+
+  const value = factors.reduce(
+    (sum, [, score]) => sum + score * BERKUS_FACTOR_MAX * countryFactor,
+    0,
+  );
+
+  return {
+    method: "Berkus Method",
+    lower: value * 0.85,
+    upper: value * 1.15,
+    confidence: confidenceFor(inputs, "Berkus Method", false),
+    reason: "Values pre-revenue risk reduction across five milestones",
+    explanation: `Assigns up to ${formatAmount(BERKUS_FACTOR_MAX * countryFactor)} to each of five risk-reducing milestones`,
+    calculation: factors
+      .map(
+        ([name, score]) =>
+          `${name}: ${formatAmount(score * BERKUS_FACTOR_MAX * countryFactor)}`,
+      )
+      .join("; "),
+    narrative: `Milestone credit totals ${formatAmount(value)}, driven mostly by ${factors
+      .slice()
+      .sort((a, b) => b[1] - a[1])[0][0]
+      .toLowerCase()}.`,
+  };
+}
+
+function scorecard(inputs: ValuationInputs): MethodResult {
+  const profile = getStageProfile(inputs.stage);
+  const benchmark = getIndustryBenchmark(inputs.industry);
+  const baseValue = profile.medianPreMoney * getCountryFactor(inputs.country);
+  const runwayMonths =
+    inputs.monthlyBurnRate > 0
+      ? inputs.fundingRaised / inputs.monthlyBurnRate
+      : 24;
+
+  const criteria: Array<[string, number, number]> = [
+    [
+      "Management team",
+      0.3,
+      inputs.fundingRaised > 1_000_000
+        ? 1.25
+        : inputs.fundingRaised > 0
+          ? 1.05
+          : 0.9,
+    ],
+    ["Size of opportunity", 0.25, benchmark.marketFactor],
+    [
+      "Product/technology",
+      0.15,
+      clamp(0.8 + inputs.advantages.length * 0.1, 0.7, 1.4),
+    ],
+    [
+      "Competitive environment",
+      0.1,
+      clamp(1.2 - inputs.competitors.length * 0.08, 0.7, 1.2),
+    ],
+    [
+      "Sales channels",
+      0.1,
+      clamp(
+        0.8 +
+          inputs.annualGrowthRate * 0.4 +
+          (inputs.customerCount > 0 ? 0.1 : 0),
+        0.6,
+        1.5,
+      ),
+    ],
+    [
+      "Need for more investment",
+      0.05,
+      runwayMonths >= 18 ? 1.1 : runwayMonths >= 9 ? 1 : 0.85,
+    ],
+    ["Other factors", 0.05, 1],
+  ];
+
+  const multiplier = criteria.reduce(
+    (sum, [, weight, score]) => sum + weight * score,
+    0,
+  );
+  const value = baseValue * multiplier;
+
+  return {
+    method: "Scorecard Method",
+    lower: value * 0.85,
+    upper: value * 1.15,
+    confidence: confidenceFor(inputs, "Scorecard Method", false),
+    reason:
+      "Benchmarks the company against median pre-money valuations at the same stage",
+    explanation: `Adjusts the ${profile.label.toLowerCase()}-stage median pre-money of ${formatAmount(baseValue)} by weighted comparison factors`,
+    calculation:
+      criteria
+        .map(
+          ([name, weight, score]) =>
+            `${name} (${Math.round(weight * 100)}%): ${score.toFixed(2)}x`,
+        )
+        .join("; ") + `; combined factor ${multiplier.toFixed(2)}x`,
+    narrative: `The company scores ${multiplier >= 1 ? "above" : "below"} the regional median on a weighted basis (${multiplier.toFixed(2)}x).`,
+  };
+}
+
+function riskFactorSummation(inputs: ValuationInputs): MethodResult {
+  const profile = getStageProfile(inputs.stage);
+  const benchmark = getIndustryBenchmark(inputs.industry);
+  const countryFactor = getCountryFactor(inputs.country);
+  const baseValue = profile.medianPreMoney * countryFactor;
+  const stageScore: Record<string, number> = {
+    idea: -2,
+    mvp: -1,
+    launched: 0,
+    growth: 1,
+  };
+
+  const risks: Array<[string, number]> = [
+    [
+      "Management",
+      inputs.fundingRaised > 1_000_000 ? 1 : inputs.fundingRaised > 0 ? 0 : -1,
+    ],
+    ["Stage of business", stageScore[inputs.stage] ?? -1],
+    ["Legislation/political", benchmark.regulated ? -1 : 0],
+    ["Manufacturing", benchmark.capitalIntensive ? -1 : 0],
+    [
+      "Sales and marketing",
+      inputs.customerCount > 100 ? 1 : inputs.customerCount > 0 ? 0 : -1,
+    ],
+    ["Funding/capital raising", inputs.fundingRaised > 0 ? 1 : -1],
+    ["Competition", inputs.competitors.length > 4 ? -1 : 0],
+    ["Technology", hasAdvantage(inputs, "technology") ? 1 : 0],
+    ["Litigation", 0],
+    ["International", countryFactor >= 0.85 ? 1 : countryFactor < 0.6 ? -1 : 0],
+    ["Reputation", 0],
+    [
+      "Lucrative exit",
+      benchmark.exitMultiple >= 6 ? 2 : benchmark.exitMultiple >= 4 ? 1 : 0,
+    ],
+  ];
+
+  const totalScore = risks.reduce((sum, [, score]) => sum + score, 0);
+  const value = Math.max(
+    baseValue * 0.25,
+    baseValue + totalScore * RISK_FACTOR_STEP * countryFactor,
+  );
+
+  return {
+    method: "Risk Factor Summation",
+    lower: value * 0.9,
+    upper: value * 1.1,
+    confidence: confidenceFor(inputs, "Risk Factor Summation", false),
+    reason: "Captures sector, stage and execution risks explicitly",
+    explanation: `Adjusts the stage median of ${formatAmount(baseValue)} by ${formatAmount(RISK_FACTOR_STEP * countryFactor)} per risk point across twelve risk factors`,
+    calculation:
+      risks
+        .map(([name, score]) => `${name}: ${score > 0 ? "+" : ""}${score}`)
+        .join("; ") + `; net ${totalScore > 0 ? "+" : ""}${totalScore}`,
+    narrative: `Net risk score of ${totalScore > 0 ? "+" : ""}${totalScore} ${totalScore >= 0 ? "supports" : "weighs on"} the valuation relative to peers.`,
+  };
+}
+
+function vcMethod(inputs: ValuationInputs): MethodResult {
+  const profile = getStageProfile(inputs.stage);
+  const benchmark = getIndustryBenchmark(inputs.industry);
+  const exitMultiple = benchmark.exitMultiple * inputs.multipleFactor;
+  const exitValue = year5Revenue(inputs) * exitMultiple;
+
+  const preMoneyAt = (targetReturn: number) =>
+    Math.max(0, exitValue / targetReturn - inputs.planningToRaise);
+
+  const lower = preMoneyAt(profile.targetReturn * 1.25);
+  const upper = preMoneyAt(profile.targetReturn * 0.8);
+
+  return {
+    method: "VC Method",
+    lower,
+    upper,
+    confidence: confidenceFor(inputs, "VC Method", false),
+    reason: "Works back from a projected exit to the return investors require",
+    explanation: `Exit value of ${formatAmount(exitValue)} discounted by a ${profile.targetReturn}x target return${inputs.planningToRaise > 0 ? `, less the planned ${formatAmount(inputs.planningToRaise)} raise` : ""}`,
+    calculation: `Year 5 revenue ${formatAmount(year5Revenue(inputs))} × Exit multiple ${exitMultiple.toFixed(1)}x = ${formatAmount(exitValue)}; ÷ ${(profile.targetReturn * 0.8).toFixed(1)}-${(profile.targetReturn * 1.25).toFixed(1)}x return`,
+    narrative:
+      inputs.revenue > 0
+        ? "Exit value is driven by projected revenue at the sector's exit multiple."
+        : "Without current revenue, the exit relies on a stage benchmark for year-5 revenue.",
+  };
+}
+
+function firstChicago(inputs: ValuationInputs): MethodResult {
+  const profile = getStageProfile(inputs.stage);
+  const benchmark = getIndustryBenchmark(inputs.industry);
+  const [successWeight, baseWeight, failureWeight] = profile.scenarioWeights;
+  const discount = Math.pow(1 + inputs.discountRate, PROJECTION_YEARS);
+  const multiple = (value: number) => value * inputs.multipleFactor;
+
+  const scenarios: Array<[string, number, number]> = [
+    [
+      "Success",
+      successWeight,
+      (year5Revenue(inputs, 1.5) * multiple(benchmark.revenueMultiple[1])) /
+        discount,
+    ],
+    [
+      "Base",
+      baseWeight,
+      (year5Revenue(inputs) * multiple(benchmark.exitMultiple)) / discount,
+    ],
+    [
+      "Downside",
+      failureWeight,
+      (year5Revenue(inputs, 0.25) * multiple(benchmark.revenueMultiple[0])) /
+        discount,
+    ],
+  ];
+
+  const value = scenarios.reduce(
+    (sum, [, weight, scenarioValue]) => sum + weight * scenarioValue,
+    0,
+  );
+
+  return {
+    method: "First Chicago Method",
+    lower: value * 0.85,
+    upper: value * 1.15,
+    confidence: confidenceFor(inputs, "First Chicago Method", false),
+    reason: "Blends success, base and downside outcomes by their probability",
+    explanation: `Probability-weighted value of three exit scenarios discounted at ${formatPercent(inputs.discountRate)}`,
+    calculation: scenarios
+      .map(
+        ([name, weight, scenarioValue]) =>
+          `${name} (${Math.round(weight * 100)}%): ${formatAmount(scenarioValue)}`,
+      )
+      .join("; "),
+    narrative: `The ${profile.label.toLowerCase()} stage puts ${Math.round(failureWeight * 100)}% weight on the downside scenario.`,
+  };
+}
+
+/**
+ * Run every applicable valuation method; amounts are in whole currency units
+ */
+export function runValuationMethods(inputs: ValuationInputs): MethodResult[] {
+  return [
+    revenueMultiple(inputs),
+    discountedCashFlow(inputs),
+    berkus(inputs),
+    scorecard(inputs),
+    riskFactorSummation(inputs),
+    vcMethod(inputs),
+    firstChicago(inputs),
+  ].filter((result): result is MethodResult => result !== null);
+}
+
+/**
+ * Confidence-weighted blend of the method ranges
+ */
+export function blendRanges(results: MethodResult[]): {
+  lower: number;
+  upper: number;
+} {
+  const totalWeight = results.reduce(
+    (sum, result) => sum + result.confidence,
+    0,
+  );
+  if (totalWeight <= 0) return { lower: 0, upper: 0 };
+  return {
+    lower:
+      results.reduce((sum, r) => sum + r.lower * r.confidence, 0) / totalWeight,
+    upper:
+      results.reduce((sum, r) => sum + r.upper * r.confidence, 0) / totalWeight,
+  };
+}
+
+const buildStrengths = (inputs: ValuationInputs): string[] => {
+  const strengths: string[] = [];
+  if (inputs.revenue > 0)
+    strengths.push(
+      `Generating ${formatAmount(inputs.revenue)} in annual revenue`,
+    );
+  if (inputs.annualGrowthRate >= 0.5)
+    strengths.push(
+      `Strong annual growth of ${formatPercent(inputs.annualGrowthRate)}`,
+    );
+  if (inputs.netProfitLoss > 0) strengths.push("Already profitable");
+  if (inputs.customerCount > 0)
+    strengths.push(
+      `${inputs.customerCount.toLocaleString()} customers validate demand`,
+    );
+  if (inputs.fundingRaised > 0)
+    strengths.push(
+      `${formatAmount(inputs.fundingRaised)} raised from investors to date`,
+    );
+  if (inputs.advantages.length > 0)
+    strengths.push(`Competitive advantages: ${inputs.advantages.join(", ")}`);
+  const unitEconomics = deriveUnitEconomics(inputs);
+  if (unitEconomics?.nrr != null && unitEconomics.nrr >= 1.1)
+    strengths.push(
+      `Net revenue retention of ${formatPercent(unitEconomics.nrr)}`,
+    );
+  if (unitEconomics?.ltvToCac != null && unitEconomics.ltvToCac >= 3)
+    strengths.push(
+      `Efficient acquisition with an LTV/CAC of ${unitEconomics.ltvToCac.toFixed(1)}x`,
+    );
+  if (unitEconomics?.ruleOf40 != null && unitEconomics.ruleOf40 >= 40)
+    strengths.push(
+      `Meets the Rule of 40 at ${unitEconomics.ruleOf40.toFixed(0)}`,
+    );
+  if (getIndustryBenchmark(inputs.industry).marketFactor > 1.1)
+    strengths.push(
+      `Operating in the high-demand ${getIndustryBenchmark(inputs.industry).label} sector`,
+    );
+  if (strengths.length === 0)
+    strengths.push(
+      "Early opportunity to shape the product and market position",
+    );
+  return strengths;
+};
+
+const buildRisks = (inputs: ValuationInputs): string[] => {
+  const risks: string[] = [];
+  const benchmark = getIndustryBenchmark(inputs.industry);
+  if (inputs.revenue <= 0)
+    risks.push("No revenue yet; valuation relies on qualitative factors");
+  if (inputs.monthlyBurnRate > 0 && inputs.fundingRaised > 0) {
+    const runway = inputs.fundingRaised / inputs.monthlyBurnRate;
+    if (runway < 12)
+      risks.push(
+        `Limited runway of roughly ${Math.round(runway)} months at current burn`,
+      );
+  }
+  if (inputs.netProfitLoss < 0)
+    risks.push(
+      `Operating at a loss of ${formatAmount(Math.abs(inputs.netProfitLoss))}`,
+    );
+  if (inputs.competitors.length > 3)
+    risks.push("Crowded competitive landscape");
+  const unitEconomics = deriveUnitEconomics(inputs);
+  const churn = unitEconomics?.revenueChurn ?? unitEconomics?.logoChurn;
+  if (unitEconomics?.ltvToCac != null && unitEconomics.ltvToCac < 1)
+    risks.push(
+      `Customers are worth less than they cost to acquire (LTV/CAC ${unitEconomics.ltvToCac.toFixed(1)}x)`,
+    );
+  if (unitEconomics?.paybackMonths != null && unitEconomics.paybackMonths > 24)
+    risks.push(
+      `CAC payback of ${Math.round(unitEconomics.paybackMonths)} months`,
+    );
+  if (churn != null && churn > 0.03) risks.push("Monthly churn above 3%");
+  if (benchmark.regulated)
+    risks.push(`Regulatory exposure typical of ${benchmark.label}`);
+  if (benchmark.capitalIntensive)
+    risks.push("Capital-intensive business model");
+  if (!inputs.hasFinancials) risks.push("Financial details were not provided");
+  if (!inputs.hasTraction) risks.push("Traction metrics were not provided");
+  if (risks.length === 0) risks.push("Execution risk in scaling the business");
+  return risks;
+};
+
+const buildRecommendations = (inputs: ValuationInputs): string[] => {
+  const recommendations: string[] = [];
+  if (inputs.revenue <= 0)
+    recommendations.push(
+      "Prioritise first paying customers to unlock revenue-based valuation methods",
+    );
+  if (inputs.annualGrowthRate < 0.3 && inputs.revenue > 0)
+    recommendations.push(
+      "Focus on accelerating growth; it is the largest driver of revenue multiples",
+    );
+  if (inputs.netProfitLoss < 0)
+    recommendations.push(
+      "Improve unit economics and extend runway before the next raise",
+    );
+  if (inputs.customerCount === 0)
+    recommendations.push(
+      "Collect and report customer metrics to strengthen the traction story",
+    );
+  if (inputs.planningToRaise > 0)
+    recommendations.push(
+      `Anchor the ${formatAmount(inputs.planningToRaise)} raise on the blended valuation range`,
+    );
+  if (!inputs.hasFinancials)
+    recommendations.push(
+      "Add financial data to improve the accuracy of this valuation",
+    );
+  recommendations.push("Prepare a metrics pack for investor conversations");
+  return recommendations;
+};
+
+// The engine prices the wizard answers only; attached documents are listed
+// so the report records what the AI backends were given
+function describeDocuments(wizardData: WizardData): string {
+  const documents = attachedDocuments(wizardData);
+  if (documents.length === 0) return "";
+  const listed = documents
+    .map(
+      (file) =>
+        `${file.name} (${countWords(file.text).toLocaleString("en-US")} words)`,
+    )
+    .join(", ");
+  return `Supporting documents provided: ${listed}. The valuation ranges are computed from the wizard answers; figures quoted only in the documents are not re-read by the in-house engine.`;
+}
+
+/**
+ * Build a complete valuation report from the wizard answers
+ */
+export function runValuation(
+  wizardData: WizardData,
+  fxRates: FxRates = DEFAULT_FX_RATES,
+): ValuationReport {
+  const inputs = normalizeInputs(wizardData, fxRates);
+  const benchmark = getIndustryBenchmark(inputs.industry);
+  const profile = getStageProfile(inputs.stage);
+  const results = runValuationMethods(inputs);
+  const ranked = results.slice().sort((a, b) => b.confidence - a.confidence);
+  const blended = blendRanges(results);
+  const leader = ranked[0];
+
+  return {
+    businessSummary: {
+      summary: `${inputs.businessName} is a ${profile.label.toLowerCase()}-stage ${benchmark.label} company based in ${inputs.country}${inputs.revenue > 0 ? ` generating ${formatAmount(inputs.revenue)} in annual revenue` : " that has not yet generated revenue"}${inputs.annualGrowthRate > 0 ? `, growing ${formatPercent(inputs.annualGrowthRate)} a year` : ""}.`,
+      stageAssessment: profile.label,
+      keyStrengths: buildStrengths(inputs),
+      weaknessesOrRisks: buildRisks(inputs),
+    },
+    recommendedMethods: {
+      recommendedMethods: ranked.map((result) => ({
+        method: result.method,
+        confidence: result.confidence,
+        reason: result.reason,
+      })),
+    },
+    calculations: results.map((result) => ({
+      method: result.method,
+      valuationRange: toReportRange(result),
+      explanation: result.explanation,
+      calculation: result.calculation,
+      narrative: result.narrative,
+    })),
+    competitorAnalysis: {
+      competitors: inputs.competitors,
+      competitorBenchmarks: [],
+      commentary:
+        inputs.competitors.length > 0
+          ? `${inputs.businessName} competes with ${inputs.competitors.length} named competitor${inputs.competitors.length === 1 ? "" : "s"} in ${benchmark.label}, where revenue multiples typically range ${benchmark.revenueMultiple[0]}x-${benchmark.revenueMultiple[1]}x.`
+          : `No competitors were listed; ${benchmark.label} companies typically trade at ${benchmark.revenueMultiple[0]}x-${benchmark.revenueMultiple[1]}x revenue.`,
+    },
+    strategicContext: [
+      `${benchmark.label} exits typically command around ${benchmark.exitMultiple}x revenue. At the ${profile.label.toLowerCase()} stage investors underwrite a ${profile.targetReturn}x target return, which anchors the VC and First Chicago methods.`,
+      `${leader ? `${leader.method} carries the highest confidence for this profile.` : ""} ${inputs.planningToRaise > 0 ? `The planned raise of ${formatAmount(inputs.planningToRaise)} would represent about ${formatPercent(inputs.planningToRaise / Math.max(blended.upper + inputs.planningToRaise, 1))}-${formatPercent(inputs.planningToRaise / Math.max(blended.lower + inputs.planningToRaise, 1))} dilution at the blended range.` : "Raising capital would be priced off the blended range below."}`.trim(),
+      describeDocuments(wizardData),
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    finalValuation: {
+      finalRange: toReportRange(blended),
+      methodComparisons: ranked
+        .map(
+          (result) =>
+            `${result.method}: ${formatAmount(result.lower)}-${formatAmount(result.upper)} (${Math.round(result.confidence * 100)}% confidence)`,
+        )
+        .join("; "),
+      justification: `Confidence-weighted blend of ${results.length} methods suited to a ${profile.label.toLowerCase()}-stage ${benchmark.label} company.`,
+      recommendations: buildRecommendations(inputs),
+    },
+  };
+}